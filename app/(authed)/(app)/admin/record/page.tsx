@@ -59,6 +59,12 @@ interface DueRegimen {
 	isHighRisk: boolean;
 	requiresCoSign: boolean;
 	compliance: number;
+	adherence?: {
+		windowDays: number;
+		expected: number;
+		actual: number;
+		percentage: number;
+	} | null;
 	section: "due" | "later" | "prn";
 	isOverdue?: boolean;
 	minutesUntilDue?: number;
@@ -138,7 +144,13 @@ function useRecordData(
 
 	// Create record administration mutation
 	const createAdminMutation = trpc.admin.create.useMutation({
-		onSuccess: () => {
+		onSuccess: (result) => {
+			// The server draws down the inventory item as part of the record
+			for (const warning of result.warnings) {
+				toast.warning(warning);
+			}
+			utils.inventory.getSources.invalidate();
+			utils.inventory.getHouseholdInventory.invalidate();
 			// Invalidate due regimens to refresh the list
 			utils.regimen.listDue.invalidate();
 			// Refresh pending medication counts in app provider
@@ -151,18 +163,6 @@ function useRecordData(
 		},
 	});
 
-	// Inventory update mutation
-	const updateInventoryMutation = trpc.inventory.updateQuantity.useMutation({
-		onSuccess: () => {
-			utils.inventory.getSources.invalidate();
-			utils.inventory.getHouseholdInventory.invalidate();
-		},
-		onError: (error) => {
-			console.error("Failed to update inventory:", error);
-			toast.error("Failed to update inventory");
-		},
-	});
-
 	// Fetch inventory sources when a regimen is selected
 	const { data: inventorySources, isLoading: inventoryLoading } =
 		trpc.inventory.getSources.useQuery(
@@ -186,7 +186,6 @@ function useRecordData(
 					? new Error(regimensError.message)
 					: null,
 		createAdminMutation,
-		updateInventoryMutation,
 		inventorySources,
 		inventoryLoading,
 	};
@@ -423,23 +422,10 @@ async function handleOfflineAdministration(
 ) {
 	if (!state.selectedRegimen || !selectedHousehold) return;
 
+	// Inventory is decremented server-side when the queued record syncs
 	const payload = createAdminPayload(state, selectedHousehold.id);
 	await enqueue("admin.create", payload, payload.idempotencyKey);
 
-	if (state.inventorySourceId) {
-		const inventoryPayload = {
-			id: state.inventorySourceId,
-			householdId: selectedHousehold.id,
-			quantityChange: -1,
-			reason: `Administration for ${state.selectedRegimen.animalName}`,
-		};
-		await enqueue(
-			"inventory.update",
-			inventoryPayload,
-			`inventory-${state.inventorySourceId}-${Date.now()}`,
-		);
-	}
-
 	state.setStep("success");
 }
 
@@ -448,23 +434,11 @@ async function handleOnlineAdministration(
 	state: RecordState,
 	selectedHousehold: { id: string } | null,
 	createAdminMutation: ReturnType<typeof trpc.admin.create.useMutation>,
-	updateInventoryMutation: ReturnType<
-		typeof trpc.inventory.updateQuantity.useMutation
-	>,
 ) {
 	if (!state.selectedRegimen || !selectedHousehold) return;
 
 	const payload = createAdminPayload(state, selectedHousehold.id);
 	await createAdminMutation.mutateAsync(payload);
-
-	if (state.inventorySourceId) {
-		await updateInventoryMutation.mutateAsync({
-			id: state.inventorySourceId,
-			householdId: selectedHousehold.id,
-			quantityChange: -1,
-			reason: `Administration for ${state.selectedRegimen.animalName}`,
-		});
-	}
 }
 
 // Helper function to reset the state
@@ -492,7 +466,6 @@ function RecordContent() {
 		regimensLoading,
 		regimensError,
 		createAdminMutation,
-		updateInventoryMutation,
 		inventorySources,
 		inventoryLoading,
 	} = useRecordData(state, selectedHousehold, refreshPendingMeds);
@@ -520,7 +493,6 @@ function RecordContent() {
 					state,
 					selectedHousehold,
 					createAdminMutation,
-					updateInventoryMutation,
 				);
 			}
 		} catch (error) {
@@ -531,10 +503,7 @@ function RecordContent() {
 		}
 	};
 
-	const isSubmitting =
-		state.isSubmitting ||
-		createAdminMutation.isPending ||
-		updateInventoryMutation.isPending;
+	const isSubmitting = state.isSubmitting || createAdminMutation.isPending;
 
 	// Use mobile layout on mobile devices
 	if (isMobile) {
@@ -648,7 +617,9 @@ function RegimenCard({
 						{regimen.dose && ` • ${regimen.dose}`}
 					</div>
 					<div className="text-muted-foreground text-xs">
-						{regimen.compliance}% compliance
+						{regimen.adherence
+							? `${regimen.adherence.percentage}% adherence (${regimen.adherence.actual}/${regimen.adherence.expected} doses, last ${regimen.adherence.windowDays} days)`
+							: "As needed"}
 						{regimen.isHighRisk && " • High-risk medication"}
 					</div>
 				</div>
@@ -63,7 +63,7 @@ function HistoryContent() {
 			recordedAt: new Date(record.recordedAt),
 			caregiverName: "Unknown", // TODO: Join with users table
 			status: record.status as AdministrationRecord["status"],
-			cosignPending: false, // TODO: Implement cosign logic
+			cosignPending: record.coSignRequired && !record.coSignedAt,
 			sourceItem: undefined, // TODO: Join with inventory items
 			site: record.site || undefined,
 			notes: record.notes || undefined,
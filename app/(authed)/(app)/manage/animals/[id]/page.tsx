@@ -0,0 +1,112 @@
+"use client";
+
+import { FileText, Loader2, Scale } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+	DoseWarningsCard,
+	LogWeightForm,
+	WeightChart,
+	WeightHistoryList,
+} from "@/components/animals/weight-history";
+import { useApp } from "@/components/providers/app-provider";
+import { AnimalAvatar } from "@/components/ui/animal-avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/server/trpc/client";
+import { localDayISO } from "@/utils/tz";
+
+// Animal overview with its weight history and any doses the latest weight
+// puts outside the catalog range
+export default function AnimalPage() {
+	const params = useParams<{ id: string }>();
+	const animalId = params.id;
+	const { selectedHousehold, animals } = useApp();
+	const householdId = selectedHousehold?.id || "";
+	const enabled = !!householdId && !!animalId;
+
+	const { data: animal, isLoading } = trpc.animal.getById.useQuery(
+		{ id: animalId, householdId },
+		{ enabled },
+	);
+	const { data: weights } = trpc.weight.list.useQuery(
+		{ householdId, animalId },
+		{ enabled },
+	);
+
+	if (!selectedHousehold) {
+		return (
+			<p className="py-12 text-center text-muted-foreground">
+				Please select a household to view this animal
+			</p>
+		);
+	}
+
+	if (isLoading || !animal) {
+		return (
+			<div className="flex items-center justify-center gap-2 py-12">
+				<Loader2 className="h-5 w-5 animate-spin" />
+				Loading animal...
+			</div>
+		);
+	}
+
+	const listAnimal = animals.find((item) => item.id === animal.id);
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-wrap items-center justify-between gap-4">
+				<div className="flex items-center gap-3">
+					<AnimalAvatar
+						animal={{
+							id: animal.id,
+							name: animal.name,
+							species: animal.species,
+							avatar: animal.photoUrl || undefined,
+							pendingMeds: listAnimal?.pendingMeds ?? 0,
+						}}
+						size="lg"
+					/>
+					<div>
+						<h1 className="font-bold text-2xl">{animal.name}</h1>
+						<p className="text-muted-foreground">
+							{animal.breed && `${animal.breed} `}
+							{animal.species}
+							{weights?.currentWeightKg && ` · ${weights.currentWeightKg} kg`}
+						</p>
+					</div>
+				</div>
+				<Button variant="outline" size="sm" className="gap-1" asChild>
+					<Link href={`/manage/animals/${animal.id}/emergency`}>
+						<FileText className="h-3 w-3" />
+						Emergency Card
+					</Link>
+				</Button>
+			</div>
+
+			<DoseWarningsCard warnings={weights?.doseWarnings ?? []} />
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2">
+						<Scale className="h-5 w-5" />
+						Weight
+					</CardTitle>
+				</CardHeader>
+				<CardContent className="space-y-6">
+					<WeightChart entries={weights?.entries ?? []} />
+					<LogWeightForm
+						householdId={householdId}
+						animalId={animal.id}
+						today={localDayISO(new Date(), animal.timezone)}
+					/>
+					<WeightHistoryList
+						householdId={householdId}
+						animalId={animal.id}
+						entries={weights?.entries ?? []}
+					/>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { FileText, Plus, Search } from "lucide-react";
+import { FileText, Plus, Scale, Search } from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
 import { useAnimalForm } from "@/components/providers/animal-form-provider";
 import { useApp } from "@/components/providers/app-provider";
@@ -145,6 +146,12 @@ function AnimalList({
 									>
 										Edit
 									</Button>
+									<Button variant="outline" size="sm" className="gap-1" asChild>
+										<Link href={`/manage/animals/${animal.id}`}>
+											<Scale className="h-3 w-3" />
+											Weight
+										</Link>
+									</Button>
 									<Button
 										variant="outline"
 										size="sm"
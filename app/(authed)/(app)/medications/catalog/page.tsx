@@ -0,0 +1,18 @@
+"use client";
+
+import { CustomMedications } from "@/components/medication/custom-medications";
+import { useApp } from "@/components/providers/app-provider";
+
+export default function CatalogPage() {
+	const { selectedHousehold } = useApp();
+
+	if (!selectedHousehold) {
+		return (
+			<p className="py-12 text-center text-muted-foreground">
+				Please select a household to manage custom medications
+			</p>
+		);
+	}
+
+	return <CustomMedications householdId={selectedHousehold.id} />;
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { CatalogImport } from "@/components/medication/catalog-import";
+import { CatalogPromotionReview } from "@/components/medication/catalog-promotion-review";
+
+export default function CatalogReviewPage() {
+	return (
+		<div className="space-y-6">
+			<CatalogImport />
+			<CatalogPromotionReview />
+		</div>
+	);
+}
@@ -5,6 +5,7 @@ import {
 	AlertCircle,
 	AlertTriangle,
 	Calendar,
+	Download,
 	Loader2,
 	Pill,
 	Printer,
@@ -13,6 +14,7 @@ import {
 import { useParams } from "next/navigation";
 import { useMemo, useState } from "react";
 import { useApp } from "@/components/providers/app-provider";
+import { InteractionsCard } from "@/components/regimens/interaction-warnings";
 import { AnimalAvatar } from "@/components/ui/animal-avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -144,6 +146,7 @@ const generateMockReportData = (animalId: string): ReportData => ({
 			notes: null,
 		},
 	],
+	interactions: [],
 	notableEvents: [
 		{
 			id: "event-1",
@@ -168,17 +171,21 @@ const ReportContent = ({
 	animal,
 	compliance,
 	regimens,
+	interactions,
 	notableEvents,
 	useDemoMode,
 	handlePrint,
+	pdfUrl,
 }: {
 	reportPeriod: { from: Date; to: Date };
 	animal: ReportAnimal;
 	compliance: ComplianceData;
 	regimens: RegimenSummary[];
+	interactions: ReportData["interactions"];
 	notableEvents: NotableEvent[];
 	useDemoMode: boolean;
 	handlePrint: () => void;
+	pdfUrl: string;
 }) => (
 	<div className="min-h-screen bg-background">
 		{/* Print Button - hidden when printing */}
@@ -193,6 +200,14 @@ const ReportContent = ({
 							Demo Mode
 						</Badge>
 					)}
+					{!useDemoMode && (
+						<Button asChild variant="outline" className="gap-2">
+							<a href={pdfUrl} download>
+								<Download className="h-4 w-4" />
+								Download PDF
+							</a>
+						</Button>
+					)}
 					<Button onClick={handlePrint} className="gap-2">
 						<Printer className="h-4 w-4" />
 						Print Report
@@ -354,6 +369,8 @@ const ReportContent = ({
 				</CardContent>
 			</Card>
 
+			<InteractionsCard interactions={interactions} className="mb-6" />
+
 			{/* Notable Events */}
 			<Card className="mb-6">
 				<CardHeader>
@@ -504,6 +521,12 @@ export default function AnimalReportPage() {
 		window.print();
 	};
 
+	// Same period as the page, rendered on the server
+	const pdfUrl = `/api/reports/animal/${animalId}/pdf?${new URLSearchParams({
+		householdId: selectedHouseholdId,
+		...queryDates,
+	})}`;
+
 	// Early returns for different states - now simplified
 	if (isLoading && !useDemoMode) {
 		return <LoadingState />;
@@ -522,7 +545,8 @@ export default function AnimalReportPage() {
 		return null;
 	}
 
-	const { animal, compliance, regimens, notableEvents } = displayData;
+	const { animal, compliance, regimens, interactions, notableEvents } =
+		displayData;
 
 	return (
 		<ReportContent
@@ -530,9 +554,11 @@ export default function AnimalReportPage() {
 			animal={animal}
 			compliance={compliance}
 			regimens={regimens}
+			interactions={interactions}
 			notableEvents={notableEvents}
 			useDemoMode={useDemoMode}
 			handlePrint={handlePrint}
+			pdfUrl={pdfUrl}
 		/>
 	);
 }
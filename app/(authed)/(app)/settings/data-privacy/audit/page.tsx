@@ -1,8 +1,17 @@
 "use client";
 
-import { ArrowLeft, Database, Download, Filter } from "lucide-react";
+import {
+	ArrowLeft,
+	Database,
+	Download,
+	Filter,
+	ShieldAlert,
+	ShieldCheck,
+} from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useApp } from "@/components/providers/app-provider";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,7 +21,6 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import {
 	Select,
 	SelectContent,
@@ -20,104 +28,142 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { trpc } from "@/server/trpc/client";
 
 interface AuditEntry {
 	id: string;
-	userId: string;
-	userName: string;
+	userName: string | null;
+	userEmail: string;
 	action: string;
-	details: string;
-	timestamp: Date;
-	ipAddress?: string;
+	resourceType: string;
+	resourceId: string | null;
+	timestamp: string;
+	ipAddress: string | null;
 }
 
-// Mock audit data - replace with tRPC
-const mockAuditEntries: AuditEntry[] = [
-	{
-		id: "1",
-		userId: "user-1",
-		userName: "John Smith",
-		action: "admin.create",
-		details: "Recorded Rimadyl for Buddy",
-		timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
-		ipAddress: "192.168.1.100",
-	},
-	{
-		id: "2",
-		userId: "user-2",
-		userName: "Jane Doe",
-		action: "inventory.set_in_use",
-		details: "Set Insulin as in use for Whiskers",
-		timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000),
-		ipAddress: "192.168.1.101",
-	},
-	{
-		id: "3",
-		userId: "user-1",
-		userName: "John Smith",
-		action: "regimen.create",
-		details: "Created PRN regimen for Buddy - Pain Relief",
-		timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000),
-		ipAddress: "192.168.1.100",
-	},
-	{
-		id: "4",
-		userId: "user-2",
-		userName: "Jane Doe",
-		action: "admin.edit",
-		details: "Updated administration time for Whiskers - Insulin",
-		timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-		ipAddress: "192.168.1.101",
-	},
-	{
-		id: "5",
-		userId: "user-1",
-		userName: "John Smith",
-		action: "inventory.add",
-		details: "Added Rimadyl 75mg - 30 tablets",
-		timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-		ipAddress: "192.168.1.100",
-	},
-];
-
-const actionTypes = [
-	{ value: "all", label: "All Actions" },
-	{ value: "admin", label: "Administrations" },
-	{ value: "inventory", label: "Inventory" },
+const resourceTypes = [
+	{ value: "all", label: "All Resources" },
+	{ value: "administration", label: "Administrations" },
+	{ value: "inventory_item", label: "Inventory" },
 	{ value: "regimen", label: "Regimens" },
 	{ value: "animal", label: "Animals" },
 	{ value: "household", label: "Household" },
+	{ value: "membership", label: "Members" },
 ];
 
+function downloadFile(filename: string, contentType: string, content: string) {
+	const blob = new Blob([content], { type: contentType });
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = filename;
+	a.click();
+	URL.revokeObjectURL(url);
+}
+
+function ChainStatusBadge({ householdId }: { householdId: string }) {
+	const { data: chain } = trpc.audit.verifyChain.useQuery(
+		{ householdId },
+		{ enabled: !!householdId },
+	);
+
+	if (!chain) return null;
+
+	if (!chain.valid) {
+		return (
+			<Badge variant="destructive" className="gap-1">
+				<ShieldAlert className="h-3 w-3" />
+				Chain broken at entry #{chain.firstBreak?.sequence ?? "?"}
+			</Badge>
+		);
+	}
+
+	return (
+		<Badge
+			variant="outline"
+			className="gap-1 border-green-600 text-green-700 dark:text-green-400"
+			title={`${chain.checked} entries verified`}
+		>
+			<ShieldCheck className="h-3 w-3" />
+			Verified
+		</Badge>
+	);
+}
+
+function AuditEntryRow({
+	entry,
+	isClient,
+}: {
+	entry: AuditEntry;
+	isClient: boolean;
+}) {
+	return (
+		<div className="flex flex-col gap-2 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between">
+			<div className="flex-1 space-y-1">
+				<div className="flex flex-wrap items-center gap-2">
+					<span className="font-medium">
+						{entry.userName || entry.userEmail}
+					</span>
+					<Badge variant="outline" className="text-xs">
+						{entry.resourceType}.{entry.action.toLowerCase()}
+					</Badge>
+				</div>
+				{entry.resourceId && (
+					<div className="font-mono text-muted-foreground text-xs">
+						{entry.resourceId}
+					</div>
+				)}
+				<div className="text-muted-foreground text-xs">
+					{isClient ? new Date(entry.timestamp).toLocaleString() : "..."}
+					{entry.ipAddress && ` • ${entry.ipAddress}`}
+				</div>
+			</div>
+		</div>
+	);
+}
+
 function AuditLogContent() {
 	const router = useRouter();
-	const [auditEntries] = useState(mockAuditEntries);
-	const [filterUser, setFilterUser] = useState("");
-	const [filterAction, setFilterAction] = useState("all");
+	const { selectedHousehold, user } = useApp();
+	const householdId = selectedHousehold?.id ?? "";
+	const [filterUser, setFilterUser] = useState("all");
+	const [filterResource, setFilterResource] = useState("all");
 	const [isClient, setIsClient] = useState(false);
 
 	useEffect(() => {
 		setIsClient(true);
 	}, []);
 
-	const filteredEntries = auditEntries.filter((entry) => {
-		if (
-			filterUser &&
-			!entry.userName.toLowerCase().includes(filterUser.toLowerCase())
-		) {
-			return false;
-		}
-		if (filterAction !== "all" && !entry.action.startsWith(filterAction)) {
-			return false;
-		}
-		return true;
-	});
+	const { data: members } = trpc.household.getMembers.useQuery(
+		{ householdId },
+		{ enabled: !!householdId },
+	);
+	const isOwner = members?.some(
+		(member) => member.userId === user?.id && member.role === "OWNER",
+	);
 
-	const handleExport = () => {
-		// TODO: Implement export functionality
-		console.log("Exporting audit log...");
+	const filters = {
+		householdId,
+		userId: filterUser === "all" ? undefined : filterUser,
+		resourceType: filterResource === "all" ? undefined : filterResource,
 	};
 
+	const auditQuery = trpc.audit.list.useInfiniteQuery(filters, {
+		enabled: !!householdId,
+		getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+	});
+	const entries = auditQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+	const exportMutation = trpc.audit.export.useMutation({
+		onSuccess: (file) => {
+			downloadFile(file.filename, file.contentType, file.content);
+		},
+		onError: (error) => {
+			console.error("Failed to export audit log:", error);
+			toast.error("Failed to export audit log");
+		},
+	});
+
 	return (
 		<div className="space-y-6">
 			<div className="flex items-center gap-4">
@@ -144,20 +190,32 @@ function AuditLogContent() {
 							<CardTitle className="flex items-center gap-2">
 								<Database className="h-5 w-5" />
 								Activity History
+								<ChainStatusBadge householdId={householdId} />
 							</CardTitle>
 							<CardDescription>
-								{filteredEntries.length} entries found
+								{entries.length}
+								{auditQuery.hasNextPage ? "+" : ""} entries found
 							</CardDescription>
 						</div>
-						<Button
-							variant="outline"
-							size="sm"
-							onClick={handleExport}
-							className="gap-2"
-						>
-							<Download className="h-4 w-4" />
-							Export
-						</Button>
+						{isOwner && (
+							<div className="flex gap-2">
+								{(["csv", "json"] as const).map((format) => (
+									<Button
+										key={format}
+										variant="outline"
+										size="sm"
+										onClick={() =>
+											exportMutation.mutate({ ...filters, format })
+										}
+										disabled={exportMutation.isPending}
+										className="gap-2"
+									>
+										<Download className="h-4 w-4" />
+										{format.toUpperCase()}
+									</Button>
+								))}
+							</div>
+						)}
 					</div>
 				</CardHeader>
 				<CardContent className="space-y-4">
@@ -165,19 +223,26 @@ function AuditLogContent() {
 					<div className="flex flex-col gap-4 sm:flex-row">
 						<div className="flex flex-1 items-center gap-2">
 							<Filter className="h-4 w-4 text-muted-foreground" />
-							<Input
-								placeholder="Filter by user..."
-								value={filterUser}
-								onChange={(e) => setFilterUser(e.target.value)}
-								className="flex-1"
-							/>
+							<Select value={filterUser} onValueChange={setFilterUser}>
+								<SelectTrigger className="flex-1">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="all">All Users</SelectItem>
+									{members?.map((member) => (
+										<SelectItem key={member.userId} value={member.userId}>
+											{member.user.name || member.user.email}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
 						</div>
-						<Select value={filterAction} onValueChange={setFilterAction}>
+						<Select value={filterResource} onValueChange={setFilterResource}>
 							<SelectTrigger className="w-full sm:w-[200px]">
 								<SelectValue />
 							</SelectTrigger>
 							<SelectContent>
-								{actionTypes.map((type) => (
+								{resourceTypes.map((type) => (
 									<SelectItem key={type.value} value={type.value}>
 										{type.label}
 									</SelectItem>
@@ -188,35 +253,27 @@ function AuditLogContent() {
 
 					{/* Entries */}
 					<div className="space-y-3">
-						{filteredEntries.map((entry) => (
-							<div
-								key={entry.id}
-								className="flex flex-col gap-2 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
-							>
-								<div className="flex-1 space-y-1">
-									<div className="flex flex-wrap items-center gap-2">
-										<span className="font-medium">{entry.userName}</span>
-										<Badge variant="outline" className="text-xs">
-											{entry.action}
-										</Badge>
-									</div>
-									<div className="text-muted-foreground text-sm">
-										{entry.details}
-									</div>
-									<div className="text-muted-foreground text-xs">
-										{isClient ? entry.timestamp.toLocaleString() : "..."}
-										{entry.ipAddress && ` • ${entry.ipAddress}`}
-									</div>
-								</div>
-							</div>
+						{entries.map((entry) => (
+							<AuditEntryRow key={entry.id} entry={entry} isClient={isClient} />
 						))}
 
-						{filteredEntries.length === 0 && (
+						{entries.length === 0 && !auditQuery.isLoading && (
 							<div className="py-8 text-center text-muted-foreground">
 								<Database className="mx-auto mb-2 h-8 w-8 opacity-50" />
 								<p>No audit entries found</p>
 							</div>
 						)}
+
+						{auditQuery.hasNextPage && (
+							<Button
+								variant="outline"
+								className="w-full"
+								onClick={() => auditQuery.fetchNextPage()}
+								disabled={auditQuery.isFetchingNextPage}
+							>
+								{auditQuery.isFetchingNextPage ? "Loading..." : "Load more"}
+							</Button>
+						)}
 					</div>
 				</CardContent>
 			</Card>
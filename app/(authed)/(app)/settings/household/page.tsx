@@ -1,7 +1,16 @@
 "use client";
 
 import { Suspense } from "react";
-import { type Member, MemberList } from "@/components/household/member-list";
+import {
+	type Member,
+	MemberList,
+	type PendingInvite,
+} from "@/components/household/member-list";
+import { ShareLinks } from "@/components/household/share-links";
+import {
+	TemporaryAccess,
+	type TemporaryMember,
+} from "@/components/household/temporary-access";
 import { useApp } from "@/components/providers/app-provider";
 import { trpc } from "@/server/trpc/client";
 
@@ -26,6 +35,7 @@ function HouseholdContent() {
 			role: member.role,
 			joinedAt: new Date(member.createdAt),
 			lastActiveAt: member.updatedAt ? new Date(member.updatedAt) : undefined,
+			accessUntil: member.validUntil ? new Date(member.validUntil) : undefined,
 		})) ?? [];
 
 	// Find the current user's role in the household
@@ -34,6 +44,36 @@ function HouseholdContent() {
 	);
 	const userRole = currentUserMembership?.role;
 
+	// Only owners can see and manage outstanding invitations
+	const { data: invitesData } = trpc.household.listInvites.useQuery(
+		{ householdId: selectedHousehold?.id ?? "" },
+		{ enabled: !!selectedHousehold?.id && userRole === "OWNER" },
+	);
+
+	// Time-limited memberships are managed separately from permanent ones
+	const temporaryMembers: TemporaryMember[] =
+		membersData
+			?.filter((member) => member.validFrom || member.validUntil)
+			.map((member) => ({
+				id: member.id,
+				email: member.user.email,
+				name: member.user.name || undefined,
+				role: member.role,
+				validFrom: member.validFrom ? new Date(member.validFrom) : null,
+				validUntil: member.validUntil ? new Date(member.validUntil) : null,
+				animalIds: member.animalIds,
+			})) ?? [];
+
+	const pendingInvites: PendingInvite[] =
+		invitesData?.map((invite) => ({
+			id: invite.id,
+			email: invite.email,
+			role: invite.role,
+			invitedBy: invite.invitedBy.name || invite.invitedBy.email,
+			invitedAt: new Date(invite.createdAt),
+			expiresAt: new Date(invite.expiresAt),
+		})) ?? [];
+
 	if (!selectedHousehold) {
 		return (
 			<div className="space-y-6">
@@ -53,7 +93,22 @@ function HouseholdContent() {
 					<div className="h-24 rounded-lg bg-muted" />
 				</div>
 			) : (
-				<MemberList members={members} userRole={userRole} />
+				<>
+					<MemberList
+						members={members}
+						pendingInvites={pendingInvites}
+						userRole={userRole}
+					/>
+					{userRole === "OWNER" && (
+						<>
+							<TemporaryAccess
+								householdId={selectedHousehold.id}
+								members={temporaryMembers}
+							/>
+							<ShareLinks householdId={selectedHousehold.id} />
+						</>
+					)}
+				</>
 			)}
 		</div>
 	);
@@ -0,0 +1,113 @@
+import { Link2Off, Siren } from "lucide-react";
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import {
+	AnimalInfoCard,
+	calculateAge,
+	EmergencyContactsCard,
+	MedicalAlertsCard,
+	MedicationsCard,
+	toEmergencyAnimal,
+} from "@/components/emergency/emergency-details";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+// Access is audited in a transaction, which needs the pooled client
+import { dbPooled as db } from "@/db/drizzle";
+import { getEmergencyProfile } from "@/server/api/routers/animals";
+import { getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	openShareLink,
+	type ShareLinkResult,
+} from "@/server/utils/share-links";
+import { toAnimalLocal } from "@/utils/tz";
+
+export const metadata: Metadata = {
+	title: "Pet Emergency Information",
+	robots: { index: false, follow: false },
+};
+
+const unavailableMessages: Record<
+	Exclude<ShareLinkResult, { ok: true }>["reason"],
+	string
+> = {
+	INVALID: "This emergency code is invalid.",
+	REVOKED: "This emergency code was replaced by the pet's owner.",
+	EXPIRED: "This emergency code has expired.",
+};
+
+function Unavailable({ message }: { message: string }) {
+	return (
+		<div className="container mx-auto flex max-w-md items-center px-4 py-16">
+			<Card className="w-full">
+				<CardHeader className="text-center">
+					<div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+						<Link2Off className="h-6 w-6 text-muted-foreground" />
+					</div>
+					<CardTitle>Information Unavailable</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<p className="text-center text-muted-foreground">{message}</p>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
+
+// Read-only emergency view opened from the QR code on a printed emergency card
+export default async function EmergencyInfoPage({
+	params,
+}: {
+	params: Promise<{ token: string }>;
+}) {
+	const { token } = await params;
+
+	const result = await openShareLink(
+		db,
+		token,
+		getAuditMetadata({ headers: await headers() }),
+		"EMERGENCY",
+	);
+	if (!result.ok) {
+		return <Unavailable message={unavailableMessages[result.reason]} />;
+	}
+
+	const { link } = result;
+	const profile = await getEmergencyProfile(
+		db,
+		link.animalId,
+		link.householdId,
+	);
+	if (!profile) {
+		return <Unavailable message="This pet's record is no longer available." />;
+	}
+
+	const animal = toEmergencyAnimal(profile.animal);
+
+	return (
+		<div className="container mx-auto max-w-4xl px-4 py-10">
+			<div className="mb-6 space-y-1">
+				<div className="flex items-center gap-2 text-red-600 text-sm">
+					<Siren className="h-4 w-4" />
+					Pet emergency information · read only
+				</div>
+				<h1 className="font-bold text-3xl">{animal.name}</h1>
+				<p className="text-muted-foreground">
+					If this pet is lost or injured, call the owner or veterinarian below.
+				</p>
+			</div>
+
+			<MedicalAlertsCard animalData={animal} />
+			<EmergencyContactsCard animalData={animal} owners={profile.owners} />
+			<MedicationsCard regimens={profile.regimens} />
+			<AnimalInfoCard animalData={animal} age={calculateAge(animal.dob)} />
+
+			<p className="text-center text-muted-foreground text-xs">
+				This code expires{" "}
+				{toAnimalLocal(
+					new Date(link.expiresAt),
+					profile.animal.timezone,
+				).toFormat("LLL d, yyyy")}
+				.
+			</p>
+		</div>
+	);
+}
@@ -0,0 +1,95 @@
+import { eq } from "drizzle-orm";
+import { Mail } from "lucide-react";
+import { InvitationResponse } from "@/components/household/invitation-response";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { db } from "@/db/drizzle";
+import { households, invitations, users } from "@/db/schema";
+import {
+	getInvitationStatus,
+	hashInvitationToken,
+	type InvitationStatus,
+} from "@/server/utils/invitations";
+
+const unavailableMessages: Record<
+	Exclude<InvitationStatus, "PENDING">,
+	string
+> = {
+	ACCEPTED: "This invitation has already been accepted.",
+	DECLINED: "This invitation was declined.",
+	REVOKED: "This invitation was revoked by the household owner.",
+	EXPIRED: "This invitation has expired. Ask the household owner to resend it.",
+};
+
+const roleLabels = {
+	OWNER: "an owner",
+	CAREGIVER: "a caregiver",
+	VETREADONLY: "a vet (read-only)",
+};
+
+export default async function InvitePage({
+	params,
+}: {
+	params: Promise<{ token: string }>;
+}) {
+	const { token } = await params;
+
+	const [invitation] = await db
+		.select({
+			email: invitations.email,
+			role: invitations.role,
+			expiresAt: invitations.expiresAt,
+			acceptedAt: invitations.acceptedAt,
+			declinedAt: invitations.declinedAt,
+			revokedAt: invitations.revokedAt,
+			householdName: households.name,
+			inviterName: users.name,
+			inviterEmail: users.email,
+		})
+		.from(invitations)
+		.innerJoin(households, eq(invitations.householdId, households.id))
+		.innerJoin(users, eq(invitations.invitedBy, users.id))
+		.where(eq(invitations.tokenHash, hashInvitationToken(token)))
+		.limit(1);
+
+	const status = invitation ? getInvitationStatus(invitation) : null;
+
+	return (
+		<div className="container mx-auto flex max-w-md items-center px-4 py-16">
+			<Card className="w-full">
+				<CardHeader className="text-center">
+					<div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+						<Mail className="h-6 w-6 text-primary" />
+					</div>
+					<CardTitle>Household Invitation</CardTitle>
+					{invitation && status === "PENDING" && (
+						<CardDescription>
+							{invitation.inviterName || invitation.inviterEmail} invited{" "}
+							{invitation.email} to join{" "}
+							<span className="font-medium">{invitation.householdName}</span> as{" "}
+							{roleLabels[invitation.role]}.
+						</CardDescription>
+					)}
+				</CardHeader>
+				<CardContent>
+					{!invitation || !status ? (
+						<p className="text-center text-muted-foreground">
+							This invitation link is invalid.
+						</p>
+					) : status === "PENDING" ? (
+						<InvitationResponse token={token} email={invitation.email} />
+					) : (
+						<p className="text-center text-muted-foreground">
+							{unavailableMessages[status]}
+						</p>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,292 @@
+import { Link2Off, Stethoscope } from "lucide-react";
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { InteractionsCard } from "@/components/regimens/interaction-warnings";
+import { Badge } from "@/components/ui/badge";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+// Access is audited in a transaction, which needs the pooled client
+import { dbPooled as db } from "@/db/drizzle";
+import {
+	getAnimalReport,
+	getRecentAdministrations,
+} from "@/server/api/routers/reports";
+import { getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	openShareLink,
+	type ShareLinkResult,
+} from "@/server/utils/share-links";
+import { toAnimalLocal } from "@/utils/tz";
+
+export const metadata: Metadata = {
+	title: "Shared Medication Record",
+	robots: { index: false, follow: false },
+};
+
+const unavailableMessages: Record<
+	Exclude<ShareLinkResult, { ok: true }>["reason"],
+	string
+> = {
+	INVALID: "This link is invalid.",
+	REVOKED: "This link was revoked by the pet's owner.",
+	EXPIRED: "This link has expired. Ask the pet's owner for a new one.",
+};
+
+const statusLabels = {
+	ON_TIME: "On time",
+	LATE: "Late",
+	VERY_LATE: "Very late",
+	MISSED: "Missed",
+	PRN: "As needed",
+};
+
+const formatLocal = (value: string | Date, timezone: string) =>
+	toAnimalLocal(new Date(value), timezone).toFormat("LLL d, yyyy h:mm a");
+
+function Unavailable({ message }: { message: string }) {
+	return (
+		<div className="container mx-auto flex max-w-md items-center px-4 py-16">
+			<Card className="w-full">
+				<CardHeader className="text-center">
+					<div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+						<Link2Off className="h-6 w-6 text-muted-foreground" />
+					</div>
+					<CardTitle>Record Unavailable</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<p className="text-center text-muted-foreground">{message}</p>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
+
+// Read-only view of one animal's record for a vet, authorized by the share token
+export default async function SharedRecordPage({
+	params,
+}: {
+	params: Promise<{ token: string }>;
+}) {
+	const { token } = await params;
+
+	const result = await openShareLink(
+		db,
+		token,
+		getAuditMetadata({ headers: await headers() }),
+	);
+	if (!result.ok) {
+		return <Unavailable message={unavailableMessages[result.reason]} />;
+	}
+
+	const { link } = result;
+	const [report, recentDoses] = await Promise.all([
+		getAnimalReport(db, {
+			animalId: link.animalId,
+			householdId: link.householdId,
+		}),
+		getRecentAdministrations(db, link.animalId, link.householdId),
+	]);
+	const {
+		animal,
+		compliance,
+		regimens,
+		interactions,
+		notableEvents,
+		reportPeriod,
+	} = report;
+	const timezone = animal.timezone;
+
+	return (
+		<div className="container mx-auto max-w-4xl space-y-6 px-4 py-10">
+			<div className="space-y-1">
+				<div className="flex items-center gap-2 text-muted-foreground text-sm">
+					<Stethoscope className="h-4 w-4" />
+					Shared medication record · read only
+				</div>
+				<h1 className="font-bold text-3xl">{animal.name}</h1>
+				<p className="text-muted-foreground">
+					{[animal.breed, animal.species].filter(Boolean).join(" ")}
+					{animal.weightKg && ` · ${animal.weightKg} kg`}
+				</p>
+				<p className="text-muted-foreground text-sm">
+					Allergies:{" "}
+					{animal.allergies.length > 0
+						? animal.allergies.join(", ")
+						: "None recorded"}{" "}
+					· Conditions:{" "}
+					{animal.conditions.length > 0
+						? animal.conditions.join(", ")
+						: "None recorded"}
+				</p>
+			</div>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Compliance</CardTitle>
+					<CardDescription>
+						{formatLocal(reportPeriod.from, timezone)} –{" "}
+						{formatLocal(reportPeriod.to, timezone)}
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+					<div>
+						<div className="font-bold text-2xl">{compliance.adherencePct}%</div>
+						<p className="text-muted-foreground text-sm">
+							{compliance.completed} of {compliance.scheduled} doses
+						</p>
+					</div>
+					<div>
+						<div className="font-bold text-2xl">{compliance.streak}</div>
+						<p className="text-muted-foreground text-sm">
+							days without missed doses
+						</p>
+					</div>
+					<div>
+						<div className="font-bold text-2xl">{compliance.late}</div>
+						<p className="text-muted-foreground text-sm">late doses</p>
+					</div>
+					<div>
+						<div className="font-bold text-2xl">{compliance.missed}</div>
+						<p className="text-muted-foreground text-sm">missed doses</p>
+					</div>
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Active Medications</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{regimens.length === 0 ? (
+						<p className="text-muted-foreground">No active medications.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Medication</TableHead>
+									<TableHead>Route</TableHead>
+									<TableHead>Schedule</TableHead>
+									<TableHead className="text-right">Adherence</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{regimens.map((regimen) => (
+									<TableRow key={regimen.id}>
+										<TableCell>
+											<div className="font-medium">
+												{regimen.medicationName} {regimen.strength}
+											</div>
+											{regimen.notes && (
+												<div className="text-muted-foreground text-xs">
+													{regimen.notes}
+												</div>
+											)}
+										</TableCell>
+										<TableCell>{regimen.route}</TableCell>
+										<TableCell>{regimen.schedule}</TableCell>
+										<TableCell className="text-right">
+											{regimen.adherence}%
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			<InteractionsCard interactions={interactions} />
+
+			<Card>
+				<CardHeader>
+					<CardTitle>Recent Doses</CardTitle>
+					<CardDescription>Times are in {timezone}</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{recentDoses.length === 0 ? (
+						<p className="text-muted-foreground">No doses recorded yet.</p>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Given</TableHead>
+									<TableHead>Medication</TableHead>
+									<TableHead>Dose</TableHead>
+									<TableHead>Status</TableHead>
+									<TableHead>Notes</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{recentDoses.map((dose) => (
+									<TableRow key={dose.id}>
+										<TableCell className="whitespace-nowrap">
+											{formatLocal(dose.recordedAt, timezone)}
+										</TableCell>
+										<TableCell>
+											{dose.medicationName} {dose.strength}
+										</TableCell>
+										<TableCell>{dose.dose}</TableCell>
+										<TableCell>
+											<Badge
+												variant={
+													dose.status === "MISSED" || dose.adverseEvent
+														? "destructive"
+														: "secondary"
+												}
+											>
+												{dose.adverseEvent
+													? "Adverse event"
+													: statusLabels[dose.status]}
+											</Badge>
+										</TableCell>
+										<TableCell className="text-muted-foreground text-sm">
+											{dose.notes}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+
+			{notableEvents.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Notable Events</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-3">
+						{notableEvents.map((event) => (
+							<div key={event.id} className="rounded-lg border p-3">
+								<div className="flex items-center justify-between">
+									<span className="font-medium">{event.medication}</span>
+									<span className="text-muted-foreground text-sm">
+										{formatLocal(event.date, timezone)}
+									</span>
+								</div>
+								<p className="text-muted-foreground text-sm">{event.note}</p>
+							</div>
+						))}
+					</CardContent>
+				</Card>
+			)}
+
+			<p className="text-center text-muted-foreground text-xs">
+				This link expires {formatLocal(link.expiresAt, timezone)}.
+			</p>
+		</div>
+	);
+}
@@ -0,0 +1,71 @@
+import { currentUser } from "@clerk/nextjs/server";
+import { type NextRequest, NextResponse } from "next/server";
+import { dbPooled, dbUnpooled } from "@/db/drizzle";
+import {
+	applyCatalogImport,
+	planCatalogImport,
+} from "@/server/utils/catalog-import";
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+// Imports a formulary CSV into the shared catalog. Without commit=true the
+// upload is a dry run that returns the diff report; a commit re-plans the
+// same file and refuses to write while any row has errors.
+export async function POST(request: NextRequest) {
+	const clerkUser = await currentUser();
+	if (!clerkUser) {
+		return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+	}
+	if (clerkUser.publicMetadata?.catalogAdmin !== true) {
+		return NextResponse.json(
+			{ error: "You must be a catalog admin to import medications" },
+			{ status: 403 },
+		);
+	}
+
+	const formData = await request.formData().catch(() => null);
+	const file = formData?.get("file");
+	if (!(file instanceof File)) {
+		return NextResponse.json(
+			{ error: "Upload a CSV file in the 'file' field" },
+			{ status: 400 },
+		);
+	}
+	if (file.size > MAX_FILE_BYTES) {
+		return NextResponse.json(
+			{ error: "The file is larger than 2 MB" },
+			{ status: 413 },
+		);
+	}
+	const commit = formData?.get("commit") === "true";
+
+	try {
+		const report = await planCatalogImport(dbUnpooled, await file.text());
+
+		if (!commit) {
+			return NextResponse.json({ committed: false, report });
+		}
+		if (report.errors.length > 0) {
+			return NextResponse.json(
+				{ error: "Fix the rows with errors before importing", report },
+				{ status: 422 },
+			);
+		}
+
+		// The import is one transaction, which needs the pooled client
+		const result = await applyCatalogImport(dbPooled, report);
+		console.info(
+			`Catalog import by ${clerkUser.id}: ${result.created} created, ${result.updated} updated`,
+		);
+		return NextResponse.json({ committed: true, report, ...result });
+	} catch (error) {
+		console.error("Catalog import error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to import medications",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
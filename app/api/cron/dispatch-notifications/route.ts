@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db/drizzle";
+import { drainNotifications } from "@/server/jobs/dispatch-notifications";
+import { authorizeCron } from "@/server/utils/cron-auth";
+
+export async function GET(request: NextRequest) {
+	const unauthorized = authorizeCron(request);
+	if (unauthorized) return unauthorized;
+
+	try {
+		const result = await drainNotifications(db);
+
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		console.error("Notification dispatch error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to dispatch notifications",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
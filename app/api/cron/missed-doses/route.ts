@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db/drizzle";
+import { materializeMissedDoses } from "@/server/jobs/missed-doses";
+import { authorizeCron } from "@/server/utils/cron-auth";
+
+export async function GET(request: NextRequest) {
+	const unauthorized = authorizeCron(request);
+	if (unauthorized) return unauthorized;
+
+	try {
+		const lookback = Number(request.nextUrl.searchParams.get("lookbackHours"));
+		const result = await materializeMissedDoses(db, {
+			lookbackHours: lookback > 0 ? lookback : undefined,
+		});
+
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		console.error("Missed dose job error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to materialize missed doses",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db/drizzle";
+import { planDoseReminders } from "@/server/jobs/plan-reminders";
+import { authorizeCron } from "@/server/utils/cron-auth";
+
+export async function GET(request: NextRequest) {
+	const unauthorized = authorizeCron(request);
+	if (unauthorized) return unauthorized;
+
+	try {
+		const horizon = Number(request.nextUrl.searchParams.get("horizonHours"));
+		const result = await planDoseReminders(db, {
+			horizonHours: horizon > 0 ? horizon : undefined,
+		});
+
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		console.error("Reminder planning error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to plan dose reminders",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server";
+// Expiry and its audit entry share a transaction, which needs the pooled client
+import { dbPooled as db } from "@/db/drizzle";
+import { expireTemporaryAccess } from "@/server/jobs/expire-temporary-access";
+import { authorizeCron } from "@/server/utils/cron-auth";
+
+export async function GET(request: NextRequest) {
+	const unauthorized = authorizeCron(request);
+	if (unauthorized) return unauthorized;
+
+	try {
+		const result = await expireTemporaryAccess(db);
+
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		console.error("Temporary access expiry job error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to expire temporary access",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
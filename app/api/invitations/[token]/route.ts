@@ -0,0 +1,117 @@
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { type NextRequest, NextResponse } from "next/server";
+import { dbPooled as db } from "@/db/drizzle";
+import { syncUserToDatabase } from "@/server/api/clerk-sync";
+import { buildClerkUserData } from "@/server/api/trpc/clerk-context-helpers";
+import { getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	acceptInvitation,
+	declineInvitation,
+	type InvitationResult,
+} from "@/server/utils/invitations";
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// Map a failed invitation lookup to an HTTP response
+function invitationError(
+	reason: Exclude<InvitationResult, { ok: true }>["reason"],
+) {
+	if (reason === "NOT_FOUND") {
+		return NextResponse.json(
+			{ error: "Invitation not found" },
+			{ status: 404 },
+		);
+	}
+
+	if (reason === "EMAIL_MISMATCH") {
+		return NextResponse.json(
+			{
+				error:
+					"This invitation was sent to a different email address. Sign in with the invited address to accept it.",
+				reason,
+			},
+			{ status: 403 },
+		);
+	}
+
+	return NextResponse.json(
+		{
+			error: `Invitation is no longer valid (${reason.toLowerCase()})`,
+			reason,
+		},
+		{ status: 410 },
+	);
+}
+
+// Accept: links the invitation to the signed-in Clerk user, creating their
+// database user first when they have just signed up. Only the invited,
+// verified email address can accept.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+	const { token } = await params;
+
+	try {
+		const authResult = await auth();
+		const clerkUser = await currentUser();
+
+		if (!authResult?.userId || !clerkUser) {
+			return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+		}
+
+		const dbUser = await syncUserToDatabase(
+			buildClerkUserData(authResult.userId, clerkUser),
+		);
+
+		// Clerk only marks an address verified once its owner proved control of it
+		const verifiedEmails = clerkUser.emailAddresses
+			.filter((address) => address.verification?.status === "verified")
+			.map((address) => address.emailAddress);
+
+		const result = await acceptInvitation(
+			db,
+			token,
+			{ ...dbUser, verifiedEmails },
+			getAuditMetadata({ headers: request.headers, auth: authResult }),
+		);
+		if (!result.ok) return invitationError(result.reason);
+
+		return NextResponse.json({
+			success: true,
+			householdId: result.invitation.householdId,
+			role: result.invitation.role,
+		});
+	} catch (error) {
+		console.error("Invitation accept error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to accept invitation",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
+
+// Decline: the token alone is enough, so invitees can decline without an account
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+	const { token } = await params;
+
+	try {
+		const result = await declineInvitation(
+			db,
+			token,
+			getAuditMetadata({ headers: request.headers }),
+		);
+		if (!result.ok) return invitationError(result.reason);
+
+		return NextResponse.json({ success: true });
+	} catch (error) {
+		console.error("Invitation decline error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to decline invitation",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,36 @@
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { db } from "@/db/drizzle";
+import { users } from "@/db/schema";
+import { createUnreadCountStream } from "@/server/utils/notification-center";
+
+export const dynamic = "force-dynamic";
+
+// Pushes the signed-in user's unread notification count to the notification
+// center as it changes, so the client doesn't have to poll for it
+export async function GET(request: NextRequest) {
+	const { userId: clerkUserId } = await auth();
+	if (!clerkUserId) {
+		return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+	}
+
+	const [user] = await db
+		.select({ id: users.id })
+		.from(users)
+		.where(eq(users.clerkUserId, clerkUserId))
+		.limit(1);
+	if (!user) {
+		return NextResponse.json({ error: "User not found" }, { status: 404 });
+	}
+
+	return new Response(createUnreadCountStream(db, user.id, request.signal), {
+		headers: {
+			"Content-Type": "text/event-stream; charset=utf-8",
+			"Cache-Control": "no-store, no-transform",
+			Connection: "keep-alive",
+			// Stop nginx-style proxies from buffering events
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
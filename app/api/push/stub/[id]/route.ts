@@ -0,0 +1,80 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+	deleteStubDevice,
+	getStubDevice,
+	isPushStubEnabled,
+} from "@/server/utils/push-stub";
+import {
+	decryptPayload,
+	verifyVapidAuthorization,
+} from "@/server/utils/web-push";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = () =>
+	NextResponse.json({ error: "Not found" }, { status: 404 });
+
+// Receives a push like a real push service: checks the VAPID signature,
+// decrypts the body with the stub device's keys and keeps it for inspection.
+// Unknown or deleted devices answer 410 Gone, as expired subscriptions do.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+	if (!isPushStubEnabled()) return notFound();
+
+	const device = getStubDevice((await params).id);
+	if (!device) {
+		return NextResponse.json(
+			{ error: "Subscription expired" },
+			{ status: 410 },
+		);
+	}
+
+	const vapid = verifyVapidAuthorization(
+		request.headers.get("authorization"),
+		request.nextUrl.origin,
+	);
+	if (!vapid) {
+		return NextResponse.json(
+			{ error: "Invalid VAPID authorization" },
+			{ status: 401 },
+		);
+	}
+	if (request.headers.get("content-encoding") !== "aes128gcm") {
+		return NextResponse.json(
+			{ error: "Content-Encoding must be aes128gcm" },
+			{ status: 415 },
+		);
+	}
+
+	try {
+		const body = Buffer.from(await request.arrayBuffer());
+		const payload = JSON.parse(decryptPayload(body, device));
+		device.messages.push({ receivedAt: new Date().toISOString(), payload });
+		return new Response(null, { status: 201 });
+	} catch (error) {
+		return NextResponse.json(
+			{
+				error: "Failed to decrypt push message",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 400 },
+		);
+	}
+}
+
+// Messages delivered to the stub device so far
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+	if (!isPushStubEnabled()) return notFound();
+
+	const device = getStubDevice((await params).id);
+	if (!device) return notFound();
+
+	return NextResponse.json({ messages: device.messages });
+}
+
+// Forget the device, so the next push to it simulates an expired endpoint
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+	if (!isPushStubEnabled()) return notFound();
+
+	deleteStubDevice((await params).id);
+	return new Response(null, { status: 204 });
+}
@@ -0,0 +1,14 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createStubDevice, isPushStubEnabled } from "@/server/utils/push-stub";
+
+// Development-only: registers a fake browser with the stub push service and
+// returns a subscription that can be stored like a real one
+export async function POST(request: NextRequest) {
+	if (!isPushStubEnabled()) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	return NextResponse.json(createStubDevice(request.nextUrl.origin), {
+		status: 201,
+	});
+}
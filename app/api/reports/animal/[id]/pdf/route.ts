@@ -0,0 +1,59 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+import { createTRPCCaller } from "@/server/api/routers/_app";
+import { createClerkTRPCContext } from "@/server/api/trpc/clerk-init";
+import {
+	getAnimalReportFilename,
+	renderAnimalReportPdf,
+} from "@/server/utils/animal-report-pdf";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Downloadable PDF of the animal report. Goes through the tRPC caller so the
+// data and access checks are the same as the print page's.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+	const { id: animalId } = await params;
+	const { searchParams } = request.nextUrl;
+
+	try {
+		const caller = createTRPCCaller(() =>
+			createClerkTRPCContext({
+				req: { headers: request.headers },
+			} as Parameters<typeof createClerkTRPCContext>[0]),
+		);
+
+		const report = await caller.reports.animalReport({
+			animalId,
+			householdId: searchParams.get("householdId") ?? "",
+			startDate: searchParams.get("startDate") ?? undefined,
+			endDate: searchParams.get("endDate") ?? undefined,
+		});
+
+		const pdf = renderAnimalReportPdf(report);
+
+		return new Response(new Uint8Array(pdf), {
+			headers: {
+				"Content-Type": "application/pdf",
+				"Content-Disposition": `attachment; filename="${getAnimalReportFilename(report)}"`,
+				"Cache-Control": "no-store",
+			},
+		});
+	} catch (error) {
+		if (error instanceof TRPCError) {
+			return NextResponse.json(
+				{ error: error.message },
+				{ status: getHTTPStatusCodeFromError(error) },
+			);
+		}
+
+		console.error("Animal report PDF error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to generate report",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,142 @@
+import { auth } from "@clerk/nextjs/server";
+import { and, eq } from "drizzle-orm";
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/db/drizzle";
+import { households, memberships, users } from "@/db/schema";
+import { checkRateLimit, RATE_LIMIT_CONFIGS } from "@/lib/rate-limiting";
+import {
+	createExportStream,
+	EXPORT_DATASETS,
+	type ExportDataset,
+	type ExportFormat,
+} from "@/server/utils/export";
+import {
+	canAccessAnimal,
+	getMembershipAccess,
+} from "@/server/utils/temporary-access";
+
+const exportQuerySchema = z
+	.object({
+		householdId: z.string().uuid(),
+		format: z.enum(["csv", "json"]).default("csv"),
+		dataset: z.enum(EXPORT_DATASETS).default("administrations"),
+		animalId: z.string().uuid().optional(),
+		from: z.string().datetime().optional(),
+		to: z.string().datetime().optional(),
+	})
+	.refine(
+		(query) => !query.from || !query.to || query.from <= query.to,
+		"from must be before to",
+	);
+
+function getExportFile(format: ExportFormat, dataset: ExportDataset) {
+	const dateStamp = new Date().toISOString().split("T")[0];
+
+	return format === "json"
+		? {
+				filename: `vetmed-export-${dateStamp}.json`,
+				contentType: "application/json; charset=utf-8",
+			}
+		: {
+				filename: `vetmed-${dataset}-${dateStamp}.csv`,
+				contentType: "text/csv; charset=utf-8",
+			};
+}
+
+// Streams an export as a file download. Large households are read in batches
+// rather than buffered, which is why this is a route handler and not tRPC.
+export async function GET(request: NextRequest) {
+	const { userId: clerkUserId } = await auth();
+	if (!clerkUserId) {
+		return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+	}
+
+	const parsed = exportQuerySchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Invalid export parameters", details: parsed.error.flatten() },
+			{ status: 400 },
+		);
+	}
+	const query = parsed.data;
+
+	try {
+		const [member] = await db
+			.select({
+				userId: users.id,
+				validFrom: memberships.validFrom,
+				validUntil: memberships.validUntil,
+				animalIds: memberships.animalIds,
+				timezone: households.timezone,
+			})
+			.from(memberships)
+			.innerJoin(users, eq(memberships.userId, users.id))
+			.innerJoin(households, eq(memberships.householdId, households.id))
+			.where(
+				and(
+					eq(users.clerkUserId, clerkUserId),
+					eq(memberships.householdId, query.householdId),
+				),
+			)
+			.limit(1);
+
+		if (
+			!member ||
+			getMembershipAccess(member) !== "ACTIVE" ||
+			(query.animalId && !canAccessAnimal(member, query.animalId))
+		) {
+			return NextResponse.json(
+				{ error: "You don't have access to this household" },
+				{ status: 403 },
+			);
+		}
+
+		const rateLimit = checkRateLimit(
+			`reports:${member.userId}`,
+			RATE_LIMIT_CONFIGS.reports,
+		);
+		if (!rateLimit.allowed) {
+			return NextResponse.json(
+				{ error: "Too many exports, please try again shortly" },
+				{
+					status: 429,
+					headers: { "Retry-After": String(rateLimit.retryAfter ?? 60) },
+				},
+			);
+		}
+
+		const restrictedAnimalIds = member.animalIds?.length
+			? member.animalIds
+			: null;
+		const stream = createExportStream(db, query.format, query.dataset, {
+			householdId: query.householdId,
+			timezone: member.timezone,
+			from: query.from ? new Date(query.from) : undefined,
+			to: query.to ? new Date(query.to) : undefined,
+			animalIds: query.animalId ? [query.animalId] : restrictedAnimalIds,
+		});
+
+		const file = getExportFile(query.format, query.dataset);
+
+		return new Response(stream, {
+			headers: {
+				"Content-Type": file.contentType,
+				"Content-Disposition": `attachment; filename="${file.filename}"`,
+				"Cache-Control": "no-store",
+				"X-RateLimit-Remaining": String(rateLimit.remaining),
+			},
+		});
+	} catch (error) {
+		console.error("Export error:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to export data",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { AlertTriangle, Scale, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	type ChartConfig,
+	ChartContainer,
+	ChartTooltip,
+	ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/server/trpc/client";
+import { formatDoseAmount } from "@/utils/dose";
+
+type WeightSource = "HOME" | "VET" | "OTHER";
+
+const sourceLabels: Record<WeightSource, string> = {
+	HOME: "Home scale",
+	VET: "Vet visit",
+	OTHER: "Other",
+};
+
+const chartConfig = {
+	weightKg: { label: "Weight (kg)", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+export interface DoseWarningItem {
+	regimenId: string;
+	medicationName: string;
+	dose: string;
+	status: "LOW" | "OK" | "HIGH";
+	minAmount: number;
+	maxAmount: number;
+	unit: "mg" | "unit";
+}
+
+const formatDay = (day: string) =>
+	new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+		month: "short",
+		day: "numeric",
+		year: "numeric",
+	});
+
+// Toast for each regimen a new weight pushed out of the catalog range
+export function notifyDoseWarnings(warnings: DoseWarningItem[]) {
+	for (const warning of warnings) {
+		toast.warning(`${warning.medicationName} dose may need review`, {
+			description: `${warning.dose} is ${warning.status === "LOW" ? "below" : "above"} the ${formatDoseAmount(warning.minAmount, warning.unit)}–${formatDoseAmount(warning.maxAmount, warning.unit)} range for the current weight`,
+		});
+	}
+}
+
+export function DoseWarningsCard({
+	warnings,
+}: {
+	warnings: DoseWarningItem[];
+}) {
+	if (warnings.length === 0) return null;
+
+	return (
+		<Card className="border-orange-200 bg-orange-50 dark:border-orange-900 dark:bg-orange-950/20">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-orange-700 dark:text-orange-400">
+					<AlertTriangle className="h-5 w-5" />
+					Doses to review
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-2 text-sm">
+				{warnings.map((warning) => (
+					<div key={warning.regimenId} className="flex flex-wrap gap-x-2">
+						<span className="font-medium">{warning.medicationName}</span>
+						<span>
+							{warning.dose} is {warning.status === "LOW" ? "below" : "above"}{" "}
+							the usual {formatDoseAmount(warning.minAmount, warning.unit)}–
+							{formatDoseAmount(warning.maxAmount, warning.unit)} for this
+							weight. Check with your vet before changing it.
+						</span>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	);
+}
+
+export function WeightChart({
+	entries,
+}: {
+	entries: Array<{ id: string; measuredOn: string; weightKg: number }>;
+}) {
+	if (entries.length < 2) {
+		return (
+			<p className="py-8 text-center text-muted-foreground text-sm">
+				Log at least two weights to see a trend.
+			</p>
+		);
+	}
+
+	return (
+		<ChartContainer config={chartConfig} className="h-64 w-full">
+			<LineChart data={entries} margin={{ left: 0, right: 12, top: 8 }}>
+				<CartesianGrid vertical={false} />
+				<XAxis
+					dataKey="measuredOn"
+					tickLine={false}
+					axisLine={false}
+					tickFormatter={formatDay}
+					minTickGap={24}
+				/>
+				<YAxis
+					width={40}
+					tickLine={false}
+					axisLine={false}
+					domain={["auto", "auto"]}
+				/>
+				<ChartTooltip
+					content={
+						<ChartTooltipContent
+							labelFormatter={(_, payload) =>
+								formatDay(String(payload[0]?.payload?.measuredOn ?? ""))
+							}
+						/>
+					}
+				/>
+				<Line
+					dataKey="weightKg"
+					type="monotone"
+					stroke="var(--color-weightKg)"
+					strokeWidth={2}
+					dot={{ r: 3 }}
+				/>
+			</LineChart>
+		</ChartContainer>
+	);
+}
+
+export function LogWeightForm({
+	householdId,
+	animalId,
+	today,
+}: {
+	householdId: string;
+	animalId: string;
+	today: string;
+}) {
+	const utils = trpc.useUtils();
+	const [weightKg, setWeightKg] = useState("");
+	const [measuredOn, setMeasuredOn] = useState(today);
+	const [source, setSource] = useState<WeightSource>("HOME");
+
+	const logMutation = trpc.weight.log.useMutation({
+		onSuccess: (result) => {
+			toast.success("Weight logged");
+			notifyDoseWarnings(result.doseWarnings);
+			setWeightKg("");
+			utils.weight.list.invalidate({ householdId, animalId });
+			utils.animal.getById.invalidate({ id: animalId, householdId });
+		},
+		onError: (error) => {
+			toast.error("Failed to log weight", { description: error.message });
+		},
+	});
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		const value = Number(weightKg);
+		if (!value || value <= 0) {
+			toast.error("Enter a weight in kg");
+			return;
+		}
+		logMutation.mutate({
+			householdId,
+			animalId,
+			weightKg: value,
+			measuredOn,
+			source,
+		});
+	};
+
+	return (
+		<form
+			onSubmit={handleSubmit}
+			className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr_auto] sm:items-end"
+		>
+			<div className="space-y-1">
+				<Label htmlFor="weight-kg">Weight (kg)</Label>
+				<Input
+					id="weight-kg"
+					type="number"
+					inputMode="decimal"
+					step="0.01"
+					min="0"
+					value={weightKg}
+					onChange={(e) => setWeightKg(e.target.value)}
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor="weight-date">Date</Label>
+				<Input
+					id="weight-date"
+					type="date"
+					max={today}
+					value={measuredOn}
+					onChange={(e) => setMeasuredOn(e.target.value)}
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label>Source</Label>
+				<Select
+					value={source}
+					onValueChange={(value) => setSource(value as WeightSource)}
+				>
+					<SelectTrigger>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{Object.entries(sourceLabels).map(([value, label]) => (
+							<SelectItem key={value} value={value}>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+			<Button type="submit" disabled={logMutation.isPending} className="gap-2">
+				<Scale className="h-4 w-4" />
+				Log Weight
+			</Button>
+		</form>
+	);
+}
+
+export function WeightHistoryList({
+	householdId,
+	animalId,
+	entries,
+}: {
+	householdId: string;
+	animalId: string;
+	entries: Array<{
+		id: string;
+		measuredOn: string;
+		weightKg: number;
+		source: WeightSource;
+		notes: string | null;
+		recordedByName: string | null;
+	}>;
+}) {
+	const utils = trpc.useUtils();
+	const deleteMutation = trpc.weight.delete.useMutation({
+		onSuccess: () => {
+			toast.success("Weight entry removed");
+			utils.weight.list.invalidate({ householdId, animalId });
+			utils.animal.getById.invalidate({ id: animalId, householdId });
+		},
+		onError: (error) => {
+			toast.error("Failed to remove entry", { description: error.message });
+		},
+	});
+
+	if (entries.length === 0) {
+		return (
+			<p className="py-4 text-center text-muted-foreground text-sm">
+				No weights logged yet
+			</p>
+		);
+	}
+
+	// Newest first for reading; the chart keeps chronological order
+	return (
+		<div className="divide-y">
+			{[...entries].reverse().map((entry) => (
+				<div
+					key={entry.id}
+					className="flex items-center justify-between gap-3 py-2 text-sm"
+				>
+					<div>
+						<div className="font-medium">{entry.weightKg} kg</div>
+						<div className="text-muted-foreground">
+							{formatDay(entry.measuredOn)}
+							{entry.recordedByName && ` · ${entry.recordedByName}`}
+							{entry.notes && ` · ${entry.notes}`}
+						</div>
+					</div>
+					<div className="flex items-center gap-2">
+						<Badge variant="outline">{sourceLabels[entry.source]}</Badge>
+						<Button
+							variant="ghost"
+							size="icon"
+							aria-label="Remove weight entry"
+							disabled={deleteMutation.isPending}
+							onClick={() =>
+								deleteMutation.mutate({ householdId, animalId, id: entry.id })
+							}
+						>
+							<Trash2 className="h-4 w-4" />
+						</Button>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
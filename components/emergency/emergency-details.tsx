@@ -0,0 +1,309 @@
+import { AlertTriangle, Phone, Pill } from "lucide-react";
+import { AnimalAvatar } from "@/components/ui/animal-avatar";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type {
+	EmergencyAnimal,
+	EmergencyContact,
+	EmergencyRegimen,
+} from "@/lib/types";
+
+// Helper function to calculate age
+export const calculateAge = (dob: Date | string | null | undefined) => {
+	if (!dob) return null;
+	const birthDate = new Date(dob);
+	const age = Math.floor(
+		(Date.now() - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000),
+	);
+	return age;
+};
+
+// Map an emergency profile's animal onto the shared EmergencyAnimal type
+export const toEmergencyAnimal = (
+	animal: { dob: string | null; photoUrl: string | null },
+	pendingMeds = 0,
+) =>
+	({
+		...animal,
+		photo: animal.photoUrl,
+		dob: animal.dob ? new Date(animal.dob) : null,
+		pendingMeds,
+	}) as unknown as EmergencyAnimal;
+
+export const getMedicationName = (regimen: EmergencyRegimen) =>
+	regimen.medication?.genericName ||
+	regimen.medication?.brandName ||
+	regimen.name ||
+	"Medication";
+
+// When the medication is given, e.g. "08:00, 20:00" or "Every 8h"
+export function formatEmergencySchedule(regimen: EmergencyRegimen) {
+	if (regimen.scheduleType === "PRN") {
+		return `PRN - ${regimen.prnReason || "As needed"}`;
+	}
+	if (regimen.scheduleType === "INTERVAL" && regimen.intervalHours) {
+		return `Every ${regimen.intervalHours}h`;
+	}
+	return (
+		regimen.timesLocal?.map((time) => time.slice(0, 5)).join(", ") ||
+		"See instructions"
+	);
+}
+
+// Owner emergency contacts, without repeating a contact shared by co-owners
+export function getEmergencyContacts(owners: EmergencyContact[]) {
+	const seen = new Set<string>();
+	return owners
+		.filter((owner) => owner.emergencyContactPhone)
+		.map((owner) => ({
+			name: owner.emergencyContactName || "Emergency contact",
+			phone: owner.emergencyContactPhone ?? "",
+		}))
+		.filter((contact) => {
+			if (seen.has(contact.phone)) return false;
+			seen.add(contact.phone);
+			return true;
+		});
+}
+
+const ContactBox = ({
+	title,
+	name,
+	lines,
+}: {
+	title: string;
+	name: string;
+	lines: Array<string | null | undefined>;
+}) => (
+	<div className="rounded-lg border p-3 sm:p-4">
+		<div className="font-medium text-base sm:text-lg">{title}</div>
+		<div className="font-bold text-lg sm:text-xl">{name}</div>
+		{lines.filter(Boolean).map((line) => (
+			<div key={line} className="text-base sm:text-lg">
+				{line}
+			</div>
+		))}
+	</div>
+);
+
+export const AnimalInfoCard = ({
+	animalData,
+	age,
+}: {
+	animalData: EmergencyAnimal;
+	age: number | null;
+}) => (
+	<Card className="mb-6">
+		<CardHeader>
+			<CardTitle className="flex items-center gap-3">
+				<AnimalAvatar
+					animal={{
+						...animalData,
+						avatar: animalData.photoUrl || animalData.photo || undefined,
+						pendingMeds: animalData.pendingMeds || 0,
+					}}
+					size="lg"
+				/>
+				<div>
+					<div className="text-xl sm:text-2xl">{animalData.name}</div>
+					<div className="text-base text-muted-foreground sm:text-lg">
+						{animalData.breed && `${animalData.breed} `}
+						{animalData.species}
+					</div>
+				</div>
+			</CardTitle>
+		</CardHeader>
+		<CardContent>
+			<div className="grid grid-cols-2 gap-3 text-sm">
+				{animalData.sex && (
+					<div>
+						<span className="font-medium">Sex:</span> {animalData.sex}
+						{animalData.neutered && " (Neutered)"}
+					</div>
+				)}
+				{animalData.weightKg && (
+					<div>
+						<span className="font-medium">Weight:</span> {animalData.weightKg}kg
+					</div>
+				)}
+				{age !== null && (
+					<div>
+						<span className="font-medium">Age:</span> {age} year
+						{age !== 1 ? "s" : ""}
+					</div>
+				)}
+				{animalData.color && (
+					<div>
+						<span className="font-medium">Color:</span> {animalData.color}
+					</div>
+				)}
+				{animalData.microchipId && (
+					<div className="col-span-2">
+						<span className="font-medium">Microchip:</span>{" "}
+						{animalData.microchipId}
+					</div>
+				)}
+			</div>
+		</CardContent>
+	</Card>
+);
+
+export const EmergencyContactsCard = ({
+	animalData,
+	owners,
+}: {
+	animalData: EmergencyAnimal;
+	owners: EmergencyContact[];
+}) => (
+	<Card className="mb-6">
+		<CardHeader>
+			<CardTitle className="flex items-center gap-2">
+				<Phone className="h-5 w-5" />
+				Emergency Contacts
+			</CardTitle>
+		</CardHeader>
+		<CardContent>
+			<div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+				<ContactBox
+					title="Primary Veterinarian"
+					name={animalData.vetName || "Not specified"}
+					lines={[
+						animalData.clinicName,
+						animalData.vetPhone || "Not specified",
+					]}
+				/>
+				{owners.map((owner) => (
+					<ContactBox
+						key={owner.email}
+						title="Owner"
+						name={owner.name || owner.email}
+						lines={[owner.phone]}
+					/>
+				))}
+				{getEmergencyContacts(owners).map((contact) => (
+					<ContactBox
+						key={contact.phone}
+						title="Emergency Contact"
+						name={contact.name}
+						lines={[contact.phone]}
+					/>
+				))}
+			</div>
+		</CardContent>
+	</Card>
+);
+
+export const MedicalAlertsCard = ({
+	animalData,
+}: {
+	animalData: EmergencyAnimal;
+}) => {
+	const hasAlerts =
+		(animalData.allergies && animalData.allergies.length > 0) ||
+		(animalData.conditions && animalData.conditions.length > 0);
+
+	if (!hasAlerts) return null;
+
+	return (
+		<Card className="mb-6 border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/20 print:bg-gray-100">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2 text-red-700 dark:text-red-400 print:text-black">
+					<AlertTriangle className="h-5 w-5" />
+					Medical Alerts
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				{animalData.allergies && animalData.allergies.length > 0 && (
+					<div className="mb-4">
+						<div className="mb-2 font-medium text-red-700 dark:text-red-400 print:text-black">
+							ALLERGIES:
+						</div>
+						<div className="flex flex-wrap gap-2">
+							{animalData.allergies.map((allergy) => (
+								<Badge
+									key={allergy}
+									variant="destructive"
+									className="text-sm print:bg-gray-300 print:text-black"
+								>
+									{allergy}
+								</Badge>
+							))}
+						</div>
+					</div>
+				)}
+				{animalData.conditions && animalData.conditions.length > 0 && (
+					<div>
+						<div className="mb-2 font-medium text-red-700 dark:text-red-400 print:text-black">
+							CONDITIONS:
+						</div>
+						<div className="flex flex-wrap gap-2">
+							{animalData.conditions.map((condition) => (
+								<Badge
+									key={condition}
+									variant="secondary"
+									className="text-sm print:bg-gray-300 print:text-black"
+								>
+									{condition}
+								</Badge>
+							))}
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+};
+
+export const MedicationsCard = ({
+	regimens,
+}: {
+	regimens: EmergencyRegimen[];
+}) => (
+	<Card className="mb-6">
+		<CardHeader>
+			<CardTitle className="flex items-center gap-2">
+				<Pill className="h-5 w-5" />
+				Current Medications
+			</CardTitle>
+		</CardHeader>
+		<CardContent>
+			<div className="space-y-4">
+				{regimens.length === 0 ? (
+					<p className="py-4 text-center text-muted-foreground">
+						No active medications
+					</p>
+				) : (
+					regimens.map((regimen) => (
+						<div key={regimen.id} className="rounded-lg border p-3 sm:p-4">
+							<div className="mb-2 flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+								<div>
+									<div className="flex items-center gap-2 font-medium text-base sm:text-lg">
+										{getMedicationName(regimen)}
+										{regimen.highRisk && (
+											<Badge variant="destructive">High risk</Badge>
+										)}
+									</div>
+									<div className="text-muted-foreground">
+										{regimen.dose && `${regimen.dose} • `}
+										{regimen.medication?.strength &&
+											`${regimen.medication.strength} • `}
+										{regimen.route || regimen.medication?.route || "Oral"}
+									</div>
+								</div>
+								<Badge variant="outline">
+									{formatEmergencySchedule(regimen)}
+								</Badge>
+							</div>
+							{regimen.instructions && (
+								<div className="text-muted-foreground text-sm">
+									<span className="font-medium">Instructions:</span>{" "}
+									{regimen.instructions}
+								</div>
+							)}
+						</div>
+					))
+				)}
+			</div>
+		</CardContent>
+	</Card>
+);
@@ -0,0 +1,106 @@
+import { QrCode } from "@/components/ui/qr-code";
+import type {
+	EmergencyAnimal,
+	EmergencyContact,
+	EmergencyRegimen,
+} from "@/lib/types";
+import {
+	formatEmergencySchedule,
+	getEmergencyContacts,
+	getMedicationName,
+} from "./emergency-details";
+
+interface WalletCardProps {
+	animal: EmergencyAnimal;
+	regimens: EmergencyRegimen[];
+	owners: EmergencyContact[];
+	emergencyUrl?: string | null;
+}
+
+// Room for this many medications before the rest are left to the QR code
+const WALLET_MEDICATION_LIMIT = 3;
+
+// Credit-card sized (3.375in x 2.125in) summary to cut out and keep in a wallet
+export function WalletCard({
+	animal,
+	regimens,
+	owners,
+	emergencyUrl,
+}: WalletCardProps) {
+	const owner = owners.find((candidate) => candidate.phone) ?? owners[0];
+	const [emergencyContact] = getEmergencyContacts(owners);
+	const shown = regimens.slice(0, WALLET_MEDICATION_LIMIT);
+	const hidden = regimens.length - shown.length;
+
+	return (
+		<div className="flex h-[2.125in] w-[3.375in] gap-2 overflow-hidden rounded-md border-2 border-red-600 bg-white p-[0.1in] text-[7pt] text-black leading-tight print:border-black">
+			<div className="flex min-w-0 flex-1 flex-col gap-1">
+				<div>
+					<div className="font-bold text-[6pt] text-red-600 tracking-wide print:text-black">
+						PET EMERGENCY CARD
+					</div>
+					<div className="truncate font-bold text-[10pt]">{animal.name}</div>
+					<div className="truncate">
+						{[animal.breed, animal.species].filter(Boolean).join(" ")}
+						{animal.weightKg && ` · ${animal.weightKg} kg`}
+					</div>
+				</div>
+
+				{animal.allergies.length > 0 && (
+					<div className="truncate font-bold">
+						Allergies: {animal.allergies.join(", ")}
+					</div>
+				)}
+
+				<div className="min-h-0">
+					<div className="font-semibold">Medications</div>
+					{shown.length === 0 ? (
+						<div>None</div>
+					) : (
+						shown.map((regimen) => (
+							<div key={regimen.id} className="truncate">
+								{getMedicationName(regimen)}
+								{regimen.dose && ` ${regimen.dose}`} ·{" "}
+								{formatEmergencySchedule(regimen)}
+							</div>
+						))
+					)}
+					{hidden > 0 && <div>+{hidden} more (scan code)</div>}
+				</div>
+
+				<div className="mt-auto space-y-px">
+					{owner && (
+						<div className="truncate">
+							<span className="font-semibold">Owner:</span>{" "}
+							{owner.name || owner.email}
+							{owner.phone && ` ${owner.phone}`}
+						</div>
+					)}
+					{emergencyContact && (
+						<div className="truncate">
+							<span className="font-semibold">Alt:</span>{" "}
+							{emergencyContact.name} {emergencyContact.phone}
+						</div>
+					)}
+					{animal.vetPhone && (
+						<div className="truncate">
+							<span className="font-semibold">Vet:</span>{" "}
+							{animal.clinicName || animal.vetName} {animal.vetPhone}
+						</div>
+					)}
+				</div>
+			</div>
+
+			{emergencyUrl && (
+				<div className="flex w-[1in] shrink-0 flex-col items-center justify-center gap-1 text-center">
+					<QrCode
+						value={emergencyUrl}
+						title={`Emergency details for ${animal.name}`}
+						className="h-[1in] w-[1in]"
+					/>
+					<div className="text-[6pt]">Scan for medications and contacts</div>
+				</div>
+			)}
+		</div>
+	);
+}
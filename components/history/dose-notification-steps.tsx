@@ -0,0 +1,75 @@
+"use client";
+
+import { BellRing, Megaphone } from "lucide-react";
+import { useApp } from "@/components/providers/app-provider";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/server/trpc/client";
+import { formatTimeLocal } from "@/utils/tz";
+
+const formatOffset = (minutes: number | undefined) => {
+	if (minutes === undefined) return "";
+	if (minutes === 0) return "at due time";
+	if (minutes < 0) return `${Math.abs(minutes)}m before`;
+	return `${minutes}m after`;
+};
+
+function getStepState(step: {
+	sentAt: string | null;
+	failedAt: string | null;
+	cancelledAt: string | null;
+}) {
+	if (step.sentAt) return { label: "Sent", variant: "secondary" as const };
+	if (step.failedAt)
+		return { label: "Failed", variant: "destructive" as const };
+	if (step.cancelledAt)
+		return { label: "Stopped", variant: "outline" as const };
+	return { label: "Pending", variant: "outline" as const };
+}
+
+// Reminder and escalation steps for a scheduled dose, loaded when its
+// history row is expanded
+export function DoseNotificationSteps({
+	recordId,
+	enabled,
+}: {
+	recordId: string;
+	enabled: boolean;
+}) {
+	const { selectedHousehold } = useApp();
+	const { data: steps, isLoading } = trpc.admin.notificationSteps.useQuery(
+		{ householdId: selectedHousehold?.id || "", recordId },
+		{ enabled: enabled && !!selectedHousehold?.id },
+	);
+
+	if (isLoading || !steps?.length) return null;
+
+	return (
+		<div>
+			<span className="font-medium text-sm">Reminders:</span>
+			<ul className="mt-1 space-y-1 text-sm">
+				{steps.map((step) => {
+					const state = getStepState(step);
+					const Icon = step.type === "DOSE_ESCALATION" ? Megaphone : BellRing;
+					return (
+						<li key={step.id} className="flex items-center gap-2">
+							<Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+							<span className="text-muted-foreground">
+								{formatTimeLocal(
+									new Date(step.sentAt ?? step.scheduledFor),
+									"America/New_York",
+								)}
+							</span>
+							<span className="min-w-0 flex-1 truncate">
+								{step.type === "DOSE_ESCALATION" ? "Escalated to" : "Reminded"}{" "}
+								{step.recipient} ({formatOffset(step.offsetMinutes)})
+							</span>
+							<Badge variant={state.variant} className="text-xs">
+								{state.label}
+							</Badge>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
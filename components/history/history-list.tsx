@@ -10,6 +10,7 @@ import {
 	UserCheck,
 } from "lucide-react";
 import { useRef, useState } from "react";
+import { DoseNotificationSteps } from "@/components/history/dose-notification-steps";
 import { useApp } from "@/components/providers/app-provider";
 import { AnimalAvatar } from "@/components/ui/animal-avatar";
 import { Badge } from "@/components/ui/badge";
@@ -381,6 +382,14 @@ function AdministrationRow({
 									</div>
 								)}
 
+								{/* Reminder and escalation steps */}
+								{record.scheduledFor && (
+									<DoseNotificationSteps
+										recordId={record.id}
+										enabled={isExpanded}
+									/>
+								)}
+
 								{/* Co-sign Status */}
 								{record.cosignUser && record.cosignedAt && (
 									<div className="flex items-center gap-2 text-sm">
@@ -0,0 +1,119 @@
+"use client";
+
+import { useClerk, useUser } from "@clerk/nextjs";
+import { Check, X } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface InvitationResponseProps {
+	token: string;
+	// Only an account with this address verified can accept
+	email: string;
+}
+
+export function InvitationResponse({ token, email }: InvitationResponseProps) {
+	const router = useRouter();
+	const { openSignIn, openSignUp, signOut } = useClerk();
+	const { user, isLoaded } = useUser();
+	const [pending, setPending] = useState<"accept" | "decline" | null>(null);
+	const [declined, setDeclined] = useState(false);
+
+	const returnUrl = `/invite/${token}`;
+
+	const respond = async (action: "accept" | "decline") => {
+		setPending(action);
+		try {
+			const response = await fetch(`/api/invitations/${token}`, {
+				method: action === "accept" ? "POST" : "DELETE",
+			});
+			const body = await response.json();
+
+			if (!response.ok) {
+				toast.error(body.error ?? "Failed to respond to invitation");
+				return;
+			}
+
+			if (action === "accept") {
+				toast.success("You've joined the household");
+				router.push("/dashboard");
+			} else {
+				setDeclined(true);
+			}
+		} catch (error) {
+			console.error("Failed to respond to invitation:", error);
+			toast.error("Failed to respond to invitation");
+		} finally {
+			setPending(null);
+		}
+	};
+
+	if (declined) {
+		return (
+			<p className="text-center text-muted-foreground">
+				Invitation declined. You can close this page.
+			</p>
+		);
+	}
+
+	if (!isLoaded) {
+		return <div className="h-10 animate-pulse rounded-md bg-muted" />;
+	}
+
+	const isInvitedUser = !!user?.emailAddresses.some(
+		(address) =>
+			address.emailAddress.toLowerCase() === email.toLowerCase() &&
+			address.verification?.status === "verified",
+	);
+
+	return (
+		<div className="space-y-3">
+			{isInvitedUser ? (
+				<Button
+					className="w-full gap-2"
+					onClick={() => respond("accept")}
+					disabled={pending !== null}
+				>
+					<Check className="h-4 w-4" />
+					{pending === "accept" ? "Joining..." : "Accept Invitation"}
+				</Button>
+			) : user ? (
+				<div className="space-y-2 text-center">
+					<p className="text-muted-foreground text-sm">
+						This invitation is for {email}. Sign in with that address to accept
+						it.
+					</p>
+					<Button
+						variant="outline"
+						className="w-full"
+						onClick={() => signOut({ redirectUrl: returnUrl })}
+					>
+						Switch account
+					</Button>
+				</div>
+			) : (
+				<div className="grid gap-2 sm:grid-cols-2">
+					<Button onClick={() => openSignUp({ forceRedirectUrl: returnUrl })}>
+						Sign up to accept
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => openSignIn({ forceRedirectUrl: returnUrl })}
+					>
+						Sign in to accept
+					</Button>
+				</div>
+			)}
+			<Button
+				variant="ghost"
+				className="w-full gap-2 text-muted-foreground"
+				onClick={() => respond("decline")}
+				disabled={pending !== null}
+			>
+				<X className="h-4 w-4" />
+				{pending === "decline" ? "Declining..." : "Decline"}
+			</Button>
+		</div>
+	);
+}
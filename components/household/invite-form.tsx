@@ -1,8 +1,9 @@
 "use client";
 
-import { Crown, Eye, Shield } from "lucide-react";
+import { Copy, Crown, Eye, Shield } from "lucide-react";
 import type React from "react";
 import { useState } from "react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -23,10 +24,11 @@ import { Label } from "@/components/ui/label";
 interface InviteFormProps {
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
+	// Resolves with the invitation link when the invitee has no account yet
 	onInvite: (
 		email: string,
 		role: "Owner" | "Caregiver" | "VetReadOnly",
-	) => Promise<void>;
+	) => Promise<{ inviteUrl?: string; expiresAt?: string } | undefined>;
 }
 
 export function InviteForm({ open, onOpenChange, onInvite }: InviteFormProps) {
@@ -35,6 +37,10 @@ export function InviteForm({ open, onOpenChange, onInvite }: InviteFormProps) {
 		"Owner" | "Caregiver" | "VetReadOnly"
 	>("Caregiver");
 	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [createdInvite, setCreatedInvite] = useState<{
+		url: string;
+		expiresAt?: string;
+	} | null>(null);
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
@@ -42,7 +48,14 @@ export function InviteForm({ open, onOpenChange, onInvite }: InviteFormProps) {
 
 		setIsSubmitting(true);
 		try {
-			await onInvite(email.trim(), selectedRole);
+			const result = await onInvite(email.trim(), selectedRole);
+			if (result?.inviteUrl) {
+				setCreatedInvite({
+					url: result.inviteUrl,
+					expiresAt: result.expiresAt,
+				});
+				return;
+			}
 			setEmail("");
 			setSelectedRole("Caregiver");
 		} catch (error) {
@@ -52,6 +65,23 @@ export function InviteForm({ open, onOpenChange, onInvite }: InviteFormProps) {
 		}
 	};
 
+	const handleCopy = async () => {
+		if (!createdInvite) return;
+		try {
+			await navigator.clipboard.writeText(createdInvite.url);
+			toast.success("Invitation link copied");
+		} catch {
+			toast.error("Couldn't copy the link, please copy it manually");
+		}
+	};
+
+	const handleDone = () => {
+		setCreatedInvite(null);
+		setEmail("");
+		setSelectedRole("Caregiver");
+		onOpenChange(false);
+	};
+
 	const roles = [
 		{
 			value: "Owner" as const,
@@ -86,70 +116,102 @@ export function InviteForm({ open, onOpenChange, onInvite }: InviteFormProps) {
 					</DialogDescription>
 				</DialogHeader>
 
-				<form onSubmit={handleSubmit} className="space-y-6">
-					<div className="space-y-2">
-						<Label htmlFor="email">Email Address</Label>
-						<Input
-							id="email"
-							type="email"
-							required
-							value={email}
-							onChange={(e) => setEmail(e.target.value)}
-							placeholder="Enter email address"
-						/>
+				{createdInvite ? (
+					<div className="space-y-4">
+						<p className="text-muted-foreground text-sm">
+							Share this link with {email}. It can be used once
+							{createdInvite.expiresAt &&
+								` and expires on ${new Date(createdInvite.expiresAt).toLocaleDateString()}`}
+							.
+						</p>
+						<div className="flex gap-2">
+							<Input
+								readOnly
+								value={createdInvite.url}
+								onFocus={(e) => e.target.select()}
+								className="font-mono text-xs"
+							/>
+							<Button
+								type="button"
+								variant="outline"
+								size="icon"
+								onClick={handleCopy}
+							>
+								<Copy className="h-4 w-4" />
+							</Button>
+						</div>
+						<div className="flex justify-end">
+							<Button type="button" onClick={handleDone}>
+								Done
+							</Button>
+						</div>
 					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-6">
+						<div className="space-y-2">
+							<Label htmlFor="email">Email Address</Label>
+							<Input
+								id="email"
+								type="email"
+								required
+								value={email}
+								onChange={(e) => setEmail(e.target.value)}
+								placeholder="Enter email address"
+							/>
+						</div>
 
-					<div className="space-y-3">
-						<Label>Role</Label>
-						<div className="grid gap-3">
-							{roles.map((role) => (
-								<Card
-									key={role.value}
-									className={`cursor-pointer transition-colors ${
-										selectedRole === role.value
-											? `ring-2 ring-primary ${role.color}`
-											: "hover:bg-accent"
-									}`}
-									onClick={() => setSelectedRole(role.value)}
-								>
-									<CardContent className="p-4">
-										<div className="flex items-start gap-3">
-											<role.icon className="mt-0.5 h-5 w-5" />
-											<div className="flex-1">
-												<CardTitle className="text-base">
-													{role.title}
-												</CardTitle>
-												<CardDescription className="mt-1">
-													{role.description}
-												</CardDescription>
+						<div className="space-y-3">
+							<Label>Role</Label>
+							<div className="grid gap-3">
+								{roles.map((role) => (
+									<Card
+										key={role.value}
+										className={`cursor-pointer transition-colors ${
+											selectedRole === role.value
+												? `ring-2 ring-primary ${role.color}`
+												: "hover:bg-accent"
+										}`}
+										onClick={() => setSelectedRole(role.value)}
+									>
+										<CardContent className="p-4">
+											<div className="flex items-start gap-3">
+												<role.icon className="mt-0.5 h-5 w-5" />
+												<div className="flex-1">
+													<CardTitle className="text-base">
+														{role.title}
+													</CardTitle>
+													<CardDescription className="mt-1">
+														{role.description}
+													</CardDescription>
+												</div>
+												<div
+													className={`h-4 w-4 rounded-full border-2 ${
+														selectedRole === role.value
+															? "border-primary bg-primary"
+															: "border-muted-foreground"
+													}`}
+												/>
 											</div>
-											<div
-												className={`h-4 w-4 rounded-full border-2 ${
-													selectedRole === role.value
-														? "border-primary bg-primary"
-														: "border-muted-foreground"
-												}`}
-											/>
-										</div>
-									</CardContent>
-								</Card>
-							))}
+										</CardContent>
+									</Card>
+								))}
+							</div>
 						</div>
-					</div>
 
-					<div className="flex justify-end gap-2">
-						<Button
-							type="button"
-							variant="outline"
-							onClick={() => onOpenChange(false)}
-						>
-							Cancel
-						</Button>
-						<Button type="submit" disabled={isSubmitting || !email.trim()}>
-							{isSubmitting ? "Sending..." : "Send Invite"}
-						</Button>
-					</div>
-				</form>
+						<div className="flex justify-end gap-2">
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => onOpenChange(false)}
+							>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={isSubmitting || !email.trim()}>
+								{isSubmitting ? "Sending..." : "Send Invite"}
+							</Button>
+						</div>
+					</form>
+				)}
 			</DialogContent>
 		</Dialog>
 	);
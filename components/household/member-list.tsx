@@ -51,6 +51,8 @@ export interface Member {
 	role: "OWNER" | "CAREGIVER" | "VETREADONLY";
 	joinedAt: Date;
 	lastActiveAt?: Date;
+	// Set for temporary (e.g. pet-sitter) access
+	accessUntil?: Date;
 }
 
 export interface PendingInvite {
@@ -68,6 +70,12 @@ export interface MemberListProps {
 	userRole?: "OWNER" | "CAREGIVER" | "VETREADONLY";
 }
 
+const inviteRoles = {
+	Owner: "OWNER",
+	Caregiver: "CAREGIVER",
+	VetReadOnly: "VETREADONLY",
+} as const;
+
 const roleIcons = {
 	OWNER: Crown,
 	CAREGIVER: Shield,
@@ -111,6 +119,12 @@ function MemberInfo({ member }: { member: Member }) {
 				<span className="block sm:inline">
 					Joined {member.joinedAt.toLocaleDateString()}
 				</span>
+				{member.accessUntil && (
+					<span className="block sm:inline">
+						<span className="hidden sm:inline"> • </span>
+						Access until {member.accessUntil.toLocaleString()}
+					</span>
+				)}
 				{member.lastActiveAt && (
 					<span className="block sm:inline">
 						<span className="hidden sm:inline"> • </span>
@@ -298,11 +312,30 @@ export function MemberList({
 	const { toast } = useToast();
 	const isMobile = useMediaQuery("(max-width: 640px)");
 	const [isInviteFormOpen, setIsInviteFormOpen] = useState(false);
+	const utils = trpc.useUtils();
 
 	// Check if current user can manage roles
 	const canManageRoles = userRole === "OWNER";
 
 	// Mutations
+	const inviteMemberMutation = trpc.household.inviteMember.useMutation({
+		onSuccess: (data) => {
+			toast({
+				title: data.userExists ? "Member added" : "Invitation created",
+				description: data.message,
+			});
+			utils.household.getMembers.invalidate();
+			utils.household.listInvites.invalidate();
+		},
+		onError: (error) => {
+			toast({
+				title: "Failed to invite member",
+				description: error.message,
+				variant: "destructive",
+			});
+		},
+	});
+
 	const updateRoleMutation = trpc.household.updateMemberRole.useMutation({
 		onSuccess: (data) => {
 			toast({
@@ -336,11 +369,21 @@ export function MemberList({
 	});
 
 	const resendInviteMutation = trpc.household.resendInvite.useMutation({
-		onSuccess: (data) => {
-			toast({
-				title: "Invite resent",
-				description: data.message,
-			});
+		onSuccess: async (data) => {
+			utils.household.listInvites.invalidate();
+			// The old link no longer works, so hand the owner the new one
+			try {
+				await navigator.clipboard.writeText(data.inviteUrl);
+				toast({
+					title: "Invite resent",
+					description: "A new invitation link was copied to your clipboard",
+				});
+			} catch {
+				toast({
+					title: "Invite resent",
+					description: `Share this new link: ${data.inviteUrl}`,
+				});
+			}
 		},
 		onError: (error) => {
 			toast({
@@ -357,6 +400,7 @@ export function MemberList({
 				title: "Invite revoked",
 				description: data.message,
 			});
+			utils.household.listInvites.invalidate();
 		},
 		onError: (error) => {
 			toast({
@@ -376,6 +420,23 @@ export function MemberList({
 		});
 	};
 
+	const handleInvite = async (
+		email: string,
+		role: keyof typeof inviteRoles,
+	) => {
+		if (!selectedHousehold) return undefined;
+		const result = await inviteMemberMutation.mutateAsync({
+			householdId: selectedHousehold.id,
+			email,
+			role: inviteRoles[role],
+		});
+		// Existing users are added directly; otherwise keep the form open to show the link
+		if (result.userExists) {
+			setIsInviteFormOpen(false);
+		}
+		return result;
+	};
+
 	const handleResendInvite = (inviteId: string) => {
 		if (!selectedHousehold) return;
 		resendInviteMutation.mutate({
@@ -413,10 +474,7 @@ export function MemberList({
 							<InviteForm
 								open={isInviteFormOpen}
 								onOpenChange={setIsInviteFormOpen}
-								onInvite={async (_email, _role) => {
-									// TODO: Implement invite functionality
-									setIsInviteFormOpen(false);
-								}}
+								onInvite={handleInvite}
 							/>
 						</AccordionContent>
 					</AccordionItem>
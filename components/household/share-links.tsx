@@ -0,0 +1,275 @@
+"use client";
+
+import { Copy, Link2, Plus } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useApp } from "@/components/providers/app-provider";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/server/trpc/client";
+
+interface ShareLinksProps {
+	householdId: string;
+}
+
+const expiryOptions = [7, 14, 30, 90];
+
+async function copyShareLink(url: string) {
+	try {
+		await navigator.clipboard.writeText(url);
+		toast.success("Share link copied", {
+			description: "Send it to your vet; no account is needed to view it",
+		});
+	} catch {
+		toast.success("Share link ready", {
+			description: `Share this link: ${url}`,
+		});
+	}
+}
+
+function CreateShareLinkDialog({
+	open,
+	onOpenChange,
+	householdId,
+}: {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	householdId: string;
+}) {
+	const { animals } = useApp();
+	const utils = trpc.useUtils();
+	const [animalId, setAnimalId] = useState("");
+	const [label, setLabel] = useState("");
+	const [expiresInDays, setExpiresInDays] = useState(14);
+
+	const createMutation = trpc.shareLinks.create.useMutation({
+		onSuccess: async (data) => {
+			await copyShareLink(data.url);
+			utils.shareLinks.list.invalidate();
+			setLabel("");
+			onOpenChange(false);
+		},
+		onError: (error) => {
+			toast.error("Failed to create share link", {
+				description: error.message,
+			});
+		},
+	});
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		createMutation.mutate({
+			householdId,
+			animalId,
+			label: label.trim() || undefined,
+			expiresInDays,
+		});
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Share With Your Vet</DialogTitle>
+					<DialogDescription>
+						Anyone with the link can view this animal&apos;s medications and
+						recent doses until it expires or you revoke it
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label>Animal</Label>
+						<Select value={animalId} onValueChange={setAnimalId}>
+							<SelectTrigger>
+								<SelectValue placeholder="Choose an animal" />
+							</SelectTrigger>
+							<SelectContent>
+								{animals.map((animal) => (
+									<SelectItem key={animal.id} value={animal.id}>
+										{animal.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor="share-label">Shared With (optional)</Label>
+						<Input
+							id="share-label"
+							value={label}
+							onChange={(e) => setLabel(e.target.value)}
+							placeholder="Riverside Animal Clinic"
+							maxLength={100}
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Expires After</Label>
+						<Select
+							value={String(expiresInDays)}
+							onValueChange={(value) => setExpiresInDays(Number(value))}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{expiryOptions.map((days) => (
+									<SelectItem key={days} value={String(days)}>
+										{days} days
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className="flex justify-end gap-2">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={createMutation.isPending || !animalId}
+						>
+							{createMutation.isPending ? "Creating..." : "Create Link"}
+						</Button>
+					</div>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+export function ShareLinks({ householdId }: ShareLinksProps) {
+	const utils = trpc.useUtils();
+	const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+	const { data: links = [] } = trpc.shareLinks.list.useQuery({ householdId });
+
+	const revokeMutation = trpc.shareLinks.revoke.useMutation({
+		onSuccess: (data) => {
+			toast.success(data.message);
+			utils.shareLinks.list.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to revoke link", { description: error.message });
+		},
+	});
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between gap-4">
+					<div>
+						<CardTitle className="flex items-center gap-2">
+							<Link2 className="h-5 w-5" />
+							Vet Share Links
+						</CardTitle>
+						<CardDescription>
+							Read-only links to an animal&apos;s record, no account needed
+						</CardDescription>
+					</div>
+					<Button
+						size="sm"
+						className="gap-2"
+						onClick={() => setIsCreateOpen(true)}
+					>
+						<Plus className="h-4 w-4" />
+						Create
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent>
+				{links.length === 0 ? (
+					<p className="text-muted-foreground text-sm">No active share links</p>
+				) : (
+					<div className="space-y-3">
+						{links.map((link) => (
+							<div
+								key={link.id}
+								className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+							>
+								<div className="min-w-0 flex-1 space-y-1">
+									<div className="truncate font-medium">
+										{link.animalName}
+										{link.label && (
+											<span className="font-normal text-muted-foreground">
+												{" "}
+												· {link.label}
+											</span>
+										)}
+									</div>
+									<div className="text-muted-foreground text-xs">
+										Viewed {link.viewCount}{" "}
+										{link.viewCount === 1 ? "time" : "times"}
+										{link.lastViewedAt &&
+											`, last on ${new Date(link.lastViewedAt).toLocaleString()}`}
+									</div>
+									<div className="text-muted-foreground text-xs">
+										Expires {new Date(link.expiresAt).toLocaleString()}
+									</div>
+								</div>
+								<div className="flex gap-2 self-end sm:self-center">
+									<Button
+										variant="outline"
+										size="sm"
+										className="gap-2"
+										onClick={() => copyShareLink(link.url)}
+									>
+										<Copy className="h-4 w-4" />
+										Copy
+									</Button>
+									<Button
+										variant="outline"
+										size="sm"
+										className="text-destructive"
+										disabled={revokeMutation.isPending}
+										onClick={() =>
+											revokeMutation.mutate({ householdId, linkId: link.id })
+										}
+									>
+										Revoke
+									</Button>
+								</div>
+							</div>
+						))}
+					</div>
+				)}
+			</CardContent>
+
+			<CreateShareLinkDialog
+				open={isCreateOpen}
+				onOpenChange={setIsCreateOpen}
+				householdId={householdId}
+			/>
+		</Card>
+	);
+}
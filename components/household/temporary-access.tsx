@@ -0,0 +1,361 @@
+"use client";
+
+import { Clock, Plus } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useApp } from "@/components/providers/app-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/server/trpc/client";
+
+export interface TemporaryMember {
+	id: string;
+	email: string;
+	name?: string;
+	role: "OWNER" | "CAREGIVER" | "VETREADONLY";
+	validFrom: Date | null;
+	validUntil: Date | null;
+	animalIds: string[] | null;
+}
+
+interface TemporaryAccessProps {
+	householdId: string;
+	members: TemporaryMember[];
+}
+
+// Value for a datetime-local input in the browser's timezone
+function toLocalInputValue(date: Date) {
+	const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+	return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function getAccessStatus(member: TemporaryMember, now: Date) {
+	if (member.validFrom && member.validFrom > now) return "Scheduled";
+	if (member.validUntil && member.validUntil <= now) return "Expired";
+	return "Active";
+}
+
+async function shareInviteLink(url: string) {
+	try {
+		await navigator.clipboard.writeText(url);
+		toast.success("Invitation link copied", {
+			description: "Send it to the pet sitter to activate their access",
+		});
+	} catch {
+		toast.success("Invitation created", {
+			description: `Share this link: ${url}`,
+		});
+	}
+}
+
+function GrantAccessDialog({
+	open,
+	onOpenChange,
+	householdId,
+}: {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	householdId: string;
+}) {
+	const { animals } = useApp();
+	const utils = trpc.useUtils();
+	const [email, setEmail] = useState("");
+	const [role, setRole] = useState<"CAREGIVER" | "VETREADONLY">("CAREGIVER");
+	const [validFrom, setValidFrom] = useState(() =>
+		toLocalInputValue(new Date()),
+	);
+	const [validUntil, setValidUntil] = useState(() =>
+		toLocalInputValue(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+	);
+	const [animalIds, setAnimalIds] = useState<string[]>([]);
+
+	const grantMutation = trpc.household.grantTemporaryAccess.useMutation({
+		onSuccess: async (data) => {
+			if (data.inviteUrl) {
+				await shareInviteLink(data.inviteUrl);
+			} else {
+				toast.success(data.message);
+			}
+			utils.household.getMembers.invalidate();
+			utils.household.listInvites.invalidate();
+			setEmail("");
+			setAnimalIds([]);
+			onOpenChange(false);
+		},
+		onError: (error) => {
+			toast.error("Failed to grant access", { description: error.message });
+		},
+	});
+
+	const toggleAnimal = (animalId: string, checked: boolean) => {
+		setAnimalIds((current) =>
+			checked
+				? [...current, animalId]
+				: current.filter((id) => id !== animalId),
+		);
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		grantMutation.mutate({
+			householdId,
+			email: email.trim(),
+			role,
+			validFrom: new Date(validFrom).toISOString(),
+			validUntil: new Date(validUntil).toISOString(),
+			animalIds: animalIds.length > 0 ? animalIds : undefined,
+		});
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Grant Temporary Access</DialogTitle>
+					<DialogDescription>
+						Access starts and ends automatically at the times below
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor="sitter-email">Email Address</Label>
+						<Input
+							id="sitter-email"
+							type="email"
+							required
+							value={email}
+							onChange={(e) => setEmail(e.target.value)}
+							placeholder="sitter@example.com"
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<Label>Access Level</Label>
+						<Select
+							value={role}
+							onValueChange={(value) =>
+								setRole(value as "CAREGIVER" | "VETREADONLY")
+							}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="CAREGIVER">
+									Caregiver (can record doses)
+								</SelectItem>
+								<SelectItem value="VETREADONLY">View only</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className="grid gap-4 sm:grid-cols-2">
+						<div className="space-y-2">
+							<Label htmlFor="valid-from">From</Label>
+							<Input
+								id="valid-from"
+								type="datetime-local"
+								required
+								value={validFrom}
+								onChange={(e) => setValidFrom(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="valid-until">Until</Label>
+							<Input
+								id="valid-until"
+								type="datetime-local"
+								required
+								min={validFrom}
+								value={validUntil}
+								onChange={(e) => setValidUntil(e.target.value)}
+							/>
+						</div>
+					</div>
+
+					{animals.length > 0 && (
+						<div className="space-y-2">
+							<Label>Animals</Label>
+							<p className="text-muted-foreground text-xs">
+								Leave all unchecked to allow every animal
+							</p>
+							<div className="grid gap-2 sm:grid-cols-2">
+								{animals.map((animal) => (
+									<Label
+										key={animal.id}
+										className="flex items-center gap-2 font-normal"
+									>
+										<Checkbox
+											checked={animalIds.includes(animal.id)}
+											onCheckedChange={(checked) =>
+												toggleAnimal(animal.id, checked === true)
+											}
+										/>
+										{animal.name}
+									</Label>
+								))}
+							</div>
+						</div>
+					)}
+
+					<div className="flex justify-end gap-2">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button
+							type="submit"
+							disabled={grantMutation.isPending || !email.trim()}
+						>
+							{grantMutation.isPending ? "Granting..." : "Grant Access"}
+						</Button>
+					</div>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+export function TemporaryAccess({
+	householdId,
+	members,
+}: TemporaryAccessProps) {
+	const { animals } = useApp();
+	const utils = trpc.useUtils();
+	const [isGrantOpen, setIsGrantOpen] = useState(false);
+	const now = new Date();
+
+	const revokeMutation = trpc.household.revokeTemporaryAccess.useMutation({
+		onSuccess: (data) => {
+			toast.success(data.message);
+			utils.household.getMembers.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to revoke access", { description: error.message });
+		},
+	});
+
+	const animalNames = (ids: string[] | null) =>
+		ids?.length
+			? ids
+					.map((id) => animals.find((animal) => animal.id === id)?.name)
+					.filter(Boolean)
+					.join(", ")
+			: "All animals";
+
+	return (
+		<Card>
+			<CardHeader>
+				<div className="flex items-center justify-between gap-4">
+					<div>
+						<CardTitle className="flex items-center gap-2">
+							<Clock className="h-5 w-5" />
+							Temporary Access
+						</CardTitle>
+						<CardDescription>
+							Let a pet sitter record doses for a limited time
+						</CardDescription>
+					</div>
+					<Button
+						size="sm"
+						className="gap-2"
+						onClick={() => setIsGrantOpen(true)}
+					>
+						<Plus className="h-4 w-4" />
+						Grant
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent>
+				{members.length === 0 ? (
+					<p className="text-muted-foreground text-sm">
+						No temporary access has been granted
+					</p>
+				) : (
+					<div className="space-y-3">
+						{members.map((member) => {
+							const status = getAccessStatus(member, now);
+							return (
+								<div
+									key={member.id}
+									className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between"
+								>
+									<div className="min-w-0 flex-1 space-y-1">
+										<div className="flex flex-wrap items-center gap-2">
+											<span className="truncate font-medium">
+												{member.name || member.email}
+											</span>
+											<Badge
+												variant={status === "Expired" ? "secondary" : "outline"}
+											>
+												{status}
+											</Badge>
+										</div>
+										<div className="text-muted-foreground text-xs">
+											{member.validFrom?.toLocaleString() ?? "Now"} –{" "}
+											{member.validUntil?.toLocaleString() ?? "No end"}
+										</div>
+										<div className="text-muted-foreground text-xs">
+											{animalNames(member.animalIds)}
+										</div>
+									</div>
+									{status !== "Expired" && (
+										<Button
+											variant="outline"
+											size="sm"
+											className="self-end text-destructive sm:self-center"
+											disabled={revokeMutation.isPending}
+											onClick={() =>
+												revokeMutation.mutate({
+													householdId,
+													membershipId: member.id,
+												})
+											}
+										>
+											Revoke
+										</Button>
+									)}
+								</div>
+							);
+						})}
+					</div>
+				)}
+			</CardContent>
+
+			<GrantAccessDialog
+				open={isGrantOpen}
+				onOpenChange={setIsGrantOpen}
+				householdId={householdId}
+			/>
+		</Card>
+	);
+}
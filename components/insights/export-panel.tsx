@@ -2,6 +2,7 @@
 
 import { Download, FileText, Printer } from "lucide-react";
 import { useState } from "react";
+import { toast } from "sonner";
 import { useApp } from "@/components/providers/app-provider";
 import { Button } from "@/components/ui/button";
 import {
@@ -18,13 +19,16 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { downloadExport } from "@/lib/download-export";
 
 export function ExportPanel() {
 	const [isExporting, setIsExporting] = useState(false);
 	const [selectedAnimalId, setSelectedAnimalId] = useState<string>("all");
-	const { animals } = useApp();
+	const { animals, selectedHousehold } = useApp();
 
 	const handleExportCSV = async () => {
+		if (!selectedHousehold) return;
+
 		setIsExporting(true);
 		try {
 			// Fire instrumentation event
@@ -34,31 +38,19 @@ export function ExportPanel() {
 				}),
 			);
 
-			// TODO: Replace with tRPC mutation
-			// const data = await reports.csv.query({
-			//   householdId,
-			//   animalId: selectedAnimalId === "all" ? undefined : selectedAnimalId,
-			//   from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-			//   to: new Date()
-			// })
-
-			// Create mock CSV
-			const csvContent = [
-				"Date,Animal,Medication,Scheduled Time,Recorded Time,Status,Notes",
-				"2024-01-15,Buddy,Rimadyl 75mg,08:00,08:05,On Time,Given with food",
-				"2024-01-15,Whiskers,Insulin 2 units,07:00,07:02,On Time,Left shoulder",
-				"2024-01-15,Buddy,Rimadyl 75mg,20:00,20:15,Late,",
-			].join("\n");
-
-			const blob = new Blob([csvContent], { type: "text/csv" });
-			const url = URL.createObjectURL(blob);
-			const a = document.createElement("a");
-			a.href = url;
-			a.download = `compliance-report-${new Date().toISOString().split("T")[0]}.csv`;
-			a.click();
-			URL.revokeObjectURL(url);
+			await downloadExport({
+				householdId: selectedHousehold.id,
+				format: "csv",
+				dataset: "administrations",
+				animalId: selectedAnimalId === "all" ? undefined : selectedAnimalId,
+				from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+				to: new Date(),
+			});
 		} catch (error) {
 			console.error("Failed to export CSV:", error);
+			toast.error("Failed to export CSV", {
+				description: error instanceof Error ? error.message : undefined,
+			});
 		} finally {
 			setIsExporting(false);
 		}
@@ -106,7 +98,7 @@ export function ExportPanel() {
 
 					<Button
 						onClick={handleExportCSV}
-						disabled={isExporting}
+						disabled={isExporting || !selectedHousehold}
 						className="w-full gap-2 sm:w-auto"
 					>
 						<FileText className="h-4 w-4" />
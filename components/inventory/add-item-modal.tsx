@@ -285,6 +285,12 @@ export function AddItemModal({
 														}}
 														required
 														householdId={selectedHousehold?.id}
+														species={
+															animals.find(
+																(animal) =>
+																	animal.id === form.watch("assignedAnimalId"),
+															)?.species
+														}
 													/>
 												</FormControl>
 												<FormMessage />
@@ -467,10 +473,11 @@ export function AddItemModal({
 															type="number"
 															min="0"
 															max={form.watch("quantityUnits")}
+															step="0.01"
 															{...field}
 															onChange={(e) =>
 																field.onChange(
-																	Number.parseInt(e.target.value) || 0,
+																	Number.parseFloat(e.target.value) || 0,
 																)
 															}
 														/>
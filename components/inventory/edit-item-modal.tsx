@@ -31,6 +31,7 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { unitsRemainingSchema } from "@/lib/schemas/inventory";
 import type { InventoryItem } from "./inventory-card";
 
 const editItemSchema = z.object({
@@ -38,7 +39,7 @@ const editItemSchema = z.object({
 	lot: z.string().optional(),
 	expiresOn: z.string().min(1, "Expiration date is required"),
 	storage: z.enum(["ROOM", "FRIDGE", "FREEZER", "CONTROLLED"]),
-	unitsRemaining: z.number().int().min(0, "Units must be 0 or more"),
+	unitsRemaining: unitsRemainingSchema,
 	notes: z.string().optional(),
 });
 
@@ -205,9 +206,10 @@ export function EditItemModal({
 										<Input
 											type="number"
 											min="0"
+											step="0.01"
 											{...field}
 											onChange={(e) =>
-												field.onChange(parseInt(e.target.value) || 0)
+												field.onChange(Number.parseFloat(e.target.value) || 0)
 											}
 										/>
 									</FormControl>
@@ -77,6 +77,10 @@ const data = {
 					title: "Regimens",
 					url: "/medications/regimens",
 				},
+				{
+					title: "Custom Medications",
+					url: "/medications/catalog",
+				},
 			],
 		},
 		{
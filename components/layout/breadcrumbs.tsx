@@ -35,6 +35,8 @@ export function Breadcrumbs() {
 		record: "Record Dose",
 		inventory: "Inventory",
 		regimens: "Regimens",
+		catalog: "Custom Medications",
+		review: "Review",
 		insights: "Insights",
 		reports: "Reports",
 		animal: "Animal Report",
@@ -83,6 +83,14 @@ export function PageHeaderEnhanced({ className }: PageHeaderProps) {
 				</Button>
 			),
 		},
+		"medications/catalog": {
+			title: "Custom Medications",
+			description: "Your household's own catalog entries",
+		},
+		"medications/catalog/review": {
+			title: "Catalog Review",
+			description: "Approve medications proposed for the shared catalog",
+		},
 		"admin/record": {
 			title: "Record Administration",
 			description: "Record a medication dose",
@@ -0,0 +1,159 @@
+"use client";
+
+import { Loader2, Upload } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	type CatalogImportResponse,
+	uploadCatalogImport,
+} from "@/lib/upload-catalog-import";
+import type { CatalogImportReport } from "@/server/utils/catalog-import";
+
+const formatName = (medication: {
+	genericName: string;
+	brandName?: string | null;
+	strength?: string | null;
+}) =>
+	[
+		medication.genericName,
+		medication.brandName && `(${medication.brandName})`,
+		medication.strength,
+	]
+		.filter(Boolean)
+		.join(" ");
+
+function ImportReport({ report }: { report: CatalogImportReport }) {
+	return (
+		<div className="space-y-3 text-sm">
+			<div className="flex flex-wrap gap-2">
+				<Badge variant="outline">{report.create.length} new</Badge>
+				<Badge variant="outline">{report.update.length} updated</Badge>
+				<Badge variant="outline">{report.unchanged.length} unchanged</Badge>
+				{report.errors.length > 0 && (
+					<Badge variant="destructive">{report.errors.length} errors</Badge>
+				)}
+			</div>
+			{report.errors.length > 0 && (
+				<ul className="space-y-1 text-destructive">
+					{report.errors.map((error) => (
+						<li key={`${error.line}-${error.message}`}>
+							Line {error.line}: {error.message}
+						</li>
+					))}
+				</ul>
+			)}
+			{report.ignoredColumns.length > 0 && (
+				<p className="text-muted-foreground">
+					Ignored columns: {report.ignoredColumns.join(", ")}
+				</p>
+			)}
+			<ul className="max-h-64 space-y-1 overflow-y-auto">
+				{report.create.map((row) => (
+					<li key={row.line}>
+						<span className="text-green-600 dark:text-green-400">+</span>{" "}
+						{formatName(row.medication)}
+					</li>
+				))}
+				{report.update.map((update) => (
+					<li key={update.line}>
+						<span className="text-amber-600 dark:text-amber-400">~</span>{" "}
+						{formatName(update.medication)}
+						<span className="text-muted-foreground">
+							{" "}
+							— {Object.keys(update.changes).join(", ")}
+						</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
+
+// Admin upload of a clinic formulary: preview the diff, then import it
+export function CatalogImport() {
+	const [file, setFile] = useState<File | null>(null);
+	const [result, setResult] = useState<CatalogImportResponse | null>(null);
+	const [isUploading, setIsUploading] = useState(false);
+
+	const upload = async (commit: boolean) => {
+		if (!file) return;
+		setIsUploading(true);
+		try {
+			const response = await uploadCatalogImport(file, commit);
+			setResult(response);
+			if (response.committed) {
+				toast.success(
+					`Imported ${response.created} new and ${response.updated} updated medications`,
+				);
+			}
+		} catch (error) {
+			toast.error("Import failed", {
+				description: error instanceof Error ? error.message : undefined,
+			});
+		} finally {
+			setIsUploading(false);
+		}
+	};
+
+	const canCommit =
+		result &&
+		!result.committed &&
+		result.report.errors.length === 0 &&
+		result.report.create.length + result.report.update.length > 0;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="text-lg">Import formulary</CardTitle>
+				<CardDescription>
+					CSV with generic_name, route and form columns, plus optional
+					brand_name, strength, controlled_substance, drug_class, common_dosing
+					and warnings.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex gap-2">
+					<Input
+						type="file"
+						accept=".csv,text/csv"
+						onChange={(e) => {
+							setFile(e.target.files?.[0] ?? null);
+							setResult(null);
+						}}
+					/>
+					<Button
+						variant="outline"
+						disabled={!file || isUploading}
+						onClick={() => upload(false)}
+					>
+						{isUploading ? (
+							<Loader2 className="mr-1 h-4 w-4 animate-spin" />
+						) : (
+							<Upload className="mr-1 h-4 w-4" />
+						)}
+						Preview
+					</Button>
+				</div>
+				{result && <ImportReport report={result.report} />}
+				{canCommit && (
+					<div className="flex justify-end">
+						<Button disabled={isUploading} onClick={() => upload(true)}>
+							Import {result.report.create.length + result.report.update.length}{" "}
+							medications
+						</Button>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { Check, Loader2, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/server/trpc/client";
+
+function PromotionReviewCard({
+	request,
+}: {
+	request: {
+		promotion: { id: string; note: string | null; createdAt: string };
+		medication: {
+			genericName: string;
+			brandName: string | null;
+			strength: string | null;
+			route: string;
+			form: string;
+			drugClass: string | null;
+			commonDosing: string | null;
+			warnings: string | null;
+		};
+		householdName: string;
+		proposedBy: { name: string | null; email: string };
+	};
+}) {
+	const utils = trpc.useUtils();
+	const [reviewNote, setReviewNote] = useState("");
+	const { medication, promotion } = request;
+
+	const reviewMutation = trpc.medication.reviewPromotion.useMutation({
+		onSuccess: (result) => {
+			toast.success(
+				result.status === "APPROVED"
+					? `${medication.genericName} added to the shared catalog`
+					: "Request declined",
+			);
+			utils.medication.listPromotions.invalidate();
+		},
+		onError: (error) => {
+			toast.error("Failed to review request", { description: error.message });
+		},
+	});
+
+	const review = (approve: boolean) =>
+		reviewMutation.mutate({
+			id: promotion.id,
+			approve,
+			reviewNote: reviewNote || undefined,
+		});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="text-lg">
+					{medication.genericName}
+					{medication.brandName && (
+						<span className="font-normal text-muted-foreground">
+							{" "}
+							({medication.brandName})
+						</span>
+					)}
+				</CardTitle>
+				<CardDescription>
+					Proposed by {request.proposedBy.name || request.proposedBy.email} for{" "}
+					{request.householdName} on{" "}
+					{new Date(promotion.createdAt).toLocaleDateString()}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3 text-sm">
+				<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+					<dt className="text-muted-foreground">Strength</dt>
+					<dd>{medication.strength || "—"}</dd>
+					<dt className="text-muted-foreground">Form / route</dt>
+					<dd>
+						{medication.form} • {medication.route}
+					</dd>
+					<dt className="text-muted-foreground">Drug class</dt>
+					<dd>{medication.drugClass || "—"}</dd>
+					<dt className="text-muted-foreground">Common dosing</dt>
+					<dd>{medication.commonDosing || "—"}</dd>
+					<dt className="text-muted-foreground">Warnings</dt>
+					<dd>{medication.warnings || "—"}</dd>
+				</dl>
+				{promotion.note && (
+					<p className="rounded-md bg-muted p-2">{promotion.note}</p>
+				)}
+				<Textarea
+					rows={2}
+					placeholder="Note for the household (optional)"
+					value={reviewNote}
+					onChange={(e) => setReviewNote(e.target.value)}
+				/>
+				<div className="flex justify-end gap-2">
+					<Button
+						variant="outline"
+						disabled={reviewMutation.isPending}
+						onClick={() => review(false)}
+					>
+						<X className="mr-1 h-4 w-4" />
+						Decline
+					</Button>
+					<Button
+						disabled={reviewMutation.isPending}
+						onClick={() => review(true)}
+					>
+						<Check className="mr-1 h-4 w-4" />
+						Approve
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
+
+// Pending requests to move household medications into the shared catalog
+export function CatalogPromotionReview() {
+	const {
+		data: requests,
+		isLoading,
+		error,
+	} = trpc.medication.listPromotions.useQuery({ status: "PENDING" });
+
+	if (error) {
+		return (
+			<p className="py-12 text-center text-muted-foreground">{error.message}</p>
+		);
+	}
+
+	if (isLoading || !requests) {
+		return (
+			<div className="flex items-center justify-center gap-2 py-12">
+				<Loader2 className="h-5 w-5 animate-spin" />
+				Loading requests...
+			</div>
+		);
+	}
+
+	if (requests.length === 0) {
+		return (
+			<p className="py-12 text-center text-muted-foreground">
+				No medications are waiting for review.
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-4">
+			{requests.map((request) => (
+				<PromotionReviewCard key={request.promotion.id} request={request} />
+			))}
+		</div>
+	);
+}
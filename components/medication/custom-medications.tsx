@@ -0,0 +1,518 @@
+"use client";
+
+import { Pencil, Pill, Plus, Send } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/server/trpc/client";
+
+const ROUTES = [
+	"ORAL",
+	"SC",
+	"IM",
+	"IV",
+	"TOPICAL",
+	"OTIC",
+	"OPHTHALMIC",
+	"INHALED",
+	"RECTAL",
+	"OTHER",
+] as const;
+
+const FORMS = [
+	"TABLET",
+	"CAPSULE",
+	"LIQUID",
+	"INJECTION",
+	"CREAM",
+	"OINTMENT",
+	"DROPS",
+	"SPRAY",
+	"POWDER",
+	"PATCH",
+	"OTHER",
+] as const;
+
+type PromotionStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+const promotionLabels: Record<PromotionStatus, string> = {
+	PENDING: "Awaiting review",
+	APPROVED: "Approved",
+	REJECTED: "Not accepted",
+};
+
+export interface CustomMedication {
+	id: string;
+	genericName: string;
+	brandName: string | null;
+	strength: string | null;
+	route: (typeof ROUTES)[number];
+	form: (typeof FORMS)[number];
+	controlledSubstance: boolean;
+	drugClass: string | null;
+	commonDosing: string | null;
+	warnings: string | null;
+	promotion: {
+		status: PromotionStatus;
+		reviewNote: string | null;
+	} | null;
+}
+
+interface CustomMedicationFormData {
+	genericName: string;
+	brandName: string;
+	strength: string;
+	route: (typeof ROUTES)[number];
+	form: (typeof FORMS)[number];
+	controlledSubstance: boolean;
+	drugClass: string;
+	commonDosing: string;
+	warnings: string;
+}
+
+function toFormData(
+	medication: CustomMedication | null,
+): CustomMedicationFormData {
+	return {
+		genericName: medication?.genericName ?? "",
+		brandName: medication?.brandName ?? "",
+		strength: medication?.strength ?? "",
+		route: medication?.route ?? "ORAL",
+		form: medication?.form ?? "LIQUID",
+		controlledSubstance: medication?.controlledSubstance ?? false,
+		drugClass: medication?.drugClass ?? "",
+		commonDosing: medication?.commonDosing ?? "",
+		warnings: medication?.warnings ?? "",
+	};
+}
+
+// Empty optional fields are sent as undefined rather than ""
+function toInput(data: CustomMedicationFormData) {
+	return {
+		genericName: data.genericName,
+		brandName: data.brandName || undefined,
+		strength: data.strength || undefined,
+		route: data.route,
+		form: data.form,
+		controlledSubstance: data.controlledSubstance,
+		drugClass: data.drugClass || undefined,
+		commonDosing: data.commonDosing || undefined,
+		warnings: data.warnings || undefined,
+	};
+}
+
+function CustomMedicationDialog({
+	householdId,
+	medication,
+	open,
+	onOpenChange,
+}: {
+	householdId: string;
+	medication: CustomMedication | null;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const utils = trpc.useUtils();
+	const [formData, setFormData] = useState(toFormData(medication));
+
+	useEffect(() => {
+		if (open) setFormData(toFormData(medication));
+	}, [open, medication]);
+
+	const onSuccess = () => {
+		toast.success(medication ? "Medication updated" : "Medication added");
+		utils.medication.listCustom.invalidate({ householdId });
+		onOpenChange(false);
+	};
+	const onError = (error: { message: string }) => {
+		toast.error("Failed to save medication", { description: error.message });
+	};
+	const createMutation = trpc.medication.createCustom.useMutation({
+		onSuccess,
+		onError,
+	});
+	const updateMutation = trpc.medication.updateCustom.useMutation({
+		onSuccess,
+		onError,
+	});
+
+	const setField = <K extends keyof CustomMedicationFormData>(
+		field: K,
+		value: CustomMedicationFormData[K],
+	) => setFormData((prev) => ({ ...prev, [field]: value }));
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		if (medication) {
+			updateMutation.mutate({
+				id: medication.id,
+				householdId,
+				...toInput(formData),
+			});
+		} else {
+			createMutation.mutate({ householdId, ...toInput(formData) });
+		}
+	};
+
+	const isSaving = createMutation.isPending || updateMutation.isPending;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>
+						{medication ? "Edit Custom Medication" : "Add Custom Medication"}
+					</DialogTitle>
+					<DialogDescription>
+						Only members of this household will see it when searching.
+					</DialogDescription>
+				</DialogHeader>
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<div className="grid gap-4 sm:grid-cols-2">
+						<div className="space-y-1">
+							<Label htmlFor="custom-generic">Generic name *</Label>
+							<Input
+								id="custom-generic"
+								required
+								value={formData.genericName}
+								onChange={(e) => setField("genericName", e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor="custom-brand">Brand or pharmacy name</Label>
+							<Input
+								id="custom-brand"
+								value={formData.brandName}
+								onChange={(e) => setField("brandName", e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor="custom-strength">Strength</Label>
+							<Input
+								id="custom-strength"
+								placeholder="e.g. 10mg/mL"
+								value={formData.strength}
+								onChange={(e) => setField("strength", e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor="custom-class">Drug class</Label>
+							<Input
+								id="custom-class"
+								placeholder="e.g. NSAID"
+								value={formData.drugClass}
+								onChange={(e) => setField("drugClass", e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label>Route *</Label>
+							<Select
+								value={formData.route}
+								onValueChange={(value) =>
+									setField("route", value as CustomMedicationFormData["route"])
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{ROUTES.map((route) => (
+										<SelectItem key={route} value={route}>
+											{route}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-1">
+							<Label>Form *</Label>
+							<Select
+								value={formData.form}
+								onValueChange={(value) =>
+									setField("form", value as CustomMedicationFormData["form"])
+								}
+							>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{FORMS.map((form) => (
+										<SelectItem key={form} value={form}>
+											{form}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+					<div className="space-y-1">
+						<Label htmlFor="custom-dosing">Common dosing</Label>
+						<Input
+							id="custom-dosing"
+							placeholder="e.g. 1mg/kg SID"
+							value={formData.commonDosing}
+							onChange={(e) => setField("commonDosing", e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1">
+						<Label htmlFor="custom-warnings">Warnings</Label>
+						<Textarea
+							id="custom-warnings"
+							rows={2}
+							value={formData.warnings}
+							onChange={(e) => setField("warnings", e.target.value)}
+						/>
+					</div>
+					<div className="flex items-center gap-2">
+						<Checkbox
+							id="custom-controlled"
+							checked={formData.controlledSubstance}
+							onCheckedChange={(checked) =>
+								setField("controlledSubstance", checked === true)
+							}
+						/>
+						<Label htmlFor="custom-controlled" className="font-normal">
+							Controlled substance
+						</Label>
+					</div>
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={isSaving}>
+							{isSaving ? "Saving..." : "Save"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function ProposePromotionDialog({
+	householdId,
+	medication,
+	onOpenChange,
+}: {
+	householdId: string;
+	medication: CustomMedication | null;
+	onOpenChange: (open: boolean) => void;
+}) {
+	const utils = trpc.useUtils();
+	const [note, setNote] = useState("");
+
+	const proposeMutation = trpc.medication.proposePromotion.useMutation({
+		onSuccess: () => {
+			toast.success("Sent for review");
+			utils.medication.listCustom.invalidate({ householdId });
+			setNote("");
+			onOpenChange(false);
+		},
+		onError: (error) => {
+			toast.error("Failed to propose medication", {
+				description: error.message,
+			});
+		},
+	});
+
+	return (
+		<Dialog open={!!medication} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-md">
+				<DialogHeader>
+					<DialogTitle>Propose for the shared catalog</DialogTitle>
+					<DialogDescription>
+						If an admin approves {medication?.genericName}, every household will
+						be able to find it in search.
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-1">
+					<Label htmlFor="promotion-note">Note for the reviewer</Label>
+					<Textarea
+						id="promotion-note"
+						rows={3}
+						placeholder="e.g. Commonly compounded for cats who refuse tablets"
+						value={note}
+						onChange={(e) => setNote(e.target.value)}
+					/>
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						disabled={proposeMutation.isPending || !medication}
+						onClick={() =>
+							medication &&
+							proposeMutation.mutate({
+								householdId,
+								medicationId: medication.id,
+								note: note || undefined,
+							})
+						}
+					>
+						Send for review
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function CustomMedicationRow({
+	medication,
+	onEdit,
+	onPropose,
+}: {
+	medication: CustomMedication;
+	onEdit: () => void;
+	onPropose: () => void;
+}) {
+	const status = medication.promotion?.status;
+
+	return (
+		<li className="flex flex-wrap items-start justify-between gap-3 py-3">
+			<div className="space-y-1">
+				<div className="flex flex-wrap items-center gap-2 font-medium">
+					{medication.genericName}
+					{medication.brandName && (
+						<span className="font-normal text-muted-foreground">
+							({medication.brandName})
+						</span>
+					)}
+					{status && (
+						<Badge variant={status === "REJECTED" ? "outline" : "secondary"}>
+							{promotionLabels[status]}
+						</Badge>
+					)}
+				</div>
+				<div className="text-muted-foreground text-sm">
+					{[medication.strength, medication.form, medication.route]
+						.filter(Boolean)
+						.join(" • ")}
+				</div>
+				{medication.promotion?.reviewNote && (
+					<p className="text-muted-foreground text-xs">
+						Reviewer: {medication.promotion.reviewNote}
+					</p>
+				)}
+			</div>
+			<div className="flex gap-2">
+				<Button variant="outline" size="sm" onClick={onEdit}>
+					<Pencil className="mr-1 h-3 w-3" />
+					Edit
+				</Button>
+				<Button
+					variant="outline"
+					size="sm"
+					disabled={status === "PENDING"}
+					onClick={onPropose}
+				>
+					<Send className="mr-1 h-3 w-3" />
+					Propose
+				</Button>
+			</div>
+		</li>
+	);
+}
+
+// A household's own catalog entries, e.g. medications compounded by their
+// vet pharmacy
+export function CustomMedications({ householdId }: { householdId: string }) {
+	const [editing, setEditing] = useState<CustomMedication | null>(null);
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const [proposing, setProposing] = useState<CustomMedication | null>(null);
+
+	const { data: medications = [], isLoading } =
+		trpc.medication.listCustom.useQuery({ householdId });
+
+	const openDialog = (medication: CustomMedication | null) => {
+		setEditing(medication);
+		setDialogOpen(true);
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between gap-4">
+				<div className="space-y-1.5">
+					<CardTitle className="flex items-center gap-2">
+						<Pill className="h-5 w-5" />
+						Custom Medications
+					</CardTitle>
+					<CardDescription>
+						Medications missing from the shared catalog. Only your household
+						sees them.
+					</CardDescription>
+				</div>
+				<Button size="sm" onClick={() => openDialog(null)}>
+					<Plus className="mr-2 h-4 w-4" />
+					Add
+				</Button>
+			</CardHeader>
+			<CardContent>
+				{isLoading && (
+					<p className="text-muted-foreground text-sm">Loading...</p>
+				)}
+				{!isLoading && medications.length === 0 && (
+					<p className="text-muted-foreground text-sm">
+						No custom medications yet.
+					</p>
+				)}
+				<ul className="divide-y">
+					{medications.map((medication) => (
+						<CustomMedicationRow
+							key={medication.id}
+							medication={medication}
+							onEdit={() => openDialog(medication)}
+							onPropose={() => setProposing(medication)}
+						/>
+					))}
+				</ul>
+			</CardContent>
+
+			<CustomMedicationDialog
+				householdId={householdId}
+				medication={editing}
+				open={dialogOpen}
+				onOpenChange={setDialogOpen}
+			/>
+			<ProposePromotionDialog
+				householdId={householdId}
+				medication={proposing}
+				onOpenChange={(open) => {
+					if (!open) setProposing(null);
+				}}
+			/>
+		</Card>
+	);
+}
@@ -21,6 +21,8 @@ type MedicationCatalog = typeof vetmedMedicationCatalog.$inferSelect;
 
 import { cn } from "@/lib/utils";
 import { trpc } from "@/server/trpc/client";
+import { HighlightedText, MatchReason } from "./search-match";
+import { SpeciesSafetyBadge } from "./species-safety";
 
 interface MedicationSearchProps {
 	value?: string; // medication ID
@@ -29,6 +31,7 @@ interface MedicationSearchProps {
 	required?: boolean;
 	disabled?: boolean;
 	householdId?: string; // For showing frequently used medications
+	species?: string; // Rank and label search results for this species
 }
 
 export function MedicationSearch({
@@ -38,6 +41,7 @@ export function MedicationSearch({
 	required = false,
 	disabled = false,
 	householdId,
+	species,
 }: MedicationSearchProps) {
 	const [query, setQuery] = useState("");
 	const [open, setOpen] = useState(false);
@@ -45,7 +49,7 @@ export function MedicationSearch({
 	// Search medications
 	const { data: searchResults, isLoading: isSearching } =
 		trpc.medication.search.useQuery(
-			{ query, limit: 10 },
+			{ query, limit: 10, species, householdId },
 			{
 				enabled: query.length > 0 && open,
 				staleTime: 5 * 60 * 1000, // Cache for 5 minutes
@@ -77,6 +81,9 @@ export function MedicationSearch({
 		: null;
 
 	const medicationsToShow = query.length > 0 ? searchResults : frequentMeds;
+	const resultsById = new Map(
+		searchResults?.map((medication) => [medication.id, medication]),
+	);
 
 	return (
 		<Popover open={open} onOpenChange={setOpen}>
@@ -142,12 +149,49 @@ export function MedicationSearch({
 									)}
 								/>
 								<div className="flex flex-col">
-									<span className="font-medium">{medication.genericName}</span>
+									<span className="font-medium">
+										<HighlightedText
+											text={medication.genericName}
+											field="genericName"
+											match={resultsById.get(medication.id)?.match}
+										/>
+										{medication.householdId && (
+											<span className="ml-2 font-normal text-muted-foreground text-xs">
+												Custom
+											</span>
+										)}
+									</span>
 									<span className="text-muted-foreground text-sm">
-										{medication.brandName && <>{medication.brandName} • </>}
+										{medication.brandName && (
+											<>
+												<HighlightedText
+													text={medication.brandName}
+													field="brandName"
+													match={resultsById.get(medication.id)?.match}
+												/>{" "}
+												•{" "}
+											</>
+										)}
 										{medication.form} • {medication.route}
-										{medication.strength && <> • {medication.strength}</>}
+										{medication.strength && (
+											<>
+												{" "}
+												•{" "}
+												<HighlightedText
+													text={medication.strength}
+													field="strength"
+													match={resultsById.get(medication.id)?.match}
+												/>
+											</>
+										)}
 									</span>
+									<MatchReason match={resultsById.get(medication.id)?.match} />
+									<SpeciesSafetyBadge
+										safety={
+											resultsById.get(medication.id)?.safetyForSpecies ?? null
+										}
+										species={species}
+									/>
 									{medication.controlledSubstance && (
 										<span className="font-medium text-orange-600 text-xs dark:text-orange-400">
 											Controlled Substance
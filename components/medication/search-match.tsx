@@ -0,0 +1,59 @@
+"use client";
+
+import type {
+	SearchMatch,
+	SearchMatchKind,
+	SearchRanking,
+} from "@/utils/medication-search";
+
+// Marks the span of a field that a search term matched
+export function HighlightedText({
+	text,
+	field,
+	match,
+}: {
+	text: string;
+	field: SearchMatch["field"];
+	match?: SearchRanking | null;
+}) {
+	const span = match?.matches.find(
+		(m) => m.field === field && m.start !== undefined && m.start >= 0,
+	);
+	if (!span || span.start === undefined || span.end === undefined) {
+		return <>{text}</>;
+	}
+
+	return (
+		<>
+			{text.slice(0, span.start)}
+			<mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-800">
+				{text.slice(span.start, span.end)}
+			</mark>
+			{text.slice(span.end)}
+		</>
+	);
+}
+
+const reasonLabels: Partial<Record<SearchMatchKind, (term: string) => string>> =
+	{
+		fuzzy: (term) => `Similar to "${term}"`,
+		synonym: (term) => `Abbreviation "${term}"`,
+		class: (term) => `Drug class "${term}"`,
+		strength: (term) => `Strength ${term}`,
+	};
+
+// Why a search result matched, beyond a plain name match
+export function MatchReason({ match }: { match?: SearchRanking | null }) {
+	if (!match) return null;
+
+	const reasons = match.matches.flatMap((m) => {
+		const label = reasonLabels[m.kind];
+		return label ? [label(m.term)] : [];
+	});
+	if (match.frequent) reasons.push("Frequently used");
+	if (reasons.length === 0) return null;
+
+	return (
+		<span className="text-muted-foreground text-xs">{reasons.join(" • ")}</span>
+	);
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { Ban } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { SpeciesSafetyEntry } from "@/utils/species-safety";
+
+const levelLabels: Record<SpeciesSafetyEntry["level"], string> = {
+	ALLOWED: "Suitable",
+	CAUTION: "Use with caution",
+	CONTRAINDICATED: "Contraindicated",
+};
+
+const levelVariants: Record<
+	SpeciesSafetyEntry["level"],
+	"outline" | "secondary" | "destructive"
+> = {
+	ALLOWED: "outline",
+	CAUTION: "secondary",
+	CONTRAINDICATED: "destructive",
+};
+
+// Search result label for how safe a medication is for the selected species
+export function SpeciesSafetyBadge({
+	safety,
+	species,
+}: {
+	safety: SpeciesSafetyEntry | null;
+	species?: string;
+}) {
+	if (!safety) return null;
+
+	return (
+		<Badge
+			variant={levelVariants[safety.level]}
+			className="w-fit text-xs"
+			title={safety.note}
+		>
+			{levelLabels[safety.level]}
+			{species && ` for ${species.toLowerCase()}`}
+		</Badge>
+	);
+}
+
+interface SpeciesOverrideProps {
+	medicationName?: string;
+	species?: string;
+	// Only rendered when set
+	safety: SpeciesSafetyEntry | null;
+	canOverride: boolean;
+	reason?: string;
+	onReasonChange: (reason: string) => void;
+}
+
+// Shown when the medication is contraindicated for the animal's species
+export function SpeciesOverride({
+	medicationName,
+	species,
+	safety,
+	canOverride,
+	reason,
+	onReasonChange,
+}: SpeciesOverrideProps) {
+	if (!safety) return null;
+
+	return (
+		<div className="space-y-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm dark:border-red-900 dark:bg-red-950/20">
+			<div className="flex items-center gap-2 font-medium text-red-700 dark:text-red-400">
+				<Ban className="h-4 w-4" />
+				{medicationName || "This medication"} is contraindicated for{" "}
+				{species?.toLowerCase() || "this species"}
+			</div>
+			{safety.note && <p>{safety.note}</p>}
+			{canOverride ? (
+				<div className="space-y-2">
+					<Label htmlFor="species-override-reason">
+						Reason for overriding *
+					</Label>
+					<Textarea
+						id="species-override-reason"
+						value={reason ?? ""}
+						onChange={(e) => onReasonChange(e.target.value)}
+						placeholder="e.g. Prescribed by Dr. Smith after discussing the risks"
+						rows={2}
+					/>
+				</div>
+			) : (
+				<p className="text-muted-foreground">
+					Only a household owner can create this regimen.
+				</p>
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import { AlertTriangle, Clock, Plus, X } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useApp } from "@/components/providers/app-provider";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,27 +22,78 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { DEFAULT_ESCALATION_POLICY } from "@/lib/schemas/escalation";
+import { trpc } from "@/server/trpc/client";
 
 interface NotificationPrefs {
-	leadMinutes: number;
+	leadMinutes: number; // The user's own first reminder
 	attempts: number[]; // Minutes relative to target time
-	escalationRole: "Owner" | "Lead";
+	escalateAfterMinutes: number;
+	escalationTarget: "OWNERS" | "LEAD";
+	leadUserId: string | null;
 }
 
-export function EscalationPanel() {
+// Loads the user's lead time and the household's escalation policy
+function useNotificationPrefs(householdId: string) {
 	const [prefs, setPrefs] = useState<NotificationPrefs>({
 		leadMinutes: 15,
-		attempts: [-15, 0, 15, 45, 90],
-		escalationRole: "Owner",
+		attempts: [...DEFAULT_ESCALATION_POLICY.attemptOffsets],
+		escalateAfterMinutes: DEFAULT_ESCALATION_POLICY.escalateAfterMinutes,
+		escalationTarget: DEFAULT_ESCALATION_POLICY.escalationTarget,
+		leadUserId: DEFAULT_ESCALATION_POLICY.leadUserId,
 	});
+	const { data: profile } = trpc.user.getProfile.useQuery();
+	const { data: policy } = trpc.household.getEscalationPolicy.useQuery(
+		{ householdId },
+		{ enabled: !!householdId },
+	);
+
+	useEffect(() => {
+		const leadMinutes = Number(profile?.preferences.reminderLeadTime);
+		if (leadMinutes > 0) {
+			setPrefs((prev) => ({ ...prev, leadMinutes }));
+		}
+	}, [profile?.preferences.reminderLeadTime]);
+
+	useEffect(() => {
+		if (!policy) return;
+		setPrefs((prev) => ({
+			...prev,
+			attempts: policy.attemptOffsets,
+			escalateAfterMinutes: policy.escalateAfterMinutes,
+			escalationTarget: policy.escalationTarget,
+			leadUserId: policy.leadUserId,
+		}));
+	}, [policy]);
+
+	return [prefs, setPrefs] as const;
+}
+
+export function EscalationPanel() {
+	const { selectedHousehold } = useApp();
+	const householdId = selectedHousehold?.id || "";
+	const [prefs, setPrefs] = useNotificationPrefs(householdId);
 	const [newAttempt, setNewAttempt] = useState("");
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
+	const utils = trpc.useUtils();
+	const { data: membership } = trpc.user.getMembership.useQuery(
+		{ householdId },
+		{ enabled: !!householdId },
+	);
+	const { data: members } = trpc.household.getMembers.useQuery(
+		{ householdId },
+		{ enabled: !!householdId },
+	);
+	const updatePreferences = trpc.user.updatePreferences.useMutation();
+	const updatePolicy = trpc.household.updateEscalationPolicy.useMutation();
+	const isOwner = membership?.role === "OWNER";
+	const leadCandidates =
+		members?.filter((member) => member.role !== "VETREADONLY") ?? [];
+
 	const handleSave = async () => {
 		setIsSubmitting(true);
 		try {
-			console.log("Saving notification preferences:", prefs);
-
 			// Fire instrumentation event
 			window.dispatchEvent(
 				new CustomEvent("settings_notifications_update", {
@@ -48,17 +101,30 @@ export function EscalationPanel() {
 				}),
 			);
 
-			// TODO: tRPC mutation
-			// await updateNotificationPrefs.mutateAsync({
-			//   householdId,
-			//   leadMinutes: prefs.leadMinutes,
-			//   attempts: prefs.attempts,
-			//   escalationRole: prefs.escalationRole
-			// })
+			await updatePreferences.mutateAsync({
+				vetMedPreferences: {
+					notificationPreferences: { reminderLeadTime: prefs.leadMinutes },
+				},
+			});
+			if (isOwner) {
+				await updatePolicy.mutateAsync({
+					householdId,
+					policy: {
+						attemptOffsets: prefs.attempts,
+						escalateAfterMinutes: prefs.escalateAfterMinutes,
+						escalationTarget: prefs.escalationTarget,
+						leadUserId: prefs.leadUserId,
+					},
+				});
+				await utils.household.getEscalationPolicy.invalidate({ householdId });
+			}
 
-			console.log("Notification preferences saved");
+			toast.success("Notification preferences saved");
 		} catch (error) {
 			console.error("Failed to save preferences:", error);
+			toast.error("Failed to save preferences", {
+				description: error instanceof Error ? error.message : undefined,
+			});
 		} finally {
 			setIsSubmitting(false);
 		}
@@ -143,8 +209,14 @@ export function EscalationPanel() {
 									}
 								}}
 								className="w-[200px]"
+								disabled={!isOwner}
 							/>
-							<Button type="button" onClick={addAttempt} size="sm">
+							<Button
+								type="button"
+								onClick={addAttempt}
+								size="sm"
+								disabled={!isOwner}
+							>
 								<Plus className="h-4 w-4" />
 							</Button>
 						</div>
@@ -153,7 +225,11 @@ export function EscalationPanel() {
 							{prefs.attempts.map((minutes) => (
 								<Badge key={minutes} variant="secondary" className="gap-1">
 									{formatAttempt(minutes)}
-									<button type="button" onClick={() => removeAttempt(minutes)}>
+									<button
+										type="button"
+										onClick={() => removeAttempt(minutes)}
+										disabled={!isOwner}
+									>
 										<X className="h-3 w-3" />
 									</button>
 								</Badge>
@@ -162,54 +238,134 @@ export function EscalationPanel() {
 
 						<p className="text-muted-foreground text-sm">
 							Negative numbers send reminders before the scheduled time,
-							positive numbers after
+							positive numbers after. Reminders stop once the dose is recorded.
+							{!isOwner && " Only household owners can change these."}
 						</p>
 					</div>
 				</CardContent>
 			</Card>
 
-			<Card>
-				<CardHeader>
-					<CardTitle className="flex items-center gap-2">
-						<AlertTriangle className="h-5 w-5" />
-						Escalation Settings
-					</CardTitle>
-					<CardDescription>
-						Who gets notified when medications are missed
-					</CardDescription>
-				</CardHeader>
-				<CardContent className="space-y-4">
+			<EscalationSettings
+				prefs={prefs}
+				setPrefs={setPrefs}
+				leadCandidates={leadCandidates}
+				disabled={!isOwner}
+			/>
+
+			<div className="flex justify-end">
+				<Button onClick={handleSave} disabled={isSubmitting}>
+					{isSubmitting ? "Saving..." : "Save Preferences"}
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function EscalationSettings({
+	prefs,
+	setPrefs,
+	leadCandidates,
+	disabled,
+}: {
+	prefs: NotificationPrefs;
+	setPrefs: React.Dispatch<React.SetStateAction<NotificationPrefs>>;
+	leadCandidates: {
+		userId: string;
+		user: { name: string | null; email: string };
+	}[];
+	disabled: boolean;
+}) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<AlertTriangle className="h-5 w-5" />
+					Escalation Settings
+				</CardTitle>
+				<CardDescription>
+					Who gets notified when medications are missed
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="space-y-2">
+					<Label>Escalate to</Label>
+					<Select
+						value={prefs.escalationTarget}
+						onValueChange={(value) =>
+							setPrefs((prev) => ({
+								...prev,
+								escalationTarget:
+									value as NotificationPrefs["escalationTarget"],
+							}))
+						}
+						disabled={disabled}
+					>
+						<SelectTrigger className="w-[200px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="OWNERS">Owners</SelectItem>
+							<SelectItem value="LEAD">Lead Caregiver</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+
+				{prefs.escalationTarget === "LEAD" && (
 					<div className="space-y-2">
-						<Label>Escalate to Role</Label>
+						<Label>Lead Caregiver</Label>
 						<Select
-							value={prefs.escalationRole}
+							value={prefs.leadUserId ?? ""}
 							onValueChange={(value) =>
-								setPrefs((prev) => ({
-									...prev,
-									escalationRole: value as "Owner" | "Lead",
-								}))
+								setPrefs((prev) => ({ ...prev, leadUserId: value }))
 							}
+							disabled={disabled}
 						>
 							<SelectTrigger className="w-[200px]">
-								<SelectValue />
+								<SelectValue placeholder="Choose a member" />
 							</SelectTrigger>
 							<SelectContent>
-								<SelectItem value="Owner">Owner</SelectItem>
-								<SelectItem value="Lead">Lead Caregiver</SelectItem>
+								{leadCandidates.map((member) => (
+									<SelectItem key={member.userId} value={member.userId}>
+										{member.user.name || member.user.email}
+									</SelectItem>
+								))}
 							</SelectContent>
 						</Select>
-						<p className="text-muted-foreground text-sm">
-							After 45 minutes past due, notify all members with this role
-						</p>
 					</div>
-				</CardContent>
-			</Card>
+				)}
 
-			<div className="flex justify-end">
-				<Button onClick={handleSave} disabled={isSubmitting}>
-					{isSubmitting ? "Saving..." : "Save Preferences"}
-				</Button>
-			</div>
-		</div>
+				<div className="space-y-2">
+					<Label>Escalate After</Label>
+					<Select
+						value={prefs.escalateAfterMinutes.toString()}
+						onValueChange={(value) =>
+							setPrefs((prev) => ({
+								...prev,
+								escalateAfterMinutes: Number.parseInt(value),
+							}))
+						}
+						disabled={disabled}
+					>
+						<SelectTrigger className="w-[200px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{[15, 30, 45, 60, 90, 120].map((minutes) => (
+								<SelectItem key={minutes} value={minutes.toString()}>
+									{minutes} minutes
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<p className="text-muted-foreground text-sm">
+						If the dose is still unrecorded {prefs.escalateAfterMinutes} minutes
+						past due, notify{" "}
+						{prefs.escalationTarget === "LEAD"
+							? "the lead caregiver"
+							: "all owners"}
+					</p>
+				</div>
+			</CardContent>
+		</Card>
 	);
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { AlertTriangle, Bell, Clock } from "lucide-react";
+import { AlarmClock, AlertTriangle, Bell, Clock, X } from "lucide-react";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -19,51 +19,48 @@ import {
 } from "@/components/ui/sheet";
 import { SidebarMenuButton } from "@/components/ui/sidebar";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import {
+	type NotificationItem,
+	useNotificationCenter,
+} from "@/hooks/useNotificationCenter";
 
-// Mock data - in real app this would come from tRPC
-const mockNotifications = [
-	{
-		id: "1",
-		type: "due",
-		title: "Max - Insulin due",
-		message: "Due in 15 minutes",
-		timestamp: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-		priority: "high" as const,
-	},
-	{
-		id: "2",
-		type: "overdue",
-		title: "Bella - Tramadol overdue",
-		message: "Late by 2h 30m",
-		timestamp: new Date(Date.now() - 2.5 * 60 * 60 * 1000), // 2.5 hours ago
-		priority: "critical" as const,
-	},
-	{
-		id: "3",
-		type: "reminder",
-		title: "Luna - Medication refill needed",
-		message: "Only 3 doses remaining",
-		timestamp: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-		priority: "medium" as const,
-	},
-];
+// Escalations are missed doses someone else has been told about; other
+// notices (e.g. household invitations) are informational
+const getPriority = (type: string) => {
+	switch (type) {
+		case "DOSE_ESCALATION":
+			return "critical";
+		case "DOSE_REMINDER":
+			return "high";
+		default:
+			return "medium";
+	}
+};
 
 export function NotificationsSidebarItem() {
 	const [isOpen, setIsOpen] = useState(false);
 	const isMobile = useMediaQuery("(max-width: 768px)");
-
-	const unreadCount = mockNotifications.length;
+	const {
+		notifications,
+		isLoading,
+		hasMore,
+		loadMore,
+		isLoadingMore,
+		unreadCount,
+		markRead,
+		markAllRead,
+		dismiss,
+		snooze,
+	} = useNotificationCenter({ enabled: isOpen });
 
 	const getIcon = (type: string) => {
 		switch (type) {
-			case "due":
+			case "DOSE_REMINDER":
 				return <Clock className="h-4 w-4 text-orange-500" />;
-			case "overdue":
+			case "DOSE_ESCALATION":
 				return <AlertTriangle className="h-4 w-4 text-red-500" />;
-			case "reminder":
-				return <Bell className="h-4 w-4 text-blue-500" />;
 			default:
-				return <Bell className="h-4 w-4" />;
+				return <Bell className="h-4 w-4 text-blue-500" />;
 		}
 	};
 
@@ -88,8 +85,18 @@ export function NotificationsSidebarItem() {
 
 		if (diffMins < 60) {
 			return `${diffMins}m ago`;
-		} else {
+		} else if (diffHours < 24) {
 			return `${diffHours}h ago`;
+		} else {
+			return `${Math.floor(diffHours / 24)}d ago`;
+		}
+	};
+
+	const openNotification = (notification: NotificationItem) => {
+		if (!notification.readAt) markRead(notification.id);
+		if (notification.url) {
+			setIsOpen(false);
+			window.location.href = notification.url;
 		}
 	};
 
@@ -98,48 +105,108 @@ export function NotificationsSidebarItem() {
 			<div className="flex items-center justify-between p-4 pb-2">
 				<h4 className="font-semibold">Notifications</h4>
 				{unreadCount > 0 && (
-					<Badge variant="secondary" className="text-xs">
-						{unreadCount} new
-					</Badge>
+					<div className="flex items-center gap-2">
+						<Badge variant="secondary" className="text-xs">
+							{unreadCount} new
+						</Badge>
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-auto p-0 text-xs hover:bg-transparent"
+							onClick={markAllRead}
+						>
+							Mark all as read
+						</Button>
+					</div>
 				)}
 			</div>
 			<Separator />
 
-			{mockNotifications.length === 0 ? (
+			{notifications.length === 0 ? (
 				<div className="p-4 text-center text-muted-foreground text-sm">
 					<Bell className="mx-auto mb-2 h-8 w-8 text-muted-foreground/50" />
-					<p>No notifications</p>
-					<p className="text-xs">You&apos;re all caught up!</p>
+					{isLoading ? (
+						<p>Loading...</p>
+					) : (
+						<>
+							<p>No notifications</p>
+							<p className="text-xs">You&apos;re all caught up!</p>
+						</>
+					)}
 				</div>
 			) : (
 				<div className="max-h-80 overflow-y-auto">
-					{mockNotifications.map((notification, index) => (
-						<div key={notification.id}>
-							<div className="cursor-pointer p-4 hover:bg-muted/50">
-								<div className="flex items-start gap-3">
-									{getIcon(notification.type)}
-									<div className="flex-1 space-y-1">
-										<p className="font-medium text-sm leading-none">
-											{notification.title}
-										</p>
-										<p className="text-muted-foreground text-xs">
-											{notification.message}
-										</p>
-										<p className="text-muted-foreground text-xs">
-											{formatRelativeTime(notification.timestamp)}
-										</p>
+					{notifications.map((notification, index) => {
+						const priority = getPriority(notification.type);
+						return (
+							<div key={notification.id}>
+								<div
+									className={`p-4 hover:bg-muted/50 ${
+										notification.readAt ? "opacity-70" : ""
+									}`}
+								>
+									<div className="flex items-start gap-3">
+										{getIcon(notification.type)}
+										<button
+											type="button"
+											className="flex-1 cursor-pointer space-y-1 text-left"
+											onClick={() => openNotification(notification)}
+										>
+											<p className="font-medium text-sm leading-none">
+												{notification.title}
+											</p>
+											<p className="text-muted-foreground text-xs">
+												{notification.body}
+											</p>
+											<p className="text-muted-foreground text-xs">
+												{formatRelativeTime(new Date(notification.visibleAt))}
+											</p>
+										</button>
+										<Badge
+											variant="outline"
+											className={`text-xs ${getPriorityColor(priority)}`}
+										>
+											{priority}
+										</Badge>
+									</div>
+									<div className="mt-2 flex justify-end gap-1">
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-7 text-xs"
+											onClick={() => snooze(notification.id)}
+										>
+											<AlarmClock className="mr-1 h-3 w-3" />
+											Snooze 1h
+										</Button>
+										<Button
+											variant="ghost"
+											size="sm"
+											className="h-7 text-xs"
+											onClick={() => dismiss(notification.id)}
+										>
+											<X className="mr-1 h-3 w-3" />
+											Dismiss
+										</Button>
 									</div>
-									<Badge
-										variant="outline"
-										className={`text-xs ${getPriorityColor(notification.priority)}`}
-									>
-										{notification.priority}
-									</Badge>
 								</div>
+								{index < notifications.length - 1 && <Separator />}
 							</div>
-							{index < mockNotifications.length - 1 && <Separator />}
+						);
+					})}
+					{hasMore && (
+						<div className="p-2">
+							<Button
+								variant="ghost"
+								size="sm"
+								className="w-full text-xs"
+								disabled={isLoadingMore}
+								onClick={() => loadMore()}
+							>
+								{isLoadingMore ? "Loading..." : "Load more"}
+							</Button>
 						</div>
-					))}
+					)}
 				</div>
 			)}
 
@@ -151,7 +218,6 @@ export function NotificationsSidebarItem() {
 					className="w-full cursor-pointer text-xs"
 					onClick={() => {
 						setIsOpen(false);
-						// In real app, navigate to /admin/record or similar
 						window.location.href = "/admin/record";
 					}}
 				>
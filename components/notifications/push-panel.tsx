@@ -2,6 +2,7 @@
 
 import { Bell, BellOff, Smartphone } from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import {
@@ -13,6 +14,7 @@ import {
 } from "@/components/ui/card";
 import { cardPatterns } from "@/components/ui/class-variants";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { trpc } from "@/server/trpc/client";
 
 // Custom hook to manage push notification state
 function usePushNotifications() {
@@ -65,9 +67,24 @@ export function PushPanel() {
 		setPermission,
 	} = usePushNotifications();
 	const isMobile = useMediaQuery("(max-width: 640px)");
+	const { data: vapid } = trpc.push.getPublicKey.useQuery();
+	const subscribeMutation = trpc.push.subscribe.useMutation();
+	const unsubscribeMutation = trpc.push.unsubscribe.useMutation();
+	const sendTestMutation = trpc.push.sendTest.useMutation({
+		onSuccess: (result) => {
+			toast.success(
+				`Test notification sent to ${result.sent} device${result.sent === 1 ? "" : "s"}`,
+			);
+		},
+		onError: (error) => {
+			toast.error("Failed to send test notification", {
+				description: error.message,
+			});
+		},
+	});
 
 	const subscribeToPush = async () => {
-		if (!isSupported) return;
+		if (!isSupported || !vapid?.publicKey) return;
 
 		setIsLoading(true);
 		try {
@@ -86,13 +103,19 @@ export function PushPanel() {
 			// Subscribe to push notifications
 			const subscription = await registration.pushManager.subscribe({
 				userVisibleOnly: true,
-				applicationServerKey: urlBase64ToUint8Array(
-					"BEl62iUYgUivxIkv69yViEuiBIa40HI80NM9LUhbJQQVLpCBWjWrJ0NG54L1jKJtnv9Uy4i5wEckXs6EwqNUK8s", // Mock VAPID key
-				),
+				applicationServerKey: urlBase64ToUint8Array(vapid.publicKey),
 			});
 
 			// Send subscription to server
-			console.log("Push subscription:", subscription.toJSON());
+			const { keys } = subscription.toJSON();
+			if (!keys?.p256dh || !keys.auth) {
+				throw new Error("Push subscription is missing its keys");
+			}
+			await subscribeMutation.mutateAsync({
+				endpoint: subscription.endpoint,
+				keys: { p256dh: keys.p256dh, auth: keys.auth },
+				userAgent: navigator.userAgent,
+			});
 
 			// Fire instrumentation event
 			window.dispatchEvent(
@@ -101,16 +124,11 @@ export function PushPanel() {
 				}),
 			);
 
-			// TODO: tRPC mutation
-			// await subscribeWebPush.mutateAsync({
-			//   endpoint: subscription.endpoint,
-			//   keys: subscription.toJSON().keys
-			// })
-
 			setIsSubscribed(true);
 			console.log("Successfully subscribed to push notifications");
 		} catch (error) {
 			console.error("Failed to subscribe to push notifications:", error);
+			toast.error("Failed to enable push notifications");
 		} finally {
 			setIsLoading(false);
 		}
@@ -126,11 +144,9 @@ export function PushPanel() {
 
 			if (subscription) {
 				await subscription.unsubscribe();
-
-				// TODO: tRPC mutation
-				// await unsubscribeWebPush.mutateAsync({
-				//   endpoint: subscription.endpoint
-				// })
+				await unsubscribeMutation.mutateAsync({
+					endpoint: subscription.endpoint,
+				});
 
 				console.log("Unsubscribed from push notifications");
 			}
@@ -175,6 +191,25 @@ export function PushPanel() {
 					/>
 				)}
 
+				{vapid && !vapid.publicKey && (
+					<Alert>
+						<AlertDescription>
+							Push notifications are not configured on this server yet.
+						</AlertDescription>
+					</Alert>
+				)}
+
+				{isSubscribed && (
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={sendTestMutation.isPending}
+						onClick={() => sendTestMutation.mutate()}
+					>
+						Send test notification
+					</Button>
+				)}
+
 				{permission === "denied" && (
 					<Alert>
 						<AlertDescription>
@@ -0,0 +1,87 @@
+"use client";
+
+import { AlertTriangle, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { ContraindicationWarning } from "@/utils/contraindications";
+
+interface ContraindicationWarningsProps {
+	warnings: ContraindicationWarning[];
+	// Severe warnings that still need acknowledging before saving
+	unacknowledged: ContraindicationWarning[];
+	acknowledged: boolean;
+	onAcknowledgedChange: (acknowledged: boolean) => void;
+}
+
+const triggerLabels: Record<ContraindicationWarning["trigger"], string> = {
+	ALLERGY: "Allergy",
+	CONDITION: "Condition",
+	SPECIES: "Species",
+};
+
+export function ContraindicationWarnings({
+	warnings,
+	unacknowledged,
+	acknowledged,
+	onAcknowledgedChange,
+}: ContraindicationWarningsProps) {
+	if (warnings.length === 0) return null;
+
+	return (
+		<div className="space-y-3 rounded-md border border-orange-200 bg-orange-50 p-3 text-sm dark:border-orange-900 dark:bg-orange-950/20">
+			<div className="flex items-center gap-2 font-medium text-orange-700 dark:text-orange-400">
+				<ShieldAlert className="h-4 w-4" />
+				Contraindications for this animal
+			</div>
+			<ul className="space-y-2">
+				{warnings.map((warning) => (
+					<li key={warning.key} className="flex items-start gap-2">
+						<AlertTriangle
+							className={`mt-0.5 h-4 w-4 shrink-0 ${
+								warning.severity === "SEVERE"
+									? "text-red-600"
+									: "text-orange-500"
+							}`}
+						/>
+						<div>
+							<div className="flex flex-wrap items-center gap-2">
+								<Badge
+									variant={
+										warning.severity === "SEVERE" ? "destructive" : "secondary"
+									}
+								>
+									{warning.severity === "SEVERE" ? "Severe" : "Caution"}
+								</Badge>
+								<span className="text-muted-foreground">
+									{triggerLabels[warning.trigger]}: {warning.matched}
+								</span>
+							</div>
+							<p className="mt-1">{warning.reason}</p>
+						</div>
+					</li>
+				))}
+			</ul>
+			{unacknowledged.length > 0 && (
+				<div className="flex items-start gap-2 border-orange-200 border-t pt-3 dark:border-orange-900">
+					<Checkbox
+						id="acknowledge-contraindications"
+						checked={acknowledged}
+						onCheckedChange={(checked) =>
+							onAcknowledgedChange(checked === true)
+						}
+					/>
+					<Label
+						htmlFor="acknowledge-contraindications"
+						className="font-normal text-sm leading-snug"
+					>
+						I understand the severe{" "}
+						{unacknowledged.length === 1 ? "warning" : "warnings"} above and
+						this medication was prescribed by a veterinarian who knows about
+						them.
+					</Label>
+				</div>
+			)}
+		</div>
+	);
+}
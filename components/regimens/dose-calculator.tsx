@@ -0,0 +1,104 @@
+"use client";
+
+import { AlertTriangle, Calculator } from "lucide-react";
+import { useApp } from "@/components/providers/app-provider";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc/client";
+import { checkDoseRange, formatDoseAmount, suggestDose } from "@/utils/dose";
+
+interface DoseCalculatorProps {
+	animalId?: string;
+	commonDosing?: string;
+	strength?: string;
+	form?: string;
+	dose?: string;
+	onUseDose: (dose: string) => void;
+}
+
+/**
+ * Suggests a dose from the catalog's per-kg range and the animal's latest
+ * logged weight, and flags an entered dose that falls outside that range.
+ */
+export function DoseCalculator({
+	animalId,
+	commonDosing,
+	strength,
+	form,
+	dose,
+	onUseDose,
+}: DoseCalculatorProps) {
+	const { selectedHousehold } = useApp();
+	const householdId = selectedHousehold?.id || "";
+
+	const { data: animal } = trpc.animal.getById.useQuery(
+		{ id: animalId || "", householdId },
+		{ enabled: !!animalId && !!householdId && !!commonDosing },
+	);
+
+	if (!animalId || !commonDosing || !animal) return null;
+
+	const weightKg = animal.weightKg ? Number(animal.weightKg) : null;
+	if (!weightKg) {
+		return (
+			<p className="text-muted-foreground text-xs">
+				Log {animal.name}&apos;s weight to get a dose suggestion.
+			</p>
+		);
+	}
+
+	const context = {
+		commonDosing,
+		strength,
+		form,
+		species: animal.species,
+		weightKg,
+	};
+	const suggestion = suggestDose(context);
+	if (!suggestion) return null;
+
+	const check = dose ? checkDoseRange(dose, context) : null;
+	const { range } = suggestion;
+
+	return (
+		<div className="space-y-2 rounded-md border bg-muted/40 p-3 text-sm">
+			<div className="flex items-start gap-2">
+				<Calculator className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+				<div className="flex-1">
+					<div>
+						{range.min === range.max ? range.min : `${range.min}–${range.max}`}{" "}
+						{range.unit}/kg
+						{range.frequency && ` ${range.frequency}`} at {weightKg} kg ={" "}
+						{formatDoseAmount(suggestion.minAmount, range.unit)}
+						{suggestion.maxAmount !== suggestion.minAmount &&
+							`–${formatDoseAmount(suggestion.maxAmount, range.unit)}`}
+					</div>
+					<div className="text-muted-foreground">
+						Suggested: {suggestion.dose}
+						{!suggestion.withinRange &&
+							" (nearest practical amount, outside the range)"}
+					</div>
+				</div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={dose === suggestion.dose}
+					onClick={() => onUseDose(suggestion.dose)}
+				>
+					Use
+				</Button>
+			</div>
+			{check && check.status !== "OK" && (
+				<div className="flex items-center gap-2 text-orange-600">
+					<AlertTriangle className="h-4 w-4" />
+					{dose} is {check.status === "LOW" ? "below" : "above"} this range.
+					Confirm with your vet.
+				</div>
+			)}
+			<p className="text-muted-foreground text-xs">
+				From the catalog&apos;s typical dosing; always follow your vet&apos;s
+				prescription.
+			</p>
+		</div>
+	);
+}
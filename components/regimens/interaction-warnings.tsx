@@ -0,0 +1,95 @@
+import { ArrowLeftRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DrugInteraction } from "@/utils/interactions";
+
+const severityLabels: Record<DrugInteraction["severity"], string> = {
+	MAJOR: "Major",
+	MODERATE: "Moderate",
+	MINOR: "Minor",
+};
+
+const severityVariants: Record<
+	DrugInteraction["severity"],
+	"destructive" | "secondary" | "outline"
+> = {
+	MAJOR: "destructive",
+	MODERATE: "secondary",
+	MINOR: "outline",
+};
+
+export function InteractionList({
+	interactions,
+}: {
+	interactions: DrugInteraction[];
+}) {
+	return (
+		<ul className="space-y-3">
+			{interactions.map((interaction) => (
+				<li key={interaction.key} className="flex items-start gap-2 text-sm">
+					<ArrowLeftRight className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+					<div>
+						<div className="flex flex-wrap items-center gap-2">
+							<Badge variant={severityVariants[interaction.severity]}>
+								{severityLabels[interaction.severity]}
+							</Badge>
+							<span className="font-medium">
+								{interaction.medications.join(" + ")}
+							</span>
+						</div>
+						<p className="mt-1 text-muted-foreground">
+							{interaction.description}
+						</p>
+					</div>
+				</li>
+			))}
+		</ul>
+	);
+}
+
+// Report card for interactions among an animal's active medications
+export function InteractionsCard({
+	interactions,
+	className,
+}: {
+	interactions: DrugInteraction[];
+	className?: string;
+}) {
+	if (interactions.length === 0) return null;
+
+	return (
+		<Card className={className}>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<ArrowLeftRight className="h-5 w-5" />
+					Drug Interactions
+				</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<InteractionList interactions={interactions} />
+			</CardContent>
+		</Card>
+	);
+}
+
+// Interactions with the animal's other active medications, shown in the form
+export function InteractionWarnings({
+	interactions,
+}: {
+	interactions: DrugInteraction[];
+}) {
+	if (interactions.length === 0) return null;
+
+	return (
+		<div className="space-y-3 rounded-md border p-3">
+			<div className="font-medium text-sm">
+				Interactions with current medications
+			</div>
+			<InteractionList interactions={interactions} />
+			<p className="text-muted-foreground text-xs">
+				Check with your vet that these medications are meant to be given
+				together.
+			</p>
+		</div>
+	);
+}
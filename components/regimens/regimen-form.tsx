@@ -1,9 +1,18 @@
 "use client";
 
 import { format } from "date-fns";
-import { Plus, Search, X } from "lucide-react";
+import { Plus, Search, Trash2, X } from "lucide-react";
+import Link from "next/link";
 import type React from "react";
 import { useEffect, useState } from "react";
+import {
+	HighlightedText,
+	MatchReason,
+} from "@/components/medication/search-match";
+import {
+	SpeciesOverride,
+	SpeciesSafetyBadge,
+} from "@/components/medication/species-safety";
 import { useApp } from "@/components/providers/app-provider";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -45,6 +54,18 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc/client";
+import { getUnacknowledgedWarnings } from "@/utils/contraindications";
+import type { SearchRanking } from "@/utils/medication-search";
+import {
+	formatTaperStep,
+	getActiveTaperStep,
+	getTaperEndDate,
+	type TaperStep,
+} from "@/utils/schedule";
+import type { SpeciesSafetyEntry } from "@/utils/species-safety";
+import { ContraindicationWarnings } from "./contraindication-warnings";
+import { DoseCalculator } from "./dose-calculator";
+import { InteractionWarnings } from "./interaction-warnings";
 import type { Regimen } from "./regimen-list";
 
 interface RegimenFormProps {
@@ -61,6 +82,11 @@ interface MedicationOption {
 	route: string;
 	form: string;
 	strength?: string;
+	commonDosing?: string;
+	safetyForSpecies: SpeciesSafetyEntry | null;
+	match: SearchRanking;
+	// The household's own catalog entry rather than a shared one
+	custom: boolean;
 }
 
 // Helper functions
@@ -72,8 +98,12 @@ function getInitialFormData(): Partial<Regimen> {
 		route: "",
 		form: "",
 		strength: "",
+		commonDosing: "",
+		dose: "",
 		scheduleType: "FIXED",
 		timesLocal: [],
+		intervalMode: "ROLLING",
+		taperSteps: [],
 		startDate: undefined,
 		endDate: undefined,
 		cutoffMins: 60,
@@ -91,11 +121,99 @@ function checkFormValidity(formData: Partial<Regimen>): boolean {
 		formData.scheduleType === "PRN" ||
 		(formData.scheduleType === "FIXED" &&
 			formData.timesLocal &&
-			formData.timesLocal.length > 0);
+			formData.timesLocal.length > 0) ||
+		(formData.scheduleType === "INTERVAL" &&
+			!!formData.intervalHours &&
+			formData.intervalHours > 0) ||
+		(formData.scheduleType === "TAPER" && isValidTaper(formData.taperSteps));
 
 	return !!(hasBasicInfo && hasValidSchedule);
 }
 
+function isValidTaper(steps?: TaperStep[]): boolean {
+	return (
+		!!steps &&
+		steps.length > 0 &&
+		steps.every(
+			(step) =>
+				step.dose.trim().length > 0 &&
+				step.timesLocal.length > 0 &&
+				step.durationDays > 0,
+		)
+	);
+}
+
+// A new regimen for a medication contraindicated for the species needs an
+// owner's reason; existing regimens were already allowed when created
+function getSpeciesBlock(
+	regimen: Regimen | null,
+	check:
+		| { speciesSafety: SpeciesSafetyEntry | null; canOverrideSpecies: boolean }
+		| undefined,
+	reason: string | undefined,
+) {
+	const safety =
+		!regimen && check?.speciesSafety?.level === "CONTRAINDICATED"
+			? check.speciesSafety
+			: null;
+	return {
+		speciesBlock: safety,
+		canOverrideSpecies: !!check?.canOverrideSpecies,
+		needsSpeciesOverride:
+			!!safety && (!check?.canOverrideSpecies || !reason?.trim()),
+	};
+}
+
+// Check the selected medication against the animal's allergies, conditions
+// and other active medications
+function useRegimenSafetyCheck(
+	regimen: Regimen | null,
+	formData: Partial<Regimen>,
+	householdId: string | undefined,
+) {
+	const safetyCheckInput = {
+		householdId: householdId || "",
+		animalId: formData.animalId || "",
+		medicationId: formData.medicationId || "",
+		regimenId: regimen?.id,
+	};
+	const safetyCheckEnabled =
+		!!safetyCheckInput.householdId &&
+		!!safetyCheckInput.animalId &&
+		!!safetyCheckInput.medicationId;
+	const { data: contraindicationData } =
+		trpc.regimen.getContraindications.useQuery(safetyCheckInput, {
+			enabled: safetyCheckEnabled,
+		});
+	const { data: interactions = [] } = trpc.regimen.getInteractions.useQuery(
+		safetyCheckInput,
+		{ enabled: safetyCheckEnabled },
+	);
+	const contraindicationWarnings = contraindicationData?.warnings ?? [];
+	const unacknowledgedWarnings = getUnacknowledgedWarnings(
+		contraindicationWarnings,
+		contraindicationData?.acknowledged,
+	);
+
+	return {
+		contraindicationWarnings,
+		unacknowledgedWarnings,
+		needsAcknowledgement:
+			unacknowledgedWarnings.length > 0 &&
+			!formData.acknowledgeContraindications,
+		interactions,
+		...getSpeciesBlock(
+			regimen,
+			contraindicationData,
+			formData.speciesOverrideReason,
+		),
+	};
+}
+
+function toDayISO(date: Date): string {
+	return date.toISOString().split("T")[0] ?? "";
+}
+
 export function RegimenForm({
 	regimen,
 	open,
@@ -110,18 +228,37 @@ export function RegimenForm({
 		getInitialFormData(),
 	);
 
-	const { animals } = useApp();
+	const { animals, selectedHousehold } = useApp();
+	const species = animals.find(
+		(animal) => animal.id === formData.animalId,
+	)?.species;
 
-	// Search medications from the database when user types
+	// Search medications from the database when user types, ranked by how
+	// safe they are for the selected animal's species
 	const { data: searchResults = [], isLoading: searchLoading } =
 		trpc.medication.search.useQuery(
-			{ query: medicationSearch, limit: 20 },
+			{
+				query: medicationSearch,
+				limit: 20,
+				species,
+				householdId: selectedHousehold?.id,
+			},
 			{
 				enabled: medicationSearch.length > 0,
 				staleTime: 30000, // Cache for 30 seconds
 			},
 		);
 
+	const {
+		contraindicationWarnings,
+		unacknowledgedWarnings,
+		needsAcknowledgement,
+		interactions,
+		speciesBlock,
+		canOverrideSpecies,
+		needsSpeciesOverride,
+	} = useRegimenSafetyCheck(regimen, formData, selectedHousehold?.id);
+
 	useEffect(() => {
 		setFormData(regimen ? { ...regimen } : getInitialFormData());
 	}, [regimen]);
@@ -147,6 +284,9 @@ export function RegimenForm({
 			route: medication.route,
 			form: medication.form,
 			strength: medication.strength,
+			commonDosing: medication.commonDosing,
+			acknowledgeContraindications: false,
+			speciesOverrideReason: undefined,
 		}));
 		setMedicationOpen(false);
 		setMedicationSearch(""); // Clear search
@@ -177,6 +317,10 @@ export function RegimenForm({
 		route: med.route,
 		form: med.form,
 		strength: med.strength || undefined,
+		commonDosing: med.commonDosing || undefined,
+		safetyForSpecies: med.safetyForSpecies,
+		match: med.match,
+		custom: !!med.householdId,
 	}));
 
 	const isFormValid = checkFormValidity(formData);
@@ -199,7 +343,12 @@ export function RegimenForm({
 						animals={animals}
 						value={formData.animalId}
 						onChange={(value) =>
-							setFormData((prev) => ({ ...prev, animalId: value }))
+							setFormData((prev) => ({
+								...prev,
+								animalId: value,
+								acknowledgeContraindications: false,
+								speciesOverrideReason: undefined,
+							}))
 						}
 					/>
 
@@ -217,9 +366,55 @@ export function RegimenForm({
 						setMedicationSearch={setMedicationSearch}
 						searchLoading={searchLoading}
 						medicationOptions={medicationOptions}
+						species={species}
 						onSelect={handleMedicationSelect}
 					/>
 
+					<SpeciesOverride
+						medicationName={formData.medicationName}
+						species={species}
+						safety={speciesBlock}
+						canOverride={canOverrideSpecies}
+						reason={formData.speciesOverrideReason}
+						onReasonChange={(speciesOverrideReason) =>
+							setFormData((prev) => ({ ...prev, speciesOverrideReason }))
+						}
+					/>
+
+					<ContraindicationWarnings
+						warnings={contraindicationWarnings}
+						unacknowledged={unacknowledgedWarnings}
+						acknowledged={!!formData.acknowledgeContraindications}
+						onAcknowledgedChange={(acknowledgeContraindications) =>
+							setFormData((prev) => ({ ...prev, acknowledgeContraindications }))
+						}
+					/>
+
+					<InteractionWarnings interactions={interactions} />
+
+					{/* Dose */}
+					{formData.scheduleType !== "TAPER" && (
+						<div className="space-y-2">
+							<Label htmlFor="dose">Dose</Label>
+							<Input
+								id="dose"
+								placeholder="e.g., 1 tablet, 0.5 mL"
+								value={formData.dose ?? ""}
+								onChange={(e) =>
+									setFormData((prev) => ({ ...prev, dose: e.target.value }))
+								}
+							/>
+							<DoseCalculator
+								animalId={formData.animalId}
+								commonDosing={formData.commonDosing}
+								strength={formData.strength}
+								form={formData.form}
+								dose={formData.dose}
+								onUseDose={(dose) => setFormData((prev) => ({ ...prev, dose }))}
+							/>
+						</div>
+					)}
+
 					{/* Schedule Type */}
 					<ScheduleTypeSelector
 						value={formData.scheduleType}
@@ -239,6 +434,28 @@ export function RegimenForm({
 						/>
 					)}
 
+					{/* Interval Settings */}
+					{formData.scheduleType === "INTERVAL" && (
+						<IntervalScheduleFields
+							intervalHours={formData.intervalHours}
+							intervalMode={formData.intervalMode ?? "ROLLING"}
+							firstDoseTime={formData.timesLocal?.[0] ?? ""}
+							onChange={(changes) =>
+								setFormData((prev) => ({ ...prev, ...changes }))
+							}
+						/>
+					)}
+
+					{/* Taper Steps */}
+					{formData.scheduleType === "TAPER" && (
+						<TaperStepsEditor
+							steps={formData.taperSteps || []}
+							onChange={(taperSteps) =>
+								setFormData((prev) => ({ ...prev, taperSteps }))
+							}
+						/>
+					)}
+
 					{/* Course Dates */}
 					<CourseDatesSelector
 						startDate={formData.startDate}
@@ -300,9 +517,7 @@ export function RegimenForm({
 					</div>
 
 					{/* Preview */}
-					{formData.scheduleType === "FIXED" && formData.timesLocal?.length ? (
-						<SchedulePreview timesLocal={formData.timesLocal} />
-					) : null}
+					<ScheduleTypePreview formData={formData} />
 
 					{/* Actions */}
 					<div className="flex justify-end gap-2 pt-4">
@@ -313,7 +528,15 @@ export function RegimenForm({
 						>
 							Cancel
 						</Button>
-						<Button type="submit" disabled={isSubmitting || !isFormValid}>
+						<Button
+							type="submit"
+							disabled={
+								isSubmitting ||
+								!isFormValid ||
+								needsAcknowledgement ||
+								needsSpeciesOverride
+							}
+						>
 							{isSubmitting
 								? "Saving..."
 								: regimen
@@ -330,26 +553,63 @@ export function RegimenForm({
 // Helper components
 function MedicationItem({
 	medication,
+	species,
 	onSelect,
 }: {
 	medication: MedicationOption;
+	species?: string;
 	onSelect: (medication: MedicationOption) => void;
 }) {
 	return (
 		<CommandItem onSelect={() => onSelect(medication)}>
 			<div>
 				<div className="font-medium">
-					{medication.brand || medication.generic}
+					{medication.brand ? (
+						<HighlightedText
+							text={medication.brand}
+							field="brandName"
+							match={medication.match}
+						/>
+					) : (
+						<HighlightedText
+							text={medication.generic}
+							field="genericName"
+							match={medication.match}
+						/>
+					)}
 					{medication.brand && medication.brand !== medication.generic && (
 						<span className="font-normal text-muted-foreground">
 							{" "}
-							({medication.generic})
+							(
+							<HighlightedText
+								text={medication.generic}
+								field="genericName"
+								match={medication.match}
+							/>
+							)
 						</span>
 					)}
+					{medication.custom && (
+						<Badge variant="outline" className="ml-2 text-xs">
+							Custom
+						</Badge>
+					)}
 				</div>
 				<div className="text-muted-foreground text-sm">
-					{medication.strength} • {medication.route} • {medication.form}
+					{medication.strength && (
+						<HighlightedText
+							text={medication.strength}
+							field="strength"
+							match={medication.match}
+						/>
+					)}{" "}
+					• {medication.route} • {medication.form}
 				</div>
+				<MatchReason match={medication.match} />
+				<SpeciesSafetyBadge
+					safety={medication.safetyForSpecies}
+					species={species}
+				/>
 			</div>
 		</CommandItem>
 	);
@@ -369,6 +629,7 @@ interface MedicationSelectorProps {
 	setMedicationSearch: (search: string) => void;
 	searchLoading: boolean;
 	medicationOptions: MedicationOption[];
+	species?: string;
 	onSelect: (medication: MedicationOption) => void;
 }
 
@@ -381,6 +642,7 @@ function MedicationSelector({
 	setMedicationSearch,
 	searchLoading,
 	medicationOptions,
+	species,
 	onSelect,
 }: MedicationSelectorProps) {
 	const renderSearchEmpty = () => {
@@ -410,7 +672,10 @@ function MedicationSelector({
 					No medication found
 				</p>
 				<p className="text-muted-foreground text-xs">
-					Contact admin to add "{medicationSearch}" to the catalog
+					Add "{medicationSearch}" under{" "}
+					<Link href="/medications/catalog" className="underline">
+						Custom Medications
+					</Link>
 				</p>
 			</div>
 		);
@@ -443,6 +708,7 @@ function MedicationSelector({
 									<MedicationItem
 										key={medication.id}
 										medication={medication}
+										species={species}
 										onSelect={onSelect}
 									/>
 								))}
@@ -508,6 +774,23 @@ function CourseDatesSelector({
 	);
 }
 
+function ScheduleTypePreview({ formData }: { formData: Partial<Regimen> }) {
+	if (formData.scheduleType === "FIXED" && formData.timesLocal?.length) {
+		return <SchedulePreview timesLocal={formData.timesLocal} />;
+	}
+
+	if (formData.scheduleType === "TAPER" && isValidTaper(formData.taperSteps)) {
+		return (
+			<TaperPreview
+				steps={formData.taperSteps || []}
+				startDate={formData.startDate}
+			/>
+		);
+	}
+
+	return null;
+}
+
 function SchedulePreview({ timesLocal }: { timesLocal: string[] }) {
 	return (
 		<Card className="mt-4">
@@ -562,13 +845,13 @@ function ScheduleTypeSelector({
 	value,
 	onChange,
 }: {
-	value: "FIXED" | "PRN" | undefined;
-	onChange: (value: "FIXED" | "PRN") => void;
+	value: Regimen["scheduleType"] | undefined;
+	onChange: (value: Regimen["scheduleType"]) => void;
 }) {
 	return (
 		<div className="space-y-3">
 			<Label>Schedule Type *</Label>
-			<div className="grid grid-cols-2 gap-4">
+			<div className="grid grid-cols-2 gap-4 md:grid-cols-4">
 				<Card
 					className={`cursor-pointer transition-colors ${
 						value === "FIXED" ? "ring-2 ring-primary" : "hover:bg-accent"
@@ -596,6 +879,32 @@ function ScheduleTypeSelector({
 						</div>
 					</CardContent>
 				</Card>
+
+				<Card
+					className={`cursor-pointer transition-colors ${
+						value === "INTERVAL" ? "ring-2 ring-primary" : "hover:bg-accent"
+					}`}
+					onClick={() => onChange("INTERVAL")}
+				>
+					<CardContent className="p-4">
+						<div className="font-medium">Interval</div>
+						<div className="text-muted-foreground text-sm">Every few hours</div>
+					</CardContent>
+				</Card>
+
+				<Card
+					className={`cursor-pointer transition-colors ${
+						value === "TAPER" ? "ring-2 ring-primary" : "hover:bg-accent"
+					}`}
+					onClick={() => onChange("TAPER")}
+				>
+					<CardContent className="p-4">
+						<div className="font-medium">Taper</div>
+						<div className="text-muted-foreground text-sm">
+							Dose changes in steps
+						</div>
+					</CardContent>
+				</Card>
 			</div>
 		</div>
 	);
@@ -649,3 +958,236 @@ function FixedScheduleTimes({
 		</div>
 	);
 }
+
+// Taper Steps Editor Component
+function TaperStepsEditor({
+	steps,
+	onChange,
+}: {
+	steps: TaperStep[];
+	onChange: (steps: TaperStep[]) => void;
+}) {
+	const updateStep = (index: number, step: TaperStep) => {
+		onChange(steps.map((s, i) => (i === index ? step : s)));
+	};
+
+	const addStep = () => {
+		const previous = steps[steps.length - 1];
+		onChange([
+			...steps,
+			{
+				dose: "",
+				timesLocal: previous ? [...previous.timesLocal] : [],
+				durationDays: previous?.durationDays ?? 7,
+			},
+		]);
+	};
+
+	return (
+		<div className="space-y-3">
+			<Label>Taper Steps *</Label>
+			{steps.map((step, index) => (
+				<TaperStepRow
+					// biome-ignore lint/suspicious/noArrayIndexKey: steps are ordered and have no identity
+					key={index}
+					index={index}
+					step={step}
+					onChange={(updated) => updateStep(index, updated)}
+					onRemove={() => onChange(steps.filter((_, i) => i !== index))}
+				/>
+			))}
+			<Button type="button" variant="outline" size="sm" onClick={addStep}>
+				<Plus className="mr-1 h-4 w-4" />
+				Add Step
+			</Button>
+			{steps.length === 0 && (
+				<p className="text-muted-foreground text-sm">
+					Add at least one step with a dose, daily times and duration
+				</p>
+			)}
+		</div>
+	);
+}
+
+function TaperStepRow({
+	index,
+	step,
+	onChange,
+	onRemove,
+}: {
+	index: number;
+	step: TaperStep;
+	onChange: (step: TaperStep) => void;
+	onRemove: () => void;
+}) {
+	const [newTime, setNewTime] = useState("");
+
+	const addTime = () => {
+		if (newTime && !step.timesLocal.includes(newTime)) {
+			onChange({ ...step, timesLocal: [...step.timesLocal, newTime].sort() });
+			setNewTime("");
+		}
+	};
+
+	return (
+		<Card>
+			<CardContent className="space-y-3 p-4">
+				<div className="flex items-center justify-between">
+					<div className="font-medium text-sm">Step {index + 1}</div>
+					<Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+						<Trash2 className="h-4 w-4" />
+					</Button>
+				</div>
+				<div className="grid grid-cols-2 gap-4">
+					<div className="space-y-2">
+						<Label htmlFor={`taper-dose-${index}`}>Dose</Label>
+						<Input
+							id={`taper-dose-${index}`}
+							value={step.dose}
+							onChange={(e) => onChange({ ...step, dose: e.target.value })}
+							placeholder="e.g. 10mg"
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor={`taper-days-${index}`}>Days</Label>
+						<Input
+							id={`taper-days-${index}`}
+							type="number"
+							min={1}
+							value={step.durationDays}
+							onChange={(e) =>
+								onChange({
+									...step,
+									durationDays: Number.parseInt(e.target.value) || 0,
+								})
+							}
+						/>
+					</div>
+				</div>
+				<FixedScheduleTimes
+					timesLocal={step.timesLocal}
+					newTime={newTime}
+					setNewTime={setNewTime}
+					addTime={addTime}
+					removeTime={(time) =>
+						onChange({
+							...step,
+							timesLocal: step.timesLocal.filter((t) => t !== time),
+						})
+					}
+				/>
+			</CardContent>
+		</Card>
+	);
+}
+
+function TaperPreview({
+	steps,
+	startDate,
+}: {
+	steps: TaperStep[];
+	startDate?: Date;
+}) {
+	const start = toDayISO(startDate ?? new Date());
+	const active = getActiveTaperStep(steps, start, toDayISO(new Date()));
+
+	return (
+		<Card className="mt-4">
+			<CardHeader className="pb-3">
+				<CardTitle className="text-sm">Taper Preview</CardTitle>
+				<CardDescription>
+					Ends {format(new Date(getTaperEndDate(steps, start)), "MMM d, yyyy")}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-1">
+				{steps.map((step, index) => (
+					<div
+						// biome-ignore lint/suspicious/noArrayIndexKey: steps are ordered and have no identity
+						key={index}
+						className={`text-sm ${
+							active?.index === index ? "font-medium" : "text-muted-foreground"
+						}`}
+					>
+						Step {index + 1}: {formatTaperStep(step)}
+						{active?.index === index && (
+							<Badge variant="outline" className="ml-2">
+								Today
+							</Badge>
+						)}
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	);
+}
+
+// Interval Schedule Fields Component
+function IntervalScheduleFields({
+	intervalHours,
+	intervalMode,
+	firstDoseTime,
+	onChange,
+}: {
+	intervalHours?: number;
+	intervalMode: "ROLLING" | "SCHEDULE";
+	firstDoseTime: string;
+	onChange: (changes: Partial<Regimen>) => void;
+}) {
+	return (
+		<div className="space-y-4">
+			<div className="grid grid-cols-2 gap-4">
+				<div className="space-y-2">
+					<Label htmlFor="intervalHours">Every (hours) *</Label>
+					<Input
+						id="intervalHours"
+						type="number"
+						min={1}
+						value={intervalHours ?? ""}
+						onChange={(e) =>
+							onChange({
+								intervalHours: Number.parseInt(e.target.value) || undefined,
+							})
+						}
+						placeholder="e.g. 8"
+					/>
+				</div>
+				<div className="space-y-2">
+					<Label htmlFor="firstDoseTime">First Dose Time</Label>
+					<Input
+						id="firstDoseTime"
+						type="time"
+						value={firstDoseTime}
+						onChange={(e) =>
+							onChange({
+								timesLocal: e.target.value ? [e.target.value] : [],
+							})
+						}
+					/>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<Label>Next Dose Timing</Label>
+				<Select
+					value={intervalMode}
+					onValueChange={(value) =>
+						onChange({ intervalMode: value as "ROLLING" | "SCHEDULE" })
+					}
+				>
+					<SelectTrigger>
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="ROLLING">Rolling from last dose</SelectItem>
+						<SelectItem value="SCHEDULE">Anchored to schedule</SelectItem>
+					</SelectContent>
+				</Select>
+				<p className="text-muted-foreground text-xs">
+					{intervalMode === "ROLLING"
+						? "Next dose is due a full interval after the last recorded dose"
+						: "Doses stay on fixed slots from the first dose time, even if one is given late"}
+				</p>
+			</div>
+		</div>
+	);
+}
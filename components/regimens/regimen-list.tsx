@@ -3,6 +3,7 @@
 import { format } from "date-fns";
 import { AlertTriangle, Archive, Clock, Loader2, Plus } from "lucide-react";
 import { useState } from "react";
+import { toast } from "sonner";
 import { useApp } from "@/components/providers/app-provider";
 import { AnimalAvatar } from "@/components/ui/animal-avatar";
 import { Badge } from "@/components/ui/badge";
@@ -16,6 +17,8 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc/client";
+import type { DrugInteraction } from "@/utils/interactions";
+import { formatTaperStep, type TaperStep } from "@/utils/schedule";
 import { RegimenForm } from "./regimen-form";
 
 // Type for regimen data from tRPC - matches actual schema
@@ -29,6 +32,8 @@ type RegimenWithDetails = {
 		scheduleType: "FIXED" | "PRN" | "INTERVAL" | "TAPER";
 		timesLocal: string[] | null;
 		intervalHours: number | null;
+		intervalMode: "ROLLING" | "SCHEDULE";
+		taperSteps: TaperStep[] | null;
 		startDate: string;
 		endDate: string | null;
 		prnReason: string | null;
@@ -116,8 +121,17 @@ export interface Regimen {
 	route: string;
 	form: string;
 	strength?: string;
-	scheduleType: "FIXED" | "PRN";
+	commonDosing?: string;
+	dose?: string;
+	// Form-only: confirm severe contraindications when saving
+	acknowledgeContraindications?: boolean;
+	// Form-only: owner's reason for allowing a species contraindication
+	speciesOverrideReason?: string;
+	scheduleType: "FIXED" | "PRN" | "INTERVAL" | "TAPER";
 	timesLocal?: string[];
+	intervalHours?: number;
+	intervalMode?: "ROLLING" | "SCHEDULE";
+	taperSteps?: TaperStep[];
 	startDate?: Date;
 	endDate?: Date;
 	cutoffMins: number;
@@ -127,6 +141,25 @@ export interface Regimen {
 	status: "active" | "ended" | "paused";
 }
 
+// Warn about interactions with the animal's other active medications
+function notifyInteractions(interactions: DrugInteraction[]) {
+	for (const interaction of interactions) {
+		toast.warning(`Interaction: ${interaction.medications.join(" + ")}`, {
+			description: interaction.description,
+		});
+	}
+}
+
+// Calculate status based on dates and pause state
+function getRegimenStatus(
+	regimen: RegimenWithDetails["regimen"],
+	now: Date,
+): Regimen["status"] {
+	if (!regimen.active || regimen.pausedAt) return "paused";
+	if (regimen.endDate && new Date(regimen.endDate) < now) return "ended";
+	return "active";
+}
+
 // Helper function to transform tRPC data to display format
 function transformRegimenData(data: RegimenWithDetails[]): Regimen[] {
 	const now = new Date();
@@ -134,14 +167,6 @@ function transformRegimenData(data: RegimenWithDetails[]): Regimen[] {
 	return data.map((item) => {
 		const { regimen, animal, medication } = item;
 
-		// Calculate status based on dates and pause state
-		let status: "active" | "ended" | "paused" = "active";
-		if (!regimen.active || regimen.pausedAt) {
-			status = "paused";
-		} else if (regimen.endDate && new Date(regimen.endDate) < now) {
-			status = "ended";
-		}
-
 		return {
 			id: regimen.id,
 			animalId: animal.id,
@@ -155,15 +180,20 @@ function transformRegimenData(data: RegimenWithDetails[]): Regimen[] {
 			route: regimen.route || medication.route,
 			form: medication.form,
 			strength: medication.strength || undefined,
-			scheduleType: regimen.scheduleType as "FIXED" | "PRN",
+			commonDosing: medication.commonDosing || undefined,
+			dose: regimen.dose || undefined,
+			scheduleType: regimen.scheduleType,
 			timesLocal: regimen.timesLocal || undefined,
+			intervalHours: regimen.intervalHours || undefined,
+			intervalMode: regimen.intervalMode,
+			taperSteps: regimen.taperSteps || undefined,
 			startDate: new Date(regimen.startDate),
 			endDate: regimen.endDate ? new Date(regimen.endDate) : undefined,
 			cutoffMins: regimen.cutoffMinutes,
 			highRisk: regimen.highRisk,
 			isActive: regimen.active,
 			createdAt: new Date(regimen.createdAt),
-			status,
+			status: getRegimenStatus(regimen, now),
 		};
 	});
 }
@@ -228,8 +258,9 @@ export function RegimenList() {
 
 	// tRPC mutations
 	const createRegimen = trpc.regimen.create.useMutation({
-		onSuccess: () => {
+		onSuccess: (result) => {
 			refetch(); // Refresh the list
+			notifyInteractions(result?.interactions ?? []);
 		},
 		onError: (error) => {
 			console.error("Failed to create regimen:", error);
@@ -274,8 +305,15 @@ export function RegimenList() {
 			id: editingRegimen.id,
 			householdId,
 			name: data.medicationName,
+			dose: data.dose,
+			acknowledgeContraindications: data.acknowledgeContraindications,
 			scheduleType: data.scheduleType as "FIXED" | "PRN" | "INTERVAL" | "TAPER",
 			timesLocal: data.timesLocal,
+			intervalHours:
+				data.scheduleType === "INTERVAL" ? data.intervalHours : undefined,
+			intervalMode:
+				data.scheduleType === "INTERVAL" ? data.intervalMode : undefined,
+			taperSteps: data.scheduleType === "TAPER" ? data.taperSteps : undefined,
 			cutoffMinutes: data.cutoffMins,
 			highRisk: data.highRisk,
 			requiresCoSign: data.highRisk,
@@ -295,8 +333,16 @@ export function RegimenList() {
 			animalId: data.animalId || "",
 			medicationId: data.medicationId || "",
 			name: data.medicationName,
+			dose: data.dose,
+			acknowledgeContraindications: data.acknowledgeContraindications,
+			speciesOverrideReason: data.speciesOverrideReason,
 			scheduleType: data.scheduleType as "FIXED" | "PRN" | "INTERVAL" | "TAPER",
 			timesLocal: data.timesLocal,
+			intervalHours:
+				data.scheduleType === "INTERVAL" ? data.intervalHours : undefined,
+			intervalMode:
+				data.scheduleType === "INTERVAL" ? data.intervalMode : undefined,
+			taperSteps: data.scheduleType === "TAPER" ? data.taperSteps : undefined,
 			startDate: formatDateInZone(data.startDate, tz) ?? todayInAnimalZone,
 			cutoffMinutes: data.cutoffMins || 240,
 			highRisk: data.highRisk || false,
@@ -397,8 +443,9 @@ export function RegimenList() {
 	});
 
 	const resumeRegimen = trpc.regimen.resume.useMutation({
-		onSuccess: () => {
+		onSuccess: ({ interactions }) => {
 			refetch(); // Refresh the list
+			notifyInteractions(interactions);
 		},
 		onError: (error) => {
 			console.error("Failed to resume regimen:", error);
@@ -659,6 +706,30 @@ function RegimenCard({
 					</div>
 				)}
 
+				{regimen.scheduleType === "INTERVAL" && regimen.intervalHours && (
+					<div className="text-sm">
+						<span className="font-medium">Schedule:</span> Every{" "}
+						{regimen.intervalHours} hours{" "}
+						<span className="text-muted-foreground">
+							{regimen.intervalMode === "SCHEDULE"
+								? "(fixed slots)"
+								: "(from last dose)"}
+						</span>
+					</div>
+				)}
+
+				{regimen.scheduleType === "TAPER" && regimen.taperSteps && (
+					<div>
+						<p className="mb-1 font-medium text-sm">Taper:</p>
+						<ol className="list-inside list-decimal text-muted-foreground text-xs">
+							{regimen.taperSteps.map((step, index) => (
+								// biome-ignore lint/suspicious/noArrayIndexKey: steps are ordered and have no identity
+								<li key={index}>{formatTaperStep(step)}</li>
+							))}
+						</ol>
+					</div>
+				)}
+
 				<div className="text-muted-foreground text-sm">
 					<div>Cutoff: {regimen.cutoffMins} minutes</div>
 					{regimen.startDate && (
@@ -2,6 +2,8 @@
 
 import { Database, Download, FileText, Shield, Trash2 } from "lucide-react";
 import { useState } from "react";
+import { toast } from "sonner";
+import { useApp } from "@/components/providers/app-provider";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
 	AlertDialog,
@@ -24,12 +26,25 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { downloadExport, type ExportRequest } from "@/lib/download-export";
+
+type ExportDataset = NonNullable<ExportRequest["dataset"]>;
 
 // Mock current user - replace with auth context
 const currentUser = { role: "Owner" };
 
 export function DataPanel() {
+	const { selectedHousehold } = useApp();
 	const [isExporting, setIsExporting] = useState(false);
+	const [csvDataset, setCsvDataset] =
+		useState<ExportDataset>("administrations");
 	const [isClearing, setIsClearing] = useState(false);
 	const [clearConfirm, setClearConfirm] = useState("");
 	const [holdProgress, setHoldProgress] = useState(0);
@@ -38,45 +53,30 @@ export function DataPanel() {
 	const canClearData = currentUser.role === "Owner";
 
 	const handleExport = async (format: "json" | "csv") => {
+		if (!selectedHousehold) return;
+
 		setIsExporting(true);
 		try {
-			console.log(`Exporting data as ${format}`);
-
 			// Fire instrumentation event
 			window.dispatchEvent(
 				new CustomEvent("settings_data_export", {
-					detail: { format },
+					detail: { format, dataset: csvDataset },
 				}),
 			);
 
-			// TODO: tRPC mutation
-			// const data = await exportData.mutateAsync({
-			//   householdId,
-			//   format,
-			//   from: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
-			//   to: new Date()
-			// })
-
-			// Simulate download
-			const filename = `vetmed-export-${new Date().toISOString().split("T")[0]}.${format}`;
-			console.log(`Downloaded ${filename}`);
-
-			// Create mock download
-			const mockData =
-				format === "json"
-					? '{"export": "data"}'
-					: "Date,Animal,Medication,Status\n";
-			const blob = new Blob([mockData], {
-				type: format === "json" ? "application/json" : "text/csv",
+			// JSON bundles every dataset; CSV holds one table per file
+			await downloadExport({
+				householdId: selectedHousehold.id,
+				format,
+				dataset: format === "csv" ? csvDataset : undefined,
+				from: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000), // 90 days ago
+				to: new Date(),
 			});
-			const url = URL.createObjectURL(blob);
-			const a = document.createElement("a");
-			a.href = url;
-			a.download = filename;
-			a.click();
-			URL.revokeObjectURL(url);
 		} catch (error) {
 			console.error("Export failed:", error);
+			toast.error("Export failed", {
+				description: error instanceof Error ? error.message : undefined,
+			});
 		} finally {
 			setIsExporting(false);
 		}
@@ -151,7 +151,10 @@ export function DataPanel() {
 					<div className="flex gap-4">
 						<AlertDialog>
 							<AlertDialogTrigger asChild>
-								<Button disabled={isExporting} className="gap-2">
+								<Button
+									disabled={isExporting || !selectedHousehold}
+									className="gap-2"
+								>
 									<FileText className="h-4 w-4" />
 									Export JSON
 								</Button>
@@ -160,9 +163,9 @@ export function DataPanel() {
 								<AlertDialogHeader>
 									<AlertDialogTitle>Export Data as JSON</AlertDialogTitle>
 									<AlertDialogDescription>
-										This will export all medication records, inventory, and
-										animal profiles. Times are shown in each animal&apos;s local
-										timezone.
+										This will export the last 90 days of medication records,
+										along with regimens and inventory. Times are shown in each
+										animal&apos;s local timezone.
 									</AlertDialogDescription>
 								</AlertDialogHeader>
 								<AlertDialogFooter>
@@ -177,7 +180,7 @@ export function DataPanel() {
 						<AlertDialog>
 							<AlertDialogTrigger asChild>
 								<Button
-									disabled={isExporting}
+									disabled={isExporting || !selectedHousehold}
 									variant="outline"
 									className="gap-2"
 								>
@@ -189,11 +192,30 @@ export function DataPanel() {
 								<AlertDialogHeader>
 									<AlertDialogTitle>Export Data as CSV</AlertDialogTitle>
 									<AlertDialogDescription>
-										This will export all medication records, inventory, and
-										animal profiles. Times are shown in each animal&apos;s local
-										timezone.
+										Each CSV file holds one table. Times are shown in each
+										animal&apos;s local timezone.
 									</AlertDialogDescription>
 								</AlertDialogHeader>
+								<div className="space-y-2">
+									<Label htmlFor="export-dataset">Data</Label>
+									<Select
+										value={csvDataset}
+										onValueChange={(value) =>
+											setCsvDataset(value as ExportDataset)
+										}
+									>
+										<SelectTrigger id="export-dataset">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="administrations">
+												Medication records (last 90 days)
+											</SelectItem>
+											<SelectItem value="regimens">Regimens</SelectItem>
+											<SelectItem value="inventory">Inventory</SelectItem>
+										</SelectContent>
+									</Select>
+								</div>
 								<AlertDialogFooter>
 									<AlertDialogCancel>Cancel</AlertDialogCancel>
 									<AlertDialogAction onClick={() => handleExport("csv")}>
@@ -207,8 +229,8 @@ export function DataPanel() {
 					<Alert>
 						<Shield className="h-4 w-4" />
 						<AlertDescription>
-							Exports include all medication records, inventory, and animal
-							profiles. Times are shown in each animal&apos;s local timezone.
+							Exports include medication records, regimens, and inventory. Times
+							are shown in each animal&apos;s local timezone.
 						</AlertDescription>
 					</Alert>
 				</CardContent>
@@ -1,8 +1,16 @@
 "use client";
 
 import { formatDistanceToNow } from "date-fns";
-import { Bell, CheckCircle, Clock, Package } from "lucide-react";
-import { useState } from "react";
+import {
+	AlarmClock,
+	AlertTriangle,
+	Bell,
+	CheckCircle,
+	Clock,
+	Package,
+	X,
+} from "lucide-react";
+import { type MouseEvent, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,113 +22,57 @@ import {
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	type NotificationItem,
+	useNotificationCenter,
+} from "@/hooks/useNotificationCenter";
 
-interface Notification {
-	id: string;
-	type: "medication" | "inventory" | "system";
-	title: string;
-	message: string;
-	timestamp: Date;
-	read: boolean;
-	actionUrl?: string;
-}
-
-interface NotificationDropdownProps {
-	notifications?: Notification[];
-	notificationCount?: number;
+// Dose reminders, escalations and inventory alerts get their own icons;
+// everything else (e.g. household invitations) is a general notice
+function getNotificationStyle(type: string, read: boolean) {
+	const muted = read ? "text-muted-foreground" : undefined;
+	if (type === "DOSE_ESCALATION") {
+		return { Icon: AlertTriangle, color: muted ?? "text-red-500" };
+	}
+	if (type === "DOSE_REMINDER") {
+		return { Icon: Clock, color: muted ?? "text-orange-500" };
+	}
+	if (type.startsWith("INVENTORY")) {
+		return { Icon: Package, color: muted ?? "text-yellow-500" };
+	}
+	return { Icon: CheckCircle, color: muted ?? "text-blue-500" };
 }
 
-// Mock notifications - replace with tRPC query
-const mockNotifications: Notification[] = [
-	{
-		id: "1",
-		type: "medication",
-		title: "Buddy - Medication Due",
-		message: "Rimadyl 75mg due now",
-		timestamp: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-		read: false,
-		actionUrl: "/admin/record",
-	},
-	{
-		id: "2",
-		type: "medication",
-		title: "Whiskers - Late Dose",
-		message: "Insulin is 30 minutes late",
-		timestamp: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-		read: false,
-		actionUrl: "/admin/record",
-	},
-	{
-		id: "3",
-		type: "inventory",
-		title: "Low Stock Alert",
-		message: "Rimadyl running low - 5 doses left",
-		timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-		read: false,
-		actionUrl: "/inventory",
-	},
-	{
-		id: "4",
-		type: "inventory",
-		title: "Medication Expiring",
-		message: "Joint Supplement expires in 7 days",
-		timestamp: new Date(Date.now() - 12 * 60 * 60 * 1000), // 12 hours ago
-		read: true,
-		actionUrl: "/inventory",
-	},
-	{
-		id: "5",
-		type: "system",
-		title: "Sync Complete",
-		message: "All records synced successfully",
-		timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000), // 1 day ago
-		read: true,
-	},
-];
-
-export function NotificationDropdown({
-	notifications = mockNotifications,
-	notificationCount,
-}: NotificationDropdownProps) {
+export function NotificationDropdown() {
 	const [open, setOpen] = useState(false);
-	const unreadCount =
-		notificationCount ?? notifications.filter((n) => !n.read).length;
-
-	const getIcon = (type: Notification["type"]) => {
-		switch (type) {
-			case "medication":
-				return <Clock className="h-4 w-4" />;
-			case "inventory":
-				return <Package className="h-4 w-4" />;
-			case "system":
-				return <CheckCircle className="h-4 w-4" />;
-		}
-	};
+	const {
+		notifications,
+		isLoading,
+		hasMore,
+		loadMore,
+		isLoadingMore,
+		unreadCount,
+		markRead,
+		markAllRead,
+		dismiss,
+		snooze,
+	} = useNotificationCenter({ enabled: open });
 
-	const getIconColor = (type: Notification["type"], read: boolean) => {
-		if (read) return "text-muted-foreground";
-		switch (type) {
-			case "medication":
-				return "text-red-500";
-			case "inventory":
-				return "text-yellow-500";
-			case "system":
-				return "text-blue-500";
-		}
-	};
+	const handleNotificationClick = (notification: NotificationItem) => {
+		if (!notification.readAt) markRead(notification.id);
 
-	const handleNotificationClick = (notification: Notification) => {
-		// TODO: Mark as read via tRPC mutation
-
-		if (notification.actionUrl) {
-			window.location.href = notification.actionUrl;
+		if (notification.url) {
+			window.location.href = notification.url;
 		}
 		setOpen(false);
 	};
 
-	const handleMarkAllAsRead = () => {
-		// TODO: Mark all as read via tRPC mutation
-	};
+	// Buttons inside a menu item shouldn't also select it
+	const itemAction =
+		(action: (id: string) => void, id: string) => (event: MouseEvent) => {
+			event.stopPropagation();
+			action(id);
+		};
 
 	return (
 		<DropdownMenu open={open} onOpenChange={setOpen}>
@@ -132,7 +84,7 @@ export function NotificationDropdown({
 							variant="destructive"
 							className="-top-1 -right-1 absolute flex h-5 w-5 items-center justify-center rounded-full p-0 text-xs"
 						>
-							{unreadCount}
+							{unreadCount > 99 ? "99+" : unreadCount}
 						</Badge>
 					)}
 				</Button>
@@ -145,7 +97,7 @@ export function NotificationDropdown({
 							variant="ghost"
 							size="sm"
 							className="h-auto p-0 text-xs hover:bg-transparent"
-							onClick={handleMarkAllAsRead}
+							onClick={markAllRead}
 						>
 							Mark all as read
 						</Button>
@@ -155,42 +107,80 @@ export function NotificationDropdown({
 				<ScrollArea className="h-[300px] sm:h-[400px]">
 					{notifications.length === 0 ? (
 						<div className="p-4 text-center text-muted-foreground">
-							No notifications
+							{isLoading ? "Loading..." : "No notifications"}
 						</div>
 					) : (
-						notifications.map((notification) => (
-							<DropdownMenuItem
-								key={notification.id}
-								className="flex cursor-pointer items-start gap-3 p-4"
-								onClick={() => handleNotificationClick(notification)}
-							>
-								<div
-									className={getIconColor(notification.type, notification.read)}
+						notifications.map((notification) => {
+							const read = !!notification.readAt;
+							const { Icon, color } = getNotificationStyle(
+								notification.type,
+								read,
+							);
+							return (
+								<DropdownMenuItem
+									key={notification.id}
+									className="group flex cursor-pointer items-start gap-3 p-4"
+									onClick={() => handleNotificationClick(notification)}
 								>
-									{getIcon(notification.type)}
-								</div>
-								<div className="flex-1 space-y-1">
-									<p
-										className={`font-medium text-sm leading-none ${
-											notification.read ? "text-muted-foreground" : ""
-										}`}
-									>
-										{notification.title}
-									</p>
-									<p className="text-muted-foreground text-sm">
-										{notification.message}
-									</p>
-									<p className="text-muted-foreground text-xs">
-										{formatDistanceToNow(notification.timestamp, {
-											addSuffix: true,
-										})}
-									</p>
-								</div>
-								{!notification.read && (
-									<div className="mt-1.5 h-2 w-2 rounded-full bg-blue-500" />
-								)}
-							</DropdownMenuItem>
-						))
+									<div className={color}>
+										<Icon className="h-4 w-4" />
+									</div>
+									<div className="flex-1 space-y-1">
+										<p
+											className={`font-medium text-sm leading-none ${
+												read ? "text-muted-foreground" : ""
+											}`}
+										>
+											{notification.title}
+										</p>
+										<p className="text-muted-foreground text-sm">
+											{notification.body}
+										</p>
+										<p className="text-muted-foreground text-xs">
+											{formatDistanceToNow(new Date(notification.visibleAt), {
+												addSuffix: true,
+											})}
+										</p>
+									</div>
+									<div className="flex flex-col items-center gap-1">
+										{!read && (
+											<div className="mt-1.5 h-2 w-2 rounded-full bg-blue-500" />
+										)}
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-6 w-6"
+											aria-label="Snooze for an hour"
+											onClick={itemAction(snooze, notification.id)}
+										>
+											<AlarmClock className="h-3.5 w-3.5" />
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-6 w-6"
+											aria-label="Dismiss"
+											onClick={itemAction(dismiss, notification.id)}
+										>
+											<X className="h-3.5 w-3.5" />
+										</Button>
+									</div>
+								</DropdownMenuItem>
+							);
+						})
+					)}
+					{hasMore && (
+						<div className="p-2">
+							<Button
+								variant="ghost"
+								size="sm"
+								className="w-full text-xs"
+								disabled={isLoadingMore}
+								onClick={() => loadMore()}
+							>
+								{isLoadingMore ? "Loading..." : "Load more"}
+							</Button>
+						</div>
 					)}
 				</ScrollArea>
 			</DropdownMenuContent>
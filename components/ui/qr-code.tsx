@@ -0,0 +1,34 @@
+import { memo } from "react";
+import { cn } from "@/lib/utils";
+import { encodeQr, getQrPath } from "@/utils/qr";
+
+interface QrCodeProps {
+	value: string;
+	title: string;
+	className?: string;
+}
+
+const QUIET_ZONE = 4;
+
+// Always black on white, whatever the theme, so it scans when printed
+export const QrCode = memo(function QrCode({
+	value,
+	title,
+	className,
+}: QrCodeProps) {
+	const matrix = encodeQr(value);
+	const size = matrix.length + QUIET_ZONE * 2;
+
+	return (
+		<svg
+			viewBox={`0 0 ${size} ${size}`}
+			className={cn("h-32 w-32", className)}
+			xmlns="http://www.w3.org/2000/svg"
+			shapeRendering="crispEdges"
+		>
+			<title>{title}</title>
+			<rect width={size} height={size} fill="#ffffff" />
+			<path d={getQrPath(matrix, QUIET_ZONE)} fill="#000000" />
+		</svg>
+	);
+});
@@ -3,13 +3,19 @@ import {
 	vetmedAdministrations,
 	vetmedAnimals,
 	vetmedAuditLog,
+	vetmedCatalogPromotions,
+	vetmedEscalationPolicies,
 	vetmedHouseholds,
 	vetmedInventoryItems,
+	vetmedInvitations,
 	vetmedMedicationCatalog,
 	vetmedMemberships,
 	vetmedNotificationQueue,
+	vetmedPushSubscriptions,
 	vetmedRegimens,
+	vetmedShareLinks,
 	vetmedUsers,
+	vetmedWeightLogs,
 } from "./schema";
 
 export const vetmedAnimalsRelations = relations(
@@ -22,6 +28,8 @@ export const vetmedAnimalsRelations = relations(
 		vetmedInventoryItems: many(vetmedInventoryItems),
 		vetmedRegimens: many(vetmedRegimens),
 		vetmedAdministrations: many(vetmedAdministrations),
+		vetmedShareLinks: many(vetmedShareLinks),
+		vetmedWeightLogs: many(vetmedWeightLogs),
 	}),
 );
 
@@ -30,10 +38,15 @@ export const vetmedHouseholdsRelations = relations(
 	({ many }) => ({
 		vetmedAnimals: many(vetmedAnimals),
 		vetmedMemberships: many(vetmedMemberships),
+		vetmedInvitations: many(vetmedInvitations),
+		vetmedShareLinks: many(vetmedShareLinks),
 		vetmedInventoryItems: many(vetmedInventoryItems),
 		vetmedNotificationQueues: many(vetmedNotificationQueue),
 		vetmedAuditLogs: many(vetmedAuditLog),
 		vetmedAdministrations: many(vetmedAdministrations),
+		vetmedMedicationCatalogs: many(vetmedMedicationCatalog),
+		vetmedCatalogPromotions: many(vetmedCatalogPromotions),
+		vetmedEscalationPolicies: many(vetmedEscalationPolicies),
 	}),
 );
 
@@ -51,9 +64,59 @@ export const vetmedMembershipsRelations = relations(
 	}),
 );
 
+export const vetmedInvitationsRelations = relations(
+	vetmedInvitations,
+	({ one }) => ({
+		vetmedHousehold: one(vetmedHouseholds, {
+			fields: [vetmedInvitations.householdId],
+			references: [vetmedHouseholds.id],
+		}),
+		vetmedUser: one(vetmedUsers, {
+			fields: [vetmedInvitations.invitedBy],
+			references: [vetmedUsers.id],
+		}),
+	}),
+);
+
+export const vetmedShareLinksRelations = relations(
+	vetmedShareLinks,
+	({ one }) => ({
+		vetmedHousehold: one(vetmedHouseholds, {
+			fields: [vetmedShareLinks.householdId],
+			references: [vetmedHouseholds.id],
+		}),
+		vetmedAnimal: one(vetmedAnimals, {
+			fields: [vetmedShareLinks.animalId],
+			references: [vetmedAnimals.id],
+		}),
+		vetmedUser: one(vetmedUsers, {
+			fields: [vetmedShareLinks.createdBy],
+			references: [vetmedUsers.id],
+		}),
+	}),
+);
+
+export const vetmedWeightLogsRelations = relations(
+	vetmedWeightLogs,
+	({ one }) => ({
+		vetmedAnimal: one(vetmedAnimals, {
+			fields: [vetmedWeightLogs.animalId],
+			references: [vetmedAnimals.id],
+		}),
+		vetmedUser: one(vetmedUsers, {
+			fields: [vetmedWeightLogs.recordedBy],
+			references: [vetmedUsers.id],
+		}),
+	}),
+);
+
 export const vetmedUsersRelations = relations(vetmedUsers, ({ many }) => ({
 	vetmedMemberships: many(vetmedMemberships),
+	vetmedInvitations: many(vetmedInvitations),
+	vetmedShareLinks: many(vetmedShareLinks),
+	vetmedWeightLogs: many(vetmedWeightLogs),
 	vetmedNotificationQueues: many(vetmedNotificationQueue),
+	vetmedPushSubscriptions: many(vetmedPushSubscriptions),
 	vetmedAuditLogs: many(vetmedAuditLog),
 	vetmedAdministrations_caregiverId: many(vetmedAdministrations, {
 		relationName: "vetmedAdministrations_caregiverId_vetmedUsers_id",
@@ -84,9 +147,28 @@ export const vetmedInventoryItemsRelations = relations(
 
 export const vetmedMedicationCatalogRelations = relations(
 	vetmedMedicationCatalog,
-	({ many }) => ({
+	({ one, many }) => ({
+		vetmedHousehold: one(vetmedHouseholds, {
+			fields: [vetmedMedicationCatalog.householdId],
+			references: [vetmedHouseholds.id],
+		}),
 		vetmedInventoryItems: many(vetmedInventoryItems),
 		vetmedRegimens: many(vetmedRegimens),
+		vetmedCatalogPromotions: many(vetmedCatalogPromotions),
+	}),
+);
+
+export const vetmedCatalogPromotionsRelations = relations(
+	vetmedCatalogPromotions,
+	({ one }) => ({
+		vetmedMedicationCatalog: one(vetmedMedicationCatalog, {
+			fields: [vetmedCatalogPromotions.medicationId],
+			references: [vetmedMedicationCatalog.id],
+		}),
+		vetmedHousehold: one(vetmedHouseholds, {
+			fields: [vetmedCatalogPromotions.householdId],
+			references: [vetmedHouseholds.id],
+		}),
 	}),
 );
 
@@ -104,6 +186,30 @@ export const vetmedNotificationQueueRelations = relations(
 	}),
 );
 
+export const vetmedPushSubscriptionsRelations = relations(
+	vetmedPushSubscriptions,
+	({ one }) => ({
+		vetmedUser: one(vetmedUsers, {
+			fields: [vetmedPushSubscriptions.userId],
+			references: [vetmedUsers.id],
+		}),
+	}),
+);
+
+export const vetmedEscalationPoliciesRelations = relations(
+	vetmedEscalationPolicies,
+	({ one }) => ({
+		vetmedHousehold: one(vetmedHouseholds, {
+			fields: [vetmedEscalationPolicies.householdId],
+			references: [vetmedHouseholds.id],
+		}),
+		vetmedUser: one(vetmedUsers, {
+			fields: [vetmedEscalationPolicies.leadUserId],
+			references: [vetmedUsers.id],
+		}),
+	}),
+);
+
 export const vetmedAuditLogRelations = relations(vetmedAuditLog, ({ one }) => ({
 	vetmedUser: one(vetmedUsers, {
 		fields: [vetmedAuditLog.userId],
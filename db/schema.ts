@@ -1,4 +1,3 @@
-// biome-ignore lint/correctness/noUnusedImports: exported from drizzle/schema.ts like this
 import { sql } from "drizzle-orm";
 import {
 	boolean,
@@ -14,8 +13,11 @@ import {
 	time,
 	timestamp,
 	unique,
+	uniqueIndex,
 	uuid,
 } from "drizzle-orm/pg-core";
+import type { TaperStep } from "../utils/schedule";
+import type { SpeciesSafety } from "../utils/species-safety";
 
 export const temperatureUnit = pgEnum("temperature_unit", [
 	"celsius",
@@ -28,6 +30,15 @@ export const vetmedAdminStatus = pgEnum("vetmed_admin_status", [
 	"MISSED",
 	"PRN",
 ]);
+export const vetmedCatalogPromotionStatus = pgEnum(
+	"vetmed_catalog_promotion_status",
+	["PENDING", "APPROVED", "REJECTED"],
+);
+export const vetmedContraindicationSeverity = pgEnum(
+	"vetmed_contraindication_severity",
+	["CAUTION", "SEVERE"],
+);
+
 export const vetmedForm = pgEnum("vetmed_form", [
 	"TABLET",
 	"CAPSULE",
@@ -41,11 +52,26 @@ export const vetmedForm = pgEnum("vetmed_form", [
 	"PATCH",
 	"OTHER",
 ]);
+export const vetmedInteractionSeverity = pgEnum("vetmed_interaction_severity", [
+	"MINOR",
+	"MODERATE",
+	"MAJOR",
+]);
+
+export const vetmedIntervalMode = pgEnum("vetmed_interval_mode", [
+	"ROLLING",
+	"SCHEDULE",
+]);
 export const vetmedRole = pgEnum("vetmed_role", [
 	"OWNER",
 	"CAREGIVER",
 	"VETREADONLY",
 ]);
+// Who hears about a dose still unrecorded after the escalation delay
+export const vetmedEscalationTarget = pgEnum("vetmed_escalation_target", [
+	"OWNERS",
+	"LEAD",
+]);
 export const vetmedRoute = pgEnum("vetmed_route", [
 	"ORAL",
 	"SC",
@@ -64,12 +90,21 @@ export const vetmedScheduleType = pgEnum("vetmed_schedule_type", [
 	"INTERVAL",
 	"TAPER",
 ]);
+export const vetmedShareLinkPurpose = pgEnum("vetmed_share_link_purpose", [
+	"VET_RECORD",
+	"EMERGENCY",
+]);
 export const vetmedStorage = pgEnum("vetmed_storage", [
 	"ROOM",
 	"FRIDGE",
 	"FREEZER",
 	"CONTROLLED",
 ]);
+export const vetmedWeightSource = pgEnum("vetmed_weight_source", [
+	"HOME",
+	"VET",
+	"OTHER",
+]);
 export const weightUnit = pgEnum("weight_unit", ["kg", "lbs"]);
 
 export const vetmedAnimals = pgTable(
@@ -127,6 +162,16 @@ export const vetmedMemberships = pgTable(
 		userId: uuid("user_id").notNull(),
 		householdId: uuid("household_id").notNull(),
 		role: vetmedRole().default("CAREGIVER").notNull(),
+		// Temporary access (e.g. pet sitters); null bounds mean unrestricted
+		validFrom: timestamp("valid_from", { withTimezone: true, mode: "string" }),
+		validUntil: timestamp("valid_until", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		// Restricts the member to these animals; null means every animal
+		animalIds: uuid("animal_ids").array(),
+		// Set once the end of temporary access has been audited
+		expiredAt: timestamp("expired_at", { withTimezone: true, mode: "string" }),
 		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
 			.defaultNow()
 			.notNull(),
@@ -135,6 +180,10 @@ export const vetmedMemberships = pgTable(
 			.notNull(),
 	},
 	(table) => [
+		index("membership_valid_until_idx").using(
+			"btree",
+			table.validUntil.asc().nullsLast().op("timestamptz_ops"),
+		),
 		index("membership_household_id_idx").using(
 			"btree",
 			table.householdId.asc().nullsLast().op("uuid_ops"),
@@ -160,6 +209,165 @@ export const vetmedMemberships = pgTable(
 	],
 );
 
+export const vetmedInvitations = pgTable(
+	"vetmed_invitations",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		householdId: uuid("household_id").notNull(),
+		email: text().notNull(),
+		role: vetmedRole().default("CAREGIVER").notNull(),
+		// SHA-256 of the emailed token; the raw token is never stored
+		tokenHash: text("token_hash").notNull(),
+		invitedBy: uuid("invited_by").notNull(),
+		message: text(),
+		// Copied onto the membership when a temporary-access invite is accepted
+		validFrom: timestamp("valid_from", { withTimezone: true, mode: "string" }),
+		validUntil: timestamp("valid_until", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		animalIds: uuid("animal_ids").array(),
+		expiresAt: timestamp("expires_at", {
+			withTimezone: true,
+			mode: "string",
+		}).notNull(),
+		acceptedAt: timestamp("accepted_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		acceptedBy: uuid("accepted_by"),
+		declinedAt: timestamp("declined_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		revokedAt: timestamp("revoked_at", { withTimezone: true, mode: "string" }),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("invitation_household_id_idx").using(
+			"btree",
+			table.householdId.asc().nullsLast().op("uuid_ops"),
+		),
+		index("invitation_email_idx").using(
+			"btree",
+			table.email.asc().nullsLast().op("text_ops"),
+		),
+		foreignKey({
+			columns: [table.householdId],
+			foreignColumns: [vetmedHouseholds.id],
+			name: "vetmed_invitations_household_id_vetmed_households_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.invitedBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_invitations_invited_by_vetmed_users_id_fk",
+		}),
+		foreignKey({
+			columns: [table.acceptedBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_invitations_accepted_by_vetmed_users_id_fk",
+		}),
+		unique("vetmed_invitations_token_hash_unique").on(table.tokenHash),
+	],
+);
+
+export const vetmedShareLinks = pgTable(
+	"vetmed_share_links",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		householdId: uuid("household_id").notNull(),
+		animalId: uuid("animal_id").notNull(),
+		createdBy: uuid("created_by").notNull(),
+		// Who the link is for, e.g. the clinic name
+		label: text(),
+		// Full record for a vet, or the emergency summary behind a card's QR code
+		purpose: vetmedShareLinkPurpose().default("VET_RECORD").notNull(),
+		expiresAt: timestamp("expires_at", {
+			withTimezone: true,
+			mode: "string",
+		}).notNull(),
+		revokedAt: timestamp("revoked_at", { withTimezone: true, mode: "string" }),
+		viewCount: integer("view_count").default(0).notNull(),
+		lastViewedAt: timestamp("last_viewed_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("share_link_household_id_idx").using(
+			"btree",
+			table.householdId.asc().nullsLast().op("uuid_ops"),
+		),
+		index("share_link_animal_id_idx").using(
+			"btree",
+			table.animalId.asc().nullsLast().op("uuid_ops"),
+		),
+		foreignKey({
+			columns: [table.householdId],
+			foreignColumns: [vetmedHouseholds.id],
+			name: "vetmed_share_links_household_id_vetmed_households_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.animalId],
+			foreignColumns: [vetmedAnimals.id],
+			name: "vetmed_share_links_animal_id_vetmed_animals_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.createdBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_share_links_created_by_vetmed_users_id_fk",
+		}),
+	],
+);
+
+export const vetmedWeightLogs = pgTable(
+	"vetmed_weight_logs",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		animalId: uuid("animal_id").notNull(),
+		// Null for weights carried over from the animal profile
+		recordedBy: uuid("recorded_by"),
+		weightKg: numeric("weight_kg", { precision: 5, scale: 2 }).notNull(),
+		measuredOn: date("measured_on").notNull(),
+		source: vetmedWeightSource().default("HOME").notNull(),
+		notes: text(),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("weight_log_animal_measured_idx").using(
+			"btree",
+			table.animalId.asc().nullsLast().op("uuid_ops"),
+			table.measuredOn.desc().nullsFirst().op("date_ops"),
+		),
+		foreignKey({
+			columns: [table.animalId],
+			foreignColumns: [vetmedAnimals.id],
+			name: "vetmed_weight_logs_animal_id_vetmed_animals_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.recordedBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_weight_logs_recorded_by_vetmed_users_id_fk",
+		}),
+	],
+);
+
 export const vetmedInventoryItems = pgTable(
 	"vetmed_inventory_items",
 	{
@@ -173,7 +381,12 @@ export const vetmedInventoryItems = pgTable(
 		expiresOn: date("expires_on").notNull(),
 		storage: vetmedStorage().default("ROOM").notNull(),
 		quantityUnits: integer("quantity_units"),
-		unitsRemaining: integer("units_remaining"),
+		// Fractional for measured forms, e.g. mL left after a 0.5 mL dose
+		unitsRemaining: numeric("units_remaining", {
+			precision: 10,
+			scale: 2,
+			mode: "number",
+		}),
 		unitType: text("unit_type"),
 		openedOn: date("opened_on"),
 		inUse: boolean("in_use").default(false).notNull(),
@@ -247,6 +460,20 @@ export const vetmedNotificationQueue = pgTable(
 		failedAt: timestamp("failed_at", { withTimezone: true, mode: "string" }),
 		error: text(),
 		attempts: integer().default(0).notNull(),
+		// Not claimable before this: the claim lease, then the retry backoff
+		nextAttemptAt: timestamp("next_attempt_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		// Channels already delivered, so a retry doesn't repeat them
+		deliveredVia: text("delivered_via").array().default([]).notNull(),
+		// One live row per key, e.g. a dose reminder per slot and recipient
+		dedupeKey: text("dedupe_key"),
+		// Withdrawn before delivery, e.g. the dose was recorded first
+		cancelledAt: timestamp("cancelled_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
 		readAt: timestamp("read_at", { withTimezone: true, mode: "string" }),
 		dismissedAt: timestamp("dismissed_at", {
 			withTimezone: true,
@@ -273,6 +500,14 @@ export const vetmedNotificationQueue = pgTable(
 			"btree",
 			table.userId.asc().nullsLast().op("uuid_ops"),
 		),
+		index("notification_next_attempt_at_idx").using(
+			"btree",
+			table.nextAttemptAt.asc().nullsFirst().op("timestamptz_ops"),
+		),
+		// Cancelled rows don't count, so a resumed regimen can plan the slot again
+		uniqueIndex("notification_dedupe_key_idx")
+			.using("btree", table.dedupeKey.asc().nullsLast().op("text_ops"))
+			.where(sql`${table.cancelledAt} IS NULL`),
 		foreignKey({
 			columns: [table.userId],
 			foreignColumns: [vetmedUsers.id],
@@ -286,10 +521,92 @@ export const vetmedNotificationQueue = pgTable(
 	],
 );
 
+// How a household's dose reminders repeat and escalate while a dose is unrecorded
+export const vetmedEscalationPolicies = pgTable(
+	"vetmed_escalation_policies",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		householdId: uuid("household_id").notNull(),
+		// Minutes relative to the due time (negative is before) at which
+		// caregivers are re-notified
+		attemptOffsets: integer("attempt_offsets")
+			.array()
+			.default([-15, 0, 15, 45, 90])
+			.notNull(),
+		escalateAfterMinutes: integer("escalate_after_minutes")
+			.default(45)
+			.notNull(),
+		escalationTarget: vetmedEscalationTarget("escalation_target")
+			.default("OWNERS")
+			.notNull(),
+		// The named lead when escalationTarget is LEAD
+		leadUserId: uuid("lead_user_id"),
+		updatedBy: uuid("updated_by"),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		unique("vetmed_escalation_policies_household_id_unique").on(
+			table.householdId,
+		),
+		foreignKey({
+			columns: [table.householdId],
+			foreignColumns: [vetmedHouseholds.id],
+			name: "vetmed_escalation_policies_household_id_vetmed_households_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.leadUserId],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_escalation_policies_lead_user_id_vetmed_users_id_fk",
+		}).onDelete("set null"),
+	],
+);
+
+// One row per browser/device a user has enabled Web Push on
+export const vetmedPushSubscriptions = pgTable(
+	"vetmed_push_subscriptions",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		userId: uuid("user_id").notNull(),
+		endpoint: text().notNull(),
+		// Keys from PushSubscription.toJSON(), base64url encoded
+		p256dh: text().notNull(),
+		auth: text().notNull(),
+		userAgent: text("user_agent"),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+		lastSentAt: timestamp("last_sent_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+	},
+	(table) => [
+		index("push_subscription_user_id_idx").using(
+			"btree",
+			table.userId.asc().nullsLast().op("uuid_ops"),
+		),
+		unique("vetmed_push_subscriptions_endpoint_unique").on(table.endpoint),
+		foreignKey({
+			columns: [table.userId],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_push_subscriptions_user_id_vetmed_users_id_fk",
+		}).onDelete("cascade"),
+	],
+);
+
 export const vetmedMedicationCatalog = pgTable(
 	"vetmed_medication_catalog",
 	{
 		id: uuid().defaultRandom().primaryKey().notNull(),
+		// Null for the shared catalog; set for a household's custom medications,
+		// e.g. compounded by their vet pharmacy
+		householdId: uuid("household_id"),
+		createdBy: uuid("created_by"),
 		genericName: text("generic_name").notNull(),
 		brandName: text("brand_name"),
 		strength: text(),
@@ -298,6 +615,13 @@ export const vetmedMedicationCatalog = pgTable(
 		controlledSubstance: boolean("controlled_substance")
 			.default(false)
 			.notNull(),
+		// Pharmacological class, e.g. "NSAID", used to match safety rules
+		drugClass: text("drug_class"),
+		// Allowed / caution / contraindicated per species, keyed like "cat"
+		speciesSafety: jsonb("species_safety")
+			.$type<SpeciesSafety>()
+			.default({})
+			.notNull(),
 		commonDosing: text("common_dosing"),
 		warnings: text(),
 		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
@@ -316,9 +640,158 @@ export const vetmedMedicationCatalog = pgTable(
 			"btree",
 			table.genericName.asc().nullsLast().op("text_ops"),
 		),
+		index("med_catalog_household_id_idx").using(
+			"btree",
+			table.householdId.asc().nullsLast().op("uuid_ops"),
+		),
+		// Trigram indexes (pg_trgm) for typo-tolerant search
+		index("med_catalog_generic_name_trgm_idx").using(
+			"gin",
+			table.genericName.op("gin_trgm_ops"),
+		),
+		index("med_catalog_brand_name_trgm_idx").using(
+			"gin",
+			table.brandName.op("gin_trgm_ops"),
+		),
+		foreignKey({
+			columns: [table.householdId],
+			foreignColumns: [vetmedHouseholds.id],
+			name: "vetmed_medication_catalog_household_id_vetmed_households_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.createdBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_medication_catalog_created_by_vetmed_users_id_fk",
+		}),
 	],
 );
 
+/**
+ * Search aliases for a generic name: abbreviations ("pred"), other brands
+ * ("Benadryl") and common names ("fish oil"). Terms are stored lowercase.
+ */
+export const vetmedMedicationSynonyms = pgTable(
+	"vetmed_medication_synonyms",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		term: text().notNull(),
+		genericName: text("generic_name").notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("med_synonym_term_idx").using(
+			"btree",
+			table.term.asc().nullsLast().op("text_ops"),
+		),
+		unique("vetmed_medication_synonyms_term_generic_name_unique").on(
+			table.term,
+			table.genericName,
+		),
+	],
+);
+
+/**
+ * A household's request to move one of its custom medications into the
+ * shared catalog. Approving it clears the entry's householdId.
+ */
+export const vetmedCatalogPromotions = pgTable(
+	"vetmed_catalog_promotions",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		medicationId: uuid("medication_id").notNull(),
+		householdId: uuid("household_id").notNull(),
+		proposedBy: uuid("proposed_by").notNull(),
+		note: text(),
+		status: vetmedCatalogPromotionStatus().default("PENDING").notNull(),
+		reviewedBy: uuid("reviewed_by"),
+		reviewedAt: timestamp("reviewed_at", {
+			withTimezone: true,
+			mode: "string",
+		}),
+		reviewNote: text("review_note"),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("catalog_promotion_status_idx").using(
+			"btree",
+			table.status.asc().nullsLast().op("enum_ops"),
+		),
+		foreignKey({
+			columns: [table.medicationId],
+			foreignColumns: [vetmedMedicationCatalog.id],
+			name: "vetmed_catalog_promotions_medication_id_vetmed_medication_catalog_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.householdId],
+			foreignColumns: [vetmedHouseholds.id],
+			name: "vetmed_catalog_promotions_household_id_vetmed_households_id_fk",
+		}).onDelete("cascade"),
+		foreignKey({
+			columns: [table.proposedBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_catalog_promotions_proposed_by_vetmed_users_id_fk",
+		}),
+		foreignKey({
+			columns: [table.reviewedBy],
+			foreignColumns: [vetmedUsers.id],
+			name: "vetmed_catalog_promotions_reviewed_by_vetmed_users_id_fk",
+		}),
+	],
+);
+
+/**
+ * Safety rules for a medication (by generic name or drug class). A rule
+ * applies when every trigger it sets matches the animal: an allergy term, a
+ * condition and/or a species.
+ */
+export const vetmedContraindications = pgTable(
+	"vetmed_contraindications",
+	{
+		id: uuid().defaultRandom().primaryKey().notNull(),
+		medicationName: text("medication_name"),
+		drugClass: text("drug_class"),
+		allergyTerm: text("allergy_term"),
+		condition: text(),
+		species: text(),
+		severity: vetmedContraindicationSeverity().notNull(),
+		reason: text().notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [
+		index("contraindication_medication_name_idx").using(
+			"btree",
+			table.medicationName.asc().nullsLast().op("text_ops"),
+		),
+		index("contraindication_drug_class_idx").using(
+			"btree",
+			table.drugClass.asc().nullsLast().op("text_ops"),
+		),
+	],
+);
+
+/**
+ * Known interactions between two medications, each side matched by generic
+ * name or drug class (the same class on both sides covers duplicate therapy).
+ */
+export const vetmedDrugInteractions = pgTable("vetmed_drug_interactions", {
+	id: uuid().defaultRandom().primaryKey().notNull(),
+	medicationNameA: text("medication_name_a"),
+	drugClassA: text("drug_class_a"),
+	medicationNameB: text("medication_name_b"),
+	drugClassB: text("drug_class_b"),
+	severity: vetmedInteractionSeverity().notNull(),
+	description: text().notNull(),
+	createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+		.defaultNow()
+		.notNull(),
+});
+
 export const vetmedHouseholds = pgTable("vetmed_households", {
 	id: uuid().defaultRandom().primaryKey().notNull(),
 	name: text().notNull(),
@@ -349,6 +822,10 @@ export const vetmedAuditLog = pgTable(
 		timestamp: timestamp({ withTimezone: true, mode: "string" })
 			.defaultNow()
 			.notNull(),
+		// Per-household hash chain; null on entries written before chaining
+		sequence: integer(),
+		prevHash: text("prev_hash"),
+		hash: text(),
 	},
 	(table) => [
 		index("audit_household_id_idx").using(
@@ -378,6 +855,10 @@ export const vetmedAuditLog = pgTable(
 			foreignColumns: [vetmedHouseholds.id],
 			name: "vetmed_audit_log_household_id_vetmed_households_id_fk",
 		}),
+		unique("vetmed_audit_log_household_id_sequence_unique").on(
+			table.householdId,
+			table.sequence,
+		),
 	],
 );
 
@@ -392,6 +873,10 @@ export const vetmedRegimens = pgTable(
 		scheduleType: vetmedScheduleType("schedule_type").notNull(),
 		timesLocal: time("times_local").array(),
 		intervalHours: integer("interval_hours"),
+		intervalMode: vetmedIntervalMode("interval_mode")
+			.default("ROLLING")
+			.notNull(),
+		taperSteps: jsonb("taper_steps").$type<TaperStep[]>(),
 		startDate: date("start_date").notNull(),
 		endDate: date("end_date"),
 		prnReason: text("prn_reason"),
@@ -404,6 +889,13 @@ export const vetmedRegimens = pgTable(
 		pauseReason: text("pause_reason"),
 		dose: text(),
 		route: text(),
+		// Keys of severe contraindications acknowledged when saving the regimen
+		acknowledgedContraindications: text("acknowledged_contraindications")
+			.array()
+			.default([])
+			.notNull(),
+		// Why an owner allowed a medication contraindicated for the species
+		speciesOverrideReason: text("species_override_reason"),
 		createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
 			.defaultNow()
 			.notNull(),
@@ -460,6 +952,12 @@ export const vetmedAdministrations = pgTable(
 		}).notNull(),
 		status: vetmedAdminStatus().notNull(),
 		sourceItemId: uuid("source_item_id"),
+		// What was drawn from the source item, so deleting the dose can put it back
+		unitsDeducted: numeric("units_deducted", {
+			precision: 10,
+			scale: 2,
+			mode: "number",
+		}),
 		site: text(),
 		dose: text(),
 		notes: text(),
@@ -470,6 +968,7 @@ export const vetmedAdministrations = pgTable(
 			mode: "string",
 		}),
 		coSignNotes: text("co_sign_notes"),
+		coSignRequired: boolean("co_sign_required").default(false).notNull(),
 		adverseEvent: boolean("adverse_event").default(false).notNull(),
 		adverseEventDescription: text("adverse_event_description"),
 		idempotencyKey: text("idempotency_key").notNull(),
@@ -592,20 +1091,32 @@ export const users = vetmedUsers;
 export const animals = vetmedAnimals;
 export const households = vetmedHouseholds;
 export const memberships = vetmedMemberships;
+export const invitations = vetmedInvitations;
+export const shareLinks = vetmedShareLinks;
+export const weightLogs = vetmedWeightLogs;
 export const medicationCatalog = vetmedMedicationCatalog;
+export const catalogPromotions = vetmedCatalogPromotions;
+export const medicationSynonyms = vetmedMedicationSynonyms;
+export const contraindications = vetmedContraindications;
+export const drugInteractions = vetmedDrugInteractions;
 export const inventoryItems = vetmedInventoryItems;
 export const regimens = vetmedRegimens;
 export const administrations = vetmedAdministrations;
 export const auditLog = vetmedAuditLog;
 export const notificationQueue = vetmedNotificationQueue;
+export const pushSubscriptions = vetmedPushSubscriptions;
+export const escalationPolicies = vetmedEscalationPolicies;
 
 // Export enum types and utilities
 export const adminStatusEnum = vetmedAdminStatus;
 export const roleEnum = vetmedRole;
 export const scheduleTypeEnum = vetmedScheduleType;
+export const intervalModeEnum = vetmedIntervalMode;
 export const routeEnum = vetmedRoute;
 export const formEnum = vetmedForm;
 export const storageEnum = vetmedStorage;
+export const catalogPromotionStatusEnum = vetmedCatalogPromotionStatus;
+export const escalationTargetEnum = vetmedEscalationTarget;
 
 // Type exports for easier use
 export type NewAdministration = typeof vetmedAdministrations.$inferInsert;
@@ -613,6 +1124,14 @@ export type NewAnimal = typeof vetmedAnimals.$inferInsert;
 export type NewUser = typeof vetmedUsers.$inferInsert;
 export type NewHousehold = typeof vetmedHouseholds.$inferInsert;
 export type NewMembership = typeof vetmedMemberships.$inferInsert;
+export type NewInvitation = typeof vetmedInvitations.$inferInsert;
+export type NewShareLink = typeof vetmedShareLinks.$inferInsert;
+export type NewWeightLog = typeof vetmedWeightLogs.$inferInsert;
 export type NewRegimen = typeof vetmedRegimens.$inferInsert;
 export type NewInventoryItem = typeof vetmedInventoryItems.$inferInsert;
 export type NewMedicationCatalog = typeof vetmedMedicationCatalog.$inferInsert;
+export type CatalogPromotion = typeof vetmedCatalogPromotions.$inferSelect;
+export type PushSubscriptionRow = typeof vetmedPushSubscriptions.$inferSelect;
+export type EscalationPolicy = typeof vetmedEscalationPolicies.$inferSelect;
+export type Contraindication = typeof vetmedContraindications.$inferSelect;
+export type DrugInteractionRule = typeof vetmedDrugInteractions.$inferSelect;
@@ -12,6 +12,15 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Penicillin",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Oral penicillins disrupt rabbit gut flora and cause fatal enteritis",
+			},
+		},
 		commonDosing: "10-20mg/kg BID",
 		warnings: "Complete full course even if symptoms improve",
 	},
@@ -22,6 +31,15 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Penicillin",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Oral penicillins disrupt rabbit gut flora and cause fatal enteritis",
+			},
+		},
 		commonDosing: "10-20mg/kg BID",
 		warnings: "Complete full course even if symptoms improve",
 	},
@@ -32,6 +50,15 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Penicillin",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Oral penicillins disrupt rabbit gut flora and cause fatal enteritis",
+			},
+		},
 		commonDosing: "10-20mg/kg BID",
 		warnings: "Complete full course even if symptoms improve",
 	},
@@ -42,6 +69,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Cephalosporin",
 		commonDosing: "15-25mg/kg BID",
 		warnings: "Give with food to reduce stomach upset",
 	},
@@ -52,6 +80,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Cephalosporin",
 		commonDosing: "15-25mg/kg BID",
 		warnings: "Give with food to reduce stomach upset",
 	},
@@ -62,6 +91,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Fluoroquinolone",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Doses above 5 mg/kg/day have caused retinal degeneration and blindness in cats",
+			},
+		},
 		commonDosing: "5mg/kg SID",
 		warnings: "Avoid dairy products, monitor for joint issues in young animals",
 	},
@@ -72,6 +109,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Fluoroquinolone",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Doses above 5 mg/kg/day have caused retinal degeneration and blindness in cats",
+			},
+		},
 		commonDosing: "5mg/kg SID",
 		warnings: "Avoid dairy products, monitor for joint issues in young animals",
 	},
@@ -82,6 +127,15 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Lincosamide",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Oral clindamycin causes fatal enterotoxaemia in rabbits",
+			},
+		},
 		commonDosing: "5-10mg/kg BID",
 		warnings: "Give with food, watch for diarrhea",
 	},
@@ -92,6 +146,15 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Lincosamide",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Oral clindamycin causes fatal enterotoxaemia in rabbits",
+			},
+		},
 		commonDosing: "5-10mg/kg BID",
 		warnings: "Give with food, watch for diarrhea",
 	},
@@ -102,6 +165,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Nitroimidazole",
 		commonDosing: "7.5mg/kg BID",
 		warnings: "Neurological side effects possible at high doses",
 	},
@@ -114,6 +178,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "SC",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Insulin",
 		commonDosing: "Cats: 0.25-0.5 U/kg SC BID. Dogs: 0.25-0.5 U/kg SC BID",
 		warnings: "Refrigerate. Monitor blood glucose. Never shake vial.",
 	},
@@ -124,6 +189,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "SC",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Insulin",
 		commonDosing: "Dogs: 0.5 U/kg SC BID. Cats: 1-3 U per cat BID",
 		warnings: "Refrigerate. Roll gently to mix. Monitor blood glucose.",
 	},
@@ -134,6 +200,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "SC",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Insulin",
 		commonDosing: "Cats: 0.5-1 U/kg SC BID",
 		warnings: "Refrigerate. Do not mix with other insulins.",
 	},
@@ -144,6 +211,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "SC",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Insulin",
 		commonDosing: "Cats: 0.25-0.5 U/kg SC BID",
 		warnings:
 			"Pre-filled pen. Refrigerate. Do not shake. Prime before first use.",
@@ -157,6 +225,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "NSAID",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CONTRAINDICATED",
+				note: "Not approved for cats; they clear carprofen slowly and repeated doses have caused kidney and liver injury",
+			},
+		},
 		commonDosing: "2mg/kg BID or 4mg/kg SID",
 		warnings: "Monitor liver and kidney function, give with food",
 	},
@@ -167,6 +243,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "NSAID",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CONTRAINDICATED",
+				note: "Not approved for cats; they clear carprofen slowly and repeated doses have caused kidney and liver injury",
+			},
+		},
 		commonDosing: "2mg/kg BID or 4mg/kg SID",
 		warnings: "Monitor liver and kidney function, give with food",
 	},
@@ -177,6 +261,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "NSAID",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CONTRAINDICATED",
+				note: "Not approved for cats; they clear carprofen slowly and repeated doses have caused kidney and liver injury",
+			},
+		},
 		commonDosing: "2mg/kg BID or 4mg/kg SID",
 		warnings: "Monitor liver and kidney function, give with food",
 	},
@@ -187,6 +279,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "LIQUID",
 		controlledSubstance: false,
+		drugClass: "NSAID",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Only low or single doses in cats; repeated dosing has caused kidney injury",
+			},
+		},
 		commonDosing: "0.1mg/kg SID",
 		warnings: "Administer precise dose, monitor for GI upset",
 	},
@@ -197,6 +297,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "LIQUID",
 		controlledSubstance: false,
+		drugClass: "NSAID",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Only low or single doses in cats; repeated dosing has caused kidney injury",
+			},
+		},
 		commonDosing: "0.1mg/kg SID",
 		warnings: "Administer precise dose, monitor for GI upset",
 	},
@@ -207,6 +315,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Anticonvulsant",
 		commonDosing: "5-10mg/kg BID-TID",
 		warnings: "Start with low dose and titrate up, causes sedation initially",
 	},
@@ -217,6 +326,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Anticonvulsant",
 		commonDosing: "5-10mg/kg BID-TID",
 		warnings: "Start with low dose and titrate up, causes sedation initially",
 	},
@@ -227,6 +337,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: true,
+		drugClass: "Opioid",
 		commonDosing: "2-5mg/kg BID-TID",
 		warnings: "Controlled substance, may cause sedation or excitement",
 	},
@@ -239,6 +350,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "SC",
 		form: "INJECTION",
 		controlledSubstance: true,
+		drugClass: "Opioid",
 		commonDosing: "0.01-0.03mg/kg q6-12h",
 		warnings: "Controlled substance, respiratory depression possible",
 	},
@@ -249,6 +361,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "IM",
 		form: "INJECTION",
 		controlledSubstance: true,
+		drugClass: "Opioid",
 		commonDosing: "0.1-1mg/kg q4-6h",
 		warnings: "Controlled substance, monitor respiratory function",
 	},
@@ -261,6 +374,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Phenothiazine",
 		commonDosing: "0.25-1mg/kg PRN",
 		warnings: "Do not use in seizure-prone animals, causes hypotension",
 	},
@@ -271,6 +385,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "IM",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Phenothiazine",
 		commonDosing: "0.01-0.05mg/kg PRN",
 		warnings: "Do not use in seizure-prone animals, causes hypotension",
 	},
@@ -281,6 +396,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antidepressant",
 		commonDosing: "2-5mg/kg BID PRN",
 		warnings: "May cause sedation, monitor for serotonin syndrome",
 	},
@@ -291,6 +407,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: true,
+		drugClass: "Benzodiazepine",
 		commonDosing: "0.01-0.05mg/kg PRN",
 		warnings: "Controlled substance, may cause paradoxical excitement",
 	},
@@ -303,6 +420,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "ACE inhibitor",
 		commonDosing: "0.25-0.5mg/kg BID",
 		warnings: "Monitor kidney function and blood pressure",
 	},
@@ -313,6 +431,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "ACE inhibitor",
 		commonDosing: "0.25-0.5mg/kg BID",
 		warnings: "Monitor kidney function and blood pressure",
 	},
@@ -323,6 +442,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Loop diuretic",
 		commonDosing: "1-2mg/kg BID-TID",
 		warnings: "Monitor electrolytes and kidney function",
 	},
@@ -333,6 +453,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Loop diuretic",
 		commonDosing: "1-2mg/kg BID-TID",
 		warnings: "Monitor electrolytes and kidney function",
 	},
@@ -343,6 +464,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Inodilator",
 		commonDosing: "0.25mg/kg BID",
 		warnings: "Give on empty stomach, monitor for arrhythmias",
 	},
@@ -353,6 +475,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Inodilator",
 		commonDosing: "0.25mg/kg BID",
 		warnings: "Give on empty stomach, monitor for arrhythmias",
 	},
@@ -365,6 +488,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Proton pump inhibitor",
 		commonDosing: "0.5-1mg/kg SID",
 		warnings: "Give on empty stomach, long-term use may affect B12 absorption",
 	},
@@ -375,6 +499,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "H2 blocker",
 		commonDosing: "0.25-0.5mg/kg BID",
 		warnings: "Safe for most animals, may interfere with some medications",
 	},
@@ -385,6 +510,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antiemetic",
 		commonDosing: "2mg/kg SID",
 		warnings: "For prevention of motion sickness and vomiting",
 	},
@@ -395,6 +521,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antiemetic",
 		commonDosing: "2mg/kg SID",
 		warnings: "For prevention of motion sickness and vomiting",
 	},
@@ -405,6 +532,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Gastroprotectant",
 		commonDosing: "0.5-1g TID",
 		warnings: "Give on empty stomach, may bind other medications",
 	},
@@ -417,6 +545,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antihistamine",
 		commonDosing: "1mg/kg BID-TID",
 		warnings:
 			"Causes drowsiness, avoid preparations with other active ingredients",
@@ -428,6 +557,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antihistamine",
 		commonDosing: "0.25mg/kg SID",
 		warnings: "Non-sedating antihistamine",
 	},
@@ -438,6 +568,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antihistamine",
 		commonDosing: "0.25-0.5mg/kg SID",
 		warnings: "May cause mild sedation",
 	},
@@ -448,6 +579,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antihistamine",
 		commonDosing: "1-2mg/kg BID-TID",
 		warnings: "Sedating antihistamine, useful for anxiety",
 	},
@@ -460,6 +592,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: true,
+		drugClass: "Anticonvulsant",
 		commonDosing: "1-3mg/kg BID",
 		warnings: "Controlled substance, monitor liver function and drug levels",
 	},
@@ -470,6 +603,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: true,
+		drugClass: "Anticonvulsant",
 		commonDosing: "1-3mg/kg BID",
 		warnings: "Controlled substance, monitor liver function and drug levels",
 	},
@@ -480,6 +614,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "LIQUID",
 		controlledSubstance: false,
+		drugClass: "Anticonvulsant",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Can cause severe, sometimes fatal, lung disease in cats",
+			},
+		},
 		commonDosing: "15-30mg/kg SID",
 		warnings: "Give with food, long loading period required",
 	},
@@ -490,6 +632,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Anticonvulsant",
 		commonDosing: "10-20mg/kg TID",
 		warnings: "Relatively safe, may cause sedation initially",
 	},
@@ -502,6 +645,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Thyroid hormone",
 		commonDosing: "10-20mcg/kg BID",
 		warnings: "Give on empty stomach, monitor T4 levels",
 	},
@@ -512,6 +656,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Thyroid hormone",
 		commonDosing: "10-20mcg/kg BID",
 		warnings: "Give on empty stomach, monitor T4 levels",
 	},
@@ -522,6 +667,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Thyroid hormone",
 		commonDosing: "10-20mcg/kg BID",
 		warnings: "Give on empty stomach, monitor T4 levels",
 	},
@@ -532,6 +678,10 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Antithyroid",
+		speciesSafety: {
+			cat: { level: "ALLOWED" },
+		},
 		commonDosing: "2.5-5mg BID",
 		warnings: "Monitor CBC and liver function, for hyperthyroidism",
 	},
@@ -628,6 +778,13 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Macrocyclic lactone",
+		speciesSafety: {
+			dog: {
+				level: "CAUTION",
+				note: "Breeds with the MDR1 mutation can be poisoned above heartworm-prevention doses",
+			},
+		},
 		commonDosing: "6mcg/kg monthly",
 		warnings: "Contraindicated in MDR1 mutation breeds, heartworm prevention",
 	},
@@ -638,9 +795,36 @@ export const commonVeterinaryMedications: Omit<
 		route: "TOPICAL",
 		form: "SPRAY",
 		controlledSubstance: false,
+		drugClass: "Phenylpyrazole",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: { level: "ALLOWED" },
+			rabbit: {
+				level: "CONTRAINDICATED",
+				note: "Fipronil has caused seizures and deaths in rabbits",
+			},
+		},
 		commonDosing: "Apply monthly",
 		warnings: "Flea and tick prevention, avoid contact with treated areas",
 	},
+	{
+		genericName: "Imidacloprid/Permethrin",
+		brandName: "K9 Advantix II",
+		strength: "8.8%/44%",
+		route: "TOPICAL",
+		form: "DROPS",
+		controlledSubstance: false,
+		drugClass: "Pyrethroid",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CONTRAINDICATED",
+				note: "Permethrin is highly toxic to cats and causes tremors, seizures and death, even from contact with a treated dog",
+			},
+		},
+		commonDosing: "Apply monthly",
+		warnings: "Dogs only. Keep cats away from treated dogs until dry",
+	},
 	{
 		genericName: "Imidacloprid/Moxidectin",
 		brandName: "Advantage Multi",
@@ -648,6 +832,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "TOPICAL",
 		form: "DROPS",
 		controlledSubstance: false,
+		drugClass: "Macrocyclic lactone",
 		commonDosing: "Apply monthly",
 		warnings: "Broad spectrum parasite prevention",
 	},
@@ -658,6 +843,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "LIQUID",
 		controlledSubstance: false,
+		drugClass: "Anthelmintic",
 		commonDosing: "5mg/kg, repeat in 2 weeks",
 		warnings: "Deworming medication, safe for puppies and kittens",
 	},
@@ -670,6 +856,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "IM",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Sympathomimetic",
 		commonDosing: "0.01mg/kg IM",
 		warnings: "Emergency use only for anaphylaxis",
 	},
@@ -680,6 +867,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "IV",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Corticosteroid",
 		commonDosing: "0.1-2mg/kg",
 		warnings: "Potent anti-inflammatory, multiple drug interactions",
 	},
@@ -690,6 +878,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "IM",
 		form: "INJECTION",
 		controlledSubstance: false,
+		drugClass: "Anticholinergic",
 		commonDosing: "0.02-0.04mg/kg",
 		warnings: "For organophosphate poisoning and bradycardia",
 	},
@@ -702,6 +891,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Corticosteroid",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Cats convert prednisone to its active form poorly; prednisolone is preferred",
+			},
+		},
 		commonDosing: "0.5-2mg/kg SID-BID",
 		warnings:
 			"Taper dose gradually, monitor for side effects with long-term use",
@@ -713,6 +910,14 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Corticosteroid",
+		speciesSafety: {
+			dog: { level: "ALLOWED" },
+			cat: {
+				level: "CAUTION",
+				note: "Cats convert prednisone to its active form poorly; prednisolone is preferred",
+			},
+		},
 		commonDosing: "0.5-2mg/kg SID-BID",
 		warnings:
 			"Taper dose gradually, monitor for side effects with long-term use",
@@ -724,6 +929,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "TABLET",
 		controlledSubstance: false,
+		drugClass: "Corticosteroid",
 		commonDosing: "0.5-2mg/kg SID-BID",
 		warnings: "Preferred over prednisone in cats, taper dose gradually",
 	},
@@ -734,6 +940,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Immunosuppressant",
 		commonDosing: "5mg/kg SID",
 		warnings: "For atopic dermatitis, give on empty stomach, expensive",
 	},
@@ -744,6 +951,7 @@ export const commonVeterinaryMedications: Omit<
 		route: "ORAL",
 		form: "CAPSULE",
 		controlledSubstance: false,
+		drugClass: "Immunosuppressant",
 		commonDosing: "5mg/kg SID",
 		warnings: "For atopic dermatitis, give on empty stomach, expensive",
 	},
@@ -0,0 +1 @@
+ALTER TABLE "vetmed_regimens" ADD COLUMN "taper_steps" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."vetmed_interval_mode" AS ENUM('ROLLING', 'SCHEDULE');--> statement-breakpoint
+ALTER TABLE "vetmed_regimens" ADD COLUMN "interval_mode" "vetmed_interval_mode" DEFAULT 'ROLLING' NOT NULL;
\ No newline at end of file
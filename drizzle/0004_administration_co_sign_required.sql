@@ -0,0 +1,2 @@
+ALTER TABLE "vetmed_administrations" ADD COLUMN "co_sign_required" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "vetmed_administrations" SET "co_sign_required" = true FROM "vetmed_regimens" WHERE "vetmed_administrations"."regimen_id" = "vetmed_regimens"."id" AND "vetmed_regimens"."requires_co_sign" = true;
\ No newline at end of file
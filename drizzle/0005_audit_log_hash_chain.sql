@@ -0,0 +1,4 @@
+ALTER TABLE "vetmed_audit_log" ADD COLUMN "sequence" integer;--> statement-breakpoint
+ALTER TABLE "vetmed_audit_log" ADD COLUMN "prev_hash" text;--> statement-breakpoint
+ALTER TABLE "vetmed_audit_log" ADD COLUMN "hash" text;--> statement-breakpoint
+ALTER TABLE "vetmed_audit_log" ADD CONSTRAINT "vetmed_audit_log_household_id_sequence_unique" UNIQUE("household_id","sequence");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "vetmed_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"email" text NOT NULL,
+	"role" "vetmed_role" DEFAULT 'CAREGIVER' NOT NULL,
+	"token_hash" text NOT NULL,
+	"invited_by" uuid NOT NULL,
+	"message" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"accepted_at" timestamp with time zone,
+	"accepted_by" uuid,
+	"declined_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vetmed_invitations_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_invitations" ADD CONSTRAINT "vetmed_invitations_household_id_vetmed_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."vetmed_households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_invitations" ADD CONSTRAINT "vetmed_invitations_invited_by_vetmed_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_invitations" ADD CONSTRAINT "vetmed_invitations_accepted_by_vetmed_users_id_fk" FOREIGN KEY ("accepted_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invitation_household_id_idx" ON "vetmed_invitations" USING btree ("household_id" uuid_ops);--> statement-breakpoint
+CREATE INDEX "invitation_email_idx" ON "vetmed_invitations" USING btree ("email" text_ops);
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "vetmed_invitations" ADD COLUMN "valid_from" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "vetmed_invitations" ADD COLUMN "valid_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "vetmed_invitations" ADD COLUMN "animal_ids" uuid[];--> statement-breakpoint
+ALTER TABLE "vetmed_memberships" ADD COLUMN "valid_from" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "vetmed_memberships" ADD COLUMN "valid_until" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "vetmed_memberships" ADD COLUMN "animal_ids" uuid[];--> statement-breakpoint
+ALTER TABLE "vetmed_memberships" ADD COLUMN "expired_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "membership_valid_until_idx" ON "vetmed_memberships" USING btree ("valid_until" timestamptz_ops);
\ No newline at end of file
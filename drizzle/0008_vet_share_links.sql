@@ -0,0 +1,19 @@
+CREATE TABLE "vetmed_share_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"animal_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"label" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"last_viewed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_share_links" ADD CONSTRAINT "vetmed_share_links_household_id_vetmed_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."vetmed_households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_share_links" ADD CONSTRAINT "vetmed_share_links_animal_id_vetmed_animals_id_fk" FOREIGN KEY ("animal_id") REFERENCES "public"."vetmed_animals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_share_links" ADD CONSTRAINT "vetmed_share_links_created_by_vetmed_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "share_link_household_id_idx" ON "vetmed_share_links" USING btree ("household_id" uuid_ops);--> statement-breakpoint
+CREATE INDEX "share_link_animal_id_idx" ON "vetmed_share_links" USING btree ("animal_id" uuid_ops);
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."vetmed_share_link_purpose" AS ENUM('VET_RECORD', 'EMERGENCY');--> statement-breakpoint
+ALTER TABLE "vetmed_share_links" ADD COLUMN "purpose" "vetmed_share_link_purpose" DEFAULT 'VET_RECORD' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."vetmed_weight_source" AS ENUM('HOME', 'VET', 'OTHER');--> statement-breakpoint
+CREATE TABLE "vetmed_weight_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"animal_id" uuid NOT NULL,
+	"recorded_by" uuid,
+	"weight_kg" numeric(5, 2) NOT NULL,
+	"measured_on" date NOT NULL,
+	"source" "vetmed_weight_source" DEFAULT 'HOME' NOT NULL,
+	"notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_weight_logs" ADD CONSTRAINT "vetmed_weight_logs_animal_id_vetmed_animals_id_fk" FOREIGN KEY ("animal_id") REFERENCES "public"."vetmed_animals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_weight_logs" ADD CONSTRAINT "vetmed_weight_logs_recorded_by_vetmed_users_id_fk" FOREIGN KEY ("recorded_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "weight_log_animal_measured_idx" ON "vetmed_weight_logs" USING btree ("animal_id" uuid_ops,"measured_on" date_ops);--> statement-breakpoint
+INSERT INTO "vetmed_weight_logs" ("animal_id", "weight_kg", "measured_on", "source", "notes") SELECT "id", "weight_kg", "updated_at"::date, 'OTHER', 'From animal profile' FROM "vetmed_animals" WHERE "weight_kg" IS NOT NULL AND "deleted_at" IS NULL;
@@ -0,0 +1,78 @@
+CREATE TYPE "public"."vetmed_contraindication_severity" AS ENUM('CAUTION', 'SEVERE');--> statement-breakpoint
+CREATE TABLE "vetmed_contraindications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"medication_name" text,
+	"drug_class" text,
+	"allergy_term" text,
+	"condition" text,
+	"species" text,
+	"severity" "vetmed_contraindication_severity" NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_medication_catalog" ADD COLUMN "drug_class" text;--> statement-breakpoint
+ALTER TABLE "vetmed_regimens" ADD COLUMN "acknowledged_contraindications" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE INDEX "contraindication_medication_name_idx" ON "vetmed_contraindications" USING btree ("medication_name" text_ops);--> statement-breakpoint
+CREATE INDEX "contraindication_drug_class_idx" ON "vetmed_contraindications" USING btree ("drug_class" text_ops);--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Penicillin' WHERE "generic_name" IN ('Amoxicillin');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Cephalosporin' WHERE "generic_name" IN ('Cephalexin');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Lincosamide' WHERE "generic_name" IN ('Clindamycin');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Fluoroquinolone' WHERE "generic_name" IN ('Enrofloxacin');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Nitroimidazole' WHERE "generic_name" IN ('Metronidazole');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'NSAID' WHERE "generic_name" IN ('Carprofen', 'Meloxicam');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Corticosteroid' WHERE "generic_name" IN ('Prednisone', 'Prednisolone', 'Dexamethasone');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Opioid' WHERE "generic_name" IN ('Buprenorphine', 'Morphine', 'Tramadol');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Phenothiazine' WHERE "generic_name" IN ('Acepromazine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Benzodiazepine' WHERE "generic_name" IN ('Alprazolam');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Antidepressant' WHERE "generic_name" IN ('Trazodone');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Anticonvulsant' WHERE "generic_name" IN ('Gabapentin', 'Levetiracetam', 'Phenobarbital', 'Potassium Bromide');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Antihistamine' WHERE "generic_name" IN ('Cetirizine', 'Diphenhydramine', 'Hydroxyzine', 'Loratadine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'ACE inhibitor' WHERE "generic_name" IN ('Enalapril');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Loop diuretic' WHERE "generic_name" IN ('Furosemide');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Inodilator' WHERE "generic_name" IN ('Pimobendan');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'H2 blocker' WHERE "generic_name" IN ('Famotidine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Proton pump inhibitor' WHERE "generic_name" IN ('Omeprazole');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Gastroprotectant' WHERE "generic_name" IN ('Sucralfate');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Antiemetic' WHERE "generic_name" IN ('Maropitant');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Insulin' WHERE "generic_name" IN ('Insulin NPH', 'Insulin detemir', 'Insulin glargine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Thyroid hormone' WHERE "generic_name" IN ('Levothyroxine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Antithyroid' WHERE "generic_name" IN ('Methimazole');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Immunosuppressant' WHERE "generic_name" IN ('Cyclosporine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Macrocyclic lactone' WHERE "generic_name" IN ('Ivermectin', 'Imidacloprid/Moxidectin');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Phenylpyrazole' WHERE "generic_name" IN ('Fipronil');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Anthelmintic' WHERE "generic_name" IN ('Pyrantel Pamoate');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Anticholinergic' WHERE "generic_name" IN ('Atropine');--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "drug_class" = 'Sympathomimetic' WHERE "generic_name" IN ('Epinephrine');--> statement-breakpoint
+INSERT INTO "vetmed_contraindications" ("medication_name", "drug_class", "allergy_term", "condition", "species", "severity", "reason") VALUES
+	(NULL, 'Cephalosporin', 'penicillin', NULL, NULL, 'CAUTION', 'Some penicillin-allergic animals also react to cephalosporins'),
+	(NULL, 'Penicillin', 'cephalosporin', NULL, NULL, 'CAUTION', 'Some cephalosporin-allergic animals also react to penicillins'),
+	(NULL, 'NSAID', NULL, 'kidney', NULL, 'SEVERE', 'NSAIDs reduce blood flow to the kidneys and can worsen kidney disease'),
+	(NULL, 'NSAID', NULL, 'renal', NULL, 'SEVERE', 'NSAIDs reduce blood flow to the kidneys and can worsen kidney disease'),
+	(NULL, 'NSAID', NULL, 'liver', NULL, 'SEVERE', 'NSAIDs can cause liver injury in animals with liver disease'),
+	(NULL, 'NSAID', NULL, 'ulcer', NULL, 'SEVERE', 'NSAIDs can worsen or perforate stomach and intestinal ulcers'),
+	(NULL, 'NSAID', NULL, 'bleeding', NULL, 'CAUTION', 'NSAIDs affect platelet function and can prolong bleeding'),
+	(NULL, 'NSAID', NULL, NULL, 'cat', 'CAUTION', 'Cats clear NSAIDs slowly; repeated dosing has caused kidney injury'),
+	(NULL, 'Corticosteroid', NULL, 'diabetes', NULL, 'CAUTION', 'Steroids raise blood glucose and can destabilise diabetes'),
+	(NULL, 'Corticosteroid', NULL, 'ulcer', NULL, 'CAUTION', 'Steroids can delay healing of stomach and intestinal ulcers'),
+	(NULL, 'Corticosteroid', NULL, 'cushing', NULL, 'SEVERE', 'Steroids add to the excess cortisol of Cushing''s disease'),
+	(NULL, 'Fluoroquinolone', NULL, 'seizure', NULL, 'CAUTION', 'Fluoroquinolones can lower the seizure threshold'),
+	(NULL, 'Fluoroquinolone', NULL, 'epilep', NULL, 'CAUTION', 'Fluoroquinolones can lower the seizure threshold'),
+	('Enrofloxacin', NULL, NULL, NULL, 'cat', 'CAUTION', 'High doses have caused blindness (retinal degeneration) in cats'),
+	('Metronidazole', NULL, NULL, 'liver', NULL, 'CAUTION', 'Metronidazole is cleared by the liver; reduced doses may be needed'),
+	('Acepromazine', NULL, NULL, 'seizure', NULL, 'CAUTION', 'Acepromazine may lower the seizure threshold'),
+	('Acepromazine', NULL, NULL, 'mdr1', NULL, 'CAUTION', 'Animals with the MDR1 mutation are more sensitive to acepromazine'),
+	(NULL, 'Macrocyclic lactone', NULL, 'mdr1', NULL, 'SEVERE', 'Animals with the MDR1 mutation can develop severe neurological toxicity'),
+	('Tramadol', NULL, NULL, 'seizure', NULL, 'CAUTION', 'Tramadol can lower the seizure threshold'),
+	(NULL, 'Opioid', NULL, 'head trauma', NULL, 'CAUTION', 'Opioids can raise intracranial pressure after head trauma'),
+	('Atropine', NULL, NULL, 'glaucoma', NULL, 'SEVERE', 'Atropine raises eye pressure and can trigger acute glaucoma'),
+	(NULL, 'Antihistamine', NULL, 'glaucoma', NULL, 'CAUTION', 'Antihistamines with anticholinergic effects can raise eye pressure'),
+	('Phenobarbital', NULL, NULL, 'liver', NULL, 'CAUTION', 'Phenobarbital can cause liver injury; monitor liver values'),
+	('Potassium Bromide', NULL, NULL, 'kidney', NULL, 'CAUTION', 'Bromide is cleared by the kidneys and can accumulate'),
+	('Enalapril', NULL, NULL, 'kidney', NULL, 'CAUTION', 'ACE inhibitors can reduce kidney filtration; monitor kidney values'),
+	('Furosemide', NULL, NULL, 'dehydrat', NULL, 'SEVERE', 'Diuretics worsen dehydration'),
+	('Levothyroxine', NULL, NULL, 'heart', NULL, 'CAUTION', 'Thyroid supplementation increases the heart''s workload'),
+	('Methimazole', NULL, NULL, 'liver', NULL, 'CAUTION', 'Methimazole can cause liver injury'),
+	('Cyclosporine', NULL, NULL, 'cancer', NULL, 'CAUTION', 'Immunosuppression may allow some cancers to progress'),
+	('Pimobendan', NULL, NULL, 'aortic stenosis', NULL, 'SEVERE', 'Pimobendan is contraindicated where increasing heart output is unsafe'),
+	('Pimobendan', NULL, NULL, 'hypertrophic', NULL, 'CAUTION', 'Pimobendan can worsen outflow obstruction in hypertrophic cardiomyopathy');
@@ -0,0 +1,28 @@
+CREATE TYPE "public"."vetmed_interaction_severity" AS ENUM('MINOR', 'MODERATE', 'MAJOR');--> statement-breakpoint
+CREATE TABLE "vetmed_drug_interactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"medication_name_a" text,
+	"drug_class_a" text,
+	"medication_name_b" text,
+	"drug_class_b" text,
+	"severity" "vetmed_interaction_severity" NOT NULL,
+	"description" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);--> statement-breakpoint
+INSERT INTO "vetmed_drug_interactions" ("medication_name_a", "drug_class_a", "medication_name_b", "drug_class_b", "severity", "description") VALUES
+	(NULL, 'NSAID', NULL, 'Corticosteroid', 'MAJOR', 'NSAIDs and steroids together greatly increase the risk of stomach and intestinal ulcers. Allow a washout period when switching between them.'),
+	(NULL, 'NSAID', NULL, 'NSAID', 'MAJOR', 'Two NSAIDs together increase the risk of ulcers and kidney injury. Allow a washout period when switching between them.'),
+	(NULL, 'NSAID', NULL, 'ACE inhibitor', 'MODERATE', 'NSAIDs can blunt ACE inhibitors and together they can reduce kidney function. Monitor kidney values.'),
+	(NULL, 'NSAID', NULL, 'Loop diuretic', 'MODERATE', 'NSAIDs reduce the effect of furosemide and add to the risk of kidney injury.'),
+	(NULL, 'Corticosteroid', NULL, 'Corticosteroid', 'MODERATE', 'Two steroids together add to side effects without added benefit unless one is topical.'),
+	(NULL, 'Corticosteroid', NULL, 'Insulin', 'MODERATE', 'Steroids raise blood glucose; insulin needs may change. Monitor glucose closely.'),
+	(NULL, 'Corticosteroid', 'Cyclosporine', NULL, 'MODERATE', 'Combined immunosuppression increases the risk of infection.'),
+	('Tramadol', NULL, 'Trazodone', NULL, 'MODERATE', 'Both increase serotonin; watch for agitation, tremors or fever (serotonin syndrome).'),
+	(NULL, 'Opioid', NULL, 'Benzodiazepine', 'MODERATE', 'Additive sedation and slowed breathing.'),
+	(NULL, 'Opioid', 'Acepromazine', NULL, 'MINOR', 'Additive sedation; doses are often reduced when combined.'),
+	('Phenobarbital', NULL, NULL, 'Benzodiazepine', 'MODERATE', 'Additive sedation.'),
+	('Sucralfate', NULL, NULL, 'Fluoroquinolone', 'MODERATE', 'Sucralfate blocks absorption of fluoroquinolones. Give the antibiotic at least 2 hours before sucralfate.'),
+	('Sucralfate', NULL, 'Levothyroxine', NULL, 'MINOR', 'Sucralfate can reduce levothyroxine absorption. Separate doses by 2 hours.'),
+	('Metronidazole', NULL, 'Phenobarbital', NULL, 'MINOR', 'Phenobarbital speeds up metronidazole clearance, which may reduce its effect.'),
+	('Furosemide', NULL, NULL, 'ACE inhibitor', 'MINOR', 'Blood pressure can drop when starting both; monitor for weakness.'),
+	('Potassium Bromide', NULL, 'Furosemide', NULL, 'MINOR', 'Loop diuretics increase bromide loss and can lower bromide levels.');
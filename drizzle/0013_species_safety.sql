@@ -0,0 +1,23 @@
+ALTER TABLE "vetmed_medication_catalog" ADD COLUMN "species_safety" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "vetmed_regimens" ADD COLUMN "species_override_reason" text;--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CONTRAINDICATED", "note": "Not approved for cats; they clear carprofen slowly and repeated doses have caused kidney and liver injury"}}'::jsonb WHERE "generic_name" = 'Carprofen';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CAUTION", "note": "Only low or single doses in cats; repeated dosing has caused kidney injury"}}'::jsonb WHERE "generic_name" = 'Meloxicam';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CONTRAINDICATED", "note": "Permethrin is highly toxic to cats and causes tremors, seizures and death, even from contact with a treated dog"}}'::jsonb WHERE "generic_name" = 'Imidacloprid/Permethrin';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CAUTION", "note": "Doses above 5 mg/kg/day have caused retinal degeneration and blindness in cats"}}'::jsonb WHERE "generic_name" = 'Enrofloxacin';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CAUTION", "note": "Cats convert prednisone to its active form poorly; prednisolone is preferred"}}'::jsonb WHERE "generic_name" = 'Prednisone';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "CAUTION", "note": "Can cause severe, sometimes fatal, lung disease in cats"}}'::jsonb WHERE "generic_name" = 'Potassium Bromide';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "ALLOWED"}, "rabbit": {"level": "CONTRAINDICATED", "note": "Fipronil has caused seizures and deaths in rabbits"}}'::jsonb WHERE "generic_name" = 'Fipronil';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "CAUTION", "note": "Breeds with the MDR1 mutation can be poisoned above heartworm-prevention doses"}}'::jsonb WHERE "generic_name" = 'Ivermectin';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "ALLOWED"}, "rabbit": {"level": "CONTRAINDICATED", "note": "Oral penicillins disrupt rabbit gut flora and cause fatal enteritis"}}'::jsonb WHERE "generic_name" = 'Amoxicillin';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"dog": {"level": "ALLOWED"}, "cat": {"level": "ALLOWED"}, "rabbit": {"level": "CONTRAINDICATED", "note": "Oral clindamycin causes fatal enterotoxaemia in rabbits"}}'::jsonb WHERE "generic_name" = 'Clindamycin';
+--> statement-breakpoint
+UPDATE "vetmed_medication_catalog" SET "species_safety" = '{"cat": {"level": "ALLOWED"}}'::jsonb WHERE "generic_name" = 'Methimazole';
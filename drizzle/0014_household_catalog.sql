@@ -0,0 +1,24 @@
+CREATE TYPE "public"."vetmed_catalog_promotion_status" AS ENUM('PENDING', 'APPROVED', 'REJECTED');--> statement-breakpoint
+CREATE TABLE "vetmed_catalog_promotions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"medication_id" uuid NOT NULL,
+	"household_id" uuid NOT NULL,
+	"proposed_by" uuid NOT NULL,
+	"note" text,
+	"status" "vetmed_catalog_promotion_status" DEFAULT 'PENDING' NOT NULL,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp with time zone,
+	"review_note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_medication_catalog" ADD COLUMN "household_id" uuid;--> statement-breakpoint
+ALTER TABLE "vetmed_medication_catalog" ADD COLUMN "created_by" uuid;--> statement-breakpoint
+ALTER TABLE "vetmed_catalog_promotions" ADD CONSTRAINT "vetmed_catalog_promotions_medication_id_vetmed_medication_catalog_id_fk" FOREIGN KEY ("medication_id") REFERENCES "public"."vetmed_medication_catalog"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_catalog_promotions" ADD CONSTRAINT "vetmed_catalog_promotions_household_id_vetmed_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."vetmed_households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_catalog_promotions" ADD CONSTRAINT "vetmed_catalog_promotions_proposed_by_vetmed_users_id_fk" FOREIGN KEY ("proposed_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_catalog_promotions" ADD CONSTRAINT "vetmed_catalog_promotions_reviewed_by_vetmed_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "catalog_promotion_status_idx" ON "vetmed_catalog_promotions" USING btree ("status" enum_ops);--> statement-breakpoint
+ALTER TABLE "vetmed_medication_catalog" ADD CONSTRAINT "vetmed_medication_catalog_household_id_vetmed_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."vetmed_households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_medication_catalog" ADD CONSTRAINT "vetmed_medication_catalog_created_by_vetmed_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."vetmed_users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "med_catalog_household_id_idx" ON "vetmed_medication_catalog" USING btree ("household_id" uuid_ops);
\ No newline at end of file
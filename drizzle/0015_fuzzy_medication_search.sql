@@ -0,0 +1,49 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE TABLE "vetmed_medication_synonyms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"term" text NOT NULL,
+	"generic_name" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vetmed_medication_synonyms_term_generic_name_unique" UNIQUE("term","generic_name")
+);
+--> statement-breakpoint
+CREATE INDEX "med_synonym_term_idx" ON "vetmed_medication_synonyms" USING btree ("term" text_ops);--> statement-breakpoint
+CREATE INDEX "med_catalog_generic_name_trgm_idx" ON "vetmed_medication_catalog" USING gin ("generic_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX "med_catalog_brand_name_trgm_idx" ON "vetmed_medication_catalog" USING gin ("brand_name" gin_trgm_ops);--> statement-breakpoint
+INSERT INTO "vetmed_medication_synonyms" ("term", "generic_name") VALUES
+	('pred', 'Prednisone'),
+	('pred', 'Prednisolone'),
+	('amox', 'Amoxicillin'),
+	('clavamox', 'Amoxicillin'),
+	('gaba', 'Gabapentin'),
+	('neurontin', 'Gabapentin'),
+	('metro', 'Metronidazole'),
+	('pheno', 'Phenobarbital'),
+	('pb', 'Phenobarbital'),
+	('kbr', 'Potassium Bromide'),
+	('levo', 'Levetiracetam'),
+	('levo', 'Levothyroxine'),
+	('t4', 'Levothyroxine'),
+	('thyro-tabs', 'Levothyroxine'),
+	('dex', 'Dexamethasone'),
+	('dexa', 'Dexamethasone'),
+	('bup', 'Buprenorphine'),
+	('bupe', 'Buprenorphine'),
+	('simbadol', 'Buprenorphine'),
+	('ace', 'Acepromazine'),
+	('epi', 'Epinephrine'),
+	('adrenaline', 'Epinephrine'),
+	('methi', 'Methimazole'),
+	('felimazole', 'Methimazole'),
+	('pimo', 'Pimobendan'),
+	('enro', 'Enrofloxacin'),
+	('clinda', 'Clindamycin'),
+	('cyclo', 'Cyclosporine'),
+	('novox', 'Carprofen'),
+	('vetprofen', 'Carprofen'),
+	('loxicom', 'Meloxicam'),
+	('salix', 'Furosemide'),
+	('dasuquin', 'Glucosamine/Chondroitin'),
+	('ivomec', 'Ivermectin'),
+	('strongid', 'Pyrantel Pamoate'),
+	('vetsulin', 'Insulin NPH');
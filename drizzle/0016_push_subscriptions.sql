@@ -0,0 +1,14 @@
+CREATE TABLE "vetmed_push_subscriptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"endpoint" text NOT NULL,
+	"p256dh" text NOT NULL,
+	"auth" text NOT NULL,
+	"user_agent" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_sent_at" timestamp with time zone,
+	CONSTRAINT "vetmed_push_subscriptions_endpoint_unique" UNIQUE("endpoint")
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_push_subscriptions" ADD CONSTRAINT "vetmed_push_subscriptions_user_id_vetmed_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."vetmed_users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "push_subscription_user_id_idx" ON "vetmed_push_subscriptions" USING btree ("user_id" uuid_ops);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "vetmed_notification_queue" ADD COLUMN "next_attempt_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "vetmed_notification_queue" ADD COLUMN "delivered_via" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE INDEX "notification_next_attempt_at_idx" ON "vetmed_notification_queue" USING btree ("next_attempt_at" timestamptz_ops);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "vetmed_notification_queue" ADD COLUMN "dedupe_key" text;--> statement-breakpoint
+ALTER TABLE "vetmed_notification_queue" ADD COLUMN "cancelled_at" timestamp with time zone;--> statement-breakpoint
+CREATE UNIQUE INDEX "notification_dedupe_key_idx" ON "vetmed_notification_queue" USING btree ("dedupe_key" text_ops) WHERE "vetmed_notification_queue"."cancelled_at" IS NULL;
\ No newline at end of file
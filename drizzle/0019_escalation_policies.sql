@@ -0,0 +1,16 @@
+CREATE TYPE "public"."vetmed_escalation_target" AS ENUM('OWNERS', 'LEAD');--> statement-breakpoint
+CREATE TABLE "vetmed_escalation_policies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"household_id" uuid NOT NULL,
+	"attempt_offsets" integer[] DEFAULT '{-15,0,15,45,90}' NOT NULL,
+	"escalate_after_minutes" integer DEFAULT 45 NOT NULL,
+	"escalation_target" "vetmed_escalation_target" DEFAULT 'OWNERS' NOT NULL,
+	"lead_user_id" uuid,
+	"updated_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vetmed_escalation_policies_household_id_unique" UNIQUE("household_id")
+);
+--> statement-breakpoint
+ALTER TABLE "vetmed_escalation_policies" ADD CONSTRAINT "vetmed_escalation_policies_household_id_vetmed_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."vetmed_households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "vetmed_escalation_policies" ADD CONSTRAINT "vetmed_escalation_policies_lead_user_id_vetmed_users_id_fk" FOREIGN KEY ("lead_user_id") REFERENCES "public"."vetmed_users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
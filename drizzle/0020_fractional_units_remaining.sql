@@ -0,0 +1 @@
+ALTER TABLE "vetmed_inventory_items" ALTER COLUMN "units_remaining" SET DATA TYPE numeric(10, 2);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "vetmed_administrations" ADD COLUMN "units_deducted" numeric(10, 2);
\ No newline at end of file
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { trpc } from "@/server/trpc/client";
+
+const STREAM_URL = "/api/notifications/stream";
+const SNOOZE_MS = 60 * 60 * 1000;
+
+// One stream per tab, however many components show the count
+let source: EventSource | null = null;
+const listeners = new Set<(count: number) => void>();
+
+function subscribe(listener: (count: number) => void) {
+	listeners.add(listener);
+	if (!source && typeof EventSource !== "undefined") {
+		source = new EventSource(STREAM_URL);
+		source.addEventListener("unread", (event) => {
+			const { count } = JSON.parse((event as MessageEvent<string>).data) as {
+				count: number;
+			};
+			for (const notify of listeners) notify(count);
+		});
+	}
+
+	return () => {
+		listeners.delete(listener);
+		if (listeners.size === 0) {
+			source?.close();
+			source = null;
+		}
+	};
+}
+
+/**
+ * The signed-in user's unread count, kept current by the server's
+ * notification stream rather than polling
+ */
+export function useUnreadNotificationCount() {
+	const utils = trpc.useUtils();
+	const { data } = trpc.notifications.unreadCount.useQuery(undefined, {
+		staleTime: Number.POSITIVE_INFINITY,
+	});
+
+	useEffect(
+		() =>
+			subscribe((count) => {
+				const previous = utils.notifications.unreadCount.getData()?.count;
+				utils.notifications.unreadCount.setData(undefined, { count });
+				if (previous !== count) void utils.notifications.list.invalidate();
+			}),
+		[utils],
+	);
+
+	return data?.count ?? 0;
+}
+
+/**
+ * Notification center contents, loaded a page at a time while open, and the
+ * actions on them
+ */
+export function useNotificationCenter({ enabled }: { enabled: boolean }) {
+	const utils = trpc.useUtils();
+	const unreadCount = useUnreadNotificationCount();
+	const list = trpc.notifications.list.useInfiniteQuery(
+		{ limit: 20 },
+		{ enabled, getNextPageParam: (page) => page.nextCursor },
+	);
+
+	const refresh = () =>
+		Promise.all([
+			utils.notifications.list.invalidate(),
+			utils.notifications.unreadCount.invalidate(),
+		]);
+	const onError = (error: { message: string }) =>
+		toast.error(error.message || "Failed to update notification");
+
+	const markRead = trpc.notifications.markRead.useMutation({
+		onSuccess: refresh,
+		onError,
+	});
+	const markAllRead = trpc.notifications.markAllRead.useMutation({
+		onSuccess: refresh,
+		onError,
+	});
+	const dismiss = trpc.notifications.dismiss.useMutation({
+		onSuccess: refresh,
+		onError,
+	});
+	const snooze = trpc.notifications.snooze.useMutation({
+		onSuccess: () => {
+			toast.success("Snoozed for an hour");
+			return refresh();
+		},
+		onError,
+	});
+
+	return {
+		notifications: list.data?.pages.flatMap((page) => page.items) ?? [],
+		isLoading: list.isLoading,
+		hasMore: list.hasNextPage,
+		loadMore: () => list.fetchNextPage(),
+		isLoadingMore: list.isFetchingNextPage,
+		unreadCount,
+		markRead: (id: string) => markRead.mutate({ id }),
+		markAllRead: () => markAllRead.mutate(),
+		dismiss: (id: string) => dismiss.mutate({ id }),
+		snooze: (id: string) =>
+			snooze.mutate({
+				id,
+				until: new Date(Date.now() + SNOOZE_MS).toISOString(),
+			}),
+	};
+}
+
+export type NotificationItem = ReturnType<
+	typeof useNotificationCenter
+>["notifications"][number];
@@ -0,0 +1,42 @@
+export interface ExportRequest {
+	householdId: string;
+	format: "csv" | "json";
+	dataset?: "administrations" | "regimens" | "inventory";
+	animalId?: string;
+	from?: Date;
+	to?: Date;
+}
+
+/**
+ * Fetch an export from the streaming route and save it as a file. Throws with
+ * the server's message when the export is refused (e.g. rate limited).
+ */
+export async function downloadExport(request: ExportRequest) {
+	const params = new URLSearchParams({
+		householdId: request.householdId,
+		format: request.format,
+	});
+	if (request.dataset) params.set("dataset", request.dataset);
+	if (request.animalId) params.set("animalId", request.animalId);
+	if (request.from) params.set("from", request.from.toISOString());
+	if (request.to) params.set("to", request.to.toISOString());
+
+	const response = await fetch(`/api/reports/export?${params}`);
+	if (!response.ok) {
+		const body = await response.json().catch(() => null);
+		throw new Error(body?.error ?? "Export failed");
+	}
+
+	const disposition = response.headers.get("Content-Disposition") ?? "";
+	const filename =
+		/filename="([^"]+)"/.exec(disposition)?.[1] ??
+		`vetmed-export.${request.format}`;
+
+	const blob = await response.blob();
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement("a");
+	a.href = url;
+	a.download = filename;
+	a.click();
+	URL.revokeObjectURL(url);
+}
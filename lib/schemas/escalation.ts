@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+const DAY_MINUTES = 24 * 60;
+
+// Used until a household saves its own policy
+export const DEFAULT_ESCALATION_POLICY = {
+	attemptOffsets: [-15, 0, 15, 45, 90],
+	escalateAfterMinutes: 45,
+	escalationTarget: "OWNERS",
+	leadUserId: null,
+} as const;
+
+export const escalationPolicySchema = z
+	.object({
+		// Minutes relative to the due time; negative is before
+		attemptOffsets: z
+			.array(z.number().int().min(-DAY_MINUTES).max(DAY_MINUTES))
+			.max(10, "Use at most 10 reminder attempts")
+			.transform((offsets) => [...new Set(offsets)].sort((a, b) => a - b)),
+		escalateAfterMinutes: z.number().int().min(1).max(DAY_MINUTES),
+		escalationTarget: z.enum(["OWNERS", "LEAD"]),
+		leadUserId: z.string().uuid().nullable(),
+	})
+	.refine((policy) => policy.escalationTarget !== "LEAD" || policy.leadUserId, {
+		message: "Choose a lead caregiver",
+		path: ["leadUserId"],
+	});
+
+export type EscalationPolicyInput = z.input<typeof escalationPolicySchema>;
@@ -1,5 +1,12 @@
 import { z } from "zod";
 
+// Matches the numeric(10, 2) units_remaining column: measured forms such as
+// liquids leave fractional amounts after a dose
+export const unitsRemainingSchema = z
+	.number()
+	.min(0, "Units remaining cannot be negative")
+	.multipleOf(0.01, "Units remaining can have at most two decimal places");
+
 // Define the inventory item schema for form validation
 export const inventoryFormSchema = z
 	.object({
@@ -14,10 +21,7 @@ export const inventoryFormSchema = z
 			.number()
 			.int("Quantity must be a whole number")
 			.positive("Quantity must be positive"),
-		unitsRemaining: z
-			.number()
-			.int("Units remaining must be a whole number")
-			.min(0, "Units remaining cannot be negative"),
+		unitsRemaining: unitsRemainingSchema,
 		lot: z.string().optional(),
 		expiresOn: z.date().min(new Date(), "Expiry date must be in the future"),
 		storage: z.enum(["ROOM", "FRIDGE", "FREEZER", "CONTROLLED"]),
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Single step of a TAPER regimen, applied for durationDays consecutive local days
+export const taperStepSchema = z.object({
+	dose: z.string().min(1, "Dose is required"),
+	timesLocal: z
+		.array(z.string().regex(/^\d{2}:\d{2}$/))
+		.min(1, "At least one time per day is required"),
+	durationDays: z.number().int().positive(),
+});
+
+export const taperStepsSchema = z
+	.array(taperStepSchema)
+	.min(1, "Taper requires at least one step");
+
+export type TaperStepInput = z.infer<typeof taperStepSchema>;
@@ -1,4 +1,6 @@
 // Centralized type definitions
+import type { DrugInteraction } from "@/utils/interactions";
+
 export interface Animal {
 	id: string;
 	name: string;
@@ -54,9 +56,21 @@ export interface EmergencyRegimen {
 	timesLocal: string[] | null;
 	prnReason: string | null;
 	route: string | null;
+	dose?: string | null;
+	intervalHours?: number | null;
+	highRisk?: boolean;
 	medication?: Medication;
 }
 
+// Household owner as listed on the emergency card
+export interface EmergencyContact {
+	name: string | null;
+	email: string;
+	phone: string | null;
+	emergencyContactName: string | null;
+	emergencyContactPhone: string | null;
+}
+
 // Report specific types
 export interface ComplianceData {
 	adherencePct: number;
@@ -90,6 +104,7 @@ export interface ReportData {
 	animal: ReportAnimal;
 	compliance: ComplianceData;
 	regimens: RegimenSummary[];
+	interactions: DrugInteraction[];
 	notableEvents: NotableEvent[];
 }
 
@@ -0,0 +1,29 @@
+import type { CatalogImportReport } from "@/server/utils/catalog-import";
+
+export interface CatalogImportResponse {
+	committed: boolean;
+	report: CatalogImportReport;
+	created?: number;
+	updated?: number;
+}
+
+/**
+ * Upload a formulary CSV to the import route. Without `commit` the server only
+ * returns the dry-run report. Throws with the server's message when the
+ * import is refused.
+ */
+export async function uploadCatalogImport(
+	file: File,
+	commit: boolean,
+): Promise<CatalogImportResponse> {
+	const body = new FormData();
+	body.set("file", file);
+	body.set("commit", String(commit));
+
+	const response = await fetch("/api/catalog/import", { method: "POST", body });
+	const result = await response.json().catch(() => null);
+	if (!response.ok) {
+		throw new Error(result?.error ?? "Import failed");
+	}
+	return result;
+}
@@ -0,0 +1,11 @@
+#!/usr/bin/env tsx
+
+import { generateVapidKeys } from "@/server/utils/web-push";
+
+// Prints a fresh VAPID key pair for .env.local. Rotating the keys invalidates
+// every existing browser subscription, so generate them once per environment.
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log("VAPID_SUBJECT=mailto:you@example.com");
@@ -0,0 +1,101 @@
+#!/usr/bin/env tsx
+
+import { readFile } from "node:fs/promises";
+import { Pool } from "@neondatabase/serverless";
+import { loadEnvConfig } from "@next/env";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import * as schema from "@/db/schema";
+import {
+	applyCatalogImport,
+	type CatalogImportReport,
+	getCatalogKey,
+	planCatalogImport,
+} from "@/server/utils/catalog-import";
+
+// Load environment variables using Next.js env loader
+const projectDir = process.cwd();
+loadEnvConfig(projectDir);
+
+// Use unpooled connection for the import transaction, over a WebSocket
+// since the HTTP driver has no transactions
+if (!process.env.DATABASE_URL_UNPOOLED) {
+	throw new Error("DATABASE_URL_UNPOOLED environment variable is not set");
+}
+const pool = new Pool({ connectionString: process.env.DATABASE_URL_UNPOOLED });
+const db = drizzle(pool, { schema });
+
+const USAGE = `Usage: pnpm db:import:catalog <file.csv> [--commit]
+
+Columns: generic_name, route and form are required; brand_name, strength,
+controlled_substance, drug_class, common_dosing and warnings are optional.
+Without --commit the import is a dry run that only prints what would change.`;
+
+/**
+ * Print the dry-run diff
+ */
+function printReport(report: CatalogImportReport): void {
+	console.log("\n📋 Import plan:");
+
+	for (const row of report.create) {
+		console.log(`  + line ${row.line}: ${getCatalogKey(row.medication)}`);
+	}
+	for (const update of report.update) {
+		console.log(`  ~ line ${update.line}: ${getCatalogKey(update.medication)}`);
+		for (const [field, change] of Object.entries(update.changes)) {
+			console.log(
+				`      ${field}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`,
+			);
+		}
+	}
+	for (const error of report.errors) {
+		console.log(`  ✗ line ${error.line}: ${error.message}`);
+	}
+	if (report.ignoredColumns.length > 0) {
+		console.log(`\n⚠️  Ignored columns: ${report.ignoredColumns.join(", ")}`);
+	}
+
+	console.log("\n📊 Summary:");
+	console.log(`✨ New medications: ${report.create.length}`);
+	console.log(`🔄 Updated medications: ${report.update.length}`);
+	console.log(`⏭️  Unchanged: ${report.unchanged.length}`);
+	console.log(`❌ Rows with errors: ${report.errors.length}`);
+}
+
+async function importCatalog(args: string[]) {
+	const file = args.find((arg) => !arg.startsWith("--"));
+	if (!file) {
+		console.error(USAGE);
+		process.exit(1);
+	}
+	const commit = args.includes("--commit");
+
+	console.log(`📥 Reading ${file}...`);
+	const report = await planCatalogImport(db, await readFile(file, "utf8"));
+	printReport(report);
+
+	if (!commit) {
+		console.log("\n💡 Dry run only. Re-run with --commit to apply.");
+		return;
+	}
+	if (report.errors.length > 0) {
+		throw new Error("Fix the rows with errors before committing the import");
+	}
+
+	const { created, updated } = await applyCatalogImport(db, report);
+	console.log(
+		`\n🎉 Imported ${created} new and ${updated} updated medications`,
+	);
+}
+
+// Run the import
+if (require.main === module) {
+	importCatalog(process.argv.slice(2))
+		.finally(() => pool.end())
+		.then(() => process.exit(0))
+		.catch((error) => {
+			console.error("💥 Import failed:", error);
+			process.exit(1);
+		});
+}
+
+export { importCatalog };
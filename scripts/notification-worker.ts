@@ -0,0 +1,67 @@
+#!/usr/bin/env tsx
+
+import { neon } from "@neondatabase/serverless";
+import { loadEnvConfig } from "@next/env";
+import { drizzle } from "drizzle-orm/neon-http";
+import * as schema from "@/db/schema";
+import { dispatchNotifications } from "@/server/jobs/dispatch-notifications";
+
+// Load environment variables using Next.js env loader
+const projectDir = process.cwd();
+loadEnvConfig(projectDir);
+
+if (!process.env.DATABASE_URL_UNPOOLED) {
+	throw new Error("DATABASE_URL_UNPOOLED environment variable is not set");
+}
+const sql = neon(process.env.DATABASE_URL_UNPOOLED);
+const db = drizzle(sql, { schema });
+
+// Poll interval when the queue is idle; full batches are followed immediately
+const IDLE_INTERVAL_MS = Number(process.env.NOTIFICATION_POLL_MS) || 15_000;
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.on(signal, () => {
+		console.log(`\n🛑 ${signal} received, finishing the current batch...`);
+		stopping = true;
+	});
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Long-running alternative to the cron route. Several workers (and the cron
+ * route) can run side by side: each batch is claimed with SKIP LOCKED.
+ */
+async function runWorker() {
+	console.log(
+		`📬 Notification worker started (idle poll ${IDLE_INTERVAL_MS}ms)`,
+	);
+
+	while (!stopping) {
+		try {
+			const result = await dispatchNotifications(db);
+			if (result.claimed > 0) {
+				console.log(
+					`✉️  Claimed ${result.claimed}: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`,
+				);
+				continue;
+			}
+		} catch (error) {
+			console.error("💥 Dispatch failed:", error);
+		}
+		await sleep(IDLE_INTERVAL_MS);
+	}
+}
+
+if (require.main === module) {
+	runWorker()
+		.then(() => {
+			console.log("🏁 Notification worker stopped");
+			process.exit(0);
+		})
+		.catch((error) => {
+			console.error("💥 Fatal error:", error);
+			process.exit(1);
+		});
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+
+import { neon } from "@neondatabase/serverless";
+import { loadEnvConfig } from "@next/env";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/neon-http";
+import * as schema from "@/db/schema";
+import { sendPushToUser } from "@/server/utils/web-push";
+
+// Load environment variables using Next.js env loader
+const projectDir = process.cwd();
+loadEnvConfig(projectDir);
+
+if (!process.env.DATABASE_URL_UNPOOLED) {
+	throw new Error("DATABASE_URL_UNPOOLED environment variable is not set");
+}
+const sql = neon(process.env.DATABASE_URL_UNPOOLED);
+const db = drizzle(sql, { schema });
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+
+/**
+ * End-to-end check of Web Push against the dev server's stub push service:
+ * subscribe a stub device for a user, deliver and decrypt a message, then
+ * delete the device and confirm the expired subscription is pruned.
+ */
+async function testWebPush(email: string | undefined) {
+	if (!email) {
+		throw new Error("Usage: tsx scripts/test-web-push.ts <user email>");
+	}
+
+	const [user] = await db
+		.select({ id: schema.users.id })
+		.from(schema.users)
+		.where(eq(schema.users.email, email))
+		.limit(1);
+	if (!user) throw new Error(`No user with email ${email}`);
+
+	console.log(`📱 Registering a stub device with ${APP_URL}...`);
+	const response = await fetch(`${APP_URL}/api/push/stub`, { method: "POST" });
+	if (!response.ok) {
+		throw new Error(`Stub push service unavailable (${response.status})`);
+	}
+	const device: {
+		id: string;
+		subscription: { endpoint: string; keys: { p256dh: string; auth: string } };
+	} = await response.json();
+
+	await db.insert(schema.pushSubscriptions).values({
+		userId: user.id,
+		endpoint: device.subscription.endpoint,
+		...device.subscription.keys,
+		userAgent: "test-web-push script",
+	});
+
+	const delivered = await sendPushToUser(db, user.id, {
+		title: "Test reminder",
+		body: "Sent by scripts/test-web-push.ts",
+		tag: "test-web-push",
+	});
+	console.log("📤 Delivery:", delivered);
+
+	const inbox = await fetch(device.subscription.endpoint).then((r) => r.json());
+	console.log("📥 Stub device received:", JSON.stringify(inbox.messages));
+	if (inbox.messages.length !== 1) {
+		throw new Error("The stub device did not receive the message");
+	}
+
+	console.log("🗑️  Deleting the stub device to simulate an expired endpoint...");
+	await fetch(device.subscription.endpoint, { method: "DELETE" });
+	const expired = await sendPushToUser(db, user.id, {
+		title: "Test reminder",
+		body: "This one should be pruned",
+	});
+	console.log("📤 Delivery:", expired);
+	if (expired.pruned < 1) {
+		throw new Error("The expired subscription was not pruned");
+	}
+
+	console.log("✅ Web Push works end to end");
+}
+
+if (require.main === module) {
+	testWebPush(process.argv[2])
+		.then(() => process.exit(0))
+		.catch((error) => {
+			console.error("💥 Web Push test failed:", error);
+			process.exit(1);
+		});
+}
@@ -6,7 +6,10 @@ import type {
 	HouseholdSettings,
 	VetMedPreferences,
 } from "@/hooks/use-user-preferences";
-import { createAuditLog } from "@/server/utils/audit-log";
+import {
+	type AuditRequestMetadata,
+	createAuditLog,
+} from "@/server/utils/audit-log";
 
 export interface ClerkUserData {
 	userId: string;
@@ -307,6 +310,7 @@ export async function updateUserPreferences(
 	auditContext?: {
 		userId: string;
 		householdId: string;
+		metadata?: AuditRequestMetadata;
 	},
 ) {
 	try {
@@ -368,8 +372,8 @@ export async function updateUserPreferences(
 				userId: auditContext.userId,
 				householdId: auditContext.householdId,
 				action: "UPDATE",
-				tableName: "users",
-				recordId: clerkUserId,
+				resourceType: "user",
+				resourceId: auditContext.userId,
 				oldValues,
 				newValues: {
 					...updateData,
@@ -383,6 +387,7 @@ export async function updateUserPreferences(
 						household: !!preferences.householdSettings,
 					},
 				},
+				metadata: auditContext.metadata,
 			});
 		}
 
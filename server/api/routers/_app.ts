@@ -1,13 +1,18 @@
 import { createCallerFactory, createTRPCRouter } from "../trpc";
 import { adminRouter } from "./admin";
 import { animalRouter } from "./animals";
+import { auditRouter } from "./audit";
 import { householdRouter } from "./households";
 import { insightsRouter } from "./insights";
 import { inventoryRouter } from "./inventory";
 import { medicationRouter } from "./medication";
+import { notificationsRouter } from "./notifications";
+import { pushRouter } from "./push";
 import { regimenRouter } from "./regimens";
 import { reportsRouter } from "./reports";
+import { shareLinksRouter } from "./share-links";
 import { userRouter } from "./user";
+import { weightRouter } from "./weights";
 
 // Root router combining all sub-routers
 export const appRouter = createTRPCRouter({
@@ -20,6 +25,11 @@ export const appRouter = createTRPCRouter({
 	insights: insightsRouter,
 	reports: reportsRouter,
 	user: userRouter,
+	audit: auditRouter,
+	shareLinks: shareLinksRouter,
+	weight: weightRouter,
+	push: pushRouter,
+	notifications: notificationsRouter,
 });
 
 // Export type for use in client
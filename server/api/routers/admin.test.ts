@@ -1,4 +1,6 @@
 import { TRPCError } from "@trpc/server";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { mockDb, resetMockDb } from "@/tests/helpers/mock-db";
 import {
@@ -8,6 +10,8 @@ import {
 } from "@/tests/helpers/trpc-utils";
 import { adminRouter } from "./admin";
 
+const dialect = new PgDialect();
+
 describe("adminRouter", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
@@ -100,7 +104,11 @@ describe("adminRouter", () => {
 				idempotencyKey: "test-key-123",
 			});
 
-			expect(result).toEqual(mockAdministration);
+			expect(result).toEqual({
+				...mockAdministration,
+				inventoryUpdate: null,
+				warnings: [],
+			});
 			expect(mockDb.insert).toHaveBeenCalled();
 		});
 
@@ -210,11 +218,118 @@ describe("adminRouter", () => {
 			});
 
 			// Should return existing administration, not create new one
-			expect(result).toEqual(existingAdministration);
+			expect(result).toEqual({
+				...existingAdministration,
+				inventoryUpdate: null,
+				warnings: [],
+			});
 			expect(mockDb.insert).not.toHaveBeenCalled();
 		});
 	});
 
+	describe("undo", () => {
+		it("should return the units a dose drew back to its inventory item", async () => {
+			const itemId = "66666666-6666-4666-8666-666666666666";
+			const selectOnce = (rows: unknown[]) =>
+				mockDb.select.mockReturnValueOnce({
+					from: vi.fn().mockReturnThis(),
+					where: vi.fn().mockReturnThis(),
+					limit: vi.fn().mockReturnThis(),
+					orderBy: vi.fn().mockReturnThis(),
+					execute: vi.fn().mockResolvedValue(rows),
+				} as ReturnType<typeof mockDb.select>);
+
+			selectOnce([
+				{
+					id: "44444444-4444-4444-8444-444444444444",
+					householdId: mockSession.access.householdId,
+					timezone: "America/New_York",
+				},
+			]);
+			selectOnce([
+				{
+					id: "55555555-5555-4555-8555-555555555555",
+					animalId: "44444444-4444-4444-8444-444444444444",
+					active: true,
+					dose: "2 tablets",
+					scheduleType: "FIXED",
+					timesLocal: ["08:00", "20:00"],
+					cutoffMinutes: 240,
+				},
+			]);
+			selectOnce([
+				{
+					id: itemId,
+					householdId: mockSession.access.householdId,
+					unitsRemaining: 10,
+					unitType: "tablets",
+					expiresOn: null,
+				},
+			]);
+			selectOnce([]);
+
+			// Keep what create inserts so undo finds and deletes the same row
+			let recorded: Record<string, unknown> = {};
+			mockDb.insert.mockImplementation(() => {
+				const chain = {
+					values: (values: Record<string, unknown>) => {
+						recorded = {
+							...values,
+							id: "33333333-3333-4333-8333-333333333333",
+						};
+						return chain;
+					},
+					returning: () => Promise.resolve([recorded]),
+				};
+				return chain as unknown as ReturnType<typeof mockDb.insert>;
+			});
+			const set = vi.fn().mockReturnThis();
+			mockDb.update.mockImplementation(
+				() =>
+					({
+						set,
+						where: vi.fn().mockReturnThis(),
+						returning: vi.fn().mockResolvedValue([{ unitsRemaining: 8 }]),
+						execute: vi.fn().mockResolvedValue([]),
+					}) as ReturnType<typeof mockDb.update>,
+			);
+
+			const ctx = await createAuthenticatedContext(mockSession);
+			const caller = adminRouter.createCaller(ctx);
+
+			const created = await caller.create({
+				householdId: mockSession.access.householdId,
+				animalId: "44444444-4444-4444-8444-444444444444",
+				regimenId: "55555555-5555-4555-8555-555555555555",
+				administeredAt: new Date().toISOString(),
+				inventorySourceId: itemId,
+				idempotencyKey: "test-key-123",
+			});
+			expect(created.unitsDeducted).toBe(2);
+
+			selectOnce([recorded]);
+			mockDb.delete.mockImplementation(
+				() =>
+					({
+						where: vi.fn().mockReturnThis(),
+						returning: vi.fn().mockResolvedValue([recorded]),
+					}) as unknown as ReturnType<typeof mockDb.delete>,
+			);
+
+			await caller.undo({
+				householdId: mockSession.access.householdId,
+				recordId: created.id,
+			});
+
+			const restored = set.mock.calls
+				.map(([values]) => values.unitsRemaining as SQL | undefined)
+				.filter((value) => value !== undefined)
+				.map((value) => dialect.sqlToQuery(value));
+			expect(restored.at(-1)?.sql).toContain("+");
+			expect(restored.at(-1)?.params).toEqual([2]);
+		});
+	});
+
 	describe("list", () => {
 		it("should return administration history for an animal", async () => {
 			const mockHistory = [
@@ -1,5 +1,5 @@
 import { TRPCError } from "@trpc/server";
-import { and, eq, gte, isNull, lte } from "drizzle-orm";
+import { and, eq, gte, inArray, isNull, lte, sql } from "drizzle-orm";
 import { z } from "zod";
 import {
 	administrations,
@@ -12,10 +12,29 @@ import {
 	users,
 } from "@/db/schema";
 import {
+	assertAnimalAccess,
 	createTRPCRouter,
 	householdProcedure,
 } from "@/server/api/trpc/clerk-init";
-import { createAuditLog } from "@/server/utils/audit-log";
+import { invalidateAdherence } from "@/server/utils/adherence";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { getLastDoseTimes } from "@/server/utils/last-dose";
+import {
+	cancelDoseReminders,
+	getDoseNotificationSteps,
+} from "@/server/utils/reminders";
+import { getInventoryUnitsUsed } from "@/utils/dose";
+import {
+	computeIntervalDueTime,
+	getIntervalAnchor,
+	type IntervalMode,
+	resolveDailySchedule,
+	type TaperStep,
+} from "@/utils/schedule";
+import { localDayISO } from "@/utils/tz";
+
+type Database = typeof import("@/db/drizzle").db;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 // Input validation schema for recording administration
 const recordAdministrationSchema = z.object({
@@ -85,6 +104,11 @@ function calculateScheduledTimeAndStatus(
 	regimen: {
 		scheduleType: string;
 		timesLocal: string[] | null;
+		intervalHours: number | null;
+		intervalMode: IntervalMode;
+		taperSteps: TaperStep[] | null;
+		startDate: string;
+		dose: string | null;
 		cutoffMinutes: number;
 	},
 	animal: {
@@ -92,6 +116,7 @@ function calculateScheduledTimeAndStatus(
 	},
 	administeredAt: Date,
 	providedStatus?: string,
+	lastDoseAt: Date | null = null,
 ): {
 	status: (typeof adminStatusEnum.enumValues)[number];
 	scheduledFor: Date | null;
@@ -109,8 +134,37 @@ function calculateScheduledTimeAndStatus(
 		return { status: "PRN", scheduledFor: null };
 	}
 
-	// Fixed schedule regimens
-	if (regimen.scheduleType === "FIXED" && regimen.timesLocal) {
+	// Interval regimens are measured against the due time before this dose
+	if (regimen.scheduleType === "INTERVAL" && regimen.intervalHours) {
+		const scheduledFor = computeIntervalDueTime({
+			intervalHours: regimen.intervalHours,
+			mode: regimen.intervalMode,
+			anchor: getIntervalAnchor(regimen, animal.timezone),
+			lastDoseAt,
+			now: administeredAt,
+			cutoffMinutes: regimen.cutoffMinutes,
+		});
+		const diffMinutes = Math.round(
+			(administeredAt.getTime() - scheduledFor.getTime()) / (1000 * 60),
+		);
+
+		return {
+			status: calculateAdministrationStatus(
+				diffMinutes,
+				0,
+				regimen.cutoffMinutes,
+			),
+			scheduledFor,
+		};
+	}
+
+	// Fixed schedules, or the taper step active on the administration's local day
+	const schedule = resolveDailySchedule(
+		regimen,
+		localDayISO(administeredAt, animal.timezone),
+	);
+
+	if (schedule) {
 		const animalTimezone = animal.timezone;
 		const adminTimeLocal = new Date(
 			administeredAt.toLocaleString("en-US", { timeZone: animalTimezone }),
@@ -118,7 +172,7 @@ function calculateScheduledTimeAndStatus(
 		const adminMinutes =
 			adminTimeLocal.getHours() * 60 + adminTimeLocal.getMinutes();
 
-		const closest = findClosestScheduledTime(adminMinutes, regimen.timesLocal);
+		const closest = findClosestScheduledTime(adminMinutes, schedule.timesLocal);
 
 		if (!closest) {
 			return { status: "ON_TIME", scheduledFor: null };
@@ -218,19 +272,88 @@ async function verifyInventoryItem(
 		});
 	}
 
-	// Check if expired and override not allowed
-	if (
-		result[0].expiresOn &&
-		new Date(result[0].expiresOn) < new Date() &&
-		!allowOverride
-	) {
-		throw new TRPCError({
-			code: "BAD_REQUEST",
-			message: "Cannot use expired medication without override",
-		});
+	const warnings: string[] = [];
+
+	// Expired or empty stock is rejected unless the caregiver overrides
+	if (result[0].expiresOn && new Date(result[0].expiresOn) < new Date()) {
+		if (!allowOverride) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: "Cannot use expired medication without override",
+			});
+		}
+		warnings.push("Recorded using expired medication");
 	}
 
-	return result[0];
+	if (result[0].unitsRemaining !== null && result[0].unitsRemaining <= 0) {
+		if (!allowOverride) {
+			throw new TRPCError({
+				code: "BAD_REQUEST",
+				message: "Cannot use an empty inventory item without override",
+			});
+		}
+		warnings.push("Recorded against an empty inventory item");
+	}
+
+	return { item: result[0], warnings };
+}
+
+// Helper function to decrement the inventory item a dose was drawn from
+async function decrementInventory(
+	tx: Transaction,
+	item: typeof inventoryItems.$inferSelect,
+	dose: string | null,
+) {
+	const warnings: string[] = [];
+
+	// Untracked items have no count to keep in sync
+	if (item.unitsRemaining === null) {
+		return { unitsUsed: 0, unitsDeducted: 0, unitsRemaining: null, warnings };
+	}
+
+	const parsedUnits = getInventoryUnitsUsed(dose, item.unitType);
+	const unitsUsed = parsedUnits ?? 1;
+	if (!parsedUnits) {
+		warnings.push(
+			`Could not convert dose "${dose ?? ""}" to ${item.unitType ?? "units"}; deducted 1 unit`,
+		);
+	}
+
+	const updated = await tx
+		.update(inventoryItems)
+		.set({
+			unitsRemaining: sql`GREATEST(${inventoryItems.unitsRemaining} - ${unitsUsed}, 0)`,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(inventoryItems.id, item.id))
+		.returning({ unitsRemaining: inventoryItems.unitsRemaining });
+
+	const unitsRemaining = updated[0]?.unitsRemaining ?? null;
+	if (unitsRemaining === 0) {
+		warnings.push("Inventory item is now empty");
+	}
+
+	// An emptied item gave up at most what it had left
+	const unitsDeducted =
+		unitsRemaining === 0 ? Math.min(unitsUsed, item.unitsRemaining) : unitsUsed;
+
+	return { unitsUsed, unitsDeducted, unitsRemaining, warnings };
+}
+
+// Helper function to put a removed dose's units back on its inventory item
+async function restoreInventory(
+	tx: Transaction,
+	record: typeof administrations.$inferSelect,
+) {
+	if (!record.sourceItemId || !record.unitsDeducted) return;
+
+	await tx
+		.update(inventoryItems)
+		.set({
+			unitsRemaining: sql`${inventoryItems.unitsRemaining} + ${record.unitsDeducted}`,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(inventoryItems.id, record.sourceItemId));
 }
 
 // Helper function to check for duplicate
@@ -248,9 +371,9 @@ async function checkDuplicateAdministration(
 	return result[0] || null;
 }
 
-// Helper function to create administration record
-async function createAdministrationRecord(
-	db: typeof import("@/db/drizzle").db,
+// Helper function to build the administration record to insert
+async function buildAdministrationRecord(
+	db: Database,
 	userId: string,
 	input: z.infer<typeof recordAdministrationSchema>,
 	animal: {
@@ -260,25 +383,44 @@ async function createAdministrationRecord(
 		dose: string | null;
 		scheduleType: string;
 		timesLocal: string[] | null;
+		intervalHours: number | null;
+		intervalMode: IntervalMode;
+		taperSteps: TaperStep[] | null;
+		startDate: string;
 		cutoffMinutes: number;
+		requiresCoSign: boolean;
 	},
-) {
+): Promise<NewAdministration> {
 	const administeredAt = input.administeredAt
 		? new Date(input.administeredAt)
 		: new Date();
 
+	// Interval status depends on the last dose recorded before this one
+	let lastDoseAt: Date | null = null;
+	if (regimen.scheduleType === "INTERVAL") {
+		const lastDoses = await getLastDoseTimes(
+			db,
+			[input.regimenId],
+			administeredAt,
+		);
+		lastDoseAt = lastDoses.get(input.regimenId) ?? null;
+	}
+
 	const { status, scheduledFor } = calculateScheduledTimeAndStatus(
-		{
-			scheduleType: regimen.scheduleType,
-			timesLocal: regimen.timesLocal,
-			cutoffMinutes: regimen.cutoffMinutes,
-		},
+		regimen,
 		animal,
 		administeredAt,
 		input.status,
+		lastDoseAt,
 	);
 
-	const newAdmin: NewAdministration = {
+	// Tapers default to the dose of the step active on the local day
+	const scheduledDose = resolveDailySchedule(
+		regimen,
+		localDayISO(administeredAt, animal.timezone),
+	)?.dose;
+
+	return {
 		regimenId: input.regimenId,
 		animalId: input.animalId,
 		householdId: input.householdId,
@@ -288,22 +430,13 @@ async function createAdministrationRecord(
 		status,
 		sourceItemId: input.inventorySourceId || null,
 		site: input.site || null,
-		dose: input.dose || regimen.dose || null,
+		dose: input.dose || scheduledDose || regimen.dose || null,
 		notes: input.notes || null,
+		// Stays pending in the household until admin.cosign completes
+		coSignRequired: regimen.requiresCoSign || input.requiresCoSign,
 		adverseEvent: false,
 		idempotencyKey: input.idempotencyKey,
 	};
-
-	const result = await db.insert(administrations).values(newAdmin).returning();
-
-	if (!result[0]) {
-		throw new TRPCError({
-			code: "INTERNAL_SERVER_ERROR",
-			message: "Failed to create administration record",
-		});
-	}
-
-	return result[0];
 }
 
 export const adminRouter = createTRPCRouter({
@@ -324,14 +457,14 @@ export const adminRouter = createTRPCRouter({
 				input.animalId,
 			);
 
-			if (input.inventorySourceId) {
-				await verifyInventoryItem(
-					ctx.db,
-					input.inventorySourceId,
-					input.householdId,
-					input.allowOverride,
-				);
-			}
+			const inventory = input.inventorySourceId
+				? await verifyInventoryItem(
+						ctx.db,
+						input.inventorySourceId,
+						input.householdId,
+						input.allowOverride,
+					)
+				: null;
 
 			// Check for duplicate
 			const existing = await checkDuplicateAdministration(
@@ -340,11 +473,10 @@ export const adminRouter = createTRPCRouter({
 			);
 
 			if (existing) {
-				return existing;
+				return { ...existing, inventoryUpdate: null, warnings: [] };
 			}
 
-			// Create the administration record
-			const result = await createAdministrationRecord(
+			const newAdmin = await buildAdministrationRecord(
 				ctx.db,
 				ctx.dbUser.id,
 				input,
@@ -352,19 +484,66 @@ export const adminRouter = createTRPCRouter({
 				regimen,
 			);
 
+			// Record the dose and draw down its inventory item atomically
+			const { result, inventoryUpdate } = await ctx.db.transaction(
+				async (tx) => {
+					const inventoryUpdate = inventory
+						? await decrementInventory(
+								tx,
+								inventory.item,
+								newAdmin.dose ?? null,
+							)
+						: null;
+
+					const inserted = await tx
+						.insert(administrations)
+						.values({
+							...newAdmin,
+							unitsDeducted: inventoryUpdate?.unitsDeducted || null,
+						})
+						.returning();
+
+					if (!inserted[0]) {
+						throw new TRPCError({
+							code: "INTERNAL_SERVER_ERROR",
+							message: "Failed to create administration record",
+						});
+					}
+
+					return { result: inserted[0], inventoryUpdate };
+				},
+			);
+			invalidateAdherence(result.regimenId);
+
+			// Rolling intervals restart from this dose, so every planned slot moves
+			await cancelDoseReminders(ctx.db, {
+				regimenId: result.regimenId,
+				slotDueBy:
+					regimen.scheduleType === "INTERVAL" &&
+					regimen.intervalMode === "ROLLING"
+						? undefined
+						: new Date(result.scheduledFor ?? result.recordedAt),
+			});
+
 			// Create audit log
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "CREATE",
-				tableName: "administrations",
-				recordId: result.id,
+				resourceType: "administration",
+				resourceId: result.id,
 				newValues: result,
+				metadata: getAuditMetadata(ctx),
 			});
 
-			// TODO: Handle inventory update and co-sign requirement
-
-			return result;
+			return {
+				...result,
+				inventoryUpdate,
+				warnings: [
+					...(inventory?.warnings ?? []),
+					...(inventoryUpdate?.warnings ?? []),
+				],
+			};
 		}),
 
 	// List administrations for an animal or household with proper joins
@@ -385,6 +564,12 @@ export const adminRouter = createTRPCRouter({
 				conditions.push(eq(administrations.animalId, input.animalId));
 			}
 
+			if (ctx.allowedAnimalIds) {
+				conditions.push(
+					inArray(administrations.animalId, ctx.allowedAnimalIds),
+				);
+			}
+
 			if (input.startDate) {
 				conditions.push(
 					gte(
@@ -422,6 +607,7 @@ export const adminRouter = createTRPCRouter({
 					coSignUserId: administrations.coSignUserId,
 					coSignedAt: administrations.coSignedAt,
 					coSignNotes: administrations.coSignNotes,
+					coSignRequired: administrations.coSignRequired,
 					adverseEvent: administrations.adverseEvent,
 					adverseEventDescription: administrations.adverseEventDescription,
 					idempotencyKey: administrations.idempotencyKey,
@@ -463,6 +649,50 @@ export const adminRouter = createTRPCRouter({
 			return result;
 		}),
 
+	// Reminders and escalations sent for the slot a dose was recorded against
+	notificationSteps: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				recordId: z.string().uuid(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const conditions = [
+				eq(administrations.id, input.recordId),
+				eq(administrations.householdId, input.householdId),
+			];
+			if (ctx.allowedAnimalIds) {
+				conditions.push(
+					inArray(administrations.animalId, ctx.allowedAnimalIds),
+				);
+			}
+
+			const [record] = await ctx.db
+				.select({
+					regimenId: administrations.regimenId,
+					scheduledFor: administrations.scheduledFor,
+				})
+				.from(administrations)
+				.where(and(...conditions))
+				.limit(1);
+
+			if (!record) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Administration record not found",
+				});
+			}
+
+			// PRN doses have no slot, so nothing was scheduled for them
+			if (!record.scheduledFor) return [];
+
+			return getDoseNotificationSteps(ctx.db, {
+				regimenId: record.regimenId,
+				slotDueAt: new Date(record.scheduledFor),
+			});
+		}),
+
 	// Delete (soft delete) an administration record
 	delete: householdProcedure
 		.input(
@@ -491,14 +721,19 @@ export const adminRouter = createTRPCRouter({
 					message: "Administration record not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].animalId);
 
 			// For this implementation, we'll actually delete the record
 			// In a real system, you might want to add a deletedAt field for soft delete
-			const result = await ctx.db
-				.delete(administrations)
-				.where(eq(administrations.id, input.recordId))
-				.returning()
-				.execute();
+			const result = await ctx.db.transaction(async (tx) => {
+				const deleted = await tx
+					.delete(administrations)
+					.where(eq(administrations.id, input.recordId))
+					.returning();
+
+				if (deleted[0]) await restoreInventory(tx, deleted[0]);
+				return deleted;
+			});
 
 			if (!result[0]) {
 				throw new TRPCError({
@@ -506,15 +741,17 @@ export const adminRouter = createTRPCRouter({
 					message: "Failed to delete administration record",
 				});
 			}
+			invalidateAdherence(result[0].regimenId);
 
 			// Create audit log
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "DELETE",
-				tableName: "administrations",
-				recordId: input.recordId,
+				resourceType: "administration",
+				resourceId: input.recordId,
 				oldValues: existing[0],
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return { success: true, deletedRecord: result[0] };
@@ -550,6 +787,7 @@ export const adminRouter = createTRPCRouter({
 						"Administration record not found or you don't have permission to undo it",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].animalId);
 
 			// Check if record is recent enough to undo (within 30 minutes)
 			const recordedAt = new Date(existing[0].recordedAt);
@@ -571,12 +809,16 @@ export const adminRouter = createTRPCRouter({
 				});
 			}
 
-			// Delete the record
-			const result = await ctx.db
-				.delete(administrations)
-				.where(eq(administrations.id, input.recordId))
-				.returning()
-				.execute();
+			// Delete the record and return its units to inventory
+			const result = await ctx.db.transaction(async (tx) => {
+				const deleted = await tx
+					.delete(administrations)
+					.where(eq(administrations.id, input.recordId))
+					.returning();
+
+				if (deleted[0]) await restoreInventory(tx, deleted[0]);
+				return deleted;
+			});
 
 			if (!result[0]) {
 				throw new TRPCError({
@@ -584,15 +826,17 @@ export const adminRouter = createTRPCRouter({
 					message: "Failed to undo administration record",
 				});
 			}
+			invalidateAdherence(result[0].regimenId);
 
 			// Create audit log
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "UNDO",
-				tableName: "administrations",
-				recordId: input.recordId,
+				resourceType: "administration",
+				resourceId: input.recordId,
 				oldValues: existing[0],
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return { success: true, undoneRecord: result[0] };
@@ -632,9 +876,13 @@ export const adminRouter = createTRPCRouter({
 					message: "Administration record not found or already co-signed",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].administration.animalId);
 
-			// Verify the regimen requires co-signing
-			if (!existing[0].regimen.requiresCoSign) {
+			// Verify the record is awaiting a co-sign
+			if (
+				!existing[0].administration.coSignRequired &&
+				!existing[0].regimen.requiresCoSign
+			) {
 				throw new TRPCError({
 					code: "BAD_REQUEST",
 					message: "This medication does not require co-signing",
@@ -686,10 +934,11 @@ export const adminRouter = createTRPCRouter({
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "COSIGN",
-				tableName: "administrations",
-				recordId: input.recordId,
+				resourceType: "administration",
+				resourceId: input.recordId,
 				newValues: result[0],
 				oldValues: existing[0].administration,
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return { success: true, cosignedRecord: result[0] };
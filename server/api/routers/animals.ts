@@ -1,11 +1,25 @@
 import { TRPCError } from "@trpc/server";
-import { and, eq, isNull } from "drizzle-orm";
+import { and, asc, desc, eq, gt, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
-import { animals, type NewAnimal } from "@/db/schema";
 import {
+	animals,
+	medicationCatalog,
+	memberships,
+	type NewAnimal,
+	regimens,
+	shareLinks,
+	users,
+	weightLogs,
+} from "@/db/schema";
+import {
+	assertAnimalAccess,
 	createTRPCRouter,
 	householdProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { cancelDoseReminders } from "@/server/utils/reminders";
+import { createShareToken, getShareLinkUrl } from "@/server/utils/share-links";
+import { localDayISO } from "@/utils/tz";
 
 // Input validation schemas
 const createAnimalSchema = z.object({
@@ -32,6 +46,117 @@ const updateAnimalSchema = createAnimalSchema.partial().extend({
 	id: z.string().uuid(),
 });
 
+/**
+ * What a responder needs without logging in: the animal's alerts, what it is
+ * taking and when, and who to call. Returns null if the animal is not found.
+ */
+export async function getEmergencyProfile(
+	db: typeof import("@/db/drizzle").db,
+	animalId: string,
+	householdId: string,
+) {
+	const [animal] = await db
+		.select({
+			id: animals.id,
+			name: animals.name,
+			species: animals.species,
+			breed: animals.breed,
+			sex: animals.sex,
+			neutered: animals.neutered,
+			dob: animals.dob,
+			weightKg: animals.weightKg,
+			microchipId: animals.microchipId,
+			color: animals.color,
+			photoUrl: animals.photoUrl,
+			timezone: animals.timezone,
+			vetName: animals.vetName,
+			vetPhone: animals.vetPhone,
+			vetEmail: animals.vetEmail,
+			clinicName: animals.clinicName,
+			allergies: animals.allergies,
+			conditions: animals.conditions,
+			notes: animals.notes,
+		})
+		.from(animals)
+		.where(
+			and(
+				eq(animals.id, animalId),
+				eq(animals.householdId, householdId),
+				isNull(animals.deletedAt),
+			),
+		)
+		.limit(1);
+
+	if (!animal) return null;
+
+	const [activeRegimens, owners] = await Promise.all([
+		db
+			.select({
+				id: regimens.id,
+				name: regimens.name,
+				dose: regimens.dose,
+				route: regimens.route,
+				scheduleType: regimens.scheduleType,
+				timesLocal: regimens.timesLocal,
+				intervalHours: regimens.intervalHours,
+				prnReason: regimens.prnReason,
+				instructions: regimens.instructions,
+				highRisk: regimens.highRisk,
+				medication: {
+					genericName: medicationCatalog.genericName,
+					brandName: medicationCatalog.brandName,
+					strength: medicationCatalog.strength,
+					route: medicationCatalog.route,
+					form: medicationCatalog.form,
+				},
+			})
+			.from(regimens)
+			.innerJoin(
+				medicationCatalog,
+				eq(regimens.medicationId, medicationCatalog.id),
+			)
+			.where(
+				and(
+					eq(regimens.animalId, animal.id),
+					eq(regimens.active, true),
+					isNull(regimens.pausedAt),
+					isNull(regimens.deletedAt),
+				),
+			)
+			.orderBy(desc(regimens.highRisk), asc(medicationCatalog.genericName)),
+		// Permanent owners only; a pet sitter is not who a responder should call
+		db
+			.select({
+				name: users.name,
+				email: users.email,
+				phone: users.preferredPhoneNumber,
+				emergencyContactName: users.emergencyContactName,
+				emergencyContactPhone: users.emergencyContactPhone,
+			})
+			.from(memberships)
+			.innerJoin(users, eq(memberships.userId, users.id))
+			.where(
+				and(
+					eq(memberships.householdId, householdId),
+					eq(memberships.role, "OWNER"),
+					isNull(memberships.validUntil),
+				),
+			)
+			.orderBy(asc(memberships.createdAt)),
+	]);
+
+	return {
+		animal: {
+			...animal,
+			weightKg: animal.weightKg ? Number(animal.weightKg) : null,
+			allergies: animal.allergies ?? [],
+			conditions: animal.conditions ?? [],
+		},
+		regimens: activeRegimens,
+		owners,
+	};
+}
+
 export const animalRouter = createTRPCRouter({
 	// List all animals in a household
 	list: householdProcedure
@@ -48,6 +173,10 @@ export const animalRouter = createTRPCRouter({
 				conditions.push(isNull(animals.deletedAt));
 			}
 
+			if (ctx.allowedAnimalIds) {
+				conditions.push(inArray(animals.id, ctx.allowedAnimalIds));
+			}
+
 			const result = await ctx.db
 				.select()
 				.from(animals)
@@ -84,10 +213,64 @@ export const animalRouter = createTRPCRouter({
 					message: "Animal not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, animal[0].id);
 
 			return animal[0];
 		}),
 
+	// Emergency card data, plus the newest active link for the card's QR code
+	getEmergencyProfile: householdProcedure
+		.input(
+			z.object({
+				animalId: z.string().uuid(),
+				householdId: z.string().uuid(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const profile = await getEmergencyProfile(
+				ctx.db,
+				input.animalId,
+				ctx.householdId,
+			);
+
+			if (!profile) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Animal not found",
+				});
+			}
+
+			// The link itself grants access, so only owners who manage it see it
+			const canManageLink = ctx.membership.role === "OWNER";
+			const [link] = canManageLink
+				? await ctx.db
+						.select()
+						.from(shareLinks)
+						.where(
+							and(
+								eq(shareLinks.animalId, input.animalId),
+								eq(shareLinks.purpose, "EMERGENCY"),
+								isNull(shareLinks.revokedAt),
+								gt(shareLinks.expiresAt, new Date().toISOString()),
+							),
+						)
+						.orderBy(desc(shareLinks.createdAt))
+						.limit(1)
+				: [];
+
+			return {
+				...profile,
+				canManageLink,
+				emergencyLink: link
+					? {
+							id: link.id,
+							url: getShareLinkUrl(createShareToken(link), "EMERGENCY"),
+							expiresAt: link.expiresAt,
+						}
+					: null,
+			};
+		}),
+
 	// Create a new animal
 	create: householdProcedure
 		.input(createAnimalSchema)
@@ -101,7 +284,26 @@ export const animalRouter = createTRPCRouter({
 
 			const result = await ctx.db.insert(animals).values(newAnimal).returning();
 
-			// TODO: Create audit log entry
+			// Start the weight history from the profile weight
+			if (result[0] && input.weightKg) {
+				await ctx.db.insert(weightLogs).values({
+					animalId: result[0].id,
+					recordedBy: ctx.dbUser.id,
+					weightKg: input.weightKg.toString(),
+					measuredOn: localDayISO(new Date(), result[0].timezone),
+					source: "OTHER",
+				});
+			}
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "CREATE",
+				resourceType: "animal",
+				resourceId: result[0]?.id,
+				newValues: result[0],
+				metadata: getAuditMetadata(ctx),
+			});
 
 			return result[0];
 		}),
@@ -131,6 +333,7 @@ export const animalRouter = createTRPCRouter({
 					message: "Animal not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].id);
 
 			const result = await ctx.db
 				.update(animals)
@@ -143,7 +346,31 @@ export const animalRouter = createTRPCRouter({
 				.where(eq(animals.id, id))
 				.returning();
 
-			// TODO: Create audit log entry
+			// A changed profile weight counts as a new weighing
+			if (
+				result[0] &&
+				updateData.weightKg &&
+				updateData.weightKg !== Number(existing[0].weightKg)
+			) {
+				await ctx.db.insert(weightLogs).values({
+					animalId: id,
+					recordedBy: ctx.dbUser.id,
+					weightKg: updateData.weightKg.toString(),
+					measuredOn: localDayISO(new Date(), result[0].timezone),
+					source: "OTHER",
+				});
+			}
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "UPDATE",
+				resourceType: "animal",
+				resourceId: id,
+				oldValues: existing[0],
+				newValues: result[0],
+				metadata: getAuditMetadata(ctx),
+			});
 
 			return result[0];
 		}),
@@ -175,6 +402,7 @@ export const animalRouter = createTRPCRouter({
 					message: "Animal not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].id);
 
 			const result = await ctx.db
 				.update(animals)
@@ -185,7 +413,17 @@ export const animalRouter = createTRPCRouter({
 				.where(eq(animals.id, input.id))
 				.returning();
 
-			// TODO: Create audit log entry
+			await cancelDoseReminders(ctx.db, { animalId: input.id });
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "DELETE",
+				resourceType: "animal",
+				resourceId: input.id,
+				oldValues: existing[0],
+				metadata: getAuditMetadata(ctx),
+			});
 
 			return { success: true, animal: result[0] };
 		}),
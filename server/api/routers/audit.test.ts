@@ -0,0 +1,104 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, expect, it, vi } from "vitest";
+import {
+	createAuthenticatedContext,
+	mockSession,
+} from "@/tests/helpers/trpc-utils";
+import { auditRouter } from "./audit";
+
+const dialect = new PgDialect();
+
+describe("auditRouter", () => {
+	describe("list", () => {
+		const allowedAnimalId = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+
+		async function listWith(animalIds: string[] | null) {
+			const where = vi.fn();
+			const chain = {
+				from: () => chain,
+				innerJoin: () => chain,
+				where: (condition: SQL) => {
+					where(condition);
+					return chain;
+				},
+				orderBy: () => chain,
+				limit: () => Promise.resolve([]),
+			};
+
+			const ctx = await createAuthenticatedContext(mockSession, {
+				db: { select: () => chain },
+			});
+			ctx.currentMembership = {
+				...ctx.currentMembership,
+				animalIds,
+			} as typeof ctx.currentMembership;
+
+			await auditRouter
+				.createCaller(ctx)
+				.list({ householdId: mockSession.access.householdId });
+
+			return dialect.sqlToQuery(where.mock.calls[0]?.[0]);
+		}
+
+		it("only returns entries about a restricted member's animals", async () => {
+			const query = await listWith([allowedAnimalId]);
+
+			expect(query.sql).toContain('"vetmed_audit_log"."resource_id" in');
+			expect(query.sql).toContain("->>'animalId'");
+			expect(query.params).toContain(allowedAnimalId);
+		});
+
+		async function listAs(role: "OWNER" | "CAREGIVER") {
+			const entry = {
+				id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa",
+				action: "UPDATE",
+				ipAddress: "203.0.113.7",
+				userAgent: "Mozilla/5.0",
+				sessionId: "sess_123",
+				timestamp: "2025-03-01T08:00:00.000Z",
+			};
+			const chain = {
+				from: () => chain,
+				innerJoin: () => chain,
+				where: () => chain,
+				orderBy: () => chain,
+				limit: () => Promise.resolve([entry]),
+			};
+
+			const ctx = await createAuthenticatedContext(
+				{ ...mockSession, access: { ...mockSession.access, role } },
+				{ db: { select: () => chain } },
+			);
+			const { items } = await auditRouter
+				.createCaller(ctx)
+				.list({ householdId: mockSession.access.householdId });
+
+			return items[0];
+		}
+
+		it("hides connection details from members who aren't owners", async () => {
+			expect(await listAs("CAREGIVER")).toMatchObject({
+				action: "UPDATE",
+				ipAddress: null,
+				userAgent: null,
+				sessionId: null,
+			});
+		});
+
+		it("shows connection details to owners", async () => {
+			expect(await listAs("OWNER")).toMatchObject({
+				ipAddress: "203.0.113.7",
+				userAgent: "Mozilla/5.0",
+				sessionId: "sess_123",
+			});
+		});
+
+		it("returns every household entry for unrestricted members", async () => {
+			const query = await listWith(null);
+
+			expect(query.sql).not.toContain("animalId");
+			expect(query.params).toEqual([mockSession.access.householdId]);
+		});
+	});
+});
@@ -0,0 +1,365 @@
+import { TRPCError } from "@trpc/server";
+import {
+	and,
+	asc,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lt,
+	lte,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import { z } from "zod";
+import { auditLog, regimens, users } from "@/db/schema";
+import {
+	createTRPCRouter,
+	householdProcedure,
+	ownerProcedure,
+} from "@/server/api/trpc/clerk-init";
+import {
+	type AuditChainBreak,
+	findChainBreak,
+	type StoredAuditChainEntry,
+} from "@/server/utils/audit-chain";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { toCsv } from "@/utils/csv";
+
+const MAX_EXPORT_ROWS = 10000;
+const VERIFY_BATCH_SIZE = 500;
+
+const auditFiltersSchema = z.object({
+	householdId: z.string().uuid(),
+	userId: z.string().uuid().optional(),
+	resourceType: z.string().optional(),
+	resourceId: z.string().uuid().optional(),
+	action: z.string().optional(),
+	startDate: z.string().datetime().optional(),
+	endDate: z.string().datetime().optional(),
+});
+
+type AuditFilters = z.infer<typeof auditFiltersSchema>;
+
+// Cursor is the (timestamp, id) of the last row on the previous page
+const encodeCursor = (timestamp: string, id: string) =>
+	Buffer.from(JSON.stringify([timestamp, id])).toString("base64url");
+
+function decodeCursor(cursor: string): [string, string] {
+	try {
+		const decoded = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf8"),
+		);
+		if (
+			Array.isArray(decoded) &&
+			typeof decoded[0] === "string" &&
+			typeof decoded[1] === "string"
+		) {
+			return [decoded[0], decoded[1]];
+		}
+	} catch {
+		// Fall through to the error below
+	}
+
+	throw new TRPCError({
+		code: "BAD_REQUEST",
+		message: "Invalid cursor",
+	});
+}
+
+/**
+ * Entries a member restricted to some animals may see: the animals themselves,
+ * their regimens, and anything whose recorded values name one of them.
+ * Household-wide entries (memberships, invitations, settings) stay hidden.
+ */
+function buildAnimalScope(allowedAnimalIds: string[]) {
+	const recordedAnimalId = sql`coalesce(
+		${auditLog.newValues}->>'animalId',
+		${auditLog.oldValues}->>'animalId',
+		${auditLog.details}->>'animalId'
+	)`;
+
+	return or(
+		inArray(auditLog.resourceId, allowedAnimalIds),
+		sql`${auditLog.resourceId} IN (SELECT ${regimens.id} FROM ${regimens} WHERE ${inArray(regimens.animalId, allowedAnimalIds)})`,
+		inArray(recordedAnimalId, allowedAnimalIds),
+	);
+}
+
+// Helper to build the WHERE conditions shared by list and export
+function buildAuditConditions(
+	filters: AuditFilters,
+	allowedAnimalIds: string[] | null,
+) {
+	const conditions: SQL[] = [eq(auditLog.householdId, filters.householdId)];
+
+	if (allowedAnimalIds) {
+		const animalScope = buildAnimalScope(allowedAnimalIds);
+		if (animalScope) {
+			conditions.push(animalScope);
+		}
+	}
+
+	if (filters.userId) {
+		conditions.push(eq(auditLog.userId, filters.userId));
+	}
+
+	if (filters.resourceType) {
+		conditions.push(eq(auditLog.resourceType, filters.resourceType));
+	}
+
+	if (filters.resourceId) {
+		conditions.push(eq(auditLog.resourceId, filters.resourceId));
+	}
+
+	if (filters.action) {
+		conditions.push(eq(auditLog.action, filters.action));
+	}
+
+	if (filters.startDate) {
+		conditions.push(
+			gte(auditLog.timestamp, new Date(filters.startDate).toISOString()),
+		);
+	}
+
+	if (filters.endDate) {
+		conditions.push(
+			lte(auditLog.timestamp, new Date(filters.endDate).toISOString()),
+		);
+	}
+
+	return conditions;
+}
+
+function selectAuditEntries(
+	db: typeof import("@/db/drizzle").db,
+	conditions: SQL[],
+) {
+	return db
+		.select({
+			id: auditLog.id,
+			userId: auditLog.userId,
+			userName: users.name,
+			userEmail: users.email,
+			action: auditLog.action,
+			resourceType: auditLog.resourceType,
+			resourceId: auditLog.resourceId,
+			oldValues: auditLog.oldValues,
+			newValues: auditLog.newValues,
+			details: auditLog.details,
+			ipAddress: auditLog.ipAddress,
+			userAgent: auditLog.userAgent,
+			sessionId: auditLog.sessionId,
+			timestamp: auditLog.timestamp,
+		})
+		.from(auditLog)
+		.innerJoin(users, eq(auditLog.userId, users.id))
+		.where(and(...conditions))
+		.orderBy(desc(auditLog.timestamp), desc(auditLog.id));
+}
+
+// Helper to walk a household's hash chain in batches
+async function verifyHouseholdChain(
+	db: typeof import("@/db/drizzle").db,
+	householdId: string,
+): Promise<{ checked: number; firstBreak: AuditChainBreak | null }> {
+	let previous: { sequence: number; hash: string } | null = null;
+	let checked = 0;
+
+	while (true) {
+		const batch = (await db
+			.select({
+				id: auditLog.id,
+				householdId: auditLog.householdId,
+				sequence: auditLog.sequence,
+				prevHash: auditLog.prevHash,
+				hash: auditLog.hash,
+				userId: auditLog.userId,
+				action: auditLog.action,
+				resourceType: auditLog.resourceType,
+				resourceId: auditLog.resourceId,
+				oldValues: auditLog.oldValues,
+				newValues: auditLog.newValues,
+				details: auditLog.details,
+				ipAddress: auditLog.ipAddress,
+				userAgent: auditLog.userAgent,
+				sessionId: auditLog.sessionId,
+				timestamp: auditLog.timestamp,
+			})
+			.from(auditLog)
+			.where(
+				and(
+					eq(auditLog.householdId, householdId),
+					previous
+						? gt(auditLog.sequence, previous.sequence)
+						: isNotNull(auditLog.sequence),
+				),
+			)
+			.orderBy(asc(auditLog.sequence))
+			.limit(VERIFY_BATCH_SIZE)) as StoredAuditChainEntry[];
+
+		const firstBreak = findChainBreak(batch, previous);
+		if (firstBreak) {
+			const verified = batch.findIndex((entry) => entry.id === firstBreak.id);
+			return { checked: checked + verified, firstBreak };
+		}
+
+		checked += batch.length;
+		const last = batch[batch.length - 1];
+		if (!last?.hash || batch.length < VERIFY_BATCH_SIZE) {
+			return { checked, firstBreak: null };
+		}
+		previous = { sequence: last.sequence, hash: last.hash };
+	}
+}
+
+export const auditRouter = createTRPCRouter({
+	// List audit entries for a household, newest first
+	list: householdProcedure
+		.input(
+			auditFiltersSchema.extend({
+				cursor: z.string().optional(),
+				limit: z.number().min(1).max(100).default(50),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const conditions = buildAuditConditions(input, ctx.allowedAnimalIds);
+
+			if (input.cursor) {
+				const [timestamp, id] = decodeCursor(input.cursor);
+				const afterCursor = or(
+					lt(auditLog.timestamp, timestamp),
+					and(eq(auditLog.timestamp, timestamp), lt(auditLog.id, id)),
+				);
+				if (afterCursor) {
+					conditions.push(afterCursor);
+				}
+			}
+
+			// Fetch one extra row to know whether another page exists
+			const rows = await selectAuditEntries(ctx.db, conditions).limit(
+				input.limit + 1,
+			);
+
+			const items = rows.slice(0, input.limit);
+			const last = items[items.length - 1];
+
+			// Where and how other members signed in is for owners only
+			const isOwner = ctx.membership.role === "OWNER";
+
+			return {
+				items: isOwner
+					? items
+					: items.map((item) => ({
+							...item,
+							ipAddress: null,
+							userAgent: null,
+							sessionId: null,
+						})),
+				nextCursor:
+					rows.length > input.limit && last
+						? encodeCursor(last.timestamp, last.id)
+						: null,
+			};
+		}),
+
+	// Verify the household's audit hash chain and report the first broken link
+	verifyChain: householdProcedure
+		.input(z.object({ householdId: z.string().uuid() }))
+		.query(async ({ ctx, input }) => {
+			const { checked, firstBreak } = await verifyHouseholdChain(
+				ctx.db,
+				input.householdId,
+			);
+
+			// Entries written before chaining was introduced carry no hash
+			const [unchained] = await ctx.db
+				.select({ count: count() })
+				.from(auditLog)
+				.where(
+					and(
+						eq(auditLog.householdId, input.householdId),
+						isNull(auditLog.sequence),
+					),
+				);
+
+			return {
+				valid: firstBreak === null,
+				checked,
+				unchained: unchained?.count ?? 0,
+				firstBreak,
+				verifiedAt: new Date().toISOString(),
+			};
+		}),
+
+	// Export matching audit entries (owners only)
+	export: ownerProcedure
+		.input(
+			auditFiltersSchema.extend({
+				format: z.enum(["csv", "json"]).default("csv"),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const rows = await selectAuditEntries(
+				ctx.db,
+				buildAuditConditions(input, ctx.allowedAnimalIds),
+			).limit(MAX_EXPORT_ROWS);
+
+			const { householdId, format, ...filters } = input;
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: "AUDIT_EXPORTED",
+				resourceType: "household",
+				resourceId: householdId,
+				details: { format, filters, rowCount: rows.length },
+				metadata: getAuditMetadata(ctx),
+			});
+
+			const dateStamp = new Date().toISOString().split("T")[0];
+
+			if (format === "json") {
+				return {
+					filename: `audit-log-${dateStamp}.json`,
+					contentType: "application/json",
+					content: JSON.stringify(rows, null, 2),
+					rowCount: rows.length,
+				};
+			}
+
+			const content = toCsv(
+				[
+					{ key: "timestamp", header: "Timestamp" },
+					{ key: "userName", header: "User" },
+					{ key: "userEmail", header: "Email" },
+					{ key: "action", header: "Action" },
+					{ key: "resourceType", header: "Resource Type" },
+					{ key: "resourceId", header: "Resource ID" },
+					{ key: "ipAddress", header: "IP Address" },
+					{ key: "userAgent", header: "User Agent" },
+					{ key: "sessionId", header: "Session ID" },
+					{ key: "oldValues", header: "Old Values" },
+					{ key: "newValues", header: "New Values" },
+					{ key: "details", header: "Details" },
+				],
+				rows.map((row) => ({
+					...row,
+					oldValues: row.oldValues ? JSON.stringify(row.oldValues) : null,
+					newValues: row.newValues ? JSON.stringify(row.newValues) : null,
+					details: row.details ? JSON.stringify(row.details) : null,
+				})),
+			);
+
+			return {
+				filename: `audit-log-${dateStamp}.csv`,
+				contentType: "text/csv",
+				content,
+				rowCount: rows.length,
+			};
+		}),
+});
@@ -0,0 +1,68 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetMockDb } from "@/tests/helpers/mock-db";
+import {
+	createAuthenticatedContext,
+	mockSession,
+} from "@/tests/helpers/trpc-utils";
+import { householdRouter } from "./households";
+
+const dialect = new PgDialect();
+
+describe("householdRouter", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		resetMockDb();
+	});
+
+	describe("getPendingMeds", () => {
+		const allowedAnimalId = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+
+		async function createCaller(animalIds: string[] | null) {
+			const ctx = await createAuthenticatedContext(mockSession);
+			ctx.currentMembership = {
+				...ctx.currentMembership,
+				animalIds,
+			} as typeof ctx.currentMembership;
+
+			const where = vi.fn();
+			vi.spyOn(ctx.db, "select").mockImplementation(() => {
+				const chain = {
+					from: () => chain,
+					innerJoin: () => chain,
+					where: (condition: SQL) => {
+						where(condition);
+						return Promise.resolve([]);
+					},
+				};
+				return chain as any;
+			});
+
+			return { caller: householdRouter.createCaller(ctx), where };
+		}
+
+		it("only counts the animals a restricted member can see", async () => {
+			const { caller, where } = await createCaller([allowedAnimalId]);
+
+			await caller.getPendingMeds({
+				householdId: mockSession.access.householdId,
+			});
+
+			const query = dialect.sqlToQuery(where.mock.calls[0]?.[0]);
+			expect(query.sql).toContain('"vetmed_animals"."id" in ($');
+			expect(query.params).toContain(allowedAnimalId);
+		});
+
+		it("counts every animal for unrestricted members", async () => {
+			const { caller, where } = await createCaller(null);
+
+			await caller.getPendingMeds({
+				householdId: mockSession.access.householdId,
+			});
+
+			const query = dialect.sqlToQuery(where.mock.calls[0]?.[0]);
+			expect(query.sql).not.toContain('"vetmed_animals"."id" in');
+		});
+	});
+});
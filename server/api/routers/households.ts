@@ -1,23 +1,129 @@
 import { TRPCError } from "@trpc/server";
-import { and, count, eq, gte, isNull, lte } from "drizzle-orm";
+import {
+	and,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNull,
+	lte,
+} from "drizzle-orm";
 import { z } from "zod";
 import {
 	administrations,
 	animals,
-	auditLog,
+	escalationPolicies,
 	households,
+	invitations,
 	medicationCatalog,
 	memberships,
+	type NewInvitation,
 	notificationQueue,
 	regimens,
 	users,
 } from "@/db/schema";
+import { escalationPolicySchema } from "@/lib/schemas/escalation";
 import {
 	createTRPCRouter,
 	householdProcedure,
 	ownerProcedure,
 	protectedProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	generateInvitationToken,
+	getInvitationExpiry,
+	getInvitationStatus,
+	getInvitationUrl,
+	hashInvitationToken,
+} from "@/server/utils/invitations";
+import { getLastDoseTimes } from "@/server/utils/last-dose";
+import { cancelDoseReminders } from "@/server/utils/reminders";
+import {
+	getMembershipAccess,
+	isTemporaryMembership,
+} from "@/server/utils/temporary-access";
+import {
+	computeIntervalDueTime,
+	getIntervalAnchor,
+	resolveDailySchedule,
+} from "@/utils/schedule";
+
+// Helper to load an invitation that belongs to the household
+async function getHouseholdInvitation(
+	db: typeof import("@/db/drizzle").db,
+	householdId: string,
+	inviteId: string,
+) {
+	const [invitation] = await db
+		.select()
+		.from(invitations)
+		.where(
+			and(
+				eq(invitations.id, inviteId),
+				eq(invitations.householdId, householdId),
+			),
+		)
+		.limit(1);
+
+	if (!invitation) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Invitation not found",
+		});
+	}
+
+	return invitation;
+}
+
+// Helper to create an invitation, refusing duplicates for the same email
+async function issueInvitation(
+	db: typeof import("@/db/drizzle").db,
+	values: Omit<NewInvitation, "tokenHash">,
+) {
+	const [pendingInvitation] = await db
+		.select({ id: invitations.id })
+		.from(invitations)
+		.where(
+			and(
+				eq(invitations.householdId, values.householdId),
+				eq(invitations.email, values.email),
+				isNull(invitations.acceptedAt),
+				isNull(invitations.declinedAt),
+				isNull(invitations.revokedAt),
+				gt(invitations.expiresAt, new Date().toISOString()),
+			),
+		)
+		.limit(1);
+
+	if (pendingInvitation) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message:
+				"An invitation is already pending for this email. Resend it instead.",
+		});
+	}
+
+	const token = generateInvitationToken();
+	const [invitation] = await db
+		.insert(invitations)
+		.values({ ...values, tokenHash: hashInvitationToken(token) })
+		.returning({
+			id: invitations.id,
+			expiresAt: invitations.expiresAt,
+		});
+
+	if (!invitation) {
+		throw new TRPCError({
+			code: "INTERNAL_SERVER_ERROR",
+			message: "Failed to create invitation",
+		});
+	}
+
+	return { invitation, token };
+}
 
 export const householdRouter = createTRPCRouter({
 	// List all households for the current user
@@ -32,11 +138,15 @@ export const householdRouter = createTRPCRouter({
 			.innerJoin(households, eq(households.id, memberships.householdId))
 			.where(eq(memberships.userId, ctx.dbUser.id));
 
-		return userMemberships.map(({ household, membership }) => ({
-			...household,
-			role: membership.role,
-			joinedAt: membership.createdAt,
-		}));
+		// Lapsed or not-yet-started temporary access doesn't count
+		return userMemberships
+			.filter(({ membership }) => getMembershipAccess(membership) === "ACTIVE")
+			.map(({ household, membership }) => ({
+				...household,
+				role: membership.role,
+				joinedAt: membership.createdAt,
+				accessUntil: membership.validUntil,
+			}));
 	}),
 
 	// Get a specific household with animals
@@ -124,6 +234,16 @@ export const householdRouter = createTRPCRouter({
 				role: "OWNER",
 			});
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: household.id,
+				action: "CREATE",
+				resourceType: "household",
+				resourceId: household.id,
+				newValues: household,
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return household;
 		}),
 
@@ -141,6 +261,9 @@ export const householdRouter = createTRPCRouter({
 					userId: memberships.userId,
 					householdId: memberships.householdId,
 					role: memberships.role,
+					validFrom: memberships.validFrom,
+					validUntil: memberships.validUntil,
+					animalIds: memberships.animalIds,
 					createdAt: memberships.createdAt,
 					updatedAt: memberships.updatedAt,
 					user: {
@@ -172,6 +295,9 @@ export const householdRouter = createTRPCRouter({
 					and(
 						eq(animals.householdId, input.householdId),
 						isNull(animals.deletedAt),
+						ctx.allowedAnimalIds
+							? inArray(animals.id, ctx.allowedAnimalIds)
+							: undefined,
 					),
 				);
 
@@ -215,15 +341,12 @@ export const householdRouter = createTRPCRouter({
 				regimen: {
 					scheduleType: string;
 					endDate: string | null;
-					timesLocal: string[] | null;
 				},
 				currentDateStr: string,
 			): boolean => {
 				return (
 					regimen.scheduleType === "PRN" ||
-					(regimen.endDate && regimen.endDate < currentDateStr) ||
-					!regimen.timesLocal ||
-					regimen.timesLocal.length === 0
+					(!!regimen.endDate && regimen.endDate < currentDateStr)
 				);
 			};
 
@@ -324,6 +447,67 @@ export const householdRouter = createTRPCRouter({
 				return pendingCount;
 			};
 
+			// Helper function to check if an INTERVAL dose is pending
+			const isIntervalDosePending = (
+				regimen: {
+					intervalHours: number;
+					intervalMode: "ROLLING" | "SCHEDULE";
+					startDate: string;
+					timesLocal: string[] | null;
+					cutoffMinutes: number;
+				},
+				timezone: string,
+				lastDoseAt: Date | null,
+				now: Date,
+			): boolean => {
+				const dueAt = computeIntervalDueTime({
+					intervalHours: regimen.intervalHours,
+					mode: regimen.intervalMode,
+					anchor: getIntervalAnchor(regimen, timezone),
+					lastDoseAt,
+					now,
+					cutoffMinutes: regimen.cutoffMinutes,
+				});
+				return dueAt.getTime() <= now.getTime();
+			};
+
+			// Helper function to count pending doses for any scheduled regimen
+			const countPendingForRegimen = async (
+				regimen: typeof regimens.$inferSelect,
+				animal: typeof animals.$inferSelect,
+				lastDoseAt: Date | null,
+				now: Date,
+			): Promise<number> => {
+				if (regimen.scheduleType === "INTERVAL" && regimen.intervalHours) {
+					return isIntervalDosePending(
+						{ ...regimen, intervalHours: regimen.intervalHours },
+						animal.timezone,
+						lastDoseAt,
+						now,
+					)
+						? 1
+						: 0;
+				}
+
+				const { localDateStr, localMinutes } = getLocalDateTime(
+					animal.timezone,
+					now,
+				);
+
+				// FIXED times, or the taper step active on the local day
+				const schedule = resolveDailySchedule(regimen, localDateStr);
+				if (!schedule) {
+					return 0;
+				}
+
+				return processScheduledTimes(
+					{ ...regimen, timesLocal: schedule.timesLocal },
+					animal,
+					localDateStr,
+					localMinutes,
+				);
+			};
+
 			// Main logic starts here
 			const now = new Date();
 			const currentDateStr = now.toISOString().split("T")[0] as string;
@@ -337,6 +521,9 @@ export const householdRouter = createTRPCRouter({
 			if (input.animalId) {
 				animalConditions.push(eq(animals.id, input.animalId));
 			}
+			if (ctx.allowedAnimalIds) {
+				animalConditions.push(inArray(animals.id, ctx.allowedAnimalIds));
+			}
 
 			// Fetch active regimens
 			const activeRegimens = await ctx.db
@@ -361,6 +548,14 @@ export const householdRouter = createTRPCRouter({
 					),
 				);
 
+			// INTERVAL regimens are due relative to their last non-missed dose
+			const lastDoses = await getLastDoseTimes(
+				ctx.db,
+				activeRegimens
+					.filter(({ regimen }) => regimen.scheduleType === "INTERVAL")
+					.map(({ regimen }) => regimen.id),
+			);
+
 			// Process regimens and count pending doses
 			const pendingByAnimal = new Map<string, number>();
 			let totalPendingCount = 0;
@@ -370,15 +565,11 @@ export const householdRouter = createTRPCRouter({
 					continue;
 				}
 
-				const { localDateStr, localMinutes } = getLocalDateTime(
-					animal.timezone,
-					now,
-				);
-				const pendingForRegimen = await processScheduledTimes(
+				const pendingForRegimen = await countPendingForRegimen(
 					regimen,
 					animal,
-					localDateStr,
-					localMinutes,
+					lastDoses.get(regimen.id) ?? null,
+					now,
 				);
 
 				if (pendingForRegimen > 0) {
@@ -449,7 +640,7 @@ export const householdRouter = createTRPCRouter({
 				});
 
 				// Log the action
-				await ctx.db.insert(auditLog).values({
+				await createAuditLog(ctx.db, {
 					userId: ctx.dbUser.id,
 					householdId,
 					action: "MEMBER_ADDED",
@@ -457,6 +648,7 @@ export const householdRouter = createTRPCRouter({
 					resourceId: existingUser[0].id,
 					newValues: { email, role },
 					details: { message },
+					metadata: getAuditMetadata(ctx),
 				});
 
 				// Queue notification to the new member
@@ -481,38 +673,35 @@ export const householdRouter = createTRPCRouter({
 				};
 			}
 
-			// User doesn't exist, create an invitation notification
-			// Note: For now, we'll queue a notification. In a full implementation,
-			// you'd create a proper invitation system with tokens/links.
-			await ctx.db.insert(notificationQueue).values({
-				userId: ctx.dbUser.id, // Temporarily assign to inviter for tracking
+			// User doesn't exist yet, so issue a single-use invitation link
+			const { invitation, token } = await issueInvitation(ctx.db, {
 				householdId,
-				type: "PENDING_INVITATION",
-				title: "Invitation Sent",
-				body: `Invitation sent to ${email} as ${role.toLowerCase()}`,
-				scheduledFor: new Date().toISOString(),
-				data: {
-					inviteeEmail: email,
-					role,
-					invitedBy: ctx.dbUser.name || ctx.dbUser.email,
-					message,
-				},
+				email,
+				role,
+				invitedBy: ctx.dbUser.id,
+				message,
+				expiresAt: getInvitationExpiry(),
 			});
 
 			// Log the invitation
-			await ctx.db.insert(auditLog).values({
+			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId,
 				action: "INVITATION_SENT",
 				resourceType: "invitation",
-				newValues: { email, role },
+				resourceId: invitation.id,
+				newValues: { email, role, expiresAt: invitation.expiresAt },
 				details: { message },
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return {
 				success: true,
 				userExists: false,
-				message: "Invitation sent successfully",
+				message: "Invitation created successfully",
+				inviteId: invitation.id,
+				inviteUrl: getInvitationUrl(token),
+				expiresAt: invitation.expiresAt,
 			};
 		}),
 
@@ -583,7 +772,7 @@ export const householdRouter = createTRPCRouter({
 				.where(eq(memberships.id, membershipId));
 
 			// Log the action
-			await ctx.db.insert(auditLog).values({
+			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId,
 				action: "MEMBER_ROLE_UPDATED",
@@ -591,6 +780,7 @@ export const householdRouter = createTRPCRouter({
 				resourceId: membershipId,
 				oldValues: { role: oldRole },
 				newValues: { role: newRole },
+				metadata: getAuditMetadata(ctx),
 			});
 
 			// Notify the affected user
@@ -680,7 +870,7 @@ export const householdRouter = createTRPCRouter({
 			await ctx.db.delete(memberships).where(eq(memberships.id, membershipId));
 
 			// Log the action
-			await ctx.db.insert(auditLog).values({
+			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId,
 				action: "MEMBER_REMOVED",
@@ -691,6 +881,7 @@ export const householdRouter = createTRPCRouter({
 					role: membership[0].membership.role,
 					email: membership[0].user.email,
 				},
+				metadata: getAuditMetadata(ctx),
 			});
 
 			// Notify the removed user
@@ -710,7 +901,51 @@ export const householdRouter = createTRPCRouter({
 			};
 		}),
 
-	// Resend invitation (placeholder - in a real implementation would resend email)
+	// List invitations that are still pending or have expired unused
+	listInvites: ownerProcedure
+		.input(
+			z.object({
+				householdId: z.string(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const rows = await ctx.db
+				.select({
+					id: invitations.id,
+					email: invitations.email,
+					role: invitations.role,
+					expiresAt: invitations.expiresAt,
+					acceptedAt: invitations.acceptedAt,
+					declinedAt: invitations.declinedAt,
+					revokedAt: invitations.revokedAt,
+					validFrom: invitations.validFrom,
+					validUntil: invitations.validUntil,
+					createdAt: invitations.createdAt,
+					invitedBy: {
+						id: users.id,
+						name: users.name,
+						email: users.email,
+					},
+				})
+				.from(invitations)
+				.innerJoin(users, eq(invitations.invitedBy, users.id))
+				.where(
+					and(
+						eq(invitations.householdId, input.householdId),
+						isNull(invitations.acceptedAt),
+						isNull(invitations.declinedAt),
+						isNull(invitations.revokedAt),
+					),
+				)
+				.orderBy(desc(invitations.createdAt));
+
+			return rows.map((row) => ({
+				...row,
+				status: getInvitationStatus(row),
+			}));
+		}),
+
+	// Resend an invitation with a fresh token and expiry; the old link stops working
 	resendInvite: ownerProcedure
 		.input(
 			z.object({
@@ -719,22 +954,52 @@ export const householdRouter = createTRPCRouter({
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			// For now, just log the action since we don't have a full invitation system
-			await ctx.db.insert(auditLog).values({
+			const invitation = await getHouseholdInvitation(
+				ctx.db,
+				input.householdId,
+				input.inviteId,
+			);
+
+			const status = getInvitationStatus(invitation);
+			if (status !== "PENDING" && status !== "EXPIRED") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: `Cannot resend an invitation that was ${status.toLowerCase()}`,
+				});
+			}
+
+			const token = generateInvitationToken();
+			const expiresAt = getInvitationExpiry();
+
+			await ctx.db
+				.update(invitations)
+				.set({
+					tokenHash: hashInvitationToken(token),
+					expiresAt,
+					updatedAt: new Date().toISOString(),
+				})
+				.where(eq(invitations.id, invitation.id));
+
+			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "INVITATION_RESENT",
 				resourceType: "invitation",
-				resourceId: input.inviteId,
+				resourceId: invitation.id,
+				oldValues: { expiresAt: invitation.expiresAt },
+				newValues: { expiresAt },
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return {
 				success: true,
 				message: "Invitation resent successfully",
+				inviteUrl: getInvitationUrl(token),
+				expiresAt,
 			};
 		}),
 
-	// Revoke invitation (placeholder - in a real implementation would cancel invitation)
+	// Revoke an invitation so its link can no longer be used
 	revokeInvite: ownerProcedure
 		.input(
 			z.object({
@@ -743,13 +1008,34 @@ export const householdRouter = createTRPCRouter({
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			// For now, just log the action since we don't have a full invitation system
-			await ctx.db.insert(auditLog).values({
+			const invitation = await getHouseholdInvitation(
+				ctx.db,
+				input.householdId,
+				input.inviteId,
+			);
+
+			const status = getInvitationStatus(invitation);
+			if (status !== "PENDING" && status !== "EXPIRED") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: `Cannot revoke an invitation that was ${status.toLowerCase()}`,
+				});
+			}
+
+			const now = new Date().toISOString();
+			await ctx.db
+				.update(invitations)
+				.set({ revokedAt: now, updatedAt: now })
+				.where(eq(invitations.id, invitation.id));
+
+			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
 				householdId: input.householdId,
 				action: "INVITATION_REVOKED",
 				resourceType: "invitation",
-				resourceId: input.inviteId,
+				resourceId: invitation.id,
+				oldValues: { email: invitation.email, role: invitation.role },
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return {
@@ -757,4 +1043,329 @@ export const householdRouter = createTRPCRouter({
 				message: "Invitation revoked successfully",
 			};
 		}),
+
+	// Grant time-limited access (e.g. a pet sitter), optionally limited to some animals
+	grantTemporaryAccess: ownerProcedure
+		.input(
+			z
+				.object({
+					householdId: z.string(),
+					email: z.string().email(),
+					role: z.enum(["CAREGIVER", "VETREADONLY"]).default("CAREGIVER"),
+					validFrom: z.string().datetime(),
+					validUntil: z.string().datetime(),
+					animalIds: z.array(z.string().uuid()).optional(),
+					message: z.string().optional(),
+				})
+				.refine((input) => input.validUntil > input.validFrom, {
+					message: "Access must end after it starts",
+					path: ["validUntil"],
+				}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { householdId, email, role, message } = input;
+			const validFrom = new Date(input.validFrom).toISOString();
+			const validUntil = new Date(input.validUntil).toISOString();
+			const animalIds = input.animalIds?.length ? input.animalIds : null;
+
+			if (new Date(validUntil) <= new Date()) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Access must end in the future",
+				});
+			}
+
+			if (animalIds) {
+				const householdAnimals = await ctx.db
+					.select({ id: animals.id })
+					.from(animals)
+					.where(
+						and(
+							eq(animals.householdId, householdId),
+							inArray(animals.id, animalIds),
+							isNull(animals.deletedAt),
+						),
+					);
+
+				if (householdAnimals.length !== new Set(animalIds).size) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "Some animals don't belong to this household",
+					});
+				}
+			}
+
+			const access = { role, validFrom, validUntil, animalIds };
+
+			const [existingUser] = await ctx.db
+				.select()
+				.from(users)
+				.where(eq(users.email, email))
+				.limit(1);
+
+			if (!existingUser) {
+				// The link is useless once access ends, so it expires with it
+				const { invitation, token } = await issueInvitation(ctx.db, {
+					householdId,
+					email,
+					invitedBy: ctx.dbUser.id,
+					message,
+					expiresAt: validUntil,
+					...access,
+				});
+
+				await createAuditLog(ctx.db, {
+					userId: ctx.dbUser.id,
+					householdId,
+					action: "INVITATION_SENT",
+					resourceType: "invitation",
+					resourceId: invitation.id,
+					newValues: { email, ...access },
+					details: { message, temporary: true },
+					metadata: getAuditMetadata(ctx),
+				});
+
+				return {
+					success: true,
+					userExists: false,
+					message: "Temporary access invitation created",
+					inviteId: invitation.id,
+					inviteUrl: getInvitationUrl(token),
+					expiresAt: invitation.expiresAt,
+				};
+			}
+
+			const [existingMembership] = await ctx.db
+				.select()
+				.from(memberships)
+				.where(
+					and(
+						eq(memberships.userId, existingUser.id),
+						eq(memberships.householdId, householdId),
+					),
+				)
+				.limit(1);
+
+			// Permanent members already have access; returning sitters get a new window
+			if (existingMembership && !isTemporaryMembership(existingMembership)) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "User is already a permanent member of this household",
+				});
+			}
+
+			const [membership] = existingMembership
+				? await ctx.db
+						.update(memberships)
+						.set({
+							...access,
+							expiredAt: null,
+							updatedAt: new Date().toISOString(),
+						})
+						.where(eq(memberships.id, existingMembership.id))
+						.returning()
+				: await ctx.db
+						.insert(memberships)
+						.values({ userId: existingUser.id, householdId, ...access })
+						.returning();
+
+			if (!membership) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to grant temporary access",
+				});
+			}
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: "TEMPORARY_ACCESS_GRANTED",
+				resourceType: "membership",
+				resourceId: membership.id,
+				oldValues: existingMembership
+					? {
+							role: existingMembership.role,
+							validFrom: existingMembership.validFrom,
+							validUntil: existingMembership.validUntil,
+							animalIds: existingMembership.animalIds,
+						}
+					: undefined,
+				newValues: { email, ...access },
+				details: { message },
+				metadata: getAuditMetadata(ctx),
+			});
+
+			await ctx.db.insert(notificationQueue).values({
+				userId: existingUser.id,
+				householdId,
+				type: "HOUSEHOLD_INVITATION_ACCEPTED",
+				title: "Temporary Access Granted",
+				body: `You have ${role.toLowerCase()} access until ${new Date(validUntil).toLocaleDateString()}`,
+				scheduledFor: new Date().toISOString(),
+				data: {
+					householdId,
+					...access,
+					invitedBy: ctx.dbUser.name || ctx.dbUser.email,
+				},
+			});
+
+			return {
+				success: true,
+				userExists: true,
+				message: "Temporary access granted",
+			};
+		}),
+
+	// End temporary access immediately
+	revokeTemporaryAccess: ownerProcedure
+		.input(
+			z.object({
+				householdId: z.string(),
+				membershipId: z.string(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const [membership] = await ctx.db
+				.select()
+				.from(memberships)
+				.where(
+					and(
+						eq(memberships.id, input.membershipId),
+						eq(memberships.householdId, input.householdId),
+					),
+				)
+				.limit(1);
+
+			if (!membership) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Membership not found",
+				});
+			}
+
+			if (!isTemporaryMembership(membership)) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Only temporary access can be revoked",
+				});
+			}
+
+			// Marking it expired here stops the expiry job auditing it a second time
+			const now = new Date().toISOString();
+			await ctx.db
+				.update(memberships)
+				.set({ validUntil: now, expiredAt: now, updatedAt: now })
+				.where(eq(memberships.id, membership.id));
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "TEMPORARY_ACCESS_REVOKED",
+				resourceType: "membership",
+				resourceId: membership.id,
+				oldValues: {
+					userId: membership.userId,
+					validFrom: membership.validFrom,
+					validUntil: membership.validUntil,
+				},
+				newValues: { validUntil: now },
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return {
+				success: true,
+				message: "Temporary access revoked",
+			};
+		}),
+
+	// Get the household's escalation policy; null until one is saved
+	getEscalationPolicy: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const [policy] = await ctx.db
+				.select()
+				.from(escalationPolicies)
+				.where(eq(escalationPolicies.householdId, input.householdId))
+				.limit(1);
+
+			return policy ?? null;
+		}),
+
+	// Save how unrecorded doses are re-notified and escalated
+	updateEscalationPolicy: ownerProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				policy: escalationPolicySchema,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { householdId, policy } = input;
+			const leadUserId =
+				policy.escalationTarget === "LEAD" ? policy.leadUserId : null;
+
+			if (leadUserId) {
+				const [lead] = await ctx.db
+					.select({ id: memberships.id })
+					.from(memberships)
+					.where(
+						and(
+							eq(memberships.householdId, householdId),
+							eq(memberships.userId, leadUserId),
+							inArray(memberships.role, ["OWNER", "CAREGIVER"]),
+						),
+					)
+					.limit(1);
+
+				if (!lead) {
+					throw new TRPCError({
+						code: "BAD_REQUEST",
+						message: "The lead must be an owner or caregiver in this household",
+					});
+				}
+			}
+
+			const [existing] = await ctx.db
+				.select()
+				.from(escalationPolicies)
+				.where(eq(escalationPolicies.householdId, householdId))
+				.limit(1);
+
+			const values = {
+				attemptOffsets: policy.attemptOffsets,
+				escalateAfterMinutes: policy.escalateAfterMinutes,
+				escalationTarget: policy.escalationTarget,
+				leadUserId,
+				updatedBy: ctx.dbUser.id,
+				updatedAt: new Date().toISOString(),
+			};
+			const [saved] = await ctx.db
+				.insert(escalationPolicies)
+				.values({ householdId, ...values })
+				.onConflictDoUpdate({
+					target: escalationPolicies.householdId,
+					set: values,
+				})
+				.returning();
+
+			// Queued steps follow the old policy; the next planner run requeues them
+			await cancelDoseReminders(ctx.db, { householdId });
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: existing ? "UPDATE" : "CREATE",
+				resourceType: "escalation_policy",
+				resourceId: saved?.id,
+				oldValues: existing,
+				newValues: values,
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return saved;
+		}),
 });
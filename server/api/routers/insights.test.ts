@@ -0,0 +1,90 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, expect, it, vi } from "vitest";
+import {
+	createAuthenticatedContext,
+	mockSession,
+} from "@/tests/helpers/trpc-utils";
+import { insightsRouter } from "./insights";
+
+vi.mock("@/db/drizzle", async () => ({
+	db: (await import("@/tests/helpers/mock-db")).mockDb,
+	timedOperations: {
+		analytics: (operation: () => Promise<unknown>) => operation(),
+	},
+}));
+
+const dialect = new PgDialect();
+
+describe("insightsRouter", () => {
+	describe("animal restrictions", () => {
+		const allowedAnimalId = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+
+		// Records every query so the test can check each one is scoped
+		async function createRestrictedCaller() {
+			const queries: SQL[] = [];
+			const chain = {
+				from: () => chain,
+				leftJoin: () => chain,
+				innerJoin: () => chain,
+				orderBy: () => chain,
+				limit: () => chain,
+				where: (condition: SQL) => {
+					queries.push(condition);
+					return chain;
+				},
+				execute: () => Promise.resolve([]),
+				// biome-ignore lint/suspicious/noThenProperty: drizzle queries are thenable
+				then: (resolve: (rows: unknown[]) => unknown) => resolve([]),
+			};
+			const db = {
+				select: () => chain,
+				execute: (query: SQL) => {
+					queries.push(query);
+					return Promise.resolve({ rows: [] });
+				},
+			};
+
+			const ctx = await createAuthenticatedContext(mockSession, { db });
+			ctx.currentMembership = {
+				...ctx.currentMembership,
+				animalIds: [allowedAnimalId],
+			} as typeof ctx.currentMembership;
+
+			return {
+				caller: insightsRouter.createCaller(ctx),
+				queries: () => queries.map((query) => dialect.sqlToQuery(query)),
+			};
+		}
+
+		it("scopes every suggestion query to the member's animals", async () => {
+			const { caller, queries } = await createRestrictedCaller();
+
+			await caller.getSuggestions({
+				householdId: mockSession.access.householdId,
+			});
+
+			// Reminder and co-sign patterns, low inventory and interactions
+			expect(queries()).toHaveLength(4);
+			for (const query of queries()) {
+				expect(query.params).toContain(allowedAnimalId);
+			}
+		});
+
+		it("scopes the compliance heatmap to the member's animals", async () => {
+			const { caller, queries } = await createRestrictedCaller();
+
+			await caller.getComplianceHeatmap({
+				householdId: mockSession.access.householdId,
+				range: {
+					from: "2026-01-01T00:00:00.000Z",
+					to: "2026-01-31T00:00:00.000Z",
+				},
+			});
+
+			const [query] = queries();
+			expect(query?.sql).toContain('"vetmed_administrations"."animal_id" in');
+			expect(query?.params).toContain(allowedAnimalId);
+		});
+	});
+});
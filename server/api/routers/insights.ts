@@ -1,4 +1,15 @@
-import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import {
+	and,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNull,
+	lte,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
 import { z } from "zod";
 import { timedOperations } from "@/db/drizzle";
 import {
@@ -6,12 +17,16 @@ import {
 	animals,
 	inventoryItems,
 	medicationCatalog,
+	notificationQueue,
 	regimens,
 } from "@/db/schema";
 import {
 	createTRPCRouter,
 	householdProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { getAnimalInteractions } from "@/server/utils/interactions";
+import { publishNotificationChange } from "@/server/utils/notification-center";
 
 // Types matching the existing mock data structure
 export interface Suggestion {
@@ -21,7 +36,8 @@ export interface Suggestion {
 		| "SHIFT_TIME"
 		| "ENABLE_COSIGN"
 		| "LOW_INVENTORY"
-		| "REFILL_NEEDED";
+		| "REFILL_NEEDED"
+		| "REVIEW_INTERACTION";
 	summary: string;
 	rationale: string;
 	action: {
@@ -112,10 +128,21 @@ function getDayName(dow: number): string {
 	return dayNames[dow] || "Unknown";
 }
 
+// Limit a raw query to the animals a restricted member may see; `column` is
+// the aliased animal id column, e.g. sql`a.id`
+function animalScope(column: SQL, allowedAnimalIds: string[] | null): SQL {
+	if (!allowedAnimalIds) return sql``;
+	return sql`AND ${column} IN (${sql.join(
+		allowedAnimalIds.map((id) => sql`${id}`),
+		sql`, `,
+	)})`;
+}
+
 // Generate reminder suggestions based on compliance patterns
 async function generateReminderSuggestions(
 	db: typeof import("@/db/drizzle").db,
 	householdId: string,
+	allowedAnimalIds: string[] | null,
 ): Promise<Suggestion[]> {
 	const suggestions: Suggestion[] = [];
 
@@ -135,6 +162,7 @@ async function generateReminderSuggestions(
 		JOIN ${medicationCatalog} mc ON r.medication_id = mc.id
 		JOIN ${administrations} a2 ON r.id = a2.regimen_id
 		WHERE a.household_id = ${householdId}
+			${animalScope(sql`a.id`, allowedAnimalIds)}
 			AND r.active = true
 			AND r.schedule_type != 'PRN'
 			AND a2.scheduled_for IS NOT NULL
@@ -185,6 +213,7 @@ async function generateReminderSuggestions(
 async function generateLowInventorySuggestions(
 	db: typeof import("@/db/drizzle").db,
 	householdId: string,
+	allowedAnimalIds: string[] | null,
 ): Promise<Suggestion[]> {
 	const suggestions: Suggestion[] = [];
 
@@ -209,6 +238,13 @@ async function generateLowInventorySuggestions(
 			and(
 				eq(inventoryItems.householdId, householdId),
 				eq(inventoryItems.inUse, true),
+				// Unassigned stock is shared; assigned stock follows its animal
+				allowedAnimalIds
+					? or(
+							isNull(inventoryItems.assignedAnimalId),
+							inArray(inventoryItems.assignedAnimalId, allowedAnimalIds),
+						)
+					: undefined,
 				sql`${inventoryItems.unitsRemaining} <= GREATEST(${inventoryItems.quantityUnits} * 0.2, 3)`,
 			),
 		)
@@ -251,6 +287,7 @@ async function generateLowInventorySuggestions(
 async function generateCoSignSuggestions(
 	db: typeof import("@/db/drizzle").db,
 	householdId: string,
+	allowedAnimalIds: string[] | null,
 ): Promise<Suggestion[]> {
 	const suggestions: Suggestion[] = [];
 
@@ -268,6 +305,7 @@ async function generateCoSignSuggestions(
 		JOIN ${animals} a ON r.animal_id = a.id
 		JOIN ${medicationCatalog} mc ON r.medication_id = mc.id
 		WHERE a.household_id = ${householdId}
+			${animalScope(sql`a.id`, allowedAnimalIds)}
 			AND r.requires_co_sign = false
 			AND r.active = true
 			AND a1.recorded_at > NOW() - INTERVAL '14 days'
@@ -299,6 +337,50 @@ async function generateCoSignSuggestions(
 	return suggestions;
 }
 
+// Flag major and moderate interactions among each animal's active regimens
+async function generateInteractionSuggestions(
+	db: typeof import("@/db/drizzle").db,
+	householdId: string,
+	allowedAnimalIds: string[] | null,
+): Promise<Suggestion[]> {
+	const householdAnimals = await db
+		.select({ id: animals.id, name: animals.name })
+		.from(animals)
+		.where(
+			and(
+				eq(animals.householdId, householdId),
+				isNull(animals.deletedAt),
+				allowedAnimalIds ? inArray(animals.id, allowedAnimalIds) : undefined,
+			),
+		);
+
+	const interactionsByAnimal = await getAnimalInteractions(
+		db,
+		householdAnimals.map((animal) => animal.id),
+	);
+
+	return householdAnimals.flatMap((animal) =>
+		(interactionsByAnimal.get(animal.id) ?? [])
+			.filter((interaction) => interaction.severity !== "MINOR")
+			.map((interaction) => ({
+				id: `review-interaction-${interaction.key}`,
+				type: "REVIEW_INTERACTION" as const,
+				summary: `Review ${interaction.medications.join(" + ")} for ${animal.name}`,
+				rationale: interaction.description,
+				action: {
+					animalId: animal.id,
+					regimenId: interaction.regimenIds[0],
+				},
+				priority:
+					interaction.severity === "MAJOR"
+						? ("high" as const)
+						: ("medium" as const),
+				estimatedImpact:
+					"Confirms with your vet that these medications are safe together",
+			})),
+	);
+}
+
 // Helper function to sort suggestions by priority
 function sortSuggestionsByPriority(suggestions: Suggestion[]): Suggestion[] {
 	const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -311,19 +393,26 @@ function sortSuggestionsByPriority(suggestions: Suggestion[]): Suggestion[] {
 async function generateSuggestions(
 	db: typeof import("@/db/drizzle").db,
 	householdId: string,
+	allowedAnimalIds: string[] | null,
 	limit: number,
 ): Promise<Suggestion[]> {
-	const [reminderSuggestions, inventorySuggestions, coSignSuggestions] =
-		await Promise.all([
-			generateReminderSuggestions(db, householdId),
-			generateLowInventorySuggestions(db, householdId),
-			generateCoSignSuggestions(db, householdId),
-		]);
+	const [
+		reminderSuggestions,
+		inventorySuggestions,
+		coSignSuggestions,
+		interactionSuggestions,
+	] = await Promise.all([
+		generateReminderSuggestions(db, householdId, allowedAnimalIds),
+		generateLowInventorySuggestions(db, householdId, allowedAnimalIds),
+		generateCoSignSuggestions(db, householdId, allowedAnimalIds),
+		generateInteractionSuggestions(db, householdId, allowedAnimalIds),
+	]);
 
 	const allSuggestions = [
 		...reminderSuggestions,
 		...inventorySuggestions,
 		...coSignSuggestions,
+		...interactionSuggestions,
 	];
 
 	return sortSuggestionsByPriority(allSuggestions).slice(0, limit);
@@ -333,12 +422,17 @@ async function generateSuggestions(
 async function generateComplianceHeatmap(
 	db: typeof import("@/db/drizzle").db,
 	householdId: string,
+	allowedAnimalIds: string[] | null,
 	animalId?: string,
 	regimenId?: string,
 	range?: { from: string; to: string },
 ): Promise<{ buckets: HeatmapBucket[] }> {
 	const conditions = [eq(administrations.householdId, householdId)];
 
+	if (allowedAnimalIds) {
+		conditions.push(inArray(administrations.animalId, allowedAnimalIds));
+	}
+
 	if (animalId) {
 		conditions.push(eq(administrations.animalId, animalId));
 	}
@@ -414,7 +508,13 @@ export const insightsRouter = createTRPCRouter({
 		.input(getSuggestionsSchema)
 		.query(async ({ ctx, input }) => {
 			return timedOperations.analytics(
-				() => generateSuggestions(ctx.db, input.householdId, input.limit),
+				() =>
+					generateSuggestions(
+						ctx.db,
+						input.householdId,
+						ctx.allowedAnimalIds,
+						input.limit,
+					),
 				"insights-suggestions-generation",
 			);
 		}),
@@ -428,6 +528,7 @@ export const insightsRouter = createTRPCRouter({
 					generateComplianceHeatmap(
 						ctx.db,
 						input.householdId,
+						ctx.allowedAnimalIds,
 						input.animalId,
 						input.regimenId,
 						input.range,
@@ -439,7 +540,19 @@ export const insightsRouter = createTRPCRouter({
 	// Dismiss a suggestion (placeholder - could store in a dismissals table)
 	dismissSuggestion: householdProcedure
 		.input(dismissSuggestionSchema)
-		.mutation(async ({ ctx: _ctx, input: _input }) => {
+		.mutation(async ({ ctx, input }) => {
+			const dismissedAt = new Date().toISOString();
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "SUGGESTION_DISMISSED",
+				resourceType: "suggestion",
+				// Suggestion ids aren't uuids, so this lands in details.resourceKey
+				resourceId: input.suggestionId,
+				newValues: { dismissedAt },
+				metadata: getAuditMetadata(ctx),
+			});
+
 			// For now, just return success
 			// In a real implementation, you'd store the dismissal in a table
 			// with userId, suggestionId, and dismissedAt timestamp
@@ -453,28 +566,43 @@ export const insightsRouter = createTRPCRouter({
 			//   dismissedAt: new Date().toISOString(),
 			// });
 
-			return { success: true, dismissedAt: new Date().toISOString() };
+			return { success: true, dismissedAt };
 		}),
 
-	// Snooze a reminder suggestion (placeholder)
+	// Snooze the current user's notifications for a suggestion
 	snoozeReminder: householdProcedure
 		.input(snoozeReminderSchema)
-		.mutation(async ({ ctx: _ctx, input }) => {
-			// For now, just return success
-			// In a real implementation, you'd store the snooze in a table
-			// or update the notification queue
-
-			// TODO: Update notification queue with snooze time
-			// await ctx.db.update(notificationQueue)
-			//   .set({ snoozedUntil: input.snoozeUntil })
-			//   .where(and(
-			//     eq(notificationQueue.data->>'suggestionId', input.suggestionId),
-			//     eq(notificationQueue.householdId, input.householdId)
-			//   ));
+		.mutation(async ({ ctx, input }) => {
+			const snoozed = await ctx.db
+				.update(notificationQueue)
+				.set({ snoozedUntil: input.snoozeUntil, readAt: null })
+				.where(
+					and(
+						sql`${notificationQueue.data}->>'suggestionId' = ${input.suggestionId}`,
+						eq(notificationQueue.householdId, input.householdId),
+						eq(notificationQueue.userId, ctx.dbUser.id),
+						isNull(notificationQueue.dismissedAt),
+					),
+				)
+				.returning({ id: notificationQueue.id });
+
+			if (snoozed.length > 0) publishNotificationChange(ctx.dbUser.id);
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "SUGGESTION_SNOOZED",
+				resourceType: "suggestion",
+				resourceId: input.suggestionId,
+				newValues: { snoozedUntil: input.snoozeUntil },
+				details: { notificationIds: snoozed.map(({ id }) => id) },
+				metadata: getAuditMetadata(ctx),
+			});
 
 			return {
 				success: true,
 				snoozedUntil: input.snoozeUntil,
+				snoozed: snoozed.length,
 			};
 		}),
 });
@@ -1,3 +1,5 @@
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
 	createAuthenticatedContext,
@@ -5,11 +7,60 @@ import {
 } from "@/tests/helpers/trpc-utils";
 import { inventoryRouter } from "./inventory";
 
+const dialect = new PgDialect();
+
 describe("inventoryRouter", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
 	});
 
+	describe("list", () => {
+		const allowedAnimalId = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+
+		async function listWith(animalIds: string[] | null) {
+			const where = vi.fn();
+			const chain = {
+				from: () => chain,
+				innerJoin: () => chain,
+				leftJoin: () => chain,
+				where: (condition: SQL) => {
+					where(condition);
+					return chain;
+				},
+				orderBy: () => Promise.resolve([]),
+			};
+
+			const ctx = await createAuthenticatedContext(mockSession, {
+				db: { select: () => chain },
+			});
+			ctx.currentMembership = {
+				...ctx.currentMembership,
+				animalIds,
+			} as typeof ctx.currentMembership;
+
+			await inventoryRouter
+				.createCaller(ctx)
+				.list({ householdId: mockSession.access.householdId });
+
+			return dialect.sqlToQuery(where.mock.calls[0]?.[0]);
+		}
+
+		it("only returns shared stock and a restricted member's animals' stock", async () => {
+			const query = await listWith([allowedAnimalId]);
+
+			expect(query.sql).toContain(
+				'"vetmed_inventory_items"."assigned_animal_id" is null',
+			);
+			expect(query.params).toContain(allowedAnimalId);
+		});
+
+		it("returns every household item for unrestricted members", async () => {
+			const query = await listWith(null);
+
+			expect(query.sql).not.toContain("assigned_animal_id");
+		});
+	});
+
 	describe("create", () => {
 		it("should add a new inventory item", async () => {
 			const ctx = await createAuthenticatedContext(mockSession);
@@ -92,6 +143,54 @@ describe("inventoryRouter", () => {
 		});
 	});
 
+	describe("update", () => {
+		it("should accept a fractional quantity for measured forms", async () => {
+			const ctx = await createAuthenticatedContext(mockSession);
+			const caller = inventoryRouter.createCaller(ctx);
+
+			const set = vi.fn().mockReturnThis();
+			vi.spyOn(ctx.db, "update").mockImplementation(
+				() =>
+					({
+						set,
+						where: vi.fn().mockReturnThis(),
+						returning: vi.fn().mockResolvedValue([
+							{
+								id: "88888888-8888-4888-8888-888888888888",
+								householdId: mockSession.access.householdId,
+								unitsRemaining: 9.5,
+								unitType: "mL",
+							},
+						]),
+					}) as any,
+			);
+
+			const result = await caller.update({
+				id: "88888888-8888-4888-8888-888888888888",
+				householdId: mockSession.access.householdId,
+				unitsRemaining: 9.5,
+			});
+
+			expect(set).toHaveBeenCalledWith(
+				expect.objectContaining({ unitsRemaining: 9.5 }),
+			);
+			expect(result.unitsRemaining).toBe(9.5);
+		});
+
+		it("should reject quantities finer than the column stores", async () => {
+			const ctx = await createAuthenticatedContext(mockSession);
+			const caller = inventoryRouter.createCaller(ctx);
+
+			await expect(
+				caller.update({
+					id: "88888888-8888-4888-8888-888888888888",
+					householdId: mockSession.access.householdId,
+					unitsRemaining: 9.555,
+				}),
+			).rejects.toThrow("at most two decimal places");
+		});
+	});
+
 	describe("updateQuantity", () => {
 		it("should update inventory quantity", async () => {
 			const ctx = await createAuthenticatedContext(mockSession);
@@ -1,4 +1,4 @@
-import { and, count, eq, gte, inArray, isNull } from "drizzle-orm";
+import { and, count, eq, gte, inArray, isNull, or } from "drizzle-orm";
 import { z } from "zod";
 import {
 	administrations,
@@ -7,10 +7,22 @@ import {
 	medicationCatalog,
 	regimens,
 } from "@/db/schema";
+import { unitsRemainingSchema } from "@/lib/schemas/inventory";
 import {
 	createTRPCRouter,
 	householdProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+
+// Unassigned stock is shared; assigned stock follows its animal
+function visibleToMember(allowedAnimalIds: string[] | null) {
+	return allowedAnimalIds
+		? or(
+				isNull(inventoryItems.assignedAnimalId),
+				inArray(inventoryItems.assignedAnimalId, allowedAnimalIds),
+			)
+		: undefined;
+}
 
 export const inventoryRouter = createTRPCRouter({
 	// List inventory items for a household
@@ -63,7 +75,7 @@ export const inventoryRouter = createTRPCRouter({
 					eq(inventoryItems.medicationId, medicationCatalog.id),
 				)
 				.leftJoin(animals, eq(inventoryItems.assignedAnimalId, animals.id))
-				.where(and(...conditions))
+				.where(and(...conditions, visibleToMember(ctx.allowedAnimalIds)))
 				.orderBy(inventoryItems.expiresOn, inventoryItems.lot);
 
 			// Transform results to match frontend expectations
@@ -175,7 +187,7 @@ export const inventoryRouter = createTRPCRouter({
 					.enum(["ROOM", "FRIDGE", "FREEZER", "CONTROLLED"])
 					.default("ROOM"),
 				unitsTotal: z.number().int().positive(),
-				unitsRemaining: z.number().int().min(0).optional(), // Optional, defaults to unitsTotal
+				unitsRemaining: unitsRemainingSchema.optional(), // Optional, defaults to unitsTotal
 				unitType: z.string(),
 				purchaseDate: z.date().optional(),
 				purchasePrice: z.string().optional(),
@@ -242,6 +254,16 @@ export const inventoryRouter = createTRPCRouter({
 					.values(cleanValues)
 					.returning();
 
+				await createAuditLog(ctx.db, {
+					userId: ctx.dbUser.id,
+					householdId: input.householdId,
+					action: "CREATE",
+					resourceType: "inventory_item",
+					resourceId: newItem[0]?.id,
+					newValues: newItem[0],
+					metadata: getAuditMetadata(ctx),
+				});
+
 				return newItem[0];
 			} catch (error: unknown) {
 				const errorObj = error as Error & {
@@ -271,7 +293,7 @@ export const inventoryRouter = createTRPCRouter({
 				lot: z.string().optional(),
 				expiresOn: z.date().optional(),
 				storage: z.enum(["ROOM", "FRIDGE", "FREEZER", "CONTROLLED"]).optional(),
-				unitsRemaining: z.number().int().optional(),
+				unitsRemaining: unitsRemainingSchema.optional(),
 				notes: z.string().optional(),
 				assignedAnimalId: z.string().uuid().nullable().optional(),
 			}),
@@ -304,6 +326,16 @@ export const inventoryRouter = createTRPCRouter({
 				throw new Error("Inventory item not found or already deleted");
 			}
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "UPDATE",
+				resourceType: "inventory_item",
+				resourceId: id,
+				newValues: updated[0],
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return updated[0];
 		}),
 
@@ -342,6 +374,16 @@ export const inventoryRouter = createTRPCRouter({
 				throw new Error("Inventory item not found or already deleted");
 			}
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "UPDATE",
+				resourceType: "inventory_item",
+				resourceId: input.id,
+				newValues: { inUse: input.inUse },
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return updated[0];
 		}),
 
@@ -373,6 +415,16 @@ export const inventoryRouter = createTRPCRouter({
 				throw new Error("Inventory item not found or already deleted");
 			}
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "DELETE",
+				resourceType: "inventory_item",
+				resourceId: input.id,
+				oldValues: deleted[0],
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return deleted[0];
 		}),
 
@@ -405,6 +457,16 @@ export const inventoryRouter = createTRPCRouter({
 				throw new Error("Inventory item not found or already deleted");
 			}
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "UPDATE",
+				resourceType: "inventory_item",
+				resourceId: input.id,
+				newValues: { assignedAnimalId: input.animalId },
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return updated[0];
 		}),
 
@@ -414,7 +476,7 @@ export const inventoryRouter = createTRPCRouter({
 			z.object({
 				id: z.string().uuid(),
 				householdId: z.string().uuid(),
-				quantityChange: z.number().int(), // negative for decrement
+				quantityChange: z.number().multipleOf(0.01), // negative for decrement
 				reason: z.string().optional(),
 			}),
 		)
@@ -458,6 +520,18 @@ export const inventoryRouter = createTRPCRouter({
 				)
 				.returning();
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "QUANTITY_ADJUSTED",
+				resourceType: "inventory_item",
+				resourceId: input.id,
+				oldValues: { unitsRemaining: current[0].unitsRemaining },
+				newValues: { unitsRemaining: newQuantity },
+				details: { quantityChange: input.quantityChange, reason: input.reason },
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return updated[0];
 		}),
 
@@ -497,6 +571,16 @@ export const inventoryRouter = createTRPCRouter({
 				throw new Error("Inventory item not found or already deleted");
 			}
 
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "UPDATE",
+				resourceType: "inventory_item",
+				resourceId: input.id,
+				newValues: updates,
+				metadata: getAuditMetadata(ctx),
+			});
+
 			return updated[0];
 		}),
 
@@ -530,7 +614,9 @@ export const inventoryRouter = createTRPCRouter({
 				})
 				.from(inventoryItems)
 				.leftJoin(animals, eq(inventoryItems.assignedAnimalId, animals.id))
-				.where(and(...inventoryConditions));
+				.where(
+					and(...inventoryConditions, visibleToMember(ctx.allowedAnimalIds)),
+				);
 
 			// Calculate days of supply for each item
 			const daysOfSupplyResults = await Promise.all(
@@ -636,7 +722,7 @@ export const inventoryRouter = createTRPCRouter({
 					medicationCatalog,
 					eq(inventoryItems.medicationId, medicationCatalog.id),
 				)
-				.where(and(...conditions))
+				.where(and(...conditions, visibleToMember(ctx.allowedAnimalIds)))
 				.orderBy(inventoryItems.expiresOn, inventoryItems.lot)
 				.execute();
 
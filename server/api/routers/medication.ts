@@ -1,12 +1,69 @@
 import { TRPCError } from "@trpc/server";
-import { and, desc, eq, ilike, inArray, isNull, or, sql } from "drizzle-orm";
+import { and, desc, eq, inArray } from "drizzle-orm";
 import { z } from "zod";
-import { inventoryItems, medicationCatalog } from "@/db/schema";
 import {
+	catalogPromotionStatusEnum,
+	catalogPromotions,
+	formEnum,
+	households,
+	medicationCatalog,
+	routeEnum,
+	users,
+} from "@/db/schema";
+import {
+	catalogAdminProcedure,
 	createTRPCRouter,
 	householdProcedure,
 	protectedProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	getFrequentMedicationIds,
+	searchMedications,
+	visibleInCatalog,
+	visibleToHousehold,
+} from "@/server/utils/medication-catalog";
+import { rankBySpeciesSafety } from "@/utils/species-safety";
+
+// Fields a household can set on its own custom medications
+const customMedicationSchema = z.object({
+	genericName: z.string().trim().min(1),
+	brandName: z.string().trim().optional(),
+	strength: z.string().trim().optional(),
+	route: z.enum(routeEnum.enumValues),
+	form: z.enum(formEnum.enumValues),
+	controlledSubstance: z.boolean().default(false),
+	drugClass: z.string().trim().optional(),
+	commonDosing: z.string().optional(),
+	warnings: z.string().optional(),
+});
+
+// A household's own catalog entry, or NOT_FOUND
+async function getCustomMedication(
+	db: typeof import("@/db/drizzle").db,
+	householdId: string,
+	medicationId: string,
+) {
+	const [medication] = await db
+		.select()
+		.from(medicationCatalog)
+		.where(
+			and(
+				eq(medicationCatalog.id, medicationId),
+				eq(medicationCatalog.householdId, householdId),
+			),
+		)
+		.limit(1);
+
+	if (!medication) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Custom medication not found in this household",
+		});
+	}
+
+	return medication;
+}
 
 export const medicationRouter = createTRPCRouter({
 	search: protectedProcedure
@@ -14,24 +71,39 @@ export const medicationRouter = createTRPCRouter({
 			z.object({
 				query: z.string().min(1),
 				limit: z.number().min(1).max(50).default(10),
+				// The selected animal's species, to rank and label results by safety
+				species: z.string().min(1).optional(),
+				// Include this household's custom medications
+				householdId: z.string().uuid().optional(),
 			}),
 		)
 		.query(async ({ ctx, input }) => {
-			const { query, limit } = input;
+			const { query, limit, species, householdId } = input;
 
-			const medications = await ctx.db
-				.select()
-				.from(medicationCatalog)
-				.where(
-					or(
-						ilike(medicationCatalog.genericName, `%${query}%`),
-						ilike(medicationCatalog.brandName, `%${query}%`),
-					),
-				)
-				.orderBy(medicationCatalog.genericName, medicationCatalog.brandName)
-				.limit(limit);
+			if (
+				householdId &&
+				!ctx.availableHouseholds.some((h) => h.id === householdId)
+			) {
+				throw new TRPCError({
+					code: "FORBIDDEN",
+					message: "You are not a member of this household",
+				});
+			}
+
+			const medications = await searchMedications(ctx.db, {
+				query,
+				householdId,
+			});
+
+			// Contraindicated medications sink below the rest, keeping match order
+			const ranked = species
+				? rankBySpeciesSafety(medications, species)
+				: medications.map((medication) => ({
+						...medication,
+						safetyForSpecies: null,
+					}));
 
-			return medications;
+			return ranked.slice(0, limit);
 		}),
 
 	getById: protectedProcedure
@@ -44,7 +116,12 @@ export const medicationRouter = createTRPCRouter({
 			const medications = await ctx.db
 				.select()
 				.from(medicationCatalog)
-				.where(eq(medicationCatalog.id, input.id))
+				.where(
+					and(
+						eq(medicationCatalog.id, input.id),
+						visibleInCatalog(ctx.availableHouseholds.map((h) => h.id)),
+					),
+				)
 				.limit(1);
 
 			if (medications.length === 0) {
@@ -69,30 +146,12 @@ export const medicationRouter = createTRPCRouter({
 			const { householdId, limit } = input;
 
 			// Get medications used in inventory items for this household
-			const frequentMeds = await ctx.db
-				.select({
-					medicationId: inventoryItems.medicationId,
-					count: sql<number>`count(*)::int`,
-				})
-				.from(inventoryItems)
-				.where(
-					and(
-						eq(inventoryItems.householdId, householdId),
-						isNull(inventoryItems.deletedAt),
-					),
-				)
-				.groupBy(inventoryItems.medicationId)
-				.orderBy(desc(sql`count(*)`))
-				.limit(limit);
-
-			if (frequentMeds.length === 0) {
-				return [];
-			}
-
-			// Get medication details
-			const medicationIds = frequentMeds
-				.map((fm) => fm.medicationId)
-				.filter((id): id is string => id !== null);
+			const medicationIds = await getFrequentMedicationIds(
+				ctx.db,
+				householdId,
+				limit,
+				ctx.allowedAnimalIds,
+			);
 			if (medicationIds.length === 0) {
 				return [];
 			}
@@ -100,14 +159,249 @@ export const medicationRouter = createTRPCRouter({
 			const medications = await ctx.db
 				.select()
 				.from(medicationCatalog)
-				.where(inArray(medicationCatalog.id, medicationIds));
+				.where(
+					and(
+						inArray(medicationCatalog.id, medicationIds),
+						visibleToHousehold(householdId),
+					),
+				);
 
 			// Sort by usage count
 			const medicationMap = new Map(medications.map((med) => [med.id, med]));
-			return frequentMeds
-				.map((freq) =>
-					freq.medicationId ? medicationMap.get(freq.medicationId) : undefined,
-				)
+			return medicationIds
+				.map((id) => medicationMap.get(id))
 				.filter((med): med is (typeof medications)[0] => med !== undefined);
 		}),
+
+	// The household's custom medications with their latest promotion request
+	listCustom: householdProcedure
+		.input(z.object({ householdId: z.string().uuid() }))
+		.query(async ({ ctx, input }) => {
+			const medications = await ctx.db
+				.select()
+				.from(medicationCatalog)
+				.where(eq(medicationCatalog.householdId, input.householdId))
+				.orderBy(medicationCatalog.genericName, medicationCatalog.brandName);
+
+			const promotions =
+				medications.length > 0
+					? await ctx.db
+							.select()
+							.from(catalogPromotions)
+							.where(
+								inArray(
+									catalogPromotions.medicationId,
+									medications.map((medication) => medication.id),
+								),
+							)
+							.orderBy(desc(catalogPromotions.createdAt))
+					: [];
+
+			return medications.map((medication) => ({
+				...medication,
+				promotion:
+					promotions.find(
+						(promotion) => promotion.medicationId === medication.id,
+					) ?? null,
+			}));
+		}),
+
+	createCustom: householdProcedure
+		.input(customMedicationSchema.extend({ householdId: z.string().uuid() }))
+		.mutation(async ({ ctx, input }) => {
+			const { householdId, ...fields } = input;
+
+			const [medication] = await ctx.db
+				.insert(medicationCatalog)
+				.values({ ...fields, householdId, createdBy: ctx.dbUser.id })
+				.returning();
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: "CREATE",
+				resourceType: "medication",
+				resourceId: medication?.id,
+				newValues: fields,
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return medication;
+		}),
+
+	updateCustom: householdProcedure
+		.input(
+			customMedicationSchema.partial().extend({
+				id: z.string().uuid(),
+				householdId: z.string().uuid(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { id, householdId, ...fields } = input;
+			const existing = await getCustomMedication(ctx.db, householdId, id);
+
+			const [medication] = await ctx.db
+				.update(medicationCatalog)
+				.set({ ...fields, updatedAt: new Date().toISOString() })
+				.where(eq(medicationCatalog.id, id))
+				.returning();
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: "UPDATE",
+				resourceType: "medication",
+				resourceId: id,
+				oldValues: existing,
+				newValues: fields,
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return medication;
+		}),
+
+	// Ask for a custom medication to be added to the shared catalog
+	proposePromotion: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				medicationId: z.string().uuid(),
+				note: z.string().trim().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await getCustomMedication(ctx.db, input.householdId, input.medicationId);
+
+			const [pending] = await ctx.db
+				.select({ id: catalogPromotions.id })
+				.from(catalogPromotions)
+				.where(
+					and(
+						eq(catalogPromotions.medicationId, input.medicationId),
+						eq(catalogPromotions.status, "PENDING"),
+					),
+				)
+				.limit(1);
+
+			if (pending) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "This medication is already awaiting review",
+				});
+			}
+
+			const [promotion] = await ctx.db
+				.insert(catalogPromotions)
+				.values({
+					medicationId: input.medicationId,
+					householdId: input.householdId,
+					proposedBy: ctx.dbUser.id,
+					note: input.note,
+				})
+				.returning();
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: input.householdId,
+				action: "CATALOG_PROMOTION_PROPOSED",
+				resourceType: "medication",
+				resourceId: input.medicationId,
+				details: { promotionId: promotion?.id, note: input.note },
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return promotion;
+		}),
+
+	// Promotion requests for catalog admins to review
+	listPromotions: catalogAdminProcedure
+		.input(
+			z.object({
+				status: z
+					.enum(catalogPromotionStatusEnum.enumValues)
+					.default("PENDING"),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return ctx.db
+				.select({
+					promotion: catalogPromotions,
+					medication: medicationCatalog,
+					householdName: households.name,
+					proposedBy: { name: users.name, email: users.email },
+				})
+				.from(catalogPromotions)
+				.innerJoin(
+					medicationCatalog,
+					eq(catalogPromotions.medicationId, medicationCatalog.id),
+				)
+				.innerJoin(households, eq(catalogPromotions.householdId, households.id))
+				.innerJoin(users, eq(catalogPromotions.proposedBy, users.id))
+				.where(eq(catalogPromotions.status, input.status))
+				.orderBy(catalogPromotions.createdAt);
+		}),
+
+	// Approving moves the medication into the shared catalog for everyone
+	reviewPromotion: catalogAdminProcedure
+		.input(
+			z.object({
+				id: z.string().uuid(),
+				approve: z.boolean(),
+				reviewNote: z.string().trim().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const [promotion] = await ctx.db
+				.select()
+				.from(catalogPromotions)
+				.where(eq(catalogPromotions.id, input.id))
+				.limit(1);
+
+			if (!promotion) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Promotion request not found",
+				});
+			}
+			if (promotion.status !== "PENDING") {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: "This promotion request has already been reviewed",
+				});
+			}
+
+			const status = input.approve ? "APPROVED" : "REJECTED";
+			const now = new Date().toISOString();
+
+			await ctx.db.transaction(async (tx) => {
+				await tx
+					.update(catalogPromotions)
+					.set({
+						status,
+						reviewedBy: ctx.dbUser.id,
+						reviewedAt: now,
+						reviewNote: input.reviewNote,
+					})
+					.where(eq(catalogPromotions.id, input.id));
+
+				if (input.approve) {
+					await tx
+						.update(medicationCatalog)
+						.set({ householdId: null, updatedAt: now })
+						.where(eq(medicationCatalog.id, promotion.medicationId));
+				}
+			});
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: promotion.householdId,
+				action: `CATALOG_PROMOTION_${status}`,
+				resourceType: "medication",
+				resourceId: promotion.medicationId,
+				details: { promotionId: promotion.id, reviewNote: input.reviewNote },
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return { success: true, status };
+		}),
 });
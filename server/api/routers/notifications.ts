@@ -0,0 +1,215 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { notificationQueue } from "@/db/schema";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+} from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	afterNotificationCursor,
+	decodeNotificationCursor,
+	encodeNotificationCursor,
+	getUnreadNotificationCount,
+	getVisibleAt,
+	notificationOrder,
+	publishNotificationChange,
+	visibleNotifications,
+} from "@/server/utils/notification-center";
+
+type Database = typeof import("@/db/drizzle").db;
+type AuditedContext = Parameters<typeof getAuditMetadata>[0] & {
+	db: Database;
+	dbUser: { id: string };
+};
+
+const notificationIdSchema = z.object({ id: z.string().uuid() });
+
+// Mark, dismiss or snooze one of the current user's notifications
+async function updateOwnNotification(
+	ctx: AuditedContext,
+	id: string,
+	action: string,
+	values: Partial<typeof notificationQueue.$inferInsert>,
+) {
+	const [updated] = await ctx.db
+		.update(notificationQueue)
+		.set(values)
+		.where(
+			and(
+				eq(notificationQueue.id, id),
+				eq(notificationQueue.userId, ctx.dbUser.id),
+			),
+		)
+		.returning({
+			id: notificationQueue.id,
+			householdId: notificationQueue.householdId,
+		});
+
+	if (!updated) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Notification not found",
+		});
+	}
+
+	publishNotificationChange(ctx.dbUser.id);
+	await createAuditLog(ctx.db, {
+		userId: ctx.dbUser.id,
+		householdId: updated.householdId,
+		action,
+		resourceType: "notification",
+		resourceId: updated.id,
+		newValues: values,
+		metadata: getAuditMetadata(ctx),
+	});
+	return updated;
+}
+
+// The current user's notification center, across all of their households
+export const notificationsRouter = createTRPCRouter({
+	list: protectedProcedure
+		.input(
+			z.object({
+				cursor: z.string().nullish(),
+				limit: z.number().int().min(1).max(50).default(20),
+				unreadOnly: z.boolean().default(false),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const cursor = input.cursor
+				? decodeNotificationCursor(input.cursor)
+				: null;
+			if (input.cursor && !cursor) {
+				throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+			}
+
+			const conditions = [visibleNotifications(ctx.dbUser.id, new Date())];
+			if (input.unreadOnly) conditions.push(isNull(notificationQueue.readAt));
+			if (cursor) conditions.push(afterNotificationCursor(cursor));
+
+			// One extra row tells whether there's another page
+			const rows = await ctx.db
+				.select({
+					id: notificationQueue.id,
+					householdId: notificationQueue.householdId,
+					type: notificationQueue.type,
+					title: notificationQueue.title,
+					body: notificationQueue.body,
+					data: notificationQueue.data,
+					scheduledFor: notificationQueue.scheduledFor,
+					snoozedUntil: notificationQueue.snoozedUntil,
+					readAt: notificationQueue.readAt,
+				})
+				.from(notificationQueue)
+				.where(and(...conditions))
+				.orderBy(...notificationOrder)
+				.limit(input.limit + 1);
+
+			const page = rows.slice(0, input.limit);
+			const last = page.at(-1);
+			const items = page.map(({ data, snoozedUntil, scheduledFor, ...row }) => {
+				const url = (data as { url?: unknown } | null)?.url;
+				return {
+					...row,
+					visibleAt: getVisibleAt({ scheduledFor, snoozedUntil }),
+					url: typeof url === "string" ? url : null,
+				};
+			});
+
+			return {
+				items,
+				nextCursor:
+					rows.length > input.limit && last
+						? encodeNotificationCursor({
+								visibleAt: getVisibleAt(last),
+								id: last.id,
+							})
+						: null,
+			};
+		}),
+
+	unreadCount: protectedProcedure.query(async ({ ctx }) => ({
+		count: await getUnreadNotificationCount(ctx.db, ctx.dbUser.id),
+	})),
+
+	markRead: protectedProcedure
+		.input(notificationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await updateOwnNotification(ctx, input.id, "NOTIFICATION_READ", {
+				readAt: new Date().toISOString(),
+			});
+			return { success: true };
+		}),
+
+	// Only what the user can currently see; snoozed and upcoming rows stay unread
+	markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+		const now = new Date();
+		const updated = await ctx.db
+			.update(notificationQueue)
+			.set({ readAt: now.toISOString() })
+			.where(
+				and(
+					visibleNotifications(ctx.dbUser.id, now),
+					isNull(notificationQueue.readAt),
+				),
+			)
+			.returning({
+				id: notificationQueue.id,
+				householdId: notificationQueue.householdId,
+			});
+
+		if (updated.length > 0) publishNotificationChange(ctx.dbUser.id);
+
+		// One entry per household chain the notifications belong to
+		const idsByHousehold = new Map<string, string[]>();
+		for (const { id, householdId } of updated) {
+			idsByHousehold.set(householdId, [
+				...(idsByHousehold.get(householdId) ?? []),
+				id,
+			]);
+		}
+		for (const [householdId, notificationIds] of idsByHousehold) {
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId,
+				action: "NOTIFICATIONS_READ",
+				resourceType: "notification",
+				newValues: { readAt: now.toISOString() },
+				details: { notificationIds },
+				metadata: getAuditMetadata(ctx),
+			});
+		}
+
+		return { updated: updated.length };
+	}),
+
+	dismiss: protectedProcedure
+		.input(notificationIdSchema)
+		.mutation(async ({ ctx, input }) => {
+			await updateOwnNotification(ctx, input.id, "NOTIFICATION_DISMISSED", {
+				dismissedAt: new Date().toISOString(),
+			});
+			return { success: true };
+		}),
+
+	// Hide a notification until later; it comes back unread, and a reminder
+	// not yet delivered waits to be pushed until then too
+	snooze: protectedProcedure
+		.input(notificationIdSchema.extend({ until: z.string().datetime() }))
+		.mutation(async ({ ctx, input }) => {
+			if (new Date(input.until) <= new Date()) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Snooze time must be in the future",
+				});
+			}
+
+			await updateOwnNotification(ctx, input.id, "NOTIFICATION_SNOOZED", {
+				snoozedUntil: input.until,
+				readAt: null,
+			});
+			return { success: true, snoozedUntil: input.until };
+		}),
+});
@@ -0,0 +1,158 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { pushSubscriptions } from "@/db/schema";
+import {
+	createTRPCRouter,
+	protectedProcedure,
+} from "@/server/api/trpc/clerk-init";
+import {
+	createAuditLog,
+	getAuditMetadata,
+	getUserAuditHouseholdId,
+} from "@/server/utils/audit-log";
+import {
+	getPushEndpointError,
+	isWebPushConfigured,
+	sendPushToUser,
+} from "@/server/utils/web-push";
+
+type Database = typeof import("@/db/drizzle").db;
+
+const base64url = z.string().regex(/^[A-Za-z0-9_-]+$/, "Must be base64url");
+
+// Push devices belong to the user, so their audit entries go to the user's
+// household chain. Endpoints are bearer URLs and stay out of the log.
+async function auditPushChange(
+	ctx: Parameters<typeof getAuditMetadata>[0] & {
+		db: Database;
+		dbUser: { id: string };
+		currentHouseholdId: string | null;
+		availableHouseholds: { id: string }[];
+	},
+	action: string,
+	entry: { resourceId?: string; details?: Record<string, unknown> } = {},
+) {
+	const householdId = getUserAuditHouseholdId(ctx);
+	if (!householdId) return;
+
+	await createAuditLog(ctx.db, {
+		userId: ctx.dbUser.id,
+		householdId,
+		action,
+		resourceType: "push_subscription",
+		...entry,
+		metadata: getAuditMetadata(ctx),
+	});
+}
+
+export const pushRouter = createTRPCRouter({
+	// Public VAPID key browsers subscribe with; null when push isn't set up
+	getPublicKey: protectedProcedure.query(() => ({
+		publicKey: isWebPushConfigured()
+			? (process.env.VAPID_PUBLIC_KEY ?? null)
+			: null,
+	})),
+
+	subscribe: protectedProcedure
+		.input(
+			z.object({
+				endpoint: z
+					.string()
+					.url()
+					.refine((endpoint) => !getPushEndpointError(endpoint), {
+						message: "Push endpoint must be a public https URL",
+					}),
+				keys: z.object({ p256dh: base64url, auth: base64url }),
+				userAgent: z.string().max(500).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// A browser re-subscribing (or a new user on a shared device) takes
+			// over the endpoint
+			const [subscription] = await ctx.db
+				.insert(pushSubscriptions)
+				.values({
+					userId: ctx.dbUser.id,
+					endpoint: input.endpoint,
+					p256dh: input.keys.p256dh,
+					auth: input.keys.auth,
+					userAgent: input.userAgent,
+				})
+				.onConflictDoUpdate({
+					target: pushSubscriptions.endpoint,
+					set: {
+						userId: ctx.dbUser.id,
+						p256dh: input.keys.p256dh,
+						auth: input.keys.auth,
+						userAgent: input.userAgent,
+					},
+				})
+				.returning({ id: pushSubscriptions.id });
+
+			await auditPushChange(ctx, "PUSH_SUBSCRIBED", {
+				resourceId: subscription?.id,
+				details: { userAgent: input.userAgent },
+			});
+
+			return { id: subscription?.id };
+		}),
+
+	unsubscribe: protectedProcedure
+		.input(z.object({ endpoint: z.string().url() }))
+		.mutation(async ({ ctx, input }) => {
+			const removed = await ctx.db
+				.delete(pushSubscriptions)
+				.where(
+					and(
+						eq(pushSubscriptions.endpoint, input.endpoint),
+						eq(pushSubscriptions.userId, ctx.dbUser.id),
+					),
+				)
+				.returning({ id: pushSubscriptions.id });
+
+			for (const { id } of removed) {
+				await auditPushChange(ctx, "PUSH_UNSUBSCRIBED", { resourceId: id });
+			}
+
+			return { success: true };
+		}),
+
+	// Send a test notification to all of the current user's devices
+	sendTest: protectedProcedure.mutation(async ({ ctx }) => {
+		if (!isWebPushConfigured()) {
+			throw new TRPCError({
+				code: "PRECONDITION_FAILED",
+				message: "Push notifications are not configured on this server",
+			});
+		}
+
+		const result = await sendPushToUser(ctx.db, ctx.dbUser.id, {
+			title: "Test notification",
+			body: "Push notifications are working on this device.",
+			url: "/settings/notifications",
+			tag: "test-notification",
+		});
+
+		await auditPushChange(ctx, "PUSH_TEST_SENT", {
+			details: {
+				sent: result.sent,
+				pruned: result.pruned,
+				failed: result.failed,
+			},
+		});
+
+		if (result.sent === 0) {
+			throw new TRPCError({
+				code: "PRECONDITION_FAILED",
+				message:
+					result.failed > 0
+						? "Push delivery failed on every subscribed device"
+						: "No devices are subscribed to push notifications",
+			});
+		}
+
+		// Delivery errors stay server-side
+		return { sent: result.sent, pruned: result.pruned, failed: result.failed };
+	}),
+});
@@ -240,4 +240,108 @@ describe("regimenRouter", () => {
 			).rejects.toThrow("NOT_FOUND");
 		});
 	});
+
+	describe("animal restrictions", () => {
+		const allowedAnimalId = "dddddddd-dddd-4ddd-8ddd-dddddddddddd";
+		const otherAnimalId = "ffffffff-ffff-4fff-8fff-ffffffffffff";
+		const regimenId = "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa";
+
+		// A sitter who may only see one of the household's animals
+		async function createRestrictedCaller(regimenAnimalId: string) {
+			const ctx = await createAuthenticatedContext(mockSession);
+			ctx.currentMembership = {
+				...ctx.currentMembership,
+				animalIds: [allowedAnimalId],
+			} as typeof ctx.currentMembership;
+
+			const row = {
+				regimen: {
+					id: regimenId,
+					animalId: regimenAnimalId,
+					pausedAt: null,
+				},
+				animal: { id: regimenAnimalId, name: "Buddy" },
+				medication: { id: "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb" },
+			};
+			vi.spyOn(ctx.db, "select").mockImplementation(() => {
+				const chain = {
+					from: () => chain,
+					innerJoin: () => chain,
+					where: () => chain,
+					limit: () => Promise.resolve([row]),
+				};
+				return chain as any;
+			});
+			const update = vi.spyOn(ctx.db, "update");
+
+			return { caller: regimenRouter.createCaller(ctx), row, update };
+		}
+
+		it("refuses regimens of animals the member can't see", async () => {
+			const { caller, update } = await createRestrictedCaller(otherAnimalId);
+			const input = {
+				id: regimenId,
+				householdId: mockSession.access.householdId,
+			};
+
+			await expect(caller.getById(input)).rejects.toThrow(
+				"You don't have access to this animal",
+			);
+			await expect(
+				caller.pause({ ...input, reason: "Vet visit" }),
+			).rejects.toThrow("You don't have access to this animal");
+			await expect(caller.delete(input)).rejects.toThrow(
+				"You don't have access to this animal",
+			);
+			expect(update).not.toHaveBeenCalled();
+		});
+
+		it("refuses safety previews for animals the member can't see", async () => {
+			const { caller } = await createRestrictedCaller(otherAnimalId);
+			const input = {
+				householdId: mockSession.access.householdId,
+				animalId: otherAnimalId,
+				medicationId: "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb",
+			};
+
+			await expect(caller.getInteractions(input)).rejects.toThrow(
+				"You don't have access to this animal",
+			);
+			await expect(caller.getContraindications(input)).rejects.toThrow(
+				"You don't have access to this animal",
+			);
+		});
+
+		it("refuses interaction previews for animals outside the household", async () => {
+			const ctx = await createAuthenticatedContext(mockSession);
+			vi.spyOn(ctx.db, "select").mockImplementation(() => {
+				const chain = {
+					from: () => chain,
+					where: () => chain,
+					limit: () => Promise.resolve([]),
+				};
+				return chain as any;
+			});
+			const caller = regimenRouter.createCaller(ctx);
+
+			await expect(
+				caller.getInteractions({
+					householdId: mockSession.access.householdId,
+					animalId: otherAnimalId,
+					medicationId: "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb",
+				}),
+			).rejects.toThrow("Animal not found in this household");
+		});
+
+		it("allows regimens of the member's own animals", async () => {
+			const { caller, row } = await createRestrictedCaller(allowedAnimalId);
+
+			await expect(
+				caller.getById({
+					id: regimenId,
+					householdId: mockSession.access.householdId,
+				}),
+			).resolves.toEqual(row);
+		});
+	});
 });
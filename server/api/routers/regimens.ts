@@ -1,20 +1,48 @@
 import { TRPCError } from "@trpc/server";
-import { and, eq, gte, isNull, lte, or } from "drizzle-orm";
+import { and, eq, gte, inArray, isNull, lte, or } from "drizzle-orm";
 import { z } from "zod";
 import {
 	administrations,
 	animals,
+	intervalModeEnum,
 	medicationCatalog,
 	type NewRegimen,
 	regimens,
 	scheduleTypeEnum,
 } from "@/db/schema";
+import { taperStepsSchema } from "@/lib/schemas/regimen";
 import {
+	assertAnimalAccess,
 	createTRPCRouter,
 	householdProcedure,
-	protectedProcedure,
 } from "@/server/api/trpc/clerk-init";
-import { createAuditLog } from "@/server/utils/audit-log";
+import {
+	type AdherenceSummary,
+	getAdherenceSummaries,
+	invalidateAdherence,
+} from "@/server/utils/adherence";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { getContraindicationWarnings } from "@/server/utils/contraindications";
+import { getRegimenInteractions } from "@/server/utils/interactions";
+import { getLastDoseTimes } from "@/server/utils/last-dose";
+import { visibleToHousehold } from "@/server/utils/medication-catalog";
+import { cancelDoseReminders } from "@/server/utils/reminders";
+import {
+	type ContraindicationAnimal,
+	type ContraindicationMedication,
+	type ContraindicationWarning,
+	getUnacknowledgedWarnings,
+} from "@/utils/contraindications";
+import {
+	computeIntervalDueTime,
+	getIntervalAnchor,
+	getTaperEndDate,
+	type IntervalMode,
+	resolveDailySchedule,
+	type TaperStep,
+} from "@/utils/schedule";
+import { getSpeciesSafety, type SpeciesSafety } from "@/utils/species-safety";
+import { localDayISO } from "@/utils/tz";
 
 // Types for regimen processing
 interface ProcessedRegimen {
@@ -34,11 +62,18 @@ interface ProcessedRegimen {
 	isHighRisk: boolean;
 	requiresCoSign: boolean;
 	compliance: number;
+	adherence: AdherenceSummary | null;
 	section: "due" | "later" | "prn";
 	isOverdue: boolean;
 	minutesUntilDue: number;
 	instructions: string | null;
 	prnReason: string | null;
+	taperStep: {
+		number: number;
+		totalSteps: number;
+		dayOfStep: number;
+		durationDays: number;
+	} | null;
 	lastAdministration: {
 		id: string;
 		recordedAt: string;
@@ -124,8 +159,7 @@ function calculateDueStatus(
 	includeUpcoming: boolean,
 ): DueStatusResult {
 	if (
-		regimen.scheduleType === "PRN" ||
-		regimen.scheduleType !== "FIXED" ||
+		(regimen.scheduleType !== "FIXED" && regimen.scheduleType !== "TAPER") ||
 		!regimen.timesLocal
 	) {
 		return createPRNResult();
@@ -156,12 +190,58 @@ function calculateDueStatus(
 	return createPRNResult();
 }
 
+// Helper function to calculate due status for an INTERVAL regimen
+function calculateIntervalDueStatus(
+	regimen: {
+		intervalHours: number;
+		intervalMode: IntervalMode;
+		startDate: string;
+		timesLocal: string[] | null;
+		cutoffMinutes: number;
+	},
+	animal: {
+		timezone: string;
+	},
+	lastDoseAt: Date | null,
+	now: Date,
+	includeUpcoming: boolean,
+): DueStatusResult {
+	const dueAt = computeIntervalDueTime({
+		intervalHours: regimen.intervalHours,
+		mode: regimen.intervalMode,
+		anchor: getIntervalAnchor(regimen, animal.timezone),
+		lastDoseAt,
+		now,
+		cutoffMinutes: regimen.cutoffMinutes,
+	});
+
+	const minutesUntilDue = Math.round(
+		(dueAt.getTime() - now.getTime()) / (1000 * 60),
+	);
+
+	return {
+		// Interval doses stay due until given; missed slots are skipped upstream
+		section:
+			minutesUntilDue < 60
+				? "due"
+				: determineSection(minutesUntilDue, includeUpcoming),
+		targetTime: dueAt.toISOString(),
+		isOverdue: minutesUntilDue < 0,
+		minutesUntilDue,
+	};
+}
+
 // Type for database row
 interface RegimenRow {
 	regimen: {
 		id: string;
 		scheduleType: string;
 		timesLocal: string[] | null;
+		intervalHours: number | null;
+		intervalMode: IntervalMode;
+		taperSteps: TaperStep[] | null;
+		startDate: string;
+		cutoffMinutes: number;
 		route: string | null;
 		dose: string | null;
 		highRisk: boolean;
@@ -195,13 +275,34 @@ function processRegimenRow(
 	row: RegimenRow,
 	now: Date,
 	includeUpcoming: boolean,
+	lastDoseAt: Date | null,
+	adherence: AdherenceSummary | null,
 ): ProcessedRegimen {
 	const { regimen, animal, medication, lastAdmin } = row;
 
-	const dueStatus = calculateDueStatus(regimen, animal, now, includeUpcoming);
-
-	// Calculate compliance (mock for now)
-	const compliance = 85 + Math.floor(Math.random() * 15);
+	// FIXED times, or the active taper step's times for the animal's local day
+	const schedule = resolveDailySchedule(
+		regimen,
+		localDayISO(now, animal.timezone),
+	);
+	const dueStatus =
+		regimen.scheduleType === "INTERVAL" && regimen.intervalHours
+			? calculateIntervalDueStatus(
+					{ ...regimen, intervalHours: regimen.intervalHours },
+					animal,
+					lastDoseAt,
+					now,
+					includeUpcoming,
+				)
+			: calculateDueStatus(
+					{
+						scheduleType: regimen.scheduleType,
+						timesLocal: schedule?.timesLocal ?? null,
+					},
+					animal,
+					now,
+					includeUpcoming,
+				);
 
 	return {
 		id: regimen.id,
@@ -214,17 +315,26 @@ function processRegimenRow(
 		route: regimen.route || medication.route,
 		form: medication.form,
 		strength: medication.strength || "",
-		dose: regimen.dose || "",
+		dose: schedule?.dose || regimen.dose || "",
 		targetTime: dueStatus.targetTime,
 		isPRN: regimen.scheduleType === "PRN",
 		isHighRisk: regimen.highRisk,
 		requiresCoSign: regimen.requiresCoSign,
-		compliance,
+		compliance: adherence?.percentage ?? 100,
+		adherence,
 		section: dueStatus.section,
 		isOverdue: dueStatus.isOverdue,
 		minutesUntilDue: dueStatus.minutesUntilDue,
 		instructions: regimen.instructions,
 		prnReason: regimen.prnReason,
+		taperStep: schedule?.taperStep
+			? {
+					number: schedule.taperStep.index + 1,
+					totalSteps: regimen.taperSteps?.length ?? 0,
+					dayOfStep: schedule.taperStep.dayOfStep,
+					durationDays: schedule.taperStep.step.durationDays,
+				}
+			: null,
 		lastAdministration: lastAdmin,
 	};
 }
@@ -247,6 +357,126 @@ function sortByUrgency(a: ProcessedRegimen, b: ProcessedRegimen): number {
 	return 0;
 }
 
+// Helper to validate the fields each schedule type depends on
+function validateScheduleConstraints(data: {
+	scheduleType: string;
+	timesLocal?: string[];
+	intervalHours?: number;
+	prnReason?: string;
+	taperSteps?: TaperStep[];
+}) {
+	if (
+		data.scheduleType === "FIXED" &&
+		(!data.timesLocal || data.timesLocal.length === 0)
+	) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "FIXED schedule requires at least one time",
+		});
+	}
+
+	if (data.scheduleType === "INTERVAL" && !data.intervalHours) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "INTERVAL schedule requires intervalHours",
+		});
+	}
+
+	if (data.scheduleType === "PRN" && !data.prnReason) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "PRN schedule requires prnReason",
+		});
+	}
+
+	if (data.scheduleType === "TAPER" && !data.taperSteps) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "TAPER schedule requires taperSteps",
+		});
+	}
+}
+
+/**
+ * Contraindications for giving the medication to the animal. Severe ones not
+ * acknowledged before must be acknowledged explicitly, or the save is refused.
+ */
+async function checkContraindications(
+	db: typeof import("@/db/drizzle").db,
+	medication: ContraindicationMedication,
+	animal: ContraindicationAnimal,
+	{
+		acknowledge,
+		acknowledged = [],
+	}: { acknowledge: boolean; acknowledged?: string[] },
+) {
+	const warnings = await getContraindicationWarnings(db, medication, animal);
+	const unacknowledged = getUnacknowledgedWarnings(warnings, acknowledged);
+
+	if (unacknowledged.length > 0 && !acknowledge) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `Severe contraindications must be acknowledged: ${unacknowledged
+				.map((warning) => warning.reason)
+				.join("; ")}`,
+		});
+	}
+
+	return { warnings, unacknowledged };
+}
+
+// Record who acknowledged which severe contraindications for a regimen
+async function logContraindicationAcknowledgement(
+	ctx: Parameters<typeof getAuditMetadata>[0] & {
+		db: typeof import("@/db/drizzle").db;
+		dbUser: { id: string };
+	},
+	householdId: string,
+	regimenId: string | undefined,
+	warnings: ContraindicationWarning[],
+) {
+	if (warnings.length === 0) return;
+	await createAuditLog(ctx.db, {
+		userId: ctx.dbUser.id,
+		householdId,
+		action: "CONTRAINDICATION_ACKNOWLEDGED",
+		resourceType: "regimen",
+		resourceId: regimenId,
+		details: { contraindications: warnings },
+		metadata: getAuditMetadata(ctx),
+	});
+}
+
+/**
+ * Medications the catalog marks as contraindicated for the animal's species
+ * are refused outright unless a household owner overrides with a reason.
+ */
+function checkSpeciesSafety(
+	medication: { genericName: string; speciesSafety: SpeciesSafety },
+	species: string,
+	{ role, overrideReason }: { role: string; overrideReason?: string },
+) {
+	const safety = getSpeciesSafety(medication.speciesSafety, species);
+	if (safety?.level !== "CONTRAINDICATED") return null;
+
+	if (!overrideReason) {
+		throw new TRPCError({
+			code: "PRECONDITION_FAILED",
+			message: `${medication.genericName} is contraindicated for ${species}${
+				safety.note ? `: ${safety.note}` : ""
+			}. A household owner must override with a reason.`,
+		});
+	}
+	if (role !== "OWNER") {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "Only a household owner can override a species contraindication",
+		});
+	}
+
+	return safety;
+}
+
 export const regimenRouter = createTRPCRouter({
 	// List all regimens for a household
 	list: householdProcedure
@@ -267,6 +497,10 @@ export const regimenRouter = createTRPCRouter({
 				conditions.push(eq(regimens.animalId, input.animalId));
 			}
 
+			if (ctx.allowedAnimalIds) {
+				conditions.push(inArray(regimens.animalId, ctx.allowedAnimalIds));
+			}
+
 			if (input.activeOnly) {
 				conditions.push(eq(regimens.active, true));
 			}
@@ -290,23 +524,17 @@ export const regimenRouter = createTRPCRouter({
 		}),
 
 	// List due medications for recording
-	listDue: protectedProcedure
+	listDue: householdProcedure
 		.input(
 			z.object({
 				householdId: z.string().uuid().optional(),
 				animalId: z.string().uuid().optional(),
 				includeUpcoming: z.boolean().default(true), // Include "later today"
+				adherenceWindowDays: z.number().int().min(1).max(90).default(7),
 			}),
 		)
 		.query(async ({ ctx, input }) => {
-			// Use household from context or input
-			const householdId = input.householdId || ctx.currentHouseholdId;
-			if (!householdId) {
-				throw new TRPCError({
-					code: "BAD_REQUEST",
-					message: "householdId is required",
-				});
-			}
+			const householdId = ctx.householdId;
 
 			const now = new Date();
 			const startOfDay = new Date(now);
@@ -331,6 +559,10 @@ export const regimenRouter = createTRPCRouter({
 				baseConditions.push(eq(regimens.animalId, input.animalId));
 			}
 
+			if (ctx.allowedAnimalIds) {
+				baseConditions.push(inArray(regimens.animalId, ctx.allowedAnimalIds));
+			}
+
 			// Get active regimens with their animals and medications
 			const activeRegimens = await ctx.db
 				.select({
@@ -361,9 +593,36 @@ export const regimenRouter = createTRPCRouter({
 				.where(and(...baseConditions))
 				.orderBy(animals.name);
 
+			// INTERVAL regimens are due relative to their last non-missed dose
+			const lastDoses = await getLastDoseTimes(
+				ctx.db,
+				activeRegimens
+					.filter((row) => row.regimen.scheduleType === "INTERVAL")
+					.map((row) => row.regimen.id),
+			);
+
+			// Adherence against expected slots; PRN regimens have none
+			const adherence = await getAdherenceSummaries(
+				ctx.db,
+				activeRegimens
+					.filter((row) => row.regimen.scheduleType !== "PRN")
+					.map((row) => ({
+						regimen: row.regimen,
+						timezone: row.animal.timezone,
+					})),
+				input.adherenceWindowDays,
+				now,
+			);
+
 			// Process regimens to determine due status
 			const dueRegimens = activeRegimens.map((row) =>
-				processRegimenRow(row, now, input.includeUpcoming),
+				processRegimenRow(
+					row,
+					now,
+					input.includeUpcoming,
+					lastDoses.get(row.regimen.id) ?? null,
+					adherence.get(row.regimen.id) ?? null,
+				),
 			);
 
 			// Sort by urgency
@@ -408,10 +667,150 @@ export const regimenRouter = createTRPCRouter({
 					message: "Regimen not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, result[0].regimen.animalId);
 
 			return result[0];
 		}),
 
+	// Preview contraindications before saving a regimen; for an existing
+	// regimen, also the warnings already acknowledged for it
+	getContraindications: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid(),
+				medicationId: z.string().uuid(),
+				regimenId: z.string().uuid().optional(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const [animal] = await ctx.db
+				.select({
+					species: animals.species,
+					allergies: animals.allergies,
+					conditions: animals.conditions,
+				})
+				.from(animals)
+				.where(
+					and(
+						eq(animals.id, input.animalId),
+						eq(animals.householdId, input.householdId),
+						isNull(animals.deletedAt),
+					),
+				)
+				.limit(1);
+
+			const [medication] = await ctx.db
+				.select({
+					genericName: medicationCatalog.genericName,
+					brandName: medicationCatalog.brandName,
+					drugClass: medicationCatalog.drugClass,
+					speciesSafety: medicationCatalog.speciesSafety,
+				})
+				.from(medicationCatalog)
+				.where(
+					and(
+						eq(medicationCatalog.id, input.medicationId),
+						visibleToHousehold(input.householdId),
+					),
+				)
+				.limit(1);
+
+			if (!animal || !medication) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Animal or medication not found",
+				});
+			}
+			assertAnimalAccess(ctx.membership, input.animalId);
+
+			const [regimen] = input.regimenId
+				? await ctx.db
+						.select({
+							acknowledged: regimens.acknowledgedContraindications,
+						})
+						.from(regimens)
+						.where(
+							and(
+								eq(regimens.id, input.regimenId),
+								eq(regimens.animalId, input.animalId),
+							),
+						)
+						.limit(1)
+				: [];
+
+			return {
+				warnings: await getContraindicationWarnings(ctx.db, medication, animal),
+				acknowledged: regimen?.acknowledged ?? [],
+				speciesSafety: getSpeciesSafety(
+					medication.speciesSafety,
+					animal.species,
+				),
+				canOverrideSpecies: ctx.membership.role === "OWNER",
+			};
+		}),
+
+	// Preview interactions between a medication and the animal's other active
+	// regimens before saving
+	getInteractions: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid(),
+				medicationId: z.string().uuid(),
+				regimenId: z.string().uuid().optional(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const [animal] = await ctx.db
+				.select({ id: animals.id })
+				.from(animals)
+				.where(
+					and(
+						eq(animals.id, input.animalId),
+						eq(animals.householdId, ctx.householdId),
+						isNull(animals.deletedAt),
+					),
+				)
+				.limit(1);
+
+			if (!animal) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Animal not found in this household",
+				});
+			}
+			assertAnimalAccess(ctx.membership, animal.id);
+
+			const [medication] = await ctx.db
+				.select({
+					genericName: medicationCatalog.genericName,
+					brandName: medicationCatalog.brandName,
+					drugClass: medicationCatalog.drugClass,
+				})
+				.from(medicationCatalog)
+				.where(
+					and(
+						eq(medicationCatalog.id, input.medicationId),
+						visibleToHousehold(input.householdId),
+					),
+				)
+				.limit(1);
+
+			if (!medication) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Medication not found",
+				});
+			}
+
+			return getRegimenInteractions(ctx.db, input.animalId, {
+				...medication,
+				regimenId: input.regimenId,
+				name: medication.genericName,
+			});
+		}),
+
 	// Create a new regimen
 	create: householdProcedure
 		.input(
@@ -424,6 +823,8 @@ export const regimenRouter = createTRPCRouter({
 				scheduleType: z.enum(scheduleTypeEnum.enumValues),
 				timesLocal: z.array(z.string().regex(/^\d{2}:\d{2}$/)).optional(),
 				intervalHours: z.number().int().positive().optional(),
+				intervalMode: z.enum(intervalModeEnum.enumValues).default("ROLLING"),
+				taperSteps: taperStepsSchema.optional(),
 				startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
 				endDate: z
 					.string()
@@ -436,12 +837,19 @@ export const regimenRouter = createTRPCRouter({
 				requiresCoSign: z.boolean().default(false),
 				dose: z.string().optional(),
 				route: z.string().optional(),
+				acknowledgeContraindications: z.boolean().default(false),
+				speciesOverrideReason: z.string().trim().min(1).optional(),
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
 			// Verify animal belongs to household
 			const animal = await ctx.db
-				.select({ id: animals.id })
+				.select({
+					id: animals.id,
+					species: animals.species,
+					allergies: animals.allergies,
+					conditions: animals.conditions,
+				})
 				.from(animals)
 				.where(
 					and(
@@ -461,9 +869,20 @@ export const regimenRouter = createTRPCRouter({
 
 			// Verify medication exists
 			const medication = await ctx.db
-				.select({ id: medicationCatalog.id })
+				.select({
+					id: medicationCatalog.id,
+					genericName: medicationCatalog.genericName,
+					brandName: medicationCatalog.brandName,
+					drugClass: medicationCatalog.drugClass,
+					speciesSafety: medicationCatalog.speciesSafety,
+				})
 				.from(medicationCatalog)
-				.where(eq(medicationCatalog.id, input.medicationId))
+				.where(
+					and(
+						eq(medicationCatalog.id, input.medicationId),
+						visibleToHousehold(input.householdId),
+					),
+				)
 				.limit(1);
 
 			if (!medication[0]) {
@@ -474,29 +893,23 @@ export const regimenRouter = createTRPCRouter({
 			}
 
 			// Validate schedule type constraints
-			if (
-				input.scheduleType === "FIXED" &&
-				(!input.timesLocal || input.timesLocal.length === 0)
-			) {
-				throw new TRPCError({
-					code: "BAD_REQUEST",
-					message: "FIXED schedule requires at least one time",
-				});
-			}
-
-			if (input.scheduleType === "INTERVAL" && !input.intervalHours) {
-				throw new TRPCError({
-					code: "BAD_REQUEST",
-					message: "INTERVAL schedule requires intervalHours",
-				});
-			}
+			validateScheduleConstraints(input);
+
+			const overriddenSpeciesSafety = checkSpeciesSafety(
+				medication[0],
+				animal[0].species,
+				{
+					role: ctx.membership.role,
+					overrideReason: input.speciesOverrideReason,
+				},
+			);
 
-			if (input.scheduleType === "PRN" && !input.prnReason) {
-				throw new TRPCError({
-					code: "BAD_REQUEST",
-					message: "PRN schedule requires prnReason",
-				});
-			}
+			const { warnings, unacknowledged } = await checkContraindications(
+				ctx.db,
+				medication[0],
+				animal[0],
+				{ acknowledge: input.acknowledgeContraindications },
+			);
 
 			const newRegimen: NewRegimen = {
 				animalId: input.animalId,
@@ -506,8 +919,15 @@ export const regimenRouter = createTRPCRouter({
 				scheduleType: input.scheduleType,
 				timesLocal: input.timesLocal,
 				intervalHours: input.intervalHours,
+				intervalMode: input.intervalMode,
+				taperSteps: input.taperSteps,
 				startDate: input.startDate,
-				endDate: input.endDate,
+				// A taper ends after its last step unless an explicit end date is given
+				endDate:
+					input.endDate ??
+					(input.scheduleType === "TAPER" && input.taperSteps
+						? getTaperEndDate(input.taperSteps, input.startDate)
+						: undefined),
 				prnReason: input.prnReason,
 				maxDailyDoses: input.maxDailyDoses,
 				cutoffMinutes: input.cutoffMinutes,
@@ -515,6 +935,12 @@ export const regimenRouter = createTRPCRouter({
 				requiresCoSign: input.requiresCoSign,
 				dose: input.dose,
 				route: input.route,
+				acknowledgedContraindications: unacknowledged.map(
+					(warning) => warning.key,
+				),
+				speciesOverrideReason: overriddenSpeciesSafety
+					? input.speciesOverrideReason
+					: undefined,
 				active: true,
 			};
 
@@ -531,7 +957,39 @@ export const regimenRouter = createTRPCRouter({
 				resourceType: "regimen",
 				resourceId: result[0]?.id,
 				newValues: newRegimen,
+				metadata: getAuditMetadata(ctx),
 			});
+			await logContraindicationAcknowledgement(
+				ctx,
+				input.householdId,
+				result[0]?.id,
+				unacknowledged,
+			);
+			if (overriddenSpeciesSafety) {
+				await createAuditLog(ctx.db, {
+					userId: ctx.dbUser.id,
+					householdId: input.householdId,
+					action: "SPECIES_CONTRAINDICATION_OVERRIDDEN",
+					resourceType: "regimen",
+					resourceId: result[0]?.id,
+					details: {
+						medication: medication[0].genericName,
+						species: animal[0].species,
+						note: overriddenSpeciesSafety.note,
+						reason: input.speciesOverrideReason,
+					},
+					metadata: getAuditMetadata(ctx),
+				});
+			}
+
+			const interactions = result[0]
+				? await getRegimenInteractions(ctx.db, input.animalId, {
+						regimenId: result[0].id,
+						name: input.name || medication[0].genericName,
+						genericName: medication[0].genericName,
+						drugClass: medication[0].drugClass,
+					})
+				: [];
 
 			// Get the complete regimen with medication details
 			const completeRegimen = await ctx.db
@@ -549,7 +1007,9 @@ export const regimenRouter = createTRPCRouter({
 				.where(eq(regimens.id, result[0]?.id ?? ""))
 				.limit(1);
 
-			return completeRegimen[0];
+			return completeRegimen[0]
+				? { ...completeRegimen[0], contraindications: warnings, interactions }
+				: undefined;
 		}),
 
 	// Update an existing regimen
@@ -563,6 +1023,8 @@ export const regimenRouter = createTRPCRouter({
 				scheduleType: z.enum(scheduleTypeEnum.enumValues).optional(),
 				timesLocal: z.array(z.string().regex(/^\d{2}:\d{2}$/)).optional(),
 				intervalHours: z.number().int().positive().optional(),
+				intervalMode: z.enum(intervalModeEnum.enumValues).optional(),
+				taperSteps: taperStepsSchema.optional(),
 				startDate: z
 					.string()
 					.regex(/^\d{4}-\d{2}-\d{2}$/)
@@ -578,16 +1040,26 @@ export const regimenRouter = createTRPCRouter({
 				requiresCoSign: z.boolean().optional(),
 				dose: z.string().optional(),
 				route: z.string().optional(),
+				acknowledgeContraindications: z.boolean().default(false),
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			const { id, householdId, ...updateData } = input;
+			const { id, householdId, acknowledgeContraindications, ...updateData } =
+				input;
 
 			// Verify regimen exists and belongs to household
 			const existing = await ctx.db
-				.select({ regimen: regimens, animal: animals })
+				.select({
+					regimen: regimens,
+					animal: animals,
+					medication: medicationCatalog,
+				})
 				.from(regimens)
 				.innerJoin(animals, eq(regimens.animalId, animals.id))
+				.innerJoin(
+					medicationCatalog,
+					eq(regimens.medicationId, medicationCatalog.id),
+				)
 				.where(
 					and(
 						eq(regimens.id, id),
@@ -603,46 +1075,61 @@ export const regimenRouter = createTRPCRouter({
 					message: "Regimen not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].regimen.animalId);
 
 			// Validate schedule type constraints if schedule type is being updated
 			if (updateData.scheduleType) {
-				if (
-					updateData.scheduleType === "FIXED" &&
-					(!updateData.timesLocal || updateData.timesLocal.length === 0)
-				) {
-					throw new TRPCError({
-						code: "BAD_REQUEST",
-						message: "FIXED schedule requires at least one time",
-					});
-				}
-
-				if (
-					updateData.scheduleType === "INTERVAL" &&
-					!updateData.intervalHours
-				) {
-					throw new TRPCError({
-						code: "BAD_REQUEST",
-						message: "INTERVAL schedule requires intervalHours",
-					});
-				}
+				validateScheduleConstraints({
+					...updateData,
+					scheduleType: updateData.scheduleType,
+				});
+			}
 
-				if (updateData.scheduleType === "PRN" && !updateData.prnReason) {
-					throw new TRPCError({
-						code: "BAD_REQUEST",
-						message: "PRN schedule requires prnReason",
-					});
-				}
+			// A taper ends with its last step, so moving the start or changing the
+			// steps moves the end date too
+			const taperSteps =
+				updateData.taperSteps ?? existing[0].regimen.taperSteps;
+			if (
+				(updateData.scheduleType ?? existing[0].regimen.scheduleType) ===
+					"TAPER" &&
+				(updateData.taperSteps || updateData.startDate) &&
+				taperSteps &&
+				!updateData.endDate
+			) {
+				updateData.endDate = getTaperEndDate(
+					taperSteps,
+					updateData.startDate ?? existing[0].regimen.startDate,
+				);
 			}
 
+			// The animal's allergies or conditions may have changed since creation
+			const { warnings, unacknowledged } = await checkContraindications(
+				ctx.db,
+				existing[0].medication,
+				existing[0].animal,
+				{
+					acknowledge: acknowledgeContraindications,
+					acknowledged: existing[0].regimen.acknowledgedContraindications,
+				},
+			);
+
 			await ctx.db
 				.update(regimens)
 				.set({
 					...updateData,
+					acknowledgedContraindications: [
+						...existing[0].regimen.acknowledgedContraindications,
+						...unacknowledged.map((warning) => warning.key),
+					],
 					updatedAt: new Date().toISOString(),
 				})
 				.where(eq(regimens.id, id))
 				.returning();
 
+			// Planned slots may have moved; the next planner run queues them again
+			await cancelDoseReminders(ctx.db, { regimenId: id });
+			invalidateAdherence(id);
+
 			// Create audit log entry
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
@@ -652,8 +1139,16 @@ export const regimenRouter = createTRPCRouter({
 				resourceId: id,
 				oldValues: existing[0]?.regimen,
 				newValues: updateData,
+				metadata: getAuditMetadata(ctx),
 			});
 
+			await logContraindicationAcknowledgement(
+				ctx,
+				householdId,
+				id,
+				unacknowledged,
+			);
+
 			// Get the complete updated regimen with medication details
 			const completeRegimen = await ctx.db
 				.select({
@@ -670,7 +1165,9 @@ export const regimenRouter = createTRPCRouter({
 				.where(eq(regimens.id, id))
 				.limit(1);
 
-			return completeRegimen[0];
+			return completeRegimen[0]
+				? { ...completeRegimen[0], contraindications: warnings }
+				: undefined;
 		}),
 
 	// Soft delete a regimen
@@ -702,6 +1199,7 @@ export const regimenRouter = createTRPCRouter({
 					message: "Regimen not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].regimen.animalId);
 
 			const result = await ctx.db
 				.update(regimens)
@@ -712,6 +1210,8 @@ export const regimenRouter = createTRPCRouter({
 				.where(eq(regimens.id, input.id))
 				.returning();
 
+			await cancelDoseReminders(ctx.db, { regimenId: input.id });
+
 			// Create audit log entry
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
@@ -720,6 +1220,7 @@ export const regimenRouter = createTRPCRouter({
 				resourceType: "regimen",
 				resourceId: input.id,
 				oldValues: existing[0]?.regimen,
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return { success: true, regimen: result[0] };
@@ -756,6 +1257,7 @@ export const regimenRouter = createTRPCRouter({
 					message: "Active regimen not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].regimen.animalId);
 
 			// Check if already paused
 			if (existing[0].regimen.pausedAt) {
@@ -775,6 +1277,9 @@ export const regimenRouter = createTRPCRouter({
 				.where(eq(regimens.id, input.id))
 				.returning();
 
+			await cancelDoseReminders(ctx.db, { regimenId: input.id });
+			invalidateAdherence(input.id);
+
 			// Create audit log entry
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
@@ -785,6 +1290,7 @@ export const regimenRouter = createTRPCRouter({
 				details: { reason: input.reason },
 				oldValues: { pausedAt: existing[0].regimen.pausedAt },
 				newValues: { pausedAt: result[0]?.pausedAt, pauseReason: input.reason },
+				metadata: getAuditMetadata(ctx),
 			});
 
 			return { success: true, regimen: result[0] };
@@ -801,9 +1307,17 @@ export const regimenRouter = createTRPCRouter({
 		.mutation(async ({ ctx, input }) => {
 			// Verify regimen exists and belongs to household
 			const existing = await ctx.db
-				.select({ regimen: regimens, animal: animals })
+				.select({
+					regimen: regimens,
+					animal: animals,
+					medication: medicationCatalog,
+				})
 				.from(regimens)
 				.innerJoin(animals, eq(regimens.animalId, animals.id))
+				.innerJoin(
+					medicationCatalog,
+					eq(regimens.medicationId, medicationCatalog.id),
+				)
 				.where(
 					and(
 						eq(regimens.id, input.id),
@@ -820,6 +1334,7 @@ export const regimenRouter = createTRPCRouter({
 					message: "Active regimen not found",
 				});
 			}
+			assertAnimalAccess(ctx.membership, existing[0].regimen.animalId);
 
 			// Check if already resumed (not paused)
 			if (!existing[0].regimen.pausedAt) {
@@ -839,6 +1354,8 @@ export const regimenRouter = createTRPCRouter({
 				.where(eq(regimens.id, input.id))
 				.returning();
 
+			invalidateAdherence(input.id);
+
 			// Create audit log entry
 			await createAuditLog(ctx.db, {
 				userId: ctx.dbUser.id,
@@ -851,8 +1368,22 @@ export const regimenRouter = createTRPCRouter({
 					pauseReason: existing[0].regimen.pauseReason,
 				},
 				newValues: { pausedAt: null, pauseReason: null },
+				metadata: getAuditMetadata(ctx),
 			});
 
-			return { success: true, regimen: result[0] };
+			// Other medications may have been started while this one was paused
+			const { regimen, medication } = existing[0];
+			const interactions = await getRegimenInteractions(
+				ctx.db,
+				regimen.animalId,
+				{
+					regimenId: regimen.id,
+					name: regimen.name || medication.genericName,
+					genericName: medication.genericName,
+					drugClass: medication.drugClass,
+				},
+			);
+
+			return { success: true, regimen: result[0], interactions };
 		}),
 });
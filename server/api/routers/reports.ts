@@ -11,6 +11,13 @@ import {
 	createTRPCRouter,
 	householdProcedure,
 } from "@/server/api/trpc/clerk-init";
+import { getAnimalInteractions } from "@/server/utils/interactions";
+import {
+	formatTaperStep,
+	getActiveTaperStep,
+	type TaperStep,
+} from "@/utils/schedule";
+import { localDayISO } from "@/utils/tz";
 
 // Types for report data
 interface ComplianceData {
@@ -41,6 +48,44 @@ interface NotableEvent {
 	tags: string[];
 }
 
+// Helper function to describe which taper step applies on a local day
+function describeTaperSchedule(
+	steps: TaperStep[] | null,
+	startDate: string,
+	dayISO: string,
+): string {
+	if (!steps || steps.length === 0) return "Taper";
+
+	const active = getActiveTaperStep(steps, startDate, dayISO);
+	if (!active) {
+		return dayISO < startDate ? "Taper not started" : "Taper complete";
+	}
+
+	return `Taper step ${active.index + 1} of ${steps.length}: ${formatTaperStep(active.step)} (day ${active.dayOfStep})`;
+}
+
+// Helper function to format the schedule column for a regimen
+function formatRegimenSchedule(
+	regimen: typeof regimens.$inferSelect,
+	dayISO: string,
+): string {
+	if (regimen.scheduleType === "FIXED" && regimen.timesLocal) {
+		return regimen.timesLocal.join(", ");
+	}
+
+	if (regimen.scheduleType === "INTERVAL" && regimen.intervalHours) {
+		return `Every ${regimen.intervalHours} hours ${
+			regimen.intervalMode === "SCHEDULE" ? "(fixed slots)" : "(from last dose)"
+		}`;
+	}
+
+	if (regimen.scheduleType === "TAPER") {
+		return describeTaperSchedule(regimen.taperSteps, regimen.startDate, dayISO);
+	}
+
+	return "As needed";
+}
+
 // Helper function to calculate compliance data
 async function calculateComplianceData(
 	db: typeof import("@/db/drizzle").db,
@@ -159,6 +204,7 @@ async function getRegimenSummaries(
 		.select({
 			regimen: regimens,
 			medication: medicationCatalog,
+			timezone: animals.timezone,
 		})
 		.from(regimens)
 		.innerJoin(
@@ -178,7 +224,7 @@ async function getRegimenSummaries(
 	const summaries: RegimenSummary[] = [];
 
 	for (const row of regimensQuery) {
-		const { regimen, medication } = row;
+		const { regimen, medication, timezone } = row;
 
 		// Calculate adherence for this specific regimen
 		const adminStats = await db
@@ -202,13 +248,11 @@ async function getRegimenSummaries(
 				? Math.round((stats.completed / stats.total) * 100)
 				: 100;
 
-		// Format schedule display
-		let schedule = "As needed";
-		if (regimen.scheduleType === "FIXED" && regimen.timesLocal) {
-			schedule = regimen.timesLocal.join(", ");
-		} else if (regimen.scheduleType === "INTERVAL" && regimen.intervalHours) {
-			schedule = `Every ${regimen.intervalHours} hours`;
-		}
+		// Schedule as of the last day of the report period
+		const schedule = formatRegimenSchedule(
+			regimen,
+			localDayISO(endDate, timezone),
+		);
 
 		summaries.push({
 			id: regimen.id,
@@ -337,97 +381,144 @@ async function getNotableEvents(
 		.slice(0, 10);
 }
 
+const animalReportInputSchema = z.object({
+	animalId: z.string().uuid(),
+	householdId: z.string().uuid(),
+	startDate: z.string().datetime().optional(),
+	endDate: z.string().datetime().optional(),
+});
+
+/**
+ * Build the animal report. Shared by the report procedure and the public vet
+ * share page, which authorizes by share token instead of membership.
+ */
+export async function getAnimalReport(
+	db: typeof import("@/db/drizzle").db,
+	input: z.infer<typeof animalReportInputSchema>,
+) {
+	// Verify animal exists and belongs to household
+	const animal = await db
+		.select({
+			id: animals.id,
+			name: animals.name,
+			species: animals.species,
+			breed: animals.breed,
+			weightKg: animals.weightKg,
+			photoUrl: animals.photoUrl,
+			timezone: animals.timezone,
+			allergies: animals.allergies,
+			conditions: animals.conditions,
+		})
+		.from(animals)
+		.where(
+			and(
+				eq(animals.id, input.animalId),
+				eq(animals.householdId, input.householdId),
+				isNull(animals.deletedAt),
+			),
+		)
+		.limit(1);
+
+	if (!animal[0]) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Animal not found or access denied",
+		});
+	}
+
+	// Default to last 30 days if no date range provided
+	const endDate = input.endDate ? new Date(input.endDate) : new Date();
+	const startDate = input.startDate
+		? new Date(input.startDate)
+		: new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+	// Get all the data in parallel
+	const [complianceData, regimens, interactions, notableEvents] =
+		await Promise.all([
+			calculateComplianceData(
+				db,
+				input.animalId,
+				input.householdId,
+				startDate,
+				endDate,
+			),
+			getRegimenSummaries(
+				db,
+				input.animalId,
+				input.householdId,
+				startDate,
+				endDate,
+			),
+			getAnimalInteractions(db, [input.animalId]),
+			getNotableEvents(
+				db,
+				input.animalId,
+				input.householdId,
+				startDate,
+				endDate,
+			),
+		]);
+
+	return {
+		animal: {
+			...animal[0],
+			// Convert null to undefined for optional fields
+			breed: animal[0].breed || undefined,
+			weightKg: animal[0].weightKg ? Number(animal[0].weightKg) : undefined,
+			allergies: animal[0].allergies || [],
+			conditions: animal[0].conditions || [],
+			// Calculate pending meds (due/overdue count)
+			pendingMeds: regimens.filter((r) => r.adherence < 90).length,
+		},
+		compliance: complianceData,
+		regimens,
+		interactions: interactions.get(input.animalId) ?? [],
+		notableEvents,
+		reportPeriod: {
+			from: startDate,
+			to: endDate,
+		},
+	};
+}
+
+// Most recently recorded doses for an animal, newest first
+export function getRecentAdministrations(
+	db: typeof import("@/db/drizzle").db,
+	animalId: string,
+	householdId: string,
+	limit = 20,
+) {
+	return db
+		.select({
+			id: administrations.id,
+			recordedAt: administrations.recordedAt,
+			scheduledFor: administrations.scheduledFor,
+			status: administrations.status,
+			dose: administrations.dose,
+			notes: administrations.notes,
+			adverseEvent: administrations.adverseEvent,
+			medicationName: medicationCatalog.genericName,
+			strength: medicationCatalog.strength,
+		})
+		.from(administrations)
+		.innerJoin(regimens, eq(administrations.regimenId, regimens.id))
+		.innerJoin(
+			medicationCatalog,
+			eq(regimens.medicationId, medicationCatalog.id),
+		)
+		.where(
+			and(
+				eq(administrations.animalId, animalId),
+				eq(administrations.householdId, householdId),
+			),
+		)
+		.orderBy(desc(administrations.recordedAt))
+		.limit(limit);
+}
+
 export const reportsRouter = createTRPCRouter({
 	// Get comprehensive animal report data
 	animalReport: householdProcedure
-		.input(
-			z.object({
-				animalId: z.string().uuid(),
-				householdId: z.string().uuid(),
-				startDate: z.string().datetime().optional(),
-				endDate: z.string().datetime().optional(),
-			}),
-		)
-		.query(async ({ ctx, input }) => {
-			// Verify animal exists and belongs to household
-			const animal = await ctx.db
-				.select({
-					id: animals.id,
-					name: animals.name,
-					species: animals.species,
-					breed: animals.breed,
-					weightKg: animals.weightKg,
-					photoUrl: animals.photoUrl,
-					timezone: animals.timezone,
-					allergies: animals.allergies,
-					conditions: animals.conditions,
-				})
-				.from(animals)
-				.where(
-					and(
-						eq(animals.id, input.animalId),
-						eq(animals.householdId, input.householdId),
-						isNull(animals.deletedAt),
-					),
-				)
-				.limit(1);
-
-			if (!animal[0]) {
-				throw new TRPCError({
-					code: "NOT_FOUND",
-					message: "Animal not found or access denied",
-				});
-			}
-
-			// Default to last 30 days if no date range provided
-			const endDate = input.endDate ? new Date(input.endDate) : new Date();
-			const startDate = input.startDate
-				? new Date(input.startDate)
-				: new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-			// Get all the data in parallel
-			const [complianceData, regimens, notableEvents] = await Promise.all([
-				calculateComplianceData(
-					ctx.db,
-					input.animalId,
-					input.householdId,
-					startDate,
-					endDate,
-				),
-				getRegimenSummaries(
-					ctx.db,
-					input.animalId,
-					input.householdId,
-					startDate,
-					endDate,
-				),
-				getNotableEvents(
-					ctx.db,
-					input.animalId,
-					input.householdId,
-					startDate,
-					endDate,
-				),
-			]);
-
-			return {
-				animal: {
-					...animal[0],
-					// Convert null to undefined for optional fields
-					breed: animal[0].breed || undefined,
-					weightKg: animal[0].weightKg ? Number(animal[0].weightKg) : undefined,
-					allergies: animal[0].allergies || [],
-					conditions: animal[0].conditions || [],
-					// Calculate pending meds (due/overdue count)
-					pendingMeds: regimens.filter((r) => r.adherence < 90).length,
-				},
-				compliance: complianceData,
-				regimens,
-				notableEvents,
-				reportPeriod: {
-					from: startDate,
-					to: endDate,
-				},
-			};
-		}),
+		.input(animalReportInputSchema)
+		.query(({ ctx, input }) => getAnimalReport(ctx.db, input)),
 });
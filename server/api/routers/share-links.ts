@@ -0,0 +1,218 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { animals, shareLinks, users } from "@/db/schema";
+import { createTRPCRouter, ownerProcedure } from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import {
+	createShareToken,
+	EMERGENCY_LINK_DEFAULT_DAYS,
+	EMERGENCY_LINK_MAX_DAYS,
+	getShareLinkExpiry,
+	getShareLinkStatus,
+	getShareLinkUrl,
+	SHARE_LINK_DEFAULT_DAYS,
+	SHARE_LINK_MAX_DAYS,
+} from "@/server/utils/share-links";
+
+export const shareLinksRouter = createTRPCRouter({
+	// Create a read-only link to one animal's record for a vet without an
+	// account, or to its emergency summary for the printed card's QR code
+	create: ownerProcedure
+		.input(
+			z
+				.object({
+					householdId: z.string().uuid(),
+					animalId: z.string().uuid(),
+					purpose: z.enum(["VET_RECORD", "EMERGENCY"]).default("VET_RECORD"),
+					label: z.string().trim().max(100).optional(),
+					expiresInDays: z
+						.number()
+						.int()
+						.min(1)
+						.max(EMERGENCY_LINK_MAX_DAYS)
+						.optional(),
+				})
+				.refine(
+					(input) =>
+						input.purpose === "EMERGENCY" ||
+						(input.expiresInDays ?? 0) <= SHARE_LINK_MAX_DAYS,
+					{
+						message: `Vet share links can last at most ${SHARE_LINK_MAX_DAYS} days`,
+						path: ["expiresInDays"],
+					},
+				),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const expiresInDays =
+				input.expiresInDays ??
+				(input.purpose === "EMERGENCY"
+					? EMERGENCY_LINK_DEFAULT_DAYS
+					: SHARE_LINK_DEFAULT_DAYS);
+
+			const [animal] = await ctx.db
+				.select({ id: animals.id, name: animals.name })
+				.from(animals)
+				.where(
+					and(
+						eq(animals.id, input.animalId),
+						eq(animals.householdId, ctx.householdId),
+						isNull(animals.deletedAt),
+					),
+				)
+				.limit(1);
+
+			if (!animal) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Animal not found",
+				});
+			}
+
+			const [link] = await ctx.db
+				.insert(shareLinks)
+				.values({
+					householdId: ctx.householdId,
+					animalId: animal.id,
+					createdBy: ctx.dbUser.id,
+					purpose: input.purpose,
+					label: input.label || null,
+					expiresAt: getShareLinkExpiry(expiresInDays),
+				})
+				.returning();
+
+			if (!link) {
+				throw new TRPCError({
+					code: "INTERNAL_SERVER_ERROR",
+					message: "Failed to create share link",
+				});
+			}
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "SHARE_LINK_CREATED",
+				resourceType: "share_link",
+				resourceId: link.id,
+				newValues: {
+					animalId: link.animalId,
+					purpose: link.purpose,
+					label: link.label,
+					expiresAt: link.expiresAt,
+				},
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return {
+				id: link.id,
+				url: getShareLinkUrl(createShareToken(link), link.purpose),
+				expiresAt: link.expiresAt,
+			};
+		}),
+
+	// Active (unrevoked, unexpired) links with how often each has been opened
+	list: ownerProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid().optional(),
+				purpose: z.enum(["VET_RECORD", "EMERGENCY"]).optional(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const conditions = [
+				eq(shareLinks.householdId, ctx.householdId),
+				isNull(shareLinks.revokedAt),
+				gt(shareLinks.expiresAt, new Date().toISOString()),
+			];
+			if (input.animalId) {
+				conditions.push(eq(shareLinks.animalId, input.animalId));
+			}
+			if (input.purpose) {
+				conditions.push(eq(shareLinks.purpose, input.purpose));
+			}
+
+			const links = await ctx.db
+				.select({
+					id: shareLinks.id,
+					animalId: shareLinks.animalId,
+					animalName: animals.name,
+					purpose: shareLinks.purpose,
+					label: shareLinks.label,
+					expiresAt: shareLinks.expiresAt,
+					viewCount: shareLinks.viewCount,
+					lastViewedAt: shareLinks.lastViewedAt,
+					createdAt: shareLinks.createdAt,
+					createdByName: users.name,
+					createdByEmail: users.email,
+				})
+				.from(shareLinks)
+				.innerJoin(animals, eq(shareLinks.animalId, animals.id))
+				.innerJoin(users, eq(shareLinks.createdBy, users.id))
+				.where(and(...conditions))
+				.orderBy(desc(shareLinks.createdAt));
+
+			return links.map((link) => ({
+				...link,
+				url: getShareLinkUrl(createShareToken(link), link.purpose),
+			}));
+		}),
+
+	revoke: ownerProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				linkId: z.string().uuid(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const [link] = await ctx.db
+				.select()
+				.from(shareLinks)
+				.where(
+					and(
+						eq(shareLinks.id, input.linkId),
+						eq(shareLinks.householdId, ctx.householdId),
+					),
+				)
+				.limit(1);
+
+			if (!link) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Share link not found",
+				});
+			}
+
+			if (getShareLinkStatus(link) !== "ACTIVE") {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Share link is already inactive",
+				});
+			}
+
+			const now = new Date().toISOString();
+			await ctx.db
+				.update(shareLinks)
+				.set({ revokedAt: now, updatedAt: now })
+				.where(eq(shareLinks.id, link.id));
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "SHARE_LINK_REVOKED",
+				resourceType: "share_link",
+				resourceId: link.id,
+				oldValues: {
+					animalId: link.animalId,
+					purpose: link.purpose,
+					label: link.label,
+					expiresAt: link.expiresAt,
+					viewCount: link.viewCount,
+				},
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return { success: true, message: "Share link revoked" };
+		}),
+});
@@ -6,6 +6,10 @@ import {
 	createTRPCRouter,
 	protectedProcedure,
 } from "@/server/api/trpc/clerk-init";
+import {
+	getAuditMetadata,
+	getUserAuditHouseholdId,
+} from "@/server/utils/audit-log";
 import { updateUserPreferences } from "../clerk-sync";
 
 export const userRouter = createTRPCRouter({
@@ -158,6 +162,7 @@ export const userRouter = createTRPCRouter({
 			if (!ctx.dbUser.clerkUserId) {
 				throw new Error("User must have a Clerk ID to update preferences");
 			}
+			const auditHouseholdId = getUserAuditHouseholdId(ctx);
 			await updateUserPreferences(
 				ctx.dbUser.clerkUserId,
 				{
@@ -166,11 +171,13 @@ export const userRouter = createTRPCRouter({
 						| undefined,
 					householdSettings: input.householdSettings,
 				},
-				{
-					userId: ctx.dbUser.id,
-					householdId:
-						ctx.currentHouseholdId || ctx.availableHouseholds[0]?.id || "",
-				},
+				auditHouseholdId
+					? {
+							userId: ctx.dbUser.id,
+							householdId: auditHouseholdId,
+							metadata: getAuditMetadata(ctx),
+						}
+					: undefined,
 			);
 
 			return { success: true };
@@ -0,0 +1,181 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { animals, users, weightLogs } from "@/db/schema";
+import {
+	createTRPCRouter,
+	householdProcedure,
+} from "@/server/api/trpc/clerk-init";
+import { createAuditLog, getAuditMetadata } from "@/server/utils/audit-log";
+import { getDoseWarnings, syncAnimalWeight } from "@/server/utils/weights";
+import { localDayISO } from "@/utils/tz";
+
+const getAnimal = async (
+	db: typeof import("@/db/drizzle").db,
+	animalId: string,
+	householdId: string,
+) => {
+	const [animal] = await db
+		.select({
+			id: animals.id,
+			species: animals.species,
+			timezone: animals.timezone,
+			weightKg: animals.weightKg,
+		})
+		.from(animals)
+		.where(
+			and(
+				eq(animals.id, animalId),
+				eq(animals.householdId, householdId),
+				isNull(animals.deletedAt),
+			),
+		)
+		.limit(1);
+
+	if (!animal) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Animal not found",
+		});
+	}
+
+	return animal;
+};
+
+export const weightRouter = createTRPCRouter({
+	// Weight history, oldest first for charting, with dose warnings at the
+	// current weight
+	list: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const animal = await getAnimal(ctx.db, input.animalId, ctx.householdId);
+
+			const entries = await ctx.db
+				.select({
+					id: weightLogs.id,
+					weightKg: weightLogs.weightKg,
+					measuredOn: weightLogs.measuredOn,
+					source: weightLogs.source,
+					notes: weightLogs.notes,
+					recordedByName: users.name,
+				})
+				.from(weightLogs)
+				.leftJoin(users, eq(weightLogs.recordedBy, users.id))
+				.where(eq(weightLogs.animalId, animal.id))
+				.orderBy(asc(weightLogs.measuredOn), asc(weightLogs.createdAt));
+
+			const currentWeightKg = animal.weightKg ? Number(animal.weightKg) : null;
+
+			return {
+				entries: entries.map((entry) => ({
+					...entry,
+					weightKg: Number(entry.weightKg),
+				})),
+				currentWeightKg,
+				doseWarnings: await getDoseWarnings(ctx.db, animal, currentWeightKg),
+			};
+		}),
+
+	// Record a weighing; returns regimens whose dose is now out of range
+	log: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid(),
+				weightKg: z.number().positive().max(999.99),
+				measuredOn: z
+					.string()
+					.regex(/^\d{4}-\d{2}-\d{2}$/)
+					.optional(),
+				source: z.enum(["HOME", "VET", "OTHER"]).default("HOME"),
+				notes: z.string().trim().max(500).optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const animal = await getAnimal(ctx.db, input.animalId, ctx.householdId);
+			const today = localDayISO(new Date(), animal.timezone);
+
+			if (input.measuredOn && input.measuredOn > today) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Weight cannot be logged for a future date",
+				});
+			}
+
+			const [entry] = await ctx.db
+				.insert(weightLogs)
+				.values({
+					animalId: animal.id,
+					recordedBy: ctx.dbUser.id,
+					weightKg: input.weightKg.toString(),
+					measuredOn: input.measuredOn ?? today,
+					source: input.source,
+					notes: input.notes || null,
+				})
+				.returning();
+
+			const currentWeightKg = await syncAnimalWeight(ctx.db, animal.id);
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "CREATE",
+				resourceType: "weight_log",
+				resourceId: entry?.id,
+				newValues: entry,
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return {
+				entry,
+				currentWeightKg,
+				doseWarnings: await getDoseWarnings(ctx.db, animal, currentWeightKg),
+			};
+		}),
+
+	// Remove a mistaken entry; the profile falls back to the latest remaining one
+	delete: householdProcedure
+		.input(
+			z.object({
+				householdId: z.string().uuid(),
+				animalId: z.string().uuid(),
+				id: z.string().uuid(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const animal = await getAnimal(ctx.db, input.animalId, ctx.householdId);
+
+			const [entry] = await ctx.db
+				.delete(weightLogs)
+				.where(
+					and(eq(weightLogs.id, input.id), eq(weightLogs.animalId, animal.id)),
+				)
+				.returning();
+
+			if (!entry) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Weight entry not found",
+				});
+			}
+
+			const currentWeightKg = await syncAnimalWeight(ctx.db, animal.id);
+
+			await createAuditLog(ctx.db, {
+				userId: ctx.dbUser.id,
+				householdId: ctx.householdId,
+				action: "DELETE",
+				resourceType: "weight_log",
+				resourceId: entry.id,
+				oldValues: entry,
+				metadata: getAuditMetadata(ctx),
+			});
+
+			return { currentWeightKg };
+		}),
+});
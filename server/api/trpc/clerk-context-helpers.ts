@@ -2,6 +2,7 @@ import type { User as ClerkUser } from "@clerk/nextjs/server";
 import { eq } from "drizzle-orm";
 import { dbPooled as db } from "@/db/drizzle";
 import { households, memberships, users } from "@/db/schema";
+import { getMembershipAccess } from "@/server/utils/temporary-access";
 import { type ClerkUserData, syncUserToDatabase } from "../clerk-sync";
 
 interface HouseholdWithMembership {
@@ -46,6 +47,10 @@ export async function getUserHouseholds(
 			userId: memberships.userId,
 			householdId: memberships.householdId,
 			role: memberships.role,
+			validFrom: memberships.validFrom,
+			validUntil: memberships.validUntil,
+			animalIds: memberships.animalIds,
+			expiredAt: memberships.expiredAt,
 			createdAt: memberships.createdAt,
 			updatedAt: memberships.updatedAt,
 			household: {
@@ -88,9 +93,12 @@ export function determineCurrentHousehold(
 		}
 	}
 
-	// Fall back to first household if none specified or requested household not found
+	// Fall back to the first household the user can currently access
 	if (!currentHouseholdId && availableHouseholds.length > 0) {
-		const firstHousehold = availableHouseholds[0];
+		const firstHousehold =
+			availableHouseholds.find(
+				(h) => getMembershipAccess(h.membership) === "ACTIVE",
+			) ?? availableHouseholds[0];
 		if (firstHousehold) {
 			currentHouseholdId = firstHousehold.id;
 			currentMembership = firstHousehold.membership;
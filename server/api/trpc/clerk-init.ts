@@ -11,6 +11,12 @@ import {
 	setupGlobalErrorHandling,
 	toUserFriendlyError,
 } from "@/lib/error-handling";
+import {
+	canAccessAnimal,
+	getMembershipAccess,
+	getRequestedAnimalIds,
+	recordMembershipExpiry,
+} from "@/server/utils/temporary-access";
 import {
 	determineCurrentHousehold,
 	setupAuthenticatedUser,
@@ -188,12 +194,33 @@ export const protectedProcedure = t.procedure
 		});
 	});
 
+/**
+ * Refuse a member restricted to other animals. householdProcedure checks the
+ * animalId/animalIds in the input; procedures addressed by a record id call
+ * this with the animal the record belongs to.
+ */
+export function assertAnimalAccess(
+	membership: Pick<typeof memberships.$inferSelect, "animalIds">,
+	animalId: string,
+) {
+	if (!canAccessAnimal(membership, animalId)) {
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message: "You don't have access to this animal",
+		});
+	}
+}
+
 // Household-scoped procedure - requires household membership
 export const householdProcedure = protectedProcedure.use(
-	async ({ ctx, next, input }) => {
+	async ({ ctx, next, input, getRawInput }) => {
+		// Middleware runs before input parsing, so read the raw input as well
+		const rawInput = await getRawInput();
+
 		// Get householdId from input, context, or headers
 		const householdId =
 			(input as { householdId?: string })?.householdId ||
+			(rawInput as { householdId?: string } | undefined)?.householdId ||
 			ctx.currentHouseholdId ||
 			ctx.requestedHouseholdId;
 
@@ -230,11 +257,41 @@ export const householdProcedure = protectedProcedure.use(
 			});
 		}
 
+		// Temporary memberships only work inside their access window
+		const access = getMembershipAccess(membership);
+		if (access === "EXPIRED") {
+			// Access is refused either way; the cron job retries a failed write
+			await recordMembershipExpiry(ctx.db, membership).catch((error) =>
+				console.error("Failed to record membership expiry:", error),
+			);
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Your temporary access to this household has expired",
+			});
+		}
+		if (access === "NOT_STARTED") {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "Your access to this household has not started yet",
+			});
+		}
+
+		// Members restricted to specific animals can't act on any others
+		if (membership.animalIds?.length) {
+			for (const animalId of getRequestedAnimalIds(rawInput)) {
+				assertAnimalAccess(membership, animalId);
+			}
+		}
+
 		return next({
 			ctx: {
 				...ctx,
 				householdId,
 				membership,
+				// null when the member may see every animal in the household
+				allowedAnimalIds: membership.animalIds?.length
+					? membership.animalIds
+					: null,
 			},
 		});
 	},
@@ -252,5 +309,20 @@ export const ownerProcedure = householdProcedure.use(async ({ ctx, next }) => {
 	return next({ ctx });
 });
 
+// Catalog admin procedure - reviews changes to the shared medication catalog.
+// Granted through the Clerk user's public metadata ({ "catalogAdmin": true }).
+export const catalogAdminProcedure = protectedProcedure.use(
+	async ({ ctx, next }) => {
+		if (ctx.clerkUser.publicMetadata?.catalogAdmin !== true) {
+			throw new TRPCError({
+				code: "FORBIDDEN",
+				message: "You must be a catalog admin to perform this action",
+			});
+		}
+
+		return next({ ctx });
+	},
+);
+
 // Export types
 export type ClerkAppRouter = ReturnType<typeof createTRPCRouter>;
@@ -0,0 +1,225 @@
+import { and, asc, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import type { db as dbClient } from "@/db/drizzle";
+import { notificationQueue, users } from "@/db/schema";
+import {
+	type ChannelAdapter,
+	channelAdapters,
+	getNotificationChannels,
+	getRetryDelayMs,
+	type NotificationChannel,
+} from "../utils/notification-channels";
+
+type Database = typeof dbClient;
+type QueuedNotification = typeof notificationQueue.$inferSelect;
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+// How long a claimed row stays hidden from other dispatchers
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface DispatchOptions {
+	now?: Date;
+	batchSize?: number;
+	// Replaced in tests; defaults to the real push/email/in-app adapters
+	adapters?: Record<NotificationChannel, ChannelAdapter>;
+}
+
+export interface DispatchResult {
+	claimed: number;
+	sent: number;
+	retrying: number;
+	failed: number;
+}
+
+/**
+ * Claim a batch of due notifications in one statement. `FOR UPDATE SKIP
+ * LOCKED` gives concurrent dispatchers disjoint batches, and the lease in
+ * `nextAttemptAt` keeps a claimed row from being taken again unless this
+ * dispatcher dies before recording the outcome.
+ */
+function claimDueNotifications(db: Database, now: Date, batchSize: number) {
+	const nowISO = now.toISOString();
+	const due = db
+		.select({ id: notificationQueue.id })
+		.from(notificationQueue)
+		.where(
+			and(
+				isNull(notificationQueue.sentAt),
+				isNull(notificationQueue.failedAt),
+				isNull(notificationQueue.dismissedAt),
+				isNull(notificationQueue.cancelledAt),
+				lte(notificationQueue.scheduledFor, nowISO),
+				or(
+					isNull(notificationQueue.snoozedUntil),
+					lte(notificationQueue.snoozedUntil, nowISO),
+				),
+				or(
+					isNull(notificationQueue.nextAttemptAt),
+					lte(notificationQueue.nextAttemptAt, nowISO),
+				),
+			),
+		)
+		.orderBy(asc(notificationQueue.scheduledFor))
+		.limit(batchSize)
+		.for("update", { skipLocked: true });
+
+	return db
+		.update(notificationQueue)
+		.set({
+			attempts: sql`${notificationQueue.attempts} + 1`,
+			nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString(),
+		})
+		.where(inArray(notificationQueue.id, due))
+		.returning();
+}
+
+function getRecipients(db: Database, userIds: string[]) {
+	return db
+		.select({
+			id: users.id,
+			email: users.email,
+			name: users.name,
+			emailReminders: users.emailReminders,
+			pushNotifications: users.pushNotifications,
+		})
+		.from(users)
+		.where(inArray(users.id, userIds));
+}
+
+type Recipient = Awaited<ReturnType<typeof getRecipients>>[number];
+
+// Send on every channel not yet delivered; one channel failing doesn't stop
+// the others
+async function deliver(
+	db: Database,
+	notification: QueuedNotification,
+	user: Recipient,
+	adapters: Record<NotificationChannel, ChannelAdapter>,
+) {
+	const delivered = [...notification.deliveredVia];
+	const errors: string[] = [];
+
+	for (const channel of getNotificationChannels(user)) {
+		if (delivered.includes(channel)) continue;
+		try {
+			await adapters[channel]({ db, notification, user });
+			delivered.push(channel);
+		} catch (error) {
+			errors.push(
+				`${channel}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	return { delivered, errors };
+}
+
+// Sent, scheduled for a retry with backoff, or failed for good
+async function recordOutcome(
+	db: Database,
+	notification: QueuedNotification,
+	{ delivered, errors }: { delivered: string[]; errors: string[] },
+	now: Date,
+): Promise<keyof Omit<DispatchResult, "claimed">> {
+	if (errors.length === 0) {
+		await db
+			.update(notificationQueue)
+			.set({
+				sentAt: now.toISOString(),
+				deliveredVia: delivered,
+				nextAttemptAt: null,
+				error: null,
+			})
+			.where(eq(notificationQueue.id, notification.id));
+		return "sent";
+	}
+
+	const exhausted = notification.attempts >= MAX_NOTIFICATION_ATTEMPTS;
+	await db
+		.update(notificationQueue)
+		.set({
+			deliveredVia: delivered,
+			error: errors.join("; "),
+			...(exhausted
+				? { failedAt: now.toISOString(), nextAttemptAt: null }
+				: {
+						nextAttemptAt: new Date(
+							now.getTime() + getRetryDelayMs(notification.attempts),
+						).toISOString(),
+					}),
+		})
+		.where(eq(notificationQueue.id, notification.id));
+	return exhausted ? "failed" : "retrying";
+}
+
+/**
+ * Deliver one batch of due notifications through each recipient's channels.
+ * Safe to run concurrently and repeatedly; failed deliveries are retried
+ * with exponential backoff up to MAX_NOTIFICATION_ATTEMPTS.
+ */
+export async function dispatchNotifications(
+	db: Database,
+	{
+		now = new Date(),
+		batchSize = DEFAULT_BATCH_SIZE,
+		adapters = channelAdapters,
+	}: DispatchOptions = {},
+): Promise<DispatchResult> {
+	const claimed = await claimDueNotifications(db, now, batchSize);
+	const result: DispatchResult = {
+		claimed: claimed.length,
+		sent: 0,
+		retrying: 0,
+		failed: 0,
+	};
+	if (claimed.length === 0) return result;
+
+	const recipients = new Map(
+		(
+			await getRecipients(db, [...new Set(claimed.map((row) => row.userId))])
+		).map((user) => [user.id, user]),
+	);
+
+	const outcomes = await Promise.all(
+		claimed.map(async (notification) => {
+			const user = recipients.get(notification.userId);
+			const delivery = user
+				? await deliver(db, notification, user, adapters)
+				: { delivered: [], errors: ["Recipient not found"] };
+			return recordOutcome(db, notification, delivery, now);
+		}),
+	);
+
+	for (const outcome of outcomes) result[outcome]++;
+	return result;
+}
+
+/**
+ * Dispatch batches until the queue has nothing due or the time budget runs
+ * out, for callers like the cron route that run once per invocation.
+ */
+export async function drainNotifications(
+	db: Database,
+	{
+		maxDurationMs = 50_000,
+		...options
+	}: DispatchOptions & {
+		maxDurationMs?: number;
+	} = {},
+): Promise<DispatchResult & { batches: number }> {
+	const startedAt = Date.now();
+	const total = { claimed: 0, sent: 0, retrying: 0, failed: 0, batches: 0 };
+	const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+	while (Date.now() - startedAt < maxDurationMs) {
+		const batch = await dispatchNotifications(db, options);
+		total.batches++;
+		total.claimed += batch.claimed;
+		total.sent += batch.sent;
+		total.retrying += batch.retrying;
+		total.failed += batch.failed;
+		if (batch.claimed < batchSize) break;
+	}
+
+	return total;
+}
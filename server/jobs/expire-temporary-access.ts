@@ -0,0 +1,48 @@
+import { and, isNull, lte } from "drizzle-orm";
+import type { db as dbClient } from "@/db/drizzle";
+import { memberships } from "@/db/schema";
+import { recordMembershipExpiry } from "../utils/temporary-access";
+
+type Database = typeof dbClient;
+
+export interface ExpireTemporaryAccessResult {
+	membershipsChecked: number;
+	expired: number;
+	failed: number;
+}
+
+/**
+ * Audit every temporary membership whose window has closed. Access is already
+ * refused by householdProcedure once `validUntil` passes; this makes sure the
+ * expiry is recorded even if the member never comes back.
+ */
+export async function expireTemporaryAccess(
+	db: Database,
+	{ now = new Date() }: { now?: Date } = {},
+): Promise<ExpireTemporaryAccessResult> {
+	const lapsed = await db
+		.select({ id: memberships.id })
+		.from(memberships)
+		.where(
+			and(
+				isNull(memberships.expiredAt),
+				lte(memberships.validUntil, now.toISOString()),
+			),
+		);
+
+	// One failure doesn't hold up the rest; its membership is retried next run
+	let expired = 0;
+	let failed = 0;
+	for (const membership of lapsed) {
+		try {
+			if (await recordMembershipExpiry(db, membership, now)) {
+				expired++;
+			}
+		} catch (error) {
+			failed++;
+			console.error("Failed to expire membership:", membership.id, error);
+		}
+	}
+
+	return { membershipsChecked: lapsed.length, expired, failed };
+}
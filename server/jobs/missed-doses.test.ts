@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { findMissedSlots } from "./missed-doses";
+
+type SlotRow = Parameters<typeof findMissedSlots>[0];
+
+const row = {
+	timezone: "UTC",
+	regimen: {
+		id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa",
+		scheduleType: "INTERVAL",
+		timesLocal: null,
+		intervalHours: 8,
+		intervalMode: "ROLLING",
+		startDate: "2025-03-01",
+		endDate: null,
+		cutoffMinutes: 60,
+		createdAt: "2025-03-01T00:00:00Z",
+	},
+} as unknown as SlotRow;
+
+const windowStart = new Date("2025-03-03T00:00:00Z");
+// Off the 00:00 anchor, so rolling slots differ from the anchor grid
+const dosedAt = new Date("2025-03-03T02:00:00Z");
+
+describe("findMissedSlots", () => {
+	it("marks the first rolling slot after a dose once its cutoff passes", () => {
+		const missed = findMissedSlots(
+			row,
+			[dosedAt],
+			null,
+			windowStart,
+			new Date("2025-03-03T12:00:00Z"),
+		);
+
+		expect(missed.map((slot) => slot.dueAt.toISOString())).toEqual([
+			"2025-03-03T10:00:00.000Z",
+		]);
+	});
+
+	it("keeps counting from the last dose while none is given", () => {
+		const missed = findMissedSlots(
+			row,
+			[dosedAt],
+			null,
+			windowStart,
+			new Date("2025-03-03T20:00:00Z"),
+		);
+
+		expect(missed.map((slot) => slot.dueAt.toISOString())).toEqual([
+			"2025-03-03T10:00:00.000Z",
+			"2025-03-03T18:00:00.000Z",
+		]);
+	});
+
+	it("counts from a dose given before the window", () => {
+		const missed = findMissedSlots(
+			row,
+			[],
+			dosedAt,
+			new Date("2025-03-03T06:00:00Z"),
+			new Date("2025-03-03T12:00:00Z"),
+		);
+
+		expect(missed.map((slot) => slot.dueAt.toISOString())).toEqual([
+			"2025-03-03T10:00:00.000Z",
+		]);
+	});
+});
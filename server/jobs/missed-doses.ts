@@ -0,0 +1,212 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import type { db as dbClient } from "@/db/drizzle";
+import { administrations, animals, memberships, regimens } from "@/db/schema";
+import { missedKey } from "@/utils/idempotency";
+import {
+	expandScheduleSlots,
+	findMissedRollingSlots,
+	findUncoveredSlots,
+	resolveDailySchedule,
+	type ScheduledSlot,
+} from "@/utils/schedule";
+import { getLastDoseTimes, getRecordedTimes } from "../utils/last-dose";
+
+type Database = typeof dbClient;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface MaterializeMissedOptions {
+	now?: Date;
+	// How far back to look for uncovered slots
+	lookbackHours?: number;
+}
+
+export interface MaterializeMissedResult {
+	regimensChecked: number;
+	missedInserted: number;
+	skippedNoCaregiver: number;
+}
+
+type ScheduledRegimenRow = Awaited<
+	ReturnType<typeof fetchScheduledRegimens>
+>[number];
+
+function fetchScheduledRegimens(db: Database) {
+	return db
+		.select({
+			regimen: regimens,
+			animalId: animals.id,
+			householdId: animals.householdId,
+			timezone: animals.timezone,
+		})
+		.from(regimens)
+		.innerJoin(animals, eq(regimens.animalId, animals.id))
+		.where(
+			and(
+				eq(regimens.active, true),
+				isNull(regimens.deletedAt),
+				isNull(regimens.pausedAt),
+				isNull(animals.deletedAt),
+				inArray(regimens.scheduleType, ["FIXED", "INTERVAL", "TAPER"]),
+			),
+		);
+}
+
+// MISSED rows need a caregiver; attribute them to the household's first owner
+async function getHouseholdOwners(db: Database, householdIds: string[]) {
+	const owners = new Map<string, string>();
+	if (householdIds.length === 0) return owners;
+
+	const rows = await db
+		.select({
+			householdId: memberships.householdId,
+			userId: memberships.userId,
+		})
+		.from(memberships)
+		.where(
+			and(
+				inArray(memberships.householdId, householdIds),
+				eq(memberships.role, "OWNER"),
+			),
+		)
+		.orderBy(asc(memberships.createdAt));
+
+	for (const row of rows) {
+		if (!owners.has(row.householdId)) {
+			owners.set(row.householdId, row.userId);
+		}
+	}
+
+	return owners;
+}
+
+// Slots of one regimen whose cutoff passed inside the window with nothing recorded.
+// Once dosed, a ROLLING cadence restarts at every dose instead of following its anchor.
+export function findMissedSlots(
+	row: Pick<ScheduledRegimenRow, "regimen" | "timezone">,
+	recordedAt: Date[],
+	previousDoseAt: Date | null,
+	windowStart: Date,
+	now: Date,
+): ScheduledSlot[] {
+	const { regimen } = row;
+	const cutoffMs = regimen.cutoffMinutes * 60 * 1000;
+	const createdAt = new Date(regimen.createdAt);
+	const earliest = createdAt > windowStart ? createdAt : windowStart;
+
+	if (
+		regimen.scheduleType === "INTERVAL" &&
+		regimen.intervalMode === "ROLLING" &&
+		(previousDoseAt || recordedAt.length > 0)
+	) {
+		return findMissedRollingSlots(
+			regimen,
+			row.timezone,
+			earliest,
+			now,
+			recordedAt,
+			cutoffMs,
+			previousDoseAt,
+		);
+	}
+
+	// Expand a day either side so each dose is matched against its true nearest slot
+	const slots = expandScheduleSlots(
+		regimen,
+		row.timezone,
+		new Date(earliest.getTime() - DAY_MS),
+		new Date(now.getTime() + DAY_MS),
+	);
+
+	return findUncoveredSlots(slots, recordedAt).filter(
+		(slot) =>
+			slot.dueAt >= earliest &&
+			slot.dueAt.getTime() + cutoffMs <= now.getTime(),
+	);
+}
+
+/**
+ * Insert MISSED administrations for scheduled slots whose cutoff has passed
+ * without a recorded dose. Safe to run repeatedly: each slot has a
+ * deterministic idempotency key and conflicts are ignored.
+ */
+export async function materializeMissedDoses(
+	db: Database,
+	{ now = new Date(), lookbackHours = 48 }: MaterializeMissedOptions = {},
+): Promise<MaterializeMissedResult> {
+	const windowStart = new Date(now.getTime() - lookbackHours * HOUR_MS);
+	const rows = await fetchScheduledRegimens(db);
+	const result: MaterializeMissedResult = {
+		regimensChecked: rows.length,
+		missedInserted: 0,
+		skippedNoCaregiver: 0,
+	};
+
+	if (rows.length === 0) return result;
+
+	const regimenIds = rows.map((row) => row.regimen.id);
+	const [owners, recorded, previousDoses] = await Promise.all([
+		getHouseholdOwners(db, [...new Set(rows.map((row) => row.householdId))]),
+		getRecordedTimes(db, regimenIds, new Date(windowStart.getTime() - DAY_MS)),
+		// Where each rolling cadence stood when the window opened
+		getLastDoseTimes(
+			db,
+			rows
+				.filter(
+					(row) =>
+						row.regimen.scheduleType === "INTERVAL" &&
+						row.regimen.intervalMode === "ROLLING",
+				)
+				.map((row) => row.regimen.id),
+			windowStart,
+		),
+	]);
+
+	for (const row of rows) {
+		const missed = findMissedSlots(
+			row,
+			recorded.get(row.regimen.id) ?? [],
+			previousDoses.get(row.regimen.id) ?? null,
+			windowStart,
+			now,
+		);
+		if (missed.length === 0) continue;
+
+		const caregiverId = owners.get(row.householdId);
+		if (!caregiverId) {
+			result.skippedNoCaregiver += missed.length;
+			continue;
+		}
+
+		const inserted = await db
+			.insert(administrations)
+			.values(
+				missed.map((slot) => ({
+					regimenId: row.regimen.id,
+					animalId: row.animalId,
+					householdId: row.householdId,
+					caregiverId,
+					scheduledFor: slot.dueAt.toISOString(),
+					recordedAt: slot.dueAt.toISOString(),
+					status: "MISSED" as const,
+					dose:
+						resolveDailySchedule(row.regimen, slot.dayISO)?.dose ??
+						row.regimen.dose,
+					notes: "Automatically marked missed after cutoff",
+					idempotencyKey: missedKey(
+						row.animalId,
+						row.regimen.id,
+						slot.dayISO,
+						slot.slotIndex,
+					),
+				})),
+			)
+			.onConflictDoNothing({ target: administrations.idempotencyKey })
+			.returning({ id: administrations.id });
+
+		result.missedInserted += inserted.length;
+	}
+
+	return result;
+}
@@ -0,0 +1,250 @@
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { db as dbClient } from "@/db/drizzle";
+import {
+	animals,
+	escalationPolicies,
+	medicationCatalog,
+	memberships,
+	notificationQueue,
+	regimens,
+	users,
+} from "@/db/schema";
+import {
+	expandScheduleSlots,
+	findUncoveredSlots,
+	resolveDailySchedule,
+} from "@/utils/schedule";
+import { getLastDoseTimes, getRecordedTimes } from "../utils/last-dose";
+import {
+	buildDoseReminders,
+	getFollowUpMinutes,
+	type ReminderRecipient,
+	type ReminderSlot,
+	resolveEscalationPlan,
+} from "../utils/reminders";
+import {
+	canAccessAnimal,
+	getMembershipAccess,
+} from "../utils/temporary-access";
+
+type Database = typeof dbClient;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface PlanRemindersOptions {
+	now?: Date;
+	// How far ahead to queue reminders; reaches past the longest lead time
+	horizonHours?: number;
+}
+
+export interface PlanRemindersResult {
+	regimensChecked: number;
+	remindersQueued: number;
+	skippedNoRecipient: number;
+}
+
+type ReminderRegimenRow = Awaited<
+	ReturnType<typeof fetchReminderRegimens>
+>[number];
+
+function fetchReminderRegimens(db: Database) {
+	return db
+		.select({
+			regimen: regimens,
+			animalId: animals.id,
+			animalName: animals.name,
+			householdId: animals.householdId,
+			timezone: animals.timezone,
+			medicationName: medicationCatalog.genericName,
+		})
+		.from(regimens)
+		.innerJoin(animals, eq(regimens.animalId, animals.id))
+		.innerJoin(
+			medicationCatalog,
+			eq(regimens.medicationId, medicationCatalog.id),
+		)
+		.where(
+			and(
+				eq(regimens.active, true),
+				isNull(regimens.deletedAt),
+				isNull(regimens.pausedAt),
+				isNull(animals.deletedAt),
+				inArray(regimens.scheduleType, ["FIXED", "INTERVAL", "TAPER"]),
+			),
+		);
+}
+
+// Owners and caregivers with current access; read-only vets aren't reminded
+async function getHouseholdCaregivers(
+	db: Database,
+	householdIds: string[],
+	now: Date,
+) {
+	const caregivers = new Map<
+		string,
+		(ReminderRecipient & { role: string; animalIds: string[] | null })[]
+	>();
+	if (householdIds.length === 0) return caregivers;
+
+	const rows = await db
+		.select({
+			householdId: memberships.householdId,
+			userId: memberships.userId,
+			role: memberships.role,
+			validFrom: memberships.validFrom,
+			validUntil: memberships.validUntil,
+			animalIds: memberships.animalIds,
+			reminderLeadTimeMinutes: users.reminderLeadTimeMinutes,
+		})
+		.from(memberships)
+		.innerJoin(users, eq(memberships.userId, users.id))
+		.where(
+			and(
+				inArray(memberships.householdId, householdIds),
+				inArray(memberships.role, ["OWNER", "CAREGIVER"]),
+			),
+		);
+
+	for (const row of rows) {
+		if (getMembershipAccess(row, now) !== "ACTIVE") continue;
+		const household = caregivers.get(row.householdId) ?? [];
+		household.push(row);
+		caregivers.set(row.householdId, household);
+	}
+
+	return caregivers;
+}
+
+async function getEscalationPolicies(db: Database, householdIds: string[]) {
+	if (householdIds.length === 0) return new Map();
+
+	const rows = await db
+		.select()
+		.from(escalationPolicies)
+		.where(inArray(escalationPolicies.householdId, householdIds));
+
+	return new Map(rows.map((policy) => [policy.householdId, policy]));
+}
+
+/**
+ * Slots of one regimen not already covered by a recorded dose: upcoming ones,
+ * and those due within the last followUpMinutes that escalation steps may
+ * still be pending for
+ */
+export function findUpcomingSlots(
+	row: Pick<ReminderRegimenRow, "regimen" | "timezone">,
+	recordedAt: Date[],
+	lastDoseAt: Date | null,
+	now: Date,
+	horizonEnd: Date,
+	followUpMinutes = 0,
+): ReminderSlot[] {
+	const { regimen } = row;
+
+	// Start a day back so an early dose is matched against its true nearest slot
+	const slots = expandScheduleSlots(
+		regimen,
+		row.timezone,
+		new Date(now.getTime() - DAY_MS),
+		horizonEnd,
+		lastDoseAt,
+	);
+
+	return findUncoveredSlots(slots, recordedAt)
+		.filter(
+			(slot) =>
+				slot.dueAt.getTime() + followUpMinutes * 60 * 1000 > now.getTime(),
+		)
+		.map((slot) => ({
+			...slot,
+			dose: resolveDailySchedule(regimen, slot.dayISO)?.dose ?? regimen.dose,
+		}));
+}
+
+/**
+ * Queue a reminder for each caregiver ahead of every upcoming scheduled dose.
+ * Safe to run repeatedly: each slot and recipient has a dedupe key, so only
+ * slots that entered the horizon since the last run are added.
+ */
+export async function planDoseReminders(
+	db: Database,
+	{ now = new Date(), horizonHours = 24 }: PlanRemindersOptions = {},
+): Promise<PlanRemindersResult> {
+	const horizonEnd = new Date(now.getTime() + horizonHours * HOUR_MS);
+	const rows = await fetchReminderRegimens(db);
+	const result: PlanRemindersResult = {
+		regimensChecked: rows.length,
+		remindersQueued: 0,
+		skippedNoRecipient: 0,
+	};
+
+	if (rows.length === 0) return result;
+
+	const regimenIds = rows.map((row) => row.regimen.id);
+	const householdIds = [...new Set(rows.map((row) => row.householdId))];
+	const [caregivers, policies, recorded, lastDoses] = await Promise.all([
+		getHouseholdCaregivers(db, householdIds, now),
+		getEscalationPolicies(db, householdIds),
+		getRecordedTimes(db, regimenIds, new Date(now.getTime() - 2 * DAY_MS)),
+		getLastDoseTimes(
+			db,
+			rows
+				.filter((row) => row.regimen.scheduleType === "INTERVAL")
+				.map((row) => row.regimen.id),
+		),
+	]);
+
+	for (const row of rows) {
+		const recipients = (caregivers.get(row.householdId) ?? []).filter(
+			(caregiver) => canAccessAnimal(caregiver, row.animalId),
+		);
+		const escalation = resolveEscalationPlan(
+			policies.get(row.householdId),
+			recipients,
+		);
+
+		const slots = findUpcomingSlots(
+			row,
+			recorded.get(row.regimen.id) ?? [],
+			lastDoses.get(row.regimen.id) ?? null,
+			now,
+			horizonEnd,
+			getFollowUpMinutes(escalation),
+		);
+		if (slots.length === 0) continue;
+
+		if (recipients.length === 0) {
+			result.skippedNoRecipient += slots.length;
+			continue;
+		}
+
+		const inserted = await db
+			.insert(notificationQueue)
+			.values(
+				buildDoseReminders(
+					{
+						id: row.regimen.id,
+						animalId: row.animalId,
+						animalName: row.animalName,
+						householdId: row.householdId,
+						timezone: row.timezone,
+						medicationName: row.regimen.name ?? row.medicationName,
+					},
+					slots,
+					recipients,
+					now,
+					escalation,
+				),
+			)
+			.onConflictDoNothing({
+				target: notificationQueue.dedupeKey,
+				where: sql`${notificationQueue.cancelledAt} IS NULL`,
+			})
+			.returning({ id: notificationQueue.id });
+
+		result.remindersQueued += inserted.length;
+	}
+
+	return result;
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { type AdherenceRegimen, summarizeAdherence } from "./adherence";
+
+const regimen: AdherenceRegimen = {
+	id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa",
+	scheduleType: "FIXED",
+	timesLocal: ["08:00", "20:00"],
+	intervalHours: null,
+	intervalMode: "ROLLING",
+	startDate: "2025-03-01",
+	endDate: null,
+	dose: "1 tablet",
+	cutoffMinutes: 240,
+	createdAt: "2025-02-20T00:00:00Z",
+};
+
+describe("summarizeAdherence", () => {
+	const now = new Date("2025-03-03T21:00:00Z");
+
+	it("counts doses against expected slots in the window", () => {
+		const summary = summarizeAdherence(
+			regimen,
+			"UTC",
+			[
+				new Date("2025-03-01T08:10:00Z"),
+				new Date("2025-03-01T20:05:00Z"),
+				new Date("2025-03-02T09:30:00Z"),
+				new Date("2025-03-03T08:00:00Z"),
+			],
+			null,
+			3,
+			now,
+		);
+
+		// 03-03 20:00 is still inside its cutoff, so only five slots are expected
+		expect(summary.expected).toBe(5);
+		expect(summary.actual).toBe(4);
+		expect(summary.percentage).toBe(80);
+		expect(summary.windowStart).toBe("2025-02-28T21:00:00.000Z");
+		expect(summary.windowEnd).toBe(now.toISOString());
+	});
+
+	it("counts a dose given inside the cutoff as soon as it is recorded", () => {
+		const summary = summarizeAdherence(
+			regimen,
+			"UTC",
+			[new Date("2025-03-03T20:15:00Z")],
+			null,
+			1,
+			now,
+		);
+
+		expect(summary.expected).toBe(2);
+		expect(summary.actual).toBe(1);
+	});
+
+	it("ignores slots before the regimen was created", () => {
+		const summary = summarizeAdherence(
+			{ ...regimen, createdAt: "2025-03-03T12:00:00Z" },
+			"UTC",
+			[],
+			null,
+			7,
+			now,
+		);
+
+		expect(summary.expected).toBe(0);
+		expect(summary.percentage).toBe(100);
+	});
+
+	describe("rolling intervals", () => {
+		const rolling: AdherenceRegimen = {
+			...regimen,
+			scheduleType: "INTERVAL",
+			timesLocal: null,
+			intervalHours: 12,
+			intervalMode: "ROLLING",
+			cutoffMinutes: 60,
+		};
+
+		it("counts doses given on time as full adherence", () => {
+			const summary = summarizeAdherence(
+				rolling,
+				"UTC",
+				[new Date("2025-03-02T22:00:00Z"), new Date("2025-03-03T09:30:00Z")],
+				null,
+				1,
+				now,
+			);
+
+			// Next due 21:30, still inside its cutoff
+			expect(summary.expected).toBe(2);
+			expect(summary.percentage).toBe(100);
+		});
+
+		it("lowers the percentage when a rolling dose is missed", () => {
+			const summary = summarizeAdherence(
+				rolling,
+				"UTC",
+				[new Date("2025-03-02T21:00:00Z"), new Date("2025-03-03T21:00:00Z")],
+				null,
+				1,
+				now,
+			);
+
+			// The 09:00 dose between them was skipped
+			expect(summary.expected).toBe(3);
+			expect(summary.actual).toBe(2);
+			expect(summary.percentage).toBe(67);
+		});
+
+		it("counts doses skipped since the last one before the window", () => {
+			const summary = summarizeAdherence(
+				{ ...rolling, startDate: "2025-02-20" },
+				"UTC",
+				[],
+				new Date("2025-02-24T21:00:00Z"),
+				7,
+				now,
+			);
+
+			// One dose in seven days of q12h: the 13 due after it were all missed
+			expect(summary.expected).toBe(13);
+			expect(summary.actual).toBe(0);
+			expect(summary.percentage).toBe(0);
+		});
+	});
+});
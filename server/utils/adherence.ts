@@ -0,0 +1,225 @@
+import { and, gte, inArray, ne } from "drizzle-orm";
+import { administrations } from "@/db/schema";
+import {
+	expandScheduleSlots,
+	findMissedRollingSlots,
+	findUncoveredSlots,
+	type SlotRegimen,
+} from "@/utils/schedule";
+import { getLastDoseTimes } from "./last-dose";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface AdherenceSummary {
+	windowDays: number;
+	windowStart: string;
+	windowEnd: string;
+	expected: number;
+	actual: number;
+	percentage: number;
+}
+
+export type AdherenceRegimen = SlotRegimen & {
+	id: string;
+	cutoffMinutes: number;
+	createdAt: string;
+};
+
+// In-memory cache keyed by regimen and window size (consider Redis for production scaling)
+const adherenceCache = new Map<
+	string,
+	{ summary: AdherenceSummary; expiresAt: number }
+>();
+
+const cacheKey = (regimenId: string, windowDays: number) =>
+	`${regimenId}:${windowDays}`;
+
+// Drop cached adherence after a dose for the regimen is recorded or removed,
+// or the regimen's schedule changes
+export function invalidateAdherence(regimenId: string) {
+	for (const key of adherenceCache.keys()) {
+		if (key.startsWith(`${regimenId}:`)) {
+			adherenceCache.delete(key);
+		}
+	}
+}
+
+// Every dose in the window counts, plus the doses each long gap skipped
+function countRollingDoses(
+	regimen: AdherenceRegimen,
+	tz: string,
+	recordedAt: Date[],
+	previousDoseAt: Date | null,
+	earliest: Date,
+	now: Date,
+) {
+	const actual = recordedAt.filter(
+		(time) => time >= earliest && time <= now,
+	).length;
+	const missed = findMissedRollingSlots(
+		regimen,
+		tz,
+		earliest,
+		now,
+		recordedAt,
+		regimen.cutoffMinutes * 60 * 1000,
+		previousDoseAt,
+	);
+	return { expected: actual + missed.length, actual };
+}
+
+function countScheduledDoses(
+	regimen: AdherenceRegimen,
+	tz: string,
+	recordedAt: Date[],
+	earliest: Date,
+	now: Date,
+) {
+	const cutoffMs = regimen.cutoffMinutes * 60 * 1000;
+	// Pad by a day so doses match their nearest slot, not the nearest in-window one
+	const slots = expandScheduleSlots(
+		regimen,
+		tz,
+		new Date(earliest.getTime() - DAY_MS),
+		new Date(now.getTime() + DAY_MS),
+	);
+	const uncovered = new Set(findUncoveredSlots(slots, recordedAt));
+
+	let expected = 0;
+	let actual = 0;
+	for (const slot of slots) {
+		if (slot.dueAt < earliest || slot.dueAt > now) continue;
+
+		const covered = !uncovered.has(slot);
+		if (covered || slot.dueAt.getTime() + cutoffMs <= now.getTime()) {
+			expected++;
+			if (covered) actual++;
+		}
+	}
+	return { expected, actual };
+}
+
+/**
+ * Adherence of one regimen over the window ending at `now`. A slot is expected
+ * once it has been dosed or its cutoff has passed; it counts as actual when a
+ * non-missed administration is closest to it. Rolling intervals have no fixed
+ * slots: every dose counts, and each gap between doses longer than the
+ * interval plus cutoff adds the doses it skipped. `previousDoseAt` is the last
+ * dose before the window, where a rolling cadence resumes from.
+ */
+export function summarizeAdherence(
+	regimen: AdherenceRegimen,
+	tz: string,
+	recordedAt: Date[],
+	previousDoseAt: Date | null,
+	windowDays: number,
+	now: Date,
+): AdherenceSummary {
+	const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+	const createdAt = new Date(regimen.createdAt);
+	const earliest = createdAt > windowStart ? createdAt : windowStart;
+
+	const { expected, actual } =
+		regimen.scheduleType === "INTERVAL" && regimen.intervalMode === "ROLLING"
+			? countRollingDoses(
+					regimen,
+					tz,
+					recordedAt,
+					previousDoseAt,
+					earliest,
+					now,
+				)
+			: countScheduledDoses(regimen, tz, recordedAt, earliest, now);
+
+	return {
+		windowDays,
+		windowStart: windowStart.toISOString(),
+		windowEnd: now.toISOString(),
+		expected,
+		actual,
+		percentage: expected > 0 ? Math.round((actual / expected) * 100) : 100,
+	};
+}
+
+// Adherence for scheduled regimens, served from cache where still fresh
+export async function getAdherenceSummaries(
+	db: typeof import("@/db/drizzle").db,
+	entries: { regimen: AdherenceRegimen; timezone: string }[],
+	windowDays: number,
+	now: Date = new Date(),
+): Promise<Map<string, AdherenceSummary>> {
+	const summaries = new Map<string, AdherenceSummary>();
+	const stale: typeof entries = [];
+
+	for (const entry of entries) {
+		const cached = adherenceCache.get(cacheKey(entry.regimen.id, windowDays));
+		if (cached && cached.expiresAt > now.getTime()) {
+			summaries.set(entry.regimen.id, cached.summary);
+		} else {
+			stale.push(entry);
+		}
+	}
+
+	if (stale.length === 0) return summaries;
+
+	const windowStart = new Date(now.getTime() - windowDays * DAY_MS);
+	const [rows, previousDoses] = await Promise.all([
+		db
+			.select({
+				regimenId: administrations.regimenId,
+				recordedAt: administrations.recordedAt,
+			})
+			.from(administrations)
+			.where(
+				and(
+					inArray(
+						administrations.regimenId,
+						stale.map((entry) => entry.regimen.id),
+					),
+					ne(administrations.status, "MISSED"),
+					gte(
+						administrations.recordedAt,
+						new Date(now.getTime() - (windowDays + 1) * DAY_MS).toISOString(),
+					),
+				),
+			),
+		// Where each rolling cadence stood when the window opened
+		getLastDoseTimes(
+			db,
+			stale
+				.filter(
+					(entry) =>
+						entry.regimen.scheduleType === "INTERVAL" &&
+						entry.regimen.intervalMode === "ROLLING",
+				)
+				.map((entry) => entry.regimen.id),
+			windowStart,
+		),
+	]);
+
+	const recorded = new Map<string, Date[]>();
+	for (const row of rows) {
+		const times = recorded.get(row.regimenId) ?? [];
+		times.push(new Date(row.recordedAt));
+		recorded.set(row.regimenId, times);
+	}
+
+	for (const { regimen, timezone } of stale) {
+		const summary = summarizeAdherence(
+			regimen,
+			timezone,
+			recorded.get(regimen.id) ?? [],
+			previousDoses.get(regimen.id) ?? null,
+			windowDays,
+			now,
+		);
+		adherenceCache.set(cacheKey(regimen.id, windowDays), {
+			summary,
+			expiresAt: now.getTime() + CACHE_TTL_MS,
+		});
+		summaries.set(regimen.id, summary);
+	}
+
+	return summaries;
+}
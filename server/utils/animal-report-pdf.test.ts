@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+	type AnimalReportPdfData,
+	getAnimalReportFilename,
+	renderAnimalReportPdf,
+} from "./animal-report-pdf";
+
+// Text drawn by each Tj operator, in drawing order
+function extractText(pdf: Buffer) {
+	return Array.from(
+		pdf.toString("latin1").matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g),
+		(match) => (match[1] ?? "").replace(/\\(.)/g, "$1"),
+	);
+}
+
+const report: AnimalReportPdfData = {
+	animal: {
+		name: "Buddy",
+		species: "Dog",
+		breed: "Golden Retriever",
+		weightKg: 30,
+		timezone: "America/New_York",
+		allergies: ["Penicillin"],
+		conditions: [],
+	},
+	compliance: {
+		adherencePct: 92,
+		scheduled: 60,
+		completed: 55,
+		missed: 3,
+		late: 2,
+		veryLate: 0,
+		streak: 7,
+	},
+	regimens: [
+		{
+			id: "r1",
+			medicationName: "Amoxicillin",
+			strength: "250mg",
+			route: "Oral",
+			schedule: "08:00, 20:00",
+			adherence: 95,
+			notes: "Give with food (not on an empty stomach)",
+		},
+	],
+	interactions: [],
+	notableEvents: [
+		{
+			id: "e1",
+			date: new Date("2025-01-20T13:00:00Z"),
+			medication: "Amoxicillin",
+			note: "Vomited shortly after the evening dose",
+			tags: ["Adverse Event"],
+		},
+	],
+	reportPeriod: {
+		from: new Date("2025-01-01T05:00:00Z"),
+		to: new Date("2025-01-31T05:00:00Z"),
+	},
+};
+
+const generatedAt = new Date("2025-01-31T19:30:00Z");
+
+describe("renderAnimalReportPdf", () => {
+	it("renders the report sections, signature block and footer", () => {
+		expect(
+			extractText(renderAnimalReportPdf(report, { generatedAt })),
+		).toMatchInlineSnapshot(`
+				[
+				  "Medication Compliance Report",
+				  "January 1, 2025 - January 31, 2025",
+				  "Buddy",
+				  "Golden Retriever Dog, 30 kg",
+				  "Allergies: Penicillin",
+				  "Conditions: None recorded",
+				  "Compliance Summary",
+				  "Overall Adherence",
+				  "92%",
+				  "55 of 60 doses",
+				  "Current Streak",
+				  "7",
+				  "days without missed doses",
+				  "Late Doses",
+				  "2",
+				  "within cutoff window",
+				  "Missed Doses",
+				  "3",
+				  "beyond cutoff window",
+				  "Current Medications",
+				  "Medication",
+				  "Route",
+				  "Schedule",
+				  "Adherence",
+				  "Notes",
+				  "Amoxicillin 250mg",
+				  "Oral",
+				  "08:00, 20:00",
+				  "95%",
+				  "Give with food (not on an",
+				  "empty stomach)",
+				  "Notable Events",
+				  "Amoxicillin",
+				  "January 20, 2025",
+				  "Adverse Event",
+				  "Vomited shortly after the evening dose",
+				  "Veterinarian signature",
+				  "Date",
+				  "Report generated on January 31, 2025 at 2:30 PM EST",
+				  "Page 1 of 1",
+				]
+			`);
+	});
+
+	it("notes empty sections", () => {
+		const text = extractText(
+			renderAnimalReportPdf(
+				{ ...report, regimens: [], notableEvents: [] },
+				{ generatedAt },
+			),
+		);
+
+		expect(text).toContain("No active medications found for this period.");
+		expect(text).toContain("No notable events found for this period.");
+	});
+
+	it("lists interactions between active medications", () => {
+		const text = extractText(
+			renderAnimalReportPdf(
+				{
+					...report,
+					interactions: [
+						{
+							key: "i1",
+							severity: "MAJOR",
+							description: "Increased risk of ulcers",
+							medications: ["Carprofen", "Prednisone"],
+							regimenIds: ["r1", "r2"],
+						},
+					],
+				},
+				{ generatedAt },
+			),
+		);
+
+		const heading = text.indexOf("Drug Interactions");
+		expect(heading).toBeGreaterThan(text.indexOf("Current Medications"));
+		expect(text.slice(heading + 1, heading + 3)).toEqual([
+			"Carprofen + Prednisone (major)",
+			"Increased risk of ulcers",
+		]);
+	});
+
+	it("continues long reports onto more pages", () => {
+		const notableEvents = Array.from({ length: 40 }, (_, index) => ({
+			id: `e${index}`,
+			date: new Date("2025-01-20T13:00:00Z"),
+			medication: `Medication ${index + 1}`,
+			note: "Dose given late",
+			tags: [],
+		}));
+		const text = extractText(
+			renderAnimalReportPdf({ ...report, notableEvents }, { generatedAt }),
+		);
+
+		const pageLabels = text.filter((line) => /^Page \d+ of \d+$/.test(line));
+
+		expect(text).toContain("Medication 40");
+		expect(pageLabels.length).toBeGreaterThan(1);
+		expect(pageLabels.at(-1)).toBe(
+			`Page ${pageLabels.length} of ${pageLabels.length}`,
+		);
+	});
+
+	it("produces a well-formed PDF", () => {
+		const pdf = renderAnimalReportPdf(report, { generatedAt }).toString(
+			"latin1",
+		);
+
+		expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+		expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+		// Every xref entry points at the start of its object
+		const xref = pdf.slice(pdf.lastIndexOf("xref\n"));
+		const offsets = Array.from(
+			xref.matchAll(/^(\d{10}) 00000 n $/gm),
+			(match) => Number(match[1]),
+		);
+		offsets.forEach((offset, index) => {
+			expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+		});
+	});
+});
+
+describe("getAnimalReportFilename", () => {
+	it("uses the animal's name and the last day of the period", () => {
+		expect(getAnimalReportFilename(report)).toBe("buddy-report-2025-01-31.pdf");
+	});
+});
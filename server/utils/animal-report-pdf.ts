@@ -0,0 +1,351 @@
+import type { ComplianceData, NotableEvent, RegimenSummary } from "@/lib/types";
+import type { DrugInteraction } from "@/utils/interactions";
+import { toAnimalLocal } from "@/utils/tz";
+import {
+	measureText,
+	PDF_PAGE_HEIGHT,
+	PDF_PAGE_WIDTH,
+	PdfDocument,
+	wrapText,
+} from "./pdf";
+
+// Same shape as the reports.animalReport output
+export interface AnimalReportPdfData {
+	animal: {
+		name: string;
+		species: string;
+		breed?: string | null;
+		weightKg?: number | null;
+		timezone: string;
+		allergies?: string[];
+		conditions?: string[];
+	};
+	compliance: ComplianceData;
+	regimens: RegimenSummary[];
+	interactions: DrugInteraction[];
+	notableEvents: NotableEvent[];
+	reportPeriod: { from: Date; to: Date };
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+// Leave room for the page footer
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 64;
+const LINE_HEIGHT = 12;
+const MUTED = 0.4;
+
+const REGIMEN_COLUMNS = [
+	{ header: "Medication", width: 140 },
+	{ header: "Route", width: 60 },
+	{ header: "Schedule", width: 140 },
+	{ header: "Adherence", width: 60 },
+	{ header: "Notes", width: CONTENT_WIDTH - 400 },
+];
+
+interface Layout {
+	doc: PdfDocument;
+	y: number;
+	timezone: string;
+}
+
+const formatDay = (date: Date, timezone: string) =>
+	toAnimalLocal(new Date(date), timezone)
+		.setLocale("en-US")
+		.toFormat("LLLL d, yyyy");
+
+const formatPeriod = (period: { from: Date; to: Date }, timezone: string) =>
+	`${formatDay(period.from, timezone)} - ${formatDay(period.to, timezone)}`;
+
+// Start a new page when the next block wouldn't fit; returns true if it did
+function ensureSpace(layout: Layout, height: number) {
+	if (layout.y + height <= CONTENT_BOTTOM) return false;
+	layout.doc.addPage();
+	layout.y = MARGIN;
+	return true;
+}
+
+function drawParagraph(
+	layout: Layout,
+	text: string,
+	options: { size?: number; gray?: number; x?: number; width?: number } = {},
+) {
+	const { size = 10, gray = 0, x = MARGIN, width = CONTENT_WIDTH } = options;
+	for (const line of wrapText(text, width, "regular", size)) {
+		ensureSpace(layout, LINE_HEIGHT);
+		layout.y += LINE_HEIGHT;
+		layout.doc.text(x, layout.y, line, { size, gray });
+	}
+}
+
+function drawSectionHeading(layout: Layout, title: string) {
+	ensureSpace(layout, 40);
+	layout.y += 28;
+	layout.doc.text(MARGIN, layout.y, title, { font: "bold", size: 12 });
+	layout.y += 4;
+	layout.doc.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+}
+
+function drawHeader(layout: Layout, report: AnimalReportPdfData) {
+	const { doc } = layout;
+	const { animal } = report;
+
+	layout.y += 18;
+	doc.text(MARGIN, layout.y, "Medication Compliance Report", {
+		font: "bold",
+		size: 18,
+	});
+	layout.y += 16;
+	doc.text(
+		MARGIN,
+		layout.y,
+		formatPeriod(report.reportPeriod, layout.timezone),
+		{
+			size: 11,
+			gray: MUTED,
+		},
+	);
+
+	layout.y += 28;
+	doc.text(MARGIN, layout.y, animal.name, { font: "bold", size: 14 });
+
+	const description = [animal.breed, animal.species].filter(Boolean).join(" ");
+	drawParagraph(
+		layout,
+		animal.weightKg ? `${description}, ${animal.weightKg} kg` : description,
+		{ gray: MUTED },
+	);
+	drawParagraph(
+		layout,
+		`Allergies: ${animal.allergies?.length ? animal.allergies.join(", ") : "None recorded"}`,
+	);
+	drawParagraph(
+		layout,
+		`Conditions: ${animal.conditions?.length ? animal.conditions.join(", ") : "None recorded"}`,
+	);
+}
+
+function drawComplianceSummary(layout: Layout, compliance: ComplianceData) {
+	const stats = [
+		{
+			label: "Overall Adherence",
+			value: `${compliance.adherencePct}%`,
+			caption: `${compliance.completed} of ${compliance.scheduled} doses`,
+		},
+		{
+			label: "Current Streak",
+			value: String(compliance.streak),
+			caption: "days without missed doses",
+		},
+		{
+			label: "Late Doses",
+			value: String(compliance.late),
+			caption: "within cutoff window",
+		},
+		{
+			label: "Missed Doses",
+			value: String(compliance.missed),
+			caption: "beyond cutoff window",
+		},
+	];
+	const gap = 12;
+	const boxWidth = (CONTENT_WIDTH - gap * (stats.length - 1)) / stats.length;
+	const boxHeight = 58;
+
+	drawSectionHeading(layout, "Compliance Summary");
+	ensureSpace(layout, boxHeight + 12);
+	const top = layout.y + 12;
+
+	stats.forEach((stat, index) => {
+		const x = MARGIN + index * (boxWidth + gap);
+		layout.doc.fillRect(x, top, boxWidth, boxHeight);
+		layout.doc.text(x + 8, top + 14, stat.label, { size: 8, gray: MUTED });
+		layout.doc.text(x + 8, top + 34, stat.value, { font: "bold", size: 16 });
+		layout.doc.text(x + 8, top + 49, stat.caption, { size: 8, gray: MUTED });
+	});
+
+	layout.y = top + boxHeight;
+}
+
+function drawRegimenTableHeader(layout: Layout) {
+	const height = 18;
+	layout.doc.fillRect(MARGIN, layout.y, CONTENT_WIDTH, height);
+
+	let x = MARGIN;
+	for (const column of REGIMEN_COLUMNS) {
+		layout.doc.text(x + 4, layout.y + 12, column.header, {
+			font: "bold",
+			size: 9,
+		});
+		x += column.width;
+	}
+	layout.y += height;
+}
+
+function drawRegimenTable(layout: Layout, regimens: RegimenSummary[]) {
+	drawSectionHeading(layout, "Current Medications");
+
+	if (regimens.length === 0) {
+		layout.y += 4;
+		drawParagraph(layout, "No active medications found for this period.", {
+			gray: MUTED,
+		});
+		return;
+	}
+
+	layout.y += 8;
+	drawRegimenTableHeader(layout);
+
+	for (const regimen of regimens) {
+		const cells = [
+			[regimen.medicationName, regimen.strength].filter(Boolean).join(" "),
+			regimen.route,
+			regimen.schedule,
+			`${regimen.adherence}%`,
+			regimen.notes ?? "",
+		].map((value, index) =>
+			wrapText(value, (REGIMEN_COLUMNS[index]?.width ?? 0) - 8, "regular", 9),
+		);
+		const rowHeight =
+			Math.max(...cells.map((lines) => lines.length)) * LINE_HEIGHT + 8;
+
+		if (ensureSpace(layout, rowHeight)) {
+			drawRegimenTableHeader(layout);
+		}
+
+		let x = MARGIN;
+		cells.forEach((lines, index) => {
+			lines.forEach((line, lineIndex) => {
+				layout.doc.text(
+					x + 4,
+					layout.y + 4 + (lineIndex + 1) * LINE_HEIGHT - 2,
+					line,
+					{ size: 9 },
+				);
+			});
+			x += REGIMEN_COLUMNS[index]?.width ?? 0;
+		});
+
+		layout.y += rowHeight;
+		layout.doc.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, 0.25);
+	}
+}
+
+// Only drawn when the active medications interact
+function drawInteractions(layout: Layout, interactions: DrugInteraction[]) {
+	if (interactions.length === 0) return;
+	drawSectionHeading(layout, "Drug Interactions");
+
+	for (const interaction of interactions) {
+		ensureSpace(layout, LINE_HEIGHT * 3 + 10);
+		layout.y += 10 + LINE_HEIGHT;
+		layout.doc.text(
+			MARGIN,
+			layout.y,
+			`${interaction.medications.join(" + ")} (${interaction.severity.toLowerCase()})`,
+			{ font: "bold", size: 10 },
+		);
+		drawParagraph(layout, interaction.description, { size: 9 });
+	}
+}
+
+function drawNotableEvents(layout: Layout, events: NotableEvent[]) {
+	drawSectionHeading(layout, "Notable Events");
+
+	if (events.length === 0) {
+		layout.y += 4;
+		drawParagraph(layout, "No notable events found for this period.", {
+			gray: MUTED,
+		});
+		return;
+	}
+
+	for (const event of events) {
+		ensureSpace(layout, LINE_HEIGHT * 3 + 10);
+		layout.y += 10 + LINE_HEIGHT;
+
+		const date = formatDay(event.date, layout.timezone);
+		layout.doc.text(MARGIN, layout.y, event.medication, {
+			font: "bold",
+			size: 10,
+		});
+		layout.doc.text(
+			MARGIN + CONTENT_WIDTH - measureText(date, "regular", 9),
+			layout.y,
+			date,
+			{ size: 9, gray: MUTED },
+		);
+
+		if (event.tags.length > 0) {
+			drawParagraph(layout, event.tags.join(" · "), { size: 8, gray: MUTED });
+		}
+		drawParagraph(layout, event.note, { size: 9 });
+	}
+}
+
+function drawSignature(layout: Layout) {
+	ensureSpace(layout, 80);
+	layout.y += 56;
+
+	const signatureWidth = 300;
+	const dateX = MARGIN + signatureWidth + 40;
+	layout.doc.line(MARGIN, layout.y, MARGIN + signatureWidth, layout.y);
+	layout.doc.line(dateX, layout.y, MARGIN + CONTENT_WIDTH, layout.y);
+
+	layout.y += 12;
+	layout.doc.text(MARGIN, layout.y, "Veterinarian signature", {
+		size: 8,
+		gray: MUTED,
+	});
+	layout.doc.text(dateX, layout.y, "Date", { size: 8, gray: MUTED });
+}
+
+/**
+ * Render the animal compliance report as a PDF: compliance summary, regimen
+ * table, any drug interactions, notable events and a signature/date block. Dates are shown in the
+ * animal's timezone.
+ */
+export function renderAnimalReportPdf(
+	report: AnimalReportPdfData,
+	options: { generatedAt?: Date } = {},
+): Buffer {
+	const generatedAt = options.generatedAt ?? new Date();
+	const timezone = report.animal.timezone;
+	const doc = new PdfDocument({
+		title: `Medication Compliance Report - ${report.animal.name}`,
+		creationDate: generatedAt,
+	});
+	const layout: Layout = { doc, y: MARGIN, timezone };
+
+	drawHeader(layout, report);
+	drawComplianceSummary(layout, report.compliance);
+	drawRegimenTable(layout, report.regimens);
+	drawInteractions(layout, report.interactions);
+	drawNotableEvents(layout, report.notableEvents);
+	drawSignature(layout);
+
+	const generated = `Report generated on ${toAnimalLocal(generatedAt, timezone)
+		.setLocale("en-US")
+		.toFormat("LLLL d, yyyy 'at' h:mm a ZZZZ")}`;
+	doc.eachPage((index, count) => {
+		const pageLabel = `Page ${index + 1} of ${count}`;
+		const y = PDF_PAGE_HEIGHT - 32;
+		doc.line(MARGIN, y - 14, MARGIN + CONTENT_WIDTH, y - 14, 0.25);
+		doc.text(MARGIN, y, generated, { size: 8, gray: MUTED });
+		doc.text(
+			MARGIN + CONTENT_WIDTH - measureText(pageLabel, "regular", 8),
+			y,
+			pageLabel,
+			{ size: 8, gray: MUTED },
+		);
+	});
+
+	return doc.toBuffer();
+}
+
+export const getAnimalReportFilename = (
+	report: Pick<AnimalReportPdfData, "animal" | "reportPeriod">,
+) =>
+	`${report.animal.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase()}-report-${toAnimalLocal(
+		new Date(report.reportPeriod.to),
+		report.animal.timezone,
+	).toISODate()}.pdf`;
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import {
+	type AuditChainEntry,
+	canonicalize,
+	computeAuditHash,
+	findChainBreak,
+	type StoredAuditChainEntry,
+} from "./audit-chain";
+
+const baseEntry: Omit<AuditChainEntry, "sequence"> = {
+	householdId: "11111111-1111-4111-8111-111111111111",
+	userId: "22222222-2222-4222-8222-222222222222",
+	action: "UPDATE",
+	resourceType: "animal",
+	resourceId: "33333333-3333-4333-8333-333333333333",
+	oldValues: { name: "Rex" },
+	newValues: { name: "Max" },
+	details: null,
+	ipAddress: "127.0.0.1",
+	userAgent: "vitest",
+	sessionId: null,
+	timestamp: "2025-03-01T08:00:00.000Z",
+};
+
+// Build a correctly linked chain of `length` entries
+function buildChain(length: number): StoredAuditChainEntry[] {
+	const chain: StoredAuditChainEntry[] = [];
+	let prevHash: string | null = null;
+	for (let sequence = 1; sequence <= length; sequence++) {
+		const entry = { ...baseEntry, sequence };
+		const hash = computeAuditHash(prevHash, entry);
+		chain.push({ ...entry, id: `entry-${sequence}`, prevHash, hash });
+		prevHash = hash;
+	}
+	return chain;
+}
+
+describe("canonicalize", () => {
+	it("sorts object keys at every depth", () => {
+		expect(canonicalize({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } })).toBe(
+			'{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}',
+		);
+	});
+
+	it("drops undefined properties", () => {
+		expect(canonicalize({ a: undefined, b: "x" })).toBe('{"b":"x"}');
+	});
+});
+
+describe("computeAuditHash", () => {
+	it("is stable across timestamp formats for the same instant", () => {
+		const entry = { ...baseEntry, sequence: 1 };
+		expect(
+			computeAuditHash(null, { ...entry, timestamp: "2025-03-01 08:00:00+00" }),
+		).toBe(computeAuditHash(null, entry));
+	});
+
+	it("depends on the previous hash", () => {
+		const entry = { ...baseEntry, sequence: 2 };
+		expect(computeAuditHash("a", entry)).not.toBe(computeAuditHash("b", entry));
+	});
+});
+
+describe("findChainBreak", () => {
+	it("accepts an intact chain", () => {
+		expect(findChainBreak(buildChain(5))).toBeNull();
+	});
+
+	it("reports an edited entry", () => {
+		const chain = buildChain(4).map((entry) =>
+			entry.sequence === 3
+				? { ...entry, newValues: { name: "Tampered" } }
+				: entry,
+		);
+
+		expect(findChainBreak(chain)).toEqual({
+			id: "entry-3",
+			sequence: 3,
+			reason: "hash_mismatch",
+		});
+	});
+
+	it("reports an entry whose hash was recomputed after editing", () => {
+		const chain = buildChain(4).map((entry) => {
+			if (entry.sequence !== 2) return entry;
+			const edited = { ...entry, newValues: { name: "Tampered" } };
+			return { ...edited, hash: computeAuditHash(edited.prevHash, edited) };
+		});
+
+		expect(findChainBreak(chain)).toEqual({
+			id: "entry-3",
+			sequence: 3,
+			reason: "prev_hash_mismatch",
+		});
+	});
+
+	it("reports a deleted entry", () => {
+		const chain = buildChain(4);
+		chain.splice(1, 1);
+
+		expect(findChainBreak(chain)).toEqual({
+			id: "entry-3",
+			sequence: 3,
+			reason: "sequence_gap",
+		});
+	});
+
+	it("continues from a previously verified batch", () => {
+		const chain = buildChain(6);
+		const second = chain.slice(3);
+		const verifiedHash = second[0]?.prevHash ?? "";
+
+		expect(
+			findChainBreak(second, { sequence: 3, hash: verifiedHash }),
+		).toBeNull();
+		expect(findChainBreak(second)).toMatchObject({ reason: "sequence_gap" });
+	});
+});
@@ -0,0 +1,111 @@
+import { createHash } from "node:crypto";
+
+// Fields covered by an audit entry's hash
+export interface AuditChainEntry {
+	householdId: string;
+	sequence: number;
+	userId: string;
+	action: string;
+	resourceType: string;
+	resourceId: string | null;
+	oldValues: unknown;
+	newValues: unknown;
+	details: unknown;
+	ipAddress: string | null;
+	userAgent: string | null;
+	sessionId: string | null;
+	timestamp: string;
+}
+
+export interface StoredAuditChainEntry extends AuditChainEntry {
+	id: string;
+	prevHash: string | null;
+	hash: string | null;
+}
+
+export interface AuditChainBreak {
+	id: string;
+	sequence: number | null;
+	reason: "sequence_gap" | "prev_hash_mismatch" | "hash_mismatch";
+}
+
+// JSON with sorted object keys, so jsonb's key reordering doesn't change the hash
+export function canonicalize(value: unknown): string {
+	if (value === null || value === undefined) return "null";
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalize).join(",")}]`;
+	}
+	if (typeof value === "object") {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		return `{${entries
+			.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value);
+}
+
+export function computeAuditHash(
+	prevHash: string | null,
+	entry: AuditChainEntry,
+): string {
+	// Pick the covered fields explicitly so stored-row extras never leak in
+	const canonical = canonicalize({
+		householdId: entry.householdId,
+		sequence: entry.sequence,
+		userId: entry.userId,
+		action: entry.action,
+		resourceType: entry.resourceType,
+		resourceId: entry.resourceId,
+		oldValues: entry.oldValues,
+		newValues: entry.newValues,
+		details: entry.details,
+		ipAddress: entry.ipAddress,
+		userAgent: entry.userAgent,
+		sessionId: entry.sessionId,
+		// Postgres returns timestamps in its own format; hash the instant
+		timestamp: new Date(entry.timestamp).toISOString(),
+	});
+	return createHash("sha256")
+		.update(`${prevHash ?? ""}\n${canonical}`)
+		.digest("hex");
+}
+
+/**
+ * Walk a household's chained entries in sequence order and return the first
+ * link that doesn't hold, or null when the whole chain verifies. `previous`
+ * is the last verified entry when checking the chain in batches.
+ */
+export function findChainBreak(
+	entries: StoredAuditChainEntry[],
+	previous: { sequence: number; hash: string } | null = null,
+): AuditChainBreak | null {
+	let expectedSequence = (previous?.sequence ?? 0) + 1;
+	let expectedPrevHash = previous?.hash ?? null;
+
+	for (const entry of entries) {
+		if (entry.sequence !== expectedSequence) {
+			return { id: entry.id, sequence: entry.sequence, reason: "sequence_gap" };
+		}
+		if (entry.prevHash !== expectedPrevHash) {
+			return {
+				id: entry.id,
+				sequence: entry.sequence,
+				reason: "prev_hash_mismatch",
+			};
+		}
+		if (entry.hash !== computeAuditHash(entry.prevHash, entry)) {
+			return {
+				id: entry.id,
+				sequence: entry.sequence,
+				reason: "hash_mismatch",
+			};
+		}
+
+		expectedSequence++;
+		expectedPrevHash = entry.hash;
+	}
+
+	return null;
+}
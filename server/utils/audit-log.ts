@@ -1,40 +1,128 @@
-// Audit logging helper - TODO: Implement when audit_log table is added
-export const createAuditLog = async (
-	_db: typeof import("@/db/drizzle").db,
+import { and, desc, eq, isNotNull, sql } from "drizzle-orm";
+import { auditLog } from "@/db/schema";
+import { computeAuditHash } from "./audit-chain";
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface AuditRequestMetadata {
+	ipAddress?: string | null;
+	userAgent?: string | null;
+	sessionId?: string | null;
+}
+
+// Request metadata for audit rows, taken from the tRPC context
+export const getAuditMetadata = (ctx: {
+	headers: Headers;
+	auth?: { sessionId?: string | null } | null;
+}): AuditRequestMetadata => ({
+	ipAddress:
+		ctx.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+		ctx.headers.get("x-real-ip") ||
+		null,
+	userAgent: ctx.headers.get("user-agent"),
+	sessionId: ctx.auth?.sessionId ?? null,
+});
+
+// Audit entries live in a household's chain; changes that belong to the user
+// rather than a household (preferences, push devices) go to the active one,
+// else the first they belong to, and aren't recorded without any household
+export const getUserAuditHouseholdId = (ctx: {
+	currentHouseholdId: string | null;
+	availableHouseholds: { id: string }[];
+}): string | null =>
+	ctx.currentHouseholdId ?? ctx.availableHouseholds[0]?.id ?? null;
+
+// Store values exactly as jsonb will hand them back (Dates become strings)
+const toJsonValue = (value: unknown) =>
+	value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+type Database = typeof import("@/db/drizzle").db;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export interface AuditLogInput {
+	userId: string;
+	householdId: string;
+	action: string;
+	resourceType: string;
+	resourceId?: string;
+	oldValues?: Record<string, unknown>;
+	newValues?: Record<string, unknown>;
+	details?: Record<string, unknown>;
+	metadata?: AuditRequestMetadata;
+}
+
+/**
+ * Append a hash-chained audit row inside the caller's transaction, so the
+ * entry commits or rolls back with the change it records. Throws on failure.
+ */
+export async function appendAuditEntry(
+	tx: Transaction,
 	{
 		userId,
 		householdId,
 		action,
 		resourceType,
-		tableName,
 		resourceId,
-		recordId,
 		oldValues,
 		newValues,
 		details,
-	}: {
-		userId: string;
-		householdId: string;
-		action: string;
-		resourceType?: string;
-		tableName?: string;
-		resourceId?: string;
-		recordId?: string;
-		oldValues?: Record<string, unknown>;
-		newValues?: Record<string, unknown>;
-		details?: Record<string, unknown>;
-	},
-) => {
-	// TODO: Implement audit logging when audit_log table is added to schema
-	console.log("Audit log:", {
-		userId,
+		metadata,
+	}: AuditLogInput,
+) {
+	// resource_id is a uuid column; keep other identifiers (e.g. Clerk ids) in details
+	const isUuid = !!resourceId && UUID_PATTERN.test(resourceId);
+
+	const entry = {
 		householdId,
+		userId,
 		action,
-		resourceType: resourceType || tableName,
-		resourceId: resourceId || recordId,
-		oldValues,
-		newValues,
-		details,
+		resourceType,
+		resourceId: isUuid ? resourceId : null,
+		oldValues: toJsonValue(oldValues),
+		newValues: toJsonValue(newValues),
+		details: toJsonValue(
+			resourceId && !isUuid ? { ...details, resourceKey: resourceId } : details,
+		),
+		ipAddress: metadata?.ipAddress ?? null,
+		userAgent: metadata?.userAgent ?? null,
+		sessionId: metadata?.sessionId ?? null,
 		timestamp: new Date().toISOString(),
+	};
+
+	// Serialize writers per household so the chain never forks
+	await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${householdId}))`);
+
+	const [previous] = await tx
+		.select({ sequence: auditLog.sequence, hash: auditLog.hash })
+		.from(auditLog)
+		.where(
+			and(eq(auditLog.householdId, householdId), isNotNull(auditLog.sequence)),
+		)
+		.orderBy(desc(auditLog.sequence))
+		.limit(1);
+
+	const sequence = (previous?.sequence ?? 0) + 1;
+	const prevHash = previous?.hash ?? null;
+
+	await tx.insert(auditLog).values({
+		...entry,
+		sequence,
+		prevHash,
+		hash: computeAuditHash(prevHash, { ...entry, sequence }),
 	});
+}
+
+// Persist a hash-chained audit row; failures are logged so they never block the mutation
+export const createAuditLog = async (db: Database, input: AuditLogInput) => {
+	try {
+		await db.transaction((tx) => appendAuditEntry(tx, input));
+	} catch (error) {
+		console.error("Failed to write audit log:", error, {
+			userId: input.userId,
+			householdId: input.householdId,
+			action: input.action,
+			resourceId: input.resourceId,
+		});
+	}
 };
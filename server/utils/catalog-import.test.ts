@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	applyCatalogImport,
+	diffCatalogImport,
+	getCatalogKey,
+	parseCatalogCsv,
+} from "./catalog-import";
+
+const csv = [
+	"Generic Name,Brand Name,Strength,Route,Form,Controlled Substance,Drug Class,Supplier",
+	"Carprofen,Rimadyl,75mg,oral,tablet,no,NSAID,Acme",
+	"Gabapentin,,100mg,ORAL,CAPSULE,,Anticonvulsant,Acme",
+	"Meloxicam,,1.5mg/mL,mouth,LIQUID,maybe,NSAID,Acme",
+	",,,ORAL,TABLET,,,",
+].join("\n");
+
+describe("parseCatalogCsv", () => {
+	it("maps headers and normalizes enum values", () => {
+		const { rows, ignoredColumns } = parseCatalogCsv(csv);
+		expect(ignoredColumns).toEqual(["Supplier"]);
+		expect(rows).toEqual([
+			{
+				line: 2,
+				medication: {
+					genericName: "Carprofen",
+					brandName: "Rimadyl",
+					strength: "75mg",
+					route: "ORAL",
+					form: "TABLET",
+					controlledSubstance: false,
+					drugClass: "NSAID",
+				},
+			},
+			{
+				line: 3,
+				medication: {
+					genericName: "Gabapentin",
+					strength: "100mg",
+					route: "ORAL",
+					form: "CAPSULE",
+					drugClass: "Anticonvulsant",
+				},
+			},
+		]);
+	});
+
+	it("reports invalid rows by line", () => {
+		const { errors } = parseCatalogCsv(csv);
+		expect(errors).toHaveLength(2);
+		expect(errors[0]?.line).toBe(4);
+		expect(errors[0]?.message).toContain("route must be one of ORAL");
+		expect(errors[0]?.message).toContain("controlled_substance must be yes");
+		expect(errors[1]).toEqual({ line: 5, message: "generic_name is required" });
+	});
+
+	it("rejects files without the required columns", () => {
+		expect(parseCatalogCsv("generic_name,strength\nCarprofen,75mg")).toEqual({
+			rows: [],
+			errors: [{ line: 1, message: "Missing required columns: route, form" }],
+			ignoredColumns: [],
+		});
+	});
+});
+
+describe("diffCatalogImport", () => {
+	const existing = [
+		{
+			id: "carprofen-75",
+			genericName: "Carprofen",
+			brandName: "Rimadyl",
+			strength: "75 mg",
+			route: "ORAL" as const,
+			form: "TABLET" as const,
+			controlledSubstance: false,
+			drugClass: null,
+		},
+		{
+			id: "gabapentin-100",
+			genericName: "Gabapentin",
+			brandName: null,
+			strength: "100mg",
+			route: "ORAL" as const,
+			form: "CAPSULE" as const,
+			controlledSubstance: false,
+			drugClass: "Anticonvulsant",
+		},
+	];
+
+	it("dedupes on generic name, brand name and strength", () => {
+		expect(
+			getCatalogKey({ genericName: " carprofen", brandName: "RIMADYL" }),
+		).toBe(getCatalogKey({ genericName: "Carprofen", brandName: "Rimadyl" }));
+
+		const { rows } = parseCatalogCsv(
+			[
+				csv.split("\n")[0],
+				"Carprofen,Rimadyl,75  MG,ORAL,TABLET,no,NSAID,",
+				"Gabapentin,,100mg,ORAL,CAPSULE,,,",
+				"Trazodone,Desyrel,50mg,ORAL,TABLET,,,",
+				"trazodone,desyrel,50mg,ORAL,TABLET,,,",
+			].join("\n"),
+		);
+		const report = diffCatalogImport(existing, rows);
+
+		expect(report.update).toEqual([
+			expect.objectContaining({
+				line: 2,
+				id: "carprofen-75",
+				changes: { drugClass: { from: null, to: "NSAID" } },
+			}),
+		]);
+		expect(report.unchanged).toEqual([{ line: 3, id: "gabapentin-100" }]);
+		expect(report.create.map((row) => row.line)).toEqual([4]);
+		expect(report.errors).toEqual([
+			{ line: 5, message: "Duplicate of line 4" },
+		]);
+	});
+});
+
+describe("applyCatalogImport", () => {
+	it("writes the planned creates and updates in one transaction", async () => {
+		const { rows } = parseCatalogCsv(
+			[
+				csv.split("\n")[0],
+				"Carprofen,Rimadyl,75mg,ORAL,TABLET,no,NSAID,",
+				"Trazodone,Desyrel,50mg,ORAL,TABLET,,,",
+			].join("\n"),
+		);
+		const report = diffCatalogImport(
+			[
+				{
+					id: "carprofen-75",
+					genericName: "Carprofen",
+					brandName: "Rimadyl",
+					strength: "75mg",
+					route: "ORAL",
+					form: "TABLET",
+					controlledSubstance: false,
+					drugClass: null,
+				},
+			],
+			rows,
+		);
+
+		const values = vi.fn().mockResolvedValue(undefined);
+		const set = vi.fn(() => ({ where: vi.fn().mockResolvedValue(undefined) }));
+		const tx = {
+			insert: vi.fn(() => ({ values })),
+			update: vi.fn(() => ({ set })),
+		};
+		const db = {
+			transaction: vi.fn((run: (client: typeof tx) => Promise<void>) =>
+				run(tx),
+			),
+		} as unknown as Parameters<typeof applyCatalogImport>[0];
+
+		await expect(
+			applyCatalogImport(db, { ...report, ignoredColumns: [] }),
+		).resolves.toEqual({
+			created: 1,
+			updated: 1,
+		});
+		expect(db.transaction).toHaveBeenCalledTimes(1);
+		expect(values).toHaveBeenCalledWith([
+			expect.objectContaining({
+				genericName: "Trazodone",
+				brandName: "Desyrel",
+			}),
+		]);
+		expect(set).toHaveBeenCalledWith(
+			expect.objectContaining({ drugClass: "NSAID" }),
+		);
+	});
+});
@@ -0,0 +1,329 @@
+import { eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+import {
+	medicationCatalog,
+	type NewMedicationCatalog,
+	vetmedForm,
+	vetmedRoute,
+} from "@/db/schema";
+import { parseCsv } from "@/utils/csv";
+
+type ImportField =
+	| "genericName"
+	| "brandName"
+	| "strength"
+	| "route"
+	| "form"
+	| "controlledSubstance"
+	| "drugClass"
+	| "commonDosing"
+	| "warnings";
+
+// CSV headers, matched ignoring case, spaces and underscores
+export const CATALOG_IMPORT_COLUMNS: { field: ImportField; header: string }[] =
+	[
+		{ field: "genericName", header: "generic_name" },
+		{ field: "brandName", header: "brand_name" },
+		{ field: "strength", header: "strength" },
+		{ field: "route", header: "route" },
+		{ field: "form", header: "form" },
+		{ field: "controlledSubstance", header: "controlled_substance" },
+		{ field: "drugClass", header: "drug_class" },
+		{ field: "commonDosing", header: "common_dosing" },
+		{ field: "warnings", header: "warnings" },
+	];
+
+const REQUIRED_FIELDS: ImportField[] = ["genericName", "route", "form"];
+
+// Fields an import may change on an existing entry; the rest form its key
+const UPDATABLE_FIELDS = [
+	"route",
+	"form",
+	"controlledSubstance",
+	"drugClass",
+	"commonDosing",
+	"warnings",
+] as const;
+
+const optionalText = z
+	.string()
+	.trim()
+	.transform((value) => value || undefined)
+	.optional();
+
+const enumColumn = <T extends readonly [string, ...string[]]>(values: T) =>
+	z
+		.string()
+		.trim()
+		.toUpperCase()
+		.pipe(z.enum(values, { error: `must be one of ${values.join(", ")}` }));
+
+const importRowSchema = z.object({
+	genericName: z.string().trim().min(1, "is required"),
+	brandName: optionalText,
+	strength: optionalText,
+	route: enumColumn(vetmedRoute.enumValues),
+	form: enumColumn(vetmedForm.enumValues),
+	controlledSubstance: z
+		.string()
+		.trim()
+		.toLowerCase()
+		.pipe(
+			z.enum(["", "yes", "no", "true", "false", "y", "n", "1", "0"], {
+				error: "must be yes or no",
+			}),
+		)
+		.transform((value) =>
+			value === "" ? undefined : ["yes", "true", "y", "1"].includes(value),
+		)
+		.optional(),
+	drugClass: optionalText,
+	commonDosing: optionalText,
+	warnings: optionalText,
+});
+
+export interface CatalogImportRow {
+	line: number;
+	medication: NewMedicationCatalog;
+}
+
+export interface CatalogImportError {
+	line: number;
+	message: string;
+}
+
+export interface CatalogImportUpdate extends CatalogImportRow {
+	id: string;
+	changes: Partial<Record<ImportField, { from: unknown; to: unknown }>>;
+}
+
+/**
+ * What an import would do, reported before anything is written so an admin
+ * can review it as a dry run.
+ */
+export interface CatalogImportReport {
+	create: CatalogImportRow[];
+	update: CatalogImportUpdate[];
+	unchanged: { line: number; id: string }[];
+	errors: CatalogImportError[];
+	// Headers that don't map to a catalog field
+	ignoredColumns: string[];
+}
+
+// Drop blank optional cells so they don't overwrite existing values
+const omitUndefined = <T extends object>(value: T) =>
+	Object.fromEntries(
+		Object.entries(value).filter(([, field]) => field !== undefined),
+	) as T;
+
+const normalizeHeader = (header: string) =>
+	header.toLowerCase().replace(/[\s_-]+/g, "");
+
+/**
+ * Identity of a catalog entry for de-duplication: generic name, brand name and
+ * strength, ignoring case and whitespace.
+ */
+export function getCatalogKey(medication: {
+	genericName: string;
+	brandName?: string | null;
+	strength?: string | null;
+}) {
+	return [medication.genericName, medication.brandName, medication.strength]
+		.map((part) => (part ?? "").trim().toLowerCase().replace(/\s+/g, " "))
+		.join("|");
+}
+
+/**
+ * Parse a formulary CSV into catalog rows. Rows that fail validation are
+ * reported by line rather than failing the whole file. Blank optional cells
+ * are left out so they don't clear existing values.
+ */
+export function parseCatalogCsv(text: string): {
+	rows: CatalogImportRow[];
+	errors: CatalogImportError[];
+	ignoredColumns: string[];
+} {
+	const [header, ...records] = parseCsv(text);
+	if (!header) {
+		return {
+			rows: [],
+			errors: [{ line: 1, message: "The file is empty" }],
+			ignoredColumns: [],
+		};
+	}
+
+	const columnIndex = new Map<ImportField, number>();
+	const ignoredColumns: string[] = [];
+	header.fields.forEach((name, index) => {
+		const column = CATALOG_IMPORT_COLUMNS.find(
+			(c) => normalizeHeader(c.header) === normalizeHeader(name),
+		);
+		if (column) columnIndex.set(column.field, index);
+		else if (name.trim()) ignoredColumns.push(name.trim());
+	});
+
+	const missing = REQUIRED_FIELDS.filter((field) => !columnIndex.has(field));
+	if (missing.length > 0) {
+		const headers = CATALOG_IMPORT_COLUMNS.filter((c) =>
+			missing.includes(c.field),
+		).map((c) => c.header);
+		return {
+			rows: [],
+			errors: [
+				{
+					line: header.line,
+					message: `Missing required columns: ${headers.join(", ")}`,
+				},
+			],
+			ignoredColumns,
+		};
+	}
+
+	const rows: CatalogImportRow[] = [];
+	const errors: CatalogImportError[] = [];
+	for (const record of records) {
+		const values = Object.fromEntries(
+			[...columnIndex].map(([field, index]) => [
+				field,
+				record.fields[index] ?? "",
+			]),
+		);
+		const parsed = importRowSchema.safeParse(values);
+		if (!parsed.success) {
+			errors.push({
+				line: record.line,
+				message: parsed.error.issues
+					.map((issue) => {
+						const column = CATALOG_IMPORT_COLUMNS.find(
+							(c) => c.field === issue.path[0],
+						);
+						return `${column?.header ?? String(issue.path[0])} ${issue.message}`;
+					})
+					.join("; "),
+			});
+			continue;
+		}
+
+		rows.push({ line: record.line, medication: omitUndefined(parsed.data) });
+	}
+
+	return { rows, errors, ignoredColumns };
+}
+
+function getChanges(
+	existing: NewMedicationCatalog,
+	medication: NewMedicationCatalog,
+) {
+	const changes: CatalogImportUpdate["changes"] = {};
+	for (const field of UPDATABLE_FIELDS) {
+		const to = medication[field];
+		const from = existing[field] ?? null;
+		if (to !== undefined && to !== from) changes[field] = { from, to };
+	}
+	return changes;
+}
+
+/**
+ * Compare parsed rows with the shared catalog. Rows whose key already exists
+ * become updates of the fields that differ; repeated keys within the file are
+ * reported as errors so the first occurrence wins.
+ */
+export function diffCatalogImport(
+	existing: (NewMedicationCatalog & { id: string })[],
+	rows: CatalogImportRow[],
+): Pick<CatalogImportReport, "create" | "update" | "unchanged" | "errors"> {
+	const existingByKey = new Map<
+		string,
+		NewMedicationCatalog & { id: string }
+	>();
+	for (const medication of existing) {
+		const key = getCatalogKey(medication);
+		if (!existingByKey.has(key)) existingByKey.set(key, medication);
+	}
+
+	const report: Pick<
+		CatalogImportReport,
+		"create" | "update" | "unchanged" | "errors"
+	> = { create: [], update: [], unchanged: [], errors: [] };
+	const seen = new Map<string, number>();
+
+	for (const row of rows) {
+		const key = getCatalogKey(row.medication);
+		const firstLine = seen.get(key);
+		if (firstLine !== undefined) {
+			report.errors.push({
+				line: row.line,
+				message: `Duplicate of line ${firstLine}`,
+			});
+			continue;
+		}
+		seen.set(key, row.line);
+
+		const match = existingByKey.get(key);
+		if (!match) {
+			report.create.push(row);
+			continue;
+		}
+
+		const changes = getChanges(match, row.medication);
+		if (Object.keys(changes).length > 0) {
+			report.update.push({ ...row, id: match.id, changes });
+		} else {
+			report.unchanged.push({ line: row.line, id: match.id });
+		}
+	}
+
+	return report;
+}
+
+// Dry run: parse and validate the file, then diff it against the catalog
+export async function planCatalogImport(
+	db: typeof import("@/db/drizzle").db,
+	text: string,
+): Promise<CatalogImportReport> {
+	const parsed = parseCatalogCsv(text);
+	const existing =
+		parsed.rows.length > 0
+			? await db
+					.select()
+					.from(medicationCatalog)
+					.where(isNull(medicationCatalog.householdId))
+			: [];
+	const diff = diffCatalogImport(existing, parsed.rows);
+
+	return {
+		...diff,
+		errors: [...parsed.errors, ...diff.errors].sort((a, b) => a.line - b.line),
+		ignoredColumns: parsed.ignoredColumns,
+	};
+}
+
+// Write a reviewed plan to the shared catalog in one transaction; needs a
+// client with transaction support, e.g. dbPooled rather than neon-http
+export async function applyCatalogImport(
+	db: typeof import("@/db/drizzle").db,
+	report: CatalogImportReport,
+) {
+	await db.transaction(async (tx) => {
+		if (report.create.length > 0) {
+			await tx
+				.insert(medicationCatalog)
+				.values(report.create.map((row) => row.medication));
+		}
+
+		for (const update of report.update) {
+			const values = Object.fromEntries(
+				Object.entries(update.changes).map(([field, change]) => [
+					field,
+					change.to,
+				]),
+			);
+			await tx
+				.update(medicationCatalog)
+				.set({ ...values, updatedAt: new Date().toISOString() })
+				.where(eq(medicationCatalog.id, update.id));
+		}
+	});
+
+	return { created: report.create.length, updated: report.update.length };
+}
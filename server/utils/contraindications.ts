@@ -0,0 +1,35 @@
+import { eq, inArray, or, sql } from "drizzle-orm";
+import { contraindications } from "@/db/schema";
+import {
+	type ContraindicationAnimal,
+	type ContraindicationMedication,
+	findContraindications,
+	getGenericNames,
+} from "@/utils/contraindications";
+
+// Rules for the medication's ingredients or class, matched against the animal
+export const getContraindicationWarnings = async (
+	db: typeof import("@/db/drizzle").db,
+	medication: ContraindicationMedication,
+	animal: ContraindicationAnimal,
+) => {
+	const names = getGenericNames(medication.genericName);
+	const targets = [
+		inArray(sql`lower(${contraindications.medicationName})`, names),
+	];
+	if (medication.drugClass) {
+		targets.push(
+			eq(
+				sql`lower(${contraindications.drugClass})`,
+				medication.drugClass.toLowerCase(),
+			),
+		);
+	}
+
+	const rules = await db
+		.select()
+		.from(contraindications)
+		.where(or(...targets));
+
+	return findContraindications(medication, animal, rules);
+};
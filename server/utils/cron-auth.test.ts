@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { authorizeCron } from "./cron-auth";
+
+const request = (authorization?: string) =>
+	new Request("http://localhost/api/cron/missed-doses", {
+		headers: authorization ? { authorization } : {},
+	});
+
+describe("authorizeCron", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("accepts the scheduler's bearer secret", () => {
+		vi.stubEnv("CRON_SECRET", "s3cret");
+		expect(authorizeCron(request("Bearer s3cret"))).toBeNull();
+	});
+
+	it("rejects a missing or wrong secret", () => {
+		vi.stubEnv("CRON_SECRET", "s3cret");
+		expect(authorizeCron(request())?.status).toBe(401);
+		expect(authorizeCron(request("Bearer nope"))?.status).toBe(401);
+	});
+
+	it("rejects everything when no secret is configured", () => {
+		vi.stubEnv("CRON_SECRET", "");
+		expect(authorizeCron(request("Bearer "))?.status).toBe(401);
+	});
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Cron routes are invoked by the scheduler (e.g. Vercel Cron) with
+ * `Authorization: Bearer $CRON_SECRET`. Returns the 401 response to send when
+ * the request doesn't carry it, or null when it does.
+ */
+export function authorizeCron(request: Request): NextResponse | null {
+	const secret = process.env.CRON_SECRET;
+	if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+	return null;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+	csvChunks,
+	formatLocalTimestamp,
+	formatMedicationName,
+	jsonChunks,
+	toReadableStream,
+} from "./export";
+
+async function* batchesOf<T>(...batches: T[][]) {
+	for (const batch of batches) yield batch;
+}
+
+async function collect(chunks: AsyncIterable<string>) {
+	let text = "";
+	for await (const chunk of chunks) text += chunk;
+	return text;
+}
+
+describe("formatLocalTimestamp", () => {
+	it("renders the instant with the zone's offset", () => {
+		expect(
+			formatLocalTimestamp("2025-01-15T13:05:00.000Z", "America/New_York"),
+		).toBe("2025-01-15T08:05:00-05:00");
+		expect(
+			formatLocalTimestamp("2025-07-15 12:05:00+00", "America/New_York"),
+		).toBe("2025-07-15T08:05:00-04:00");
+	});
+
+	it("passes missing timestamps through", () => {
+		expect(formatLocalTimestamp(null, "UTC")).toBeNull();
+	});
+});
+
+describe("formatMedicationName", () => {
+	it("adds the brand name when there is one", () => {
+		expect(
+			formatMedicationName({ genericName: "Carprofen", brandName: "Rimadyl" }),
+		).toBe("Carprofen (Rimadyl)");
+		expect(
+			formatMedicationName({ genericName: "Insulin", brandName: null }),
+		).toBe("Insulin");
+	});
+});
+
+describe("csvChunks", () => {
+	const columns = [
+		{ key: "animal" as const, header: "Animal" },
+		{ key: "notes" as const, header: "Notes, if any" },
+	];
+
+	it("writes a header and escapes each batch of rows", async () => {
+		const csv = await collect(
+			csvChunks(
+				columns,
+				batchesOf(
+					[{ animal: "Buddy", notes: 'Given with "food", no issues' }],
+					[{ animal: "Whiskers", notes: null }],
+				),
+			),
+		);
+
+		expect(csv).toBe(
+			[
+				'Animal,"Notes, if any"',
+				'Buddy,"Given with ""food"", no issues"',
+				"Whiskers,",
+				"",
+			].join("\r\n"),
+		);
+	});
+
+	it("writes only the header when there are no rows", async () => {
+		expect(await collect(csvChunks(columns, batchesOf()))).toBe(
+			'Animal,"Notes, if any"\r\n',
+		);
+	});
+});
+
+describe("jsonChunks", () => {
+	it("produces one valid document across batches and datasets", async () => {
+		const json = await collect(
+			jsonChunks({ householdId: "h1" }, [
+				["administrations", batchesOf([{ id: 1 }, { id: 2 }], [{ id: 3 }])],
+				["regimens", batchesOf()],
+				["inventory", batchesOf([], [{ id: "a" }])],
+			]),
+		);
+
+		expect(JSON.parse(json)).toEqual({
+			export: { householdId: "h1" },
+			administrations: [{ id: 1 }, { id: 2 }, { id: 3 }],
+			regimens: [],
+			inventory: [{ id: "a" }],
+		});
+	});
+});
+
+describe("toReadableStream", () => {
+	it("encodes each chunk as it is pulled", async () => {
+		const stream = toReadableStream(
+			(async function* () {
+				yield "a,b\r\n";
+				yield "1,2\r\n";
+			})(),
+		);
+
+		expect(await new Response(stream).text()).toBe("a,b\r\n1,2\r\n");
+	});
+});
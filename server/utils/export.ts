@@ -0,0 +1,566 @@
+import {
+	and,
+	asc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNull,
+	lte,
+	or,
+	type SQL,
+} from "drizzle-orm";
+import {
+	administrations,
+	animals,
+	inventoryItems,
+	medicationCatalog,
+	regimens,
+	users,
+} from "@/db/schema";
+import { type CsvValue, escapeCsvValue } from "@/utils/csv";
+import { localDayISO, toAnimalLocal } from "@/utils/tz";
+
+export const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_DATASETS = [
+	"administrations",
+	"regimens",
+	"inventory",
+] as const;
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+export type ExportFormat = "csv" | "json";
+
+export interface ExportOptions {
+	householdId: string;
+	// Fallback for rows that aren't tied to an animal
+	timezone: string;
+	from?: Date;
+	to?: Date;
+	// Restrict to these animals; null exports every animal
+	animalIds: string[] | null;
+}
+
+export interface ExportColumn<T> {
+	key: keyof T & string;
+	header: string;
+}
+
+type Database = typeof import("@/db/drizzle").db;
+
+export type AdministrationExportRow = {
+	recordedAt: string | null;
+	scheduledFor: string | null;
+	timezone: string;
+	animal: string;
+	medication: string;
+	strength: string | null;
+	regimen: string | null;
+	dose: string | null;
+	status: string;
+	site: string | null;
+	caregiver: string | null;
+	coSignedAt: string | null;
+	adverseEvent: boolean;
+	adverseEventDescription: string | null;
+	notes: string | null;
+};
+
+export type RegimenExportRow = {
+	animal: string;
+	medication: string;
+	strength: string | null;
+	name: string | null;
+	scheduleType: string;
+	times: string | null;
+	intervalHours: number | null;
+	dose: string | null;
+	route: string | null;
+	startDate: string;
+	endDate: string | null;
+	active: boolean;
+	pausedAt: string | null;
+	highRisk: boolean;
+	instructions: string | null;
+	timezone: string;
+};
+
+export type InventoryExportRow = {
+	medication: string;
+	brand: string | null;
+	strength: string | null;
+	concentration: string | null;
+	lot: string | null;
+	expiresOn: string;
+	storage: string;
+	unitsRemaining: number | null;
+	quantityUnits: number | null;
+	unitType: string | null;
+	openedOn: string | null;
+	inUse: boolean;
+	assignedAnimal: string | null;
+	barcode: string | null;
+	purchaseDate: string | null;
+	purchasePrice: string | null;
+	supplier: string | null;
+	notes: string | null;
+};
+
+export const ADMINISTRATION_COLUMNS: ExportColumn<AdministrationExportRow>[] = [
+	{ key: "recordedAt", header: "Recorded At" },
+	{ key: "scheduledFor", header: "Scheduled For" },
+	{ key: "timezone", header: "Timezone" },
+	{ key: "animal", header: "Animal" },
+	{ key: "medication", header: "Medication" },
+	{ key: "strength", header: "Strength" },
+	{ key: "regimen", header: "Regimen" },
+	{ key: "dose", header: "Dose" },
+	{ key: "status", header: "Status" },
+	{ key: "site", header: "Site" },
+	{ key: "caregiver", header: "Caregiver" },
+	{ key: "coSignedAt", header: "Co-signed At" },
+	{ key: "adverseEvent", header: "Adverse Event" },
+	{ key: "adverseEventDescription", header: "Adverse Event Description" },
+	{ key: "notes", header: "Notes" },
+];
+
+export const REGIMEN_COLUMNS: ExportColumn<RegimenExportRow>[] = [
+	{ key: "animal", header: "Animal" },
+	{ key: "medication", header: "Medication" },
+	{ key: "strength", header: "Strength" },
+	{ key: "name", header: "Regimen" },
+	{ key: "scheduleType", header: "Schedule Type" },
+	{ key: "times", header: "Times" },
+	{ key: "intervalHours", header: "Interval Hours" },
+	{ key: "dose", header: "Dose" },
+	{ key: "route", header: "Route" },
+	{ key: "startDate", header: "Start Date" },
+	{ key: "endDate", header: "End Date" },
+	{ key: "active", header: "Active" },
+	{ key: "pausedAt", header: "Paused At" },
+	{ key: "highRisk", header: "High Risk" },
+	{ key: "instructions", header: "Instructions" },
+	{ key: "timezone", header: "Timezone" },
+];
+
+export const INVENTORY_COLUMNS: ExportColumn<InventoryExportRow>[] = [
+	{ key: "medication", header: "Medication" },
+	{ key: "brand", header: "Brand" },
+	{ key: "strength", header: "Strength" },
+	{ key: "concentration", header: "Concentration" },
+	{ key: "lot", header: "Lot" },
+	{ key: "expiresOn", header: "Expires On" },
+	{ key: "storage", header: "Storage" },
+	{ key: "unitsRemaining", header: "Units Remaining" },
+	{ key: "quantityUnits", header: "Quantity" },
+	{ key: "unitType", header: "Unit Type" },
+	{ key: "openedOn", header: "Opened On" },
+	{ key: "inUse", header: "In Use" },
+	{ key: "assignedAnimal", header: "Assigned Animal" },
+	{ key: "barcode", header: "Barcode" },
+	{ key: "purchaseDate", header: "Purchase Date" },
+	{ key: "purchasePrice", header: "Purchase Price" },
+	{ key: "supplier", header: "Supplier" },
+	{ key: "notes", header: "Notes" },
+];
+
+// ISO 8601 with the zone's offset, e.g. 2024-01-15T08:05:00-05:00
+export function formatLocalTimestamp(
+	value: string | null,
+	timezone: string,
+): string | null {
+	if (!value) return null;
+	return toAnimalLocal(new Date(value), timezone).toISO({
+		suppressMilliseconds: true,
+	});
+}
+
+export const formatMedicationName = (medication: {
+	genericName: string;
+	brandName: string | null;
+}) =>
+	medication.brandName
+		? `${medication.genericName} (${medication.brandName})`
+		: medication.genericName;
+
+// Helper to fetch keyset-paginated batches until a short page comes back
+async function* paginate<T>(
+	fetchPage: (last: T | null) => Promise<T[]>,
+): AsyncGenerator<T[]> {
+	let last: T | null = null;
+
+	while (true) {
+		const page = await fetchPage(last);
+		if (page.length > 0) yield page;
+		if (page.length < EXPORT_BATCH_SIZE) return;
+		last = page[page.length - 1] ?? null;
+	}
+}
+
+async function* administrationBatches(
+	db: Database,
+	options: ExportOptions,
+): AsyncGenerator<AdministrationExportRow[]> {
+	const conditions: SQL[] = [
+		eq(administrations.householdId, options.householdId),
+	];
+	if (options.from) {
+		conditions.push(
+			gte(administrations.recordedAt, options.from.toISOString()),
+		);
+	}
+	if (options.to) {
+		conditions.push(lte(administrations.recordedAt, options.to.toISOString()));
+	}
+	if (options.animalIds) {
+		conditions.push(inArray(administrations.animalId, options.animalIds));
+	}
+
+	const pages = paginate((last: { id: string; recordedAt: string } | null) =>
+		db
+			.select({
+				id: administrations.id,
+				recordedAt: administrations.recordedAt,
+				scheduledFor: administrations.scheduledFor,
+				status: administrations.status,
+				dose: administrations.dose,
+				site: administrations.site,
+				notes: administrations.notes,
+				coSignedAt: administrations.coSignedAt,
+				adverseEvent: administrations.adverseEvent,
+				adverseEventDescription: administrations.adverseEventDescription,
+				animalName: animals.name,
+				timezone: animals.timezone,
+				regimenName: regimens.name,
+				genericName: medicationCatalog.genericName,
+				brandName: medicationCatalog.brandName,
+				strength: medicationCatalog.strength,
+				caregiverName: users.name,
+				caregiverEmail: users.email,
+			})
+			.from(administrations)
+			.innerJoin(animals, eq(administrations.animalId, animals.id))
+			.innerJoin(regimens, eq(administrations.regimenId, regimens.id))
+			.innerJoin(
+				medicationCatalog,
+				eq(regimens.medicationId, medicationCatalog.id),
+			)
+			.leftJoin(users, eq(administrations.caregiverId, users.id))
+			.where(
+				and(
+					...conditions,
+					last
+						? or(
+								gt(administrations.recordedAt, last.recordedAt),
+								and(
+									eq(administrations.recordedAt, last.recordedAt),
+									gt(administrations.id, last.id),
+								),
+							)
+						: undefined,
+				),
+			)
+			.orderBy(asc(administrations.recordedAt), asc(administrations.id))
+			.limit(EXPORT_BATCH_SIZE),
+	);
+
+	for await (const page of pages) {
+		yield page.map((row) => ({
+			recordedAt: formatLocalTimestamp(row.recordedAt, row.timezone),
+			scheduledFor: formatLocalTimestamp(row.scheduledFor, row.timezone),
+			timezone: row.timezone,
+			animal: row.animalName,
+			medication: formatMedicationName(row),
+			strength: row.strength,
+			regimen: row.regimenName,
+			dose: row.dose,
+			status: row.status,
+			site: row.site,
+			caregiver: row.caregiverName || row.caregiverEmail,
+			coSignedAt: formatLocalTimestamp(row.coSignedAt, row.timezone),
+			adverseEvent: row.adverseEvent,
+			adverseEventDescription: row.adverseEventDescription,
+			notes: row.notes,
+		}));
+	}
+}
+
+async function* regimenBatches(
+	db: Database,
+	options: ExportOptions,
+): AsyncGenerator<RegimenExportRow[]> {
+	const conditions: SQL[] = [
+		eq(animals.householdId, options.householdId),
+		isNull(regimens.deletedAt),
+	];
+	// Regimens that were running at some point within the range
+	if (options.from) {
+		const fromDay = localDayISO(options.from, options.timezone);
+		const endsInRange = or(
+			isNull(regimens.endDate),
+			gte(regimens.endDate, fromDay),
+		);
+		if (endsInRange) conditions.push(endsInRange);
+	}
+	if (options.to) {
+		conditions.push(
+			lte(regimens.startDate, localDayISO(options.to, options.timezone)),
+		);
+	}
+	if (options.animalIds) {
+		conditions.push(inArray(regimens.animalId, options.animalIds));
+	}
+
+	const pages = paginate((last: { id: string } | null) =>
+		db
+			.select({
+				id: regimens.id,
+				name: regimens.name,
+				scheduleType: regimens.scheduleType,
+				timesLocal: regimens.timesLocal,
+				intervalHours: regimens.intervalHours,
+				dose: regimens.dose,
+				route: regimens.route,
+				startDate: regimens.startDate,
+				endDate: regimens.endDate,
+				active: regimens.active,
+				pausedAt: regimens.pausedAt,
+				highRisk: regimens.highRisk,
+				instructions: regimens.instructions,
+				animalName: animals.name,
+				timezone: animals.timezone,
+				genericName: medicationCatalog.genericName,
+				brandName: medicationCatalog.brandName,
+				strength: medicationCatalog.strength,
+			})
+			.from(regimens)
+			.innerJoin(animals, eq(regimens.animalId, animals.id))
+			.innerJoin(
+				medicationCatalog,
+				eq(regimens.medicationId, medicationCatalog.id),
+			)
+			.where(and(...conditions, last ? gt(regimens.id, last.id) : undefined))
+			.orderBy(asc(regimens.id))
+			.limit(EXPORT_BATCH_SIZE),
+	);
+
+	for await (const page of pages) {
+		yield page.map((row) => ({
+			animal: row.animalName,
+			medication: formatMedicationName(row),
+			strength: row.strength,
+			name: row.name,
+			scheduleType: row.scheduleType,
+			times: row.timesLocal?.join("; ") ?? null,
+			intervalHours: row.intervalHours,
+			dose: row.dose,
+			route: row.route,
+			startDate: row.startDate,
+			endDate: row.endDate,
+			active: row.active,
+			pausedAt: formatLocalTimestamp(row.pausedAt, row.timezone),
+			highRisk: row.highRisk,
+			instructions: row.instructions,
+			timezone: row.timezone,
+		}));
+	}
+}
+
+// Current stock; the date range doesn't apply. With an animal filter, items
+// shared across the household (no assigned animal) are still included.
+async function* inventoryBatches(
+	db: Database,
+	options: ExportOptions,
+): AsyncGenerator<InventoryExportRow[]> {
+	const conditions: SQL[] = [
+		eq(inventoryItems.householdId, options.householdId),
+		isNull(inventoryItems.deletedAt),
+	];
+	if (options.animalIds) {
+		const forAnimals = or(
+			isNull(inventoryItems.assignedAnimalId),
+			inArray(inventoryItems.assignedAnimalId, options.animalIds),
+		);
+		if (forAnimals) conditions.push(forAnimals);
+	}
+
+	const pages = paginate((last: { id: string } | null) =>
+		db
+			.select({
+				id: inventoryItems.id,
+				brandOverride: inventoryItems.brandOverride,
+				concentration: inventoryItems.concentration,
+				lot: inventoryItems.lot,
+				expiresOn: inventoryItems.expiresOn,
+				storage: inventoryItems.storage,
+				unitsRemaining: inventoryItems.unitsRemaining,
+				quantityUnits: inventoryItems.quantityUnits,
+				unitType: inventoryItems.unitType,
+				openedOn: inventoryItems.openedOn,
+				inUse: inventoryItems.inUse,
+				barcode: inventoryItems.barcode,
+				purchaseDate: inventoryItems.purchaseDate,
+				purchasePrice: inventoryItems.purchasePrice,
+				supplier: inventoryItems.supplier,
+				notes: inventoryItems.notes,
+				assignedAnimal: animals.name,
+				genericName: medicationCatalog.genericName,
+				brandName: medicationCatalog.brandName,
+				strength: medicationCatalog.strength,
+			})
+			.from(inventoryItems)
+			.innerJoin(
+				medicationCatalog,
+				eq(inventoryItems.medicationId, medicationCatalog.id),
+			)
+			.leftJoin(animals, eq(inventoryItems.assignedAnimalId, animals.id))
+			.where(
+				and(...conditions, last ? gt(inventoryItems.id, last.id) : undefined),
+			)
+			.orderBy(asc(inventoryItems.id))
+			.limit(EXPORT_BATCH_SIZE),
+	);
+
+	for await (const page of pages) {
+		yield page.map((row) => ({
+			medication: row.genericName,
+			brand: row.brandOverride ?? row.brandName,
+			strength: row.strength,
+			concentration: row.concentration,
+			lot: row.lot,
+			expiresOn: row.expiresOn,
+			storage: row.storage,
+			unitsRemaining: row.unitsRemaining,
+			quantityUnits: row.quantityUnits,
+			unitType: row.unitType,
+			openedOn: row.openedOn,
+			inUse: row.inUse,
+			assignedAnimal: row.assignedAnimal,
+			barcode: row.barcode,
+			purchaseDate: row.purchaseDate,
+			purchasePrice: row.purchasePrice,
+			supplier: row.supplier,
+			notes: row.notes,
+		}));
+	}
+}
+
+export async function* csvChunks<T extends Record<string, CsvValue>>(
+	columns: ExportColumn<T>[],
+	batches: AsyncIterable<T[]>,
+): AsyncGenerator<string> {
+	const toLine = (values: CsvValue[]) =>
+		`${values.map(escapeCsvValue).join(",")}\r\n`;
+
+	yield toLine(columns.map((column) => column.header));
+	for await (const batch of batches) {
+		yield batch
+			.map((row) => toLine(columns.map((column) => row[column.key])))
+			.join("");
+	}
+}
+
+// One JSON document with an array per dataset, written a batch at a time
+export async function* jsonChunks(
+	meta: Record<string, unknown>,
+	datasets: [string, AsyncIterable<object[]>][],
+): AsyncGenerator<string> {
+	yield `{"export":${JSON.stringify(meta)}`;
+
+	for (const [name, batches] of datasets) {
+		yield `,${JSON.stringify(name)}:[`;
+		let first = true;
+		for await (const batch of batches) {
+			if (batch.length === 0) continue;
+			const rows = batch.map((row) => JSON.stringify(row)).join(",");
+			yield first ? rows : `,${rows}`;
+			first = false;
+		}
+		yield "]";
+	}
+
+	yield "}";
+}
+
+function csvDatasetChunks(
+	db: Database,
+	dataset: ExportDataset,
+	options: ExportOptions,
+) {
+	switch (dataset) {
+		case "administrations":
+			return csvChunks(
+				ADMINISTRATION_COLUMNS,
+				administrationBatches(db, options),
+			);
+		case "regimens":
+			return csvChunks(REGIMEN_COLUMNS, regimenBatches(db, options));
+		case "inventory":
+			return csvChunks(INVENTORY_COLUMNS, inventoryBatches(db, options));
+	}
+}
+
+function datasetBatches(
+	db: Database,
+	dataset: ExportDataset,
+	options: ExportOptions,
+): AsyncIterable<object[]> {
+	switch (dataset) {
+		case "administrations":
+			return administrationBatches(db, options);
+		case "regimens":
+			return regimenBatches(db, options);
+		case "inventory":
+			return inventoryBatches(db, options);
+	}
+}
+
+// Pull-based, so each batch is only queried once the client has read the last
+export function toReadableStream(
+	chunks: AsyncGenerator<string>,
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+
+	return new ReadableStream({
+		async pull(controller) {
+			const { value, done } = await chunks.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(encoder.encode(value));
+			}
+		},
+		async cancel() {
+			await chunks.return(undefined);
+		},
+	});
+}
+
+/**
+ * Stream a household export. CSV covers a single dataset; JSON bundles all
+ * of them. Timestamps are localized to each animal's timezone.
+ */
+export function createExportStream(
+	db: Database,
+	format: ExportFormat,
+	dataset: ExportDataset,
+	options: ExportOptions,
+) {
+	if (format === "csv") {
+		return toReadableStream(csvDatasetChunks(db, dataset, options));
+	}
+
+	return toReadableStream(
+		jsonChunks(
+			{
+				householdId: options.householdId,
+				from: options.from?.toISOString() ?? null,
+				to: options.to?.toISOString() ?? null,
+				animalIds: options.animalIds,
+				exportedAt: new Date().toISOString(),
+			},
+			EXPORT_DATASETS.map((name) => [name, datasetBatches(db, name, options)]),
+		),
+	);
+}
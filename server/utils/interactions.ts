@@ -0,0 +1,80 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { drugInteractions, medicationCatalog, regimens } from "@/db/schema";
+import {
+	findAllInteractions,
+	findInteractions,
+	type InteractionMedication,
+} from "@/utils/interactions";
+
+// Active, unpaused regimens for the given animals with what rules match on
+export const getActiveMedications = async (
+	db: typeof import("@/db/drizzle").db,
+	animalIds: string[],
+) => {
+	if (animalIds.length === 0) return [];
+
+	const rows = await db
+		.select({
+			regimenId: regimens.id,
+			animalId: regimens.animalId,
+			regimenName: regimens.name,
+			genericName: medicationCatalog.genericName,
+			brandName: medicationCatalog.brandName,
+			drugClass: medicationCatalog.drugClass,
+		})
+		.from(regimens)
+		.innerJoin(
+			medicationCatalog,
+			eq(regimens.medicationId, medicationCatalog.id),
+		)
+		.where(
+			and(
+				inArray(regimens.animalId, animalIds),
+				eq(regimens.active, true),
+				isNull(regimens.pausedAt),
+				isNull(regimens.deletedAt),
+			),
+		);
+
+	return rows.map((row) => ({
+		...row,
+		name: row.regimenName || row.genericName,
+	}));
+};
+
+const getInteractionRules = (db: typeof import("@/db/drizzle").db) =>
+	db.select().from(drugInteractions);
+
+// Check a medication being started or resumed against the animal's others
+export const getRegimenInteractions = async (
+	db: typeof import("@/db/drizzle").db,
+	animalId: string,
+	medication: InteractionMedication,
+) => {
+	const [others, rules] = await Promise.all([
+		getActiveMedications(db, [animalId]),
+		getInteractionRules(db),
+	]);
+	return findInteractions(medication, others, rules);
+};
+
+// Interactions among each animal's active medications, keyed by animal
+export const getAnimalInteractions = async (
+	db: typeof import("@/db/drizzle").db,
+	animalIds: string[],
+) => {
+	const [medications, rules] = await Promise.all([
+		getActiveMedications(db, animalIds),
+		getInteractionRules(db),
+	]);
+
+	return new Map(
+		animalIds.map((animalId) => [
+			animalId,
+			findAllInteractions(
+				medications.filter((medication) => medication.animalId === animalId),
+				rules,
+			),
+		]),
+	);
+};
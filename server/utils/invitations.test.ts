@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	acceptInvitation,
+	generateInvitationToken,
+	getInvitationExpiry,
+	getInvitationStatus,
+	hashInvitationToken,
+	INVITATION_TTL_DAYS,
+	isInvitedEmail,
+} from "./invitations";
+
+const pending = {
+	acceptedAt: null,
+	declinedAt: null,
+	revokedAt: null,
+	expiresAt: "2025-03-08T00:00:00.000Z",
+};
+
+describe("invitation tokens", () => {
+	it("generates distinct url-safe tokens", () => {
+		const first = generateInvitationToken();
+		const second = generateInvitationToken();
+
+		expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+		expect(first).not.toBe(second);
+	});
+
+	it("hashes tokens deterministically without exposing them", () => {
+		const token = generateInvitationToken();
+
+		expect(hashInvitationToken(token)).toBe(hashInvitationToken(token));
+		expect(hashInvitationToken(token)).toMatch(/^[0-9a-f]{64}$/);
+		expect(hashInvitationToken(token)).not.toContain(token);
+	});
+
+	it("expires after the configured number of days", () => {
+		const from = new Date("2025-03-01T00:00:00.000Z");
+		const expiry = new Date(getInvitationExpiry(from));
+
+		expect(expiry.getTime() - from.getTime()).toBe(
+			INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+		);
+	});
+});
+
+describe("getInvitationStatus", () => {
+	const now = new Date("2025-03-05T00:00:00.000Z");
+
+	it("is pending until used or expired", () => {
+		expect(getInvitationStatus(pending, now)).toBe("PENDING");
+	});
+
+	it("expires at the expiry time", () => {
+		expect(
+			getInvitationStatus(pending, new Date("2025-03-08T00:00:00.000Z")),
+		).toBe("EXPIRED");
+	});
+
+	it("reports terminal states ahead of expiry", () => {
+		const later = new Date("2025-04-01T00:00:00.000Z");
+		const at = "2025-03-02T00:00:00.000Z";
+
+		expect(getInvitationStatus({ ...pending, acceptedAt: at }, later)).toBe(
+			"ACCEPTED",
+		);
+		expect(getInvitationStatus({ ...pending, revokedAt: at }, later)).toBe(
+			"REVOKED",
+		);
+		expect(getInvitationStatus({ ...pending, declinedAt: at }, later)).toBe(
+			"DECLINED",
+		);
+	});
+});
+
+describe("isInvitedEmail", () => {
+	it("matches the invited address regardless of case", () => {
+		expect(
+			isInvitedEmail("Sitter@Example.com", [
+				"other@example.com",
+				"sitter@example.COM",
+			]),
+		).toBe(true);
+	});
+
+	it("rejects users without the invited address", () => {
+		expect(isInvitedEmail("sitter@example.com", ["other@example.com"])).toBe(
+			false,
+		);
+		expect(isInvitedEmail("sitter@example.com", [])).toBe(false);
+	});
+});
+
+describe("acceptInvitation", () => {
+	const invitation = {
+		...pending,
+		id: "aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa",
+		householdId: "22222222-2222-4222-8222-222222222222",
+		email: "sitter@example.com",
+		role: "CAREGIVER",
+		expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+	};
+
+	// A transaction whose locked invitation lookup finds `invitation`
+	function createDb() {
+		const lookup = {
+			from: () => lookup,
+			where: () => lookup,
+			limit: () => lookup,
+			for: () => Promise.resolve([invitation]),
+		};
+		const insert = vi.fn();
+		const tx = { select: () => lookup, insert };
+		const db = { transaction: vi.fn((callback) => callback(tx)) };
+		return { db: db as any, insert };
+	}
+
+	it("refuses a user who hasn't verified the invited address", async () => {
+		const { db, insert } = createDb();
+
+		const result = await acceptInvitation(db, "token", {
+			id: "11111111-1111-4111-8111-111111111111",
+			email: "someone-else@example.com",
+			verifiedEmails: ["someone-else@example.com"],
+		});
+
+		expect(result).toEqual({ ok: false, reason: "EMAIL_MISMATCH" });
+		expect(insert).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,215 @@
+import { createHash, randomBytes } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { invitations, memberships, notificationQueue } from "@/db/schema";
+import { type AuditRequestMetadata, createAuditLog } from "./audit-log";
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationStatus =
+	| "PENDING"
+	| "ACCEPTED"
+	| "DECLINED"
+	| "REVOKED"
+	| "EXPIRED";
+
+type Database = typeof import("@/db/drizzle").db;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+type Invitation = typeof invitations.$inferSelect;
+
+export type InvitationResult =
+	| { ok: true; invitation: Invitation }
+	| {
+			ok: false;
+			reason:
+				| "NOT_FOUND"
+				| "EMAIL_MISMATCH"
+				| Exclude<InvitationStatus, "PENDING">;
+	  };
+
+// 256-bit random token, sent to the invitee and never stored
+export const generateInvitationToken = () =>
+	randomBytes(32).toString("base64url");
+
+export const hashInvitationToken = (token: string) =>
+	createHash("sha256").update(token).digest("hex");
+
+export const getInvitationExpiry = (from: Date = new Date()) =>
+	new Date(
+		from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+	).toISOString();
+
+export const getInvitationUrl = (token: string) =>
+	`${process.env.NEXT_PUBLIC_APP_URL ?? ""}/invite/${token}`;
+
+export function getInvitationStatus(
+	invitation: Pick<
+		Invitation,
+		"acceptedAt" | "declinedAt" | "revokedAt" | "expiresAt"
+	>,
+	now: Date = new Date(),
+): InvitationStatus {
+	if (invitation.acceptedAt) return "ACCEPTED";
+	if (invitation.revokedAt) return "REVOKED";
+	if (invitation.declinedAt) return "DECLINED";
+	if (new Date(invitation.expiresAt) <= now) return "EXPIRED";
+	return "PENDING";
+}
+
+// Invitations are addressed to one person: only a user who has verified the
+// invited address may redeem the link, so a forwarded email grants nothing
+export const isInvitedEmail = (
+	invitationEmail: string,
+	verifiedEmails: string[],
+) =>
+	verifiedEmails.some(
+		(email) =>
+			email.trim().toLowerCase() === invitationEmail.trim().toLowerCase(),
+	);
+
+// Look up an invitation by the raw token from the link
+export async function findInvitationByToken(db: Database, token: string) {
+	const [invitation] = await db
+		.select()
+		.from(invitations)
+		.where(eq(invitations.tokenHash, hashInvitationToken(token)))
+		.limit(1);
+
+	return invitation ?? null;
+}
+
+// Select and row-lock an invitation for the rest of the transaction
+const lockInvitation = (tx: Transaction, token: string) =>
+	tx
+		.select()
+		.from(invitations)
+		.where(eq(invitations.tokenHash, hashInvitationToken(token)))
+		.limit(1)
+		.for("update");
+
+/**
+ * Redeem an invitation for a signed-in user whose verified email addresses
+ * include the invited one: add the membership and mark the token used. The
+ * row is locked so a token can only ever be redeemed once.
+ */
+export async function acceptInvitation(
+	db: Database,
+	token: string,
+	user: {
+		id: string;
+		name?: string | null;
+		email: string;
+		verifiedEmails: string[];
+	},
+	metadata?: AuditRequestMetadata,
+): Promise<InvitationResult> {
+	const now = new Date();
+
+	const result = await db.transaction(async (tx): Promise<InvitationResult> => {
+		const [invitation] = await lockInvitation(tx, token);
+
+		if (!invitation) return { ok: false, reason: "NOT_FOUND" };
+
+		const status = getInvitationStatus(invitation, now);
+		if (status !== "PENDING") return { ok: false, reason: status };
+
+		if (!isInvitedEmail(invitation.email, user.verifiedEmails)) {
+			return { ok: false, reason: "EMAIL_MISMATCH" };
+		}
+
+		// Existing members keep their current role
+		await tx
+			.insert(memberships)
+			.values({
+				userId: user.id,
+				householdId: invitation.householdId,
+				role: invitation.role,
+				validFrom: invitation.validFrom,
+				validUntil: invitation.validUntil,
+				animalIds: invitation.animalIds,
+			})
+			.onConflictDoNothing({
+				target: [memberships.userId, memberships.householdId],
+			});
+
+		const [accepted] = await tx
+			.update(invitations)
+			.set({
+				acceptedAt: now.toISOString(),
+				acceptedBy: user.id,
+				updatedAt: now.toISOString(),
+			})
+			.where(eq(invitations.id, invitation.id))
+			.returning();
+
+		return { ok: true, invitation: accepted ?? invitation };
+	});
+
+	if (!result.ok) return result;
+
+	const { invitation } = result;
+
+	await createAuditLog(db, {
+		userId: user.id,
+		householdId: invitation.householdId,
+		action: "INVITATION_ACCEPTED",
+		resourceType: "invitation",
+		resourceId: invitation.id,
+		newValues: { email: invitation.email, role: invitation.role },
+		metadata,
+	});
+
+	// Let the inviter know their invitation was used
+	await db.insert(notificationQueue).values({
+		userId: invitation.invitedBy,
+		householdId: invitation.householdId,
+		type: "HOUSEHOLD_INVITATION_ACCEPTED",
+		title: "Invitation Accepted",
+		body: `${user.name || user.email} joined the household as a ${invitation.role.toLowerCase()}`,
+		scheduledFor: now.toISOString(),
+		data: { invitationId: invitation.id, userId: user.id },
+	});
+
+	return result;
+}
+
+// Decline an invitation; anyone holding the token may do this without signing in
+export async function declineInvitation(
+	db: Database,
+	token: string,
+	metadata?: AuditRequestMetadata,
+): Promise<InvitationResult> {
+	const now = new Date();
+
+	const result = await db.transaction(async (tx): Promise<InvitationResult> => {
+		const [invitation] = await lockInvitation(tx, token);
+		if (!invitation) return { ok: false, reason: "NOT_FOUND" };
+
+		const status = getInvitationStatus(invitation, now);
+		if (status !== "PENDING") return { ok: false, reason: status };
+
+		const [declined] = await tx
+			.update(invitations)
+			.set({ declinedAt: now.toISOString(), updatedAt: now.toISOString() })
+			.where(eq(invitations.id, invitation.id))
+			.returning();
+
+		return { ok: true, invitation: declined ?? invitation };
+	});
+
+	if (!result.ok) return result;
+
+	const { invitation } = result;
+
+	// Attributed to the inviter, since the invitee may not have an account
+	await createAuditLog(db, {
+		userId: invitation.invitedBy,
+		householdId: invitation.householdId,
+		action: "INVITATION_DECLINED",
+		resourceType: "invitation",
+		resourceId: invitation.id,
+		details: { email: invitation.email },
+		metadata,
+	});
+
+	return result;
+}
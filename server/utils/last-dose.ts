@@ -0,0 +1,72 @@
+import { and, gte, inArray, lt, max, ne } from "drizzle-orm";
+import { administrations } from "@/db/schema";
+
+// Latest non-missed administration per regimen, optionally strictly before a point in time
+export const getLastDoseTimes = async (
+	db: typeof import("@/db/drizzle").db,
+	regimenIds: string[],
+	before?: Date,
+): Promise<Map<string, Date>> => {
+	const lastDoses = new Map<string, Date>();
+	if (regimenIds.length === 0) {
+		return lastDoses;
+	}
+
+	const conditions = [
+		inArray(administrations.regimenId, regimenIds),
+		ne(administrations.status, "MISSED"),
+	];
+
+	if (before) {
+		conditions.push(lt(administrations.recordedAt, before.toISOString()));
+	}
+
+	const rows = await db
+		.select({
+			regimenId: administrations.regimenId,
+			lastRecordedAt: max(administrations.recordedAt),
+		})
+		.from(administrations)
+		.where(and(...conditions))
+		.groupBy(administrations.regimenId);
+
+	for (const row of rows) {
+		if (row.lastRecordedAt) {
+			lastDoses.set(row.regimenId, new Date(row.lastRecordedAt));
+		}
+	}
+
+	return lastDoses;
+};
+
+// Every administration recorded per regimen since a point in time, for
+// matching doses to the slots they cover
+export async function getRecordedTimes(
+	db: typeof import("@/db/drizzle").db,
+	regimenIds: string[],
+	since: Date,
+) {
+	const recorded = new Map<string, Date[]>();
+	if (regimenIds.length === 0) return recorded;
+
+	const rows = await db
+		.select({
+			regimenId: administrations.regimenId,
+			recordedAt: administrations.recordedAt,
+		})
+		.from(administrations)
+		.where(
+			and(
+				inArray(administrations.regimenId, regimenIds),
+				gte(administrations.recordedAt, since.toISOString()),
+			),
+		);
+
+	for (const row of rows) {
+		const times = recorded.get(row.regimenId) ?? [];
+		times.push(new Date(row.recordedAt));
+		recorded.set(row.regimenId, times);
+	}
+
+	return recorded;
+}
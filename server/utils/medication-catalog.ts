@@ -0,0 +1,136 @@
+import { and, desc, eq, ilike, inArray, isNull, or, sql } from "drizzle-orm";
+import {
+	inventoryItems,
+	medicationCatalog,
+	medicationSynonyms,
+} from "@/db/schema";
+import {
+	type ParsedSearchQuery,
+	parseSearchQuery,
+	rankSearchResults,
+} from "@/utils/medication-search";
+
+// Fuzzy matches are scored in memory, so only this many rows are fetched
+const MAX_CANDIDATES = 100;
+
+// Shared catalog entries plus the given households' custom medications
+export const visibleInCatalog = (householdIds: string[]) =>
+	householdIds.length > 0
+		? or(
+				isNull(medicationCatalog.householdId),
+				inArray(medicationCatalog.householdId, householdIds),
+			)
+		: isNull(medicationCatalog.householdId);
+
+// A catalog entry the household may use: shared, or one of its own
+export const visibleToHousehold = (householdId: string) =>
+	or(
+		isNull(medicationCatalog.householdId),
+		eq(medicationCatalog.householdId, householdId),
+	);
+
+// Catalog ids the household keeps in inventory, most items first. With
+// `allowedAnimalIds`, only unassigned stock and stock of those animals count
+export const getFrequentMedicationIds = async (
+	db: typeof import("@/db/drizzle").db,
+	householdId: string,
+	limit: number,
+	allowedAnimalIds: string[] | null = null,
+) => {
+	const rows = await db
+		.select({
+			medicationId: inventoryItems.medicationId,
+			count: sql<number>`count(*)::int`,
+		})
+		.from(inventoryItems)
+		.where(
+			and(
+				eq(inventoryItems.householdId, householdId),
+				isNull(inventoryItems.deletedAt),
+				allowedAnimalIds
+					? or(
+							isNull(inventoryItems.assignedAnimalId),
+							inArray(inventoryItems.assignedAnimalId, allowedAnimalIds),
+						)
+					: undefined,
+			),
+		)
+		.groupBy(inventoryItems.medicationId)
+		.orderBy(desc(sql`count(*)`))
+		.limit(limit);
+
+	return rows
+		.map((row) => row.medicationId)
+		.filter((id): id is string => id !== null);
+};
+
+// Rows worth scoring: substring, trigram or synonym hits on any name term
+function getCandidateCondition(
+	query: ParsedSearchQuery,
+	synonymTargets: string[],
+) {
+	if (query.terms.length === 0) {
+		return ilike(medicationCatalog.strength, `%${query.strength?.value}%`);
+	}
+
+	return or(
+		...query.terms.flatMap((term) => [
+			ilike(medicationCatalog.genericName, `%${term}%`),
+			ilike(medicationCatalog.brandName, `%${term}%`),
+			ilike(medicationCatalog.drugClass, term),
+			sql`${medicationCatalog.genericName} % ${term}`,
+			sql`${medicationCatalog.brandName} % ${term}`,
+			sql`${term} <% ${medicationCatalog.genericName}`,
+			sql`${term} <% ${medicationCatalog.brandName}`,
+		]),
+		...synonymTargets.map((genericName) =>
+			ilike(medicationCatalog.genericName, `%${genericName}%`),
+		),
+	);
+}
+
+/**
+ * Typo-tolerant catalog search. Postgres trigram matching (pg_trgm) finds
+ * candidates, which are then ranked with synonyms, the requested strength and
+ * the household's frequent medications. Each result says why it matched.
+ */
+export const searchMedications = async (
+	db: typeof import("@/db/drizzle").db,
+	{ query, householdId }: { query: string; householdId?: string },
+) => {
+	const parsed = parseSearchQuery(query);
+	if (parsed.terms.length === 0 && !parsed.strength) return [];
+
+	const [synonyms, frequentIds] = await Promise.all([
+		parsed.terms.length > 0
+			? db
+					.select({
+						term: medicationSynonyms.term,
+						genericName: medicationSynonyms.genericName,
+					})
+					.from(medicationSynonyms)
+					.where(inArray(medicationSynonyms.term, parsed.terms))
+			: [],
+		householdId ? getFrequentMedicationIds(db, householdId, 10) : [],
+	]);
+
+	const candidates = await db
+		.select()
+		.from(medicationCatalog)
+		.where(
+			and(
+				getCandidateCondition(
+					parsed,
+					synonyms.map((synonym) => synonym.genericName),
+				),
+				visibleInCatalog(householdId ? [householdId] : []),
+			),
+		)
+		.orderBy(medicationCatalog.genericName, medicationCatalog.brandName)
+		.limit(MAX_CANDIDATES);
+
+	return rankSearchResults(candidates, parsed, {
+		synonyms,
+		frequentIds: new Set(frequentIds),
+	});
+};
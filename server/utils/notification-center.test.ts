@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createUnreadCountStream,
+	decodeNotificationCursor,
+	encodeNotificationCursor,
+	getVisibleAt,
+	publishNotificationChange,
+	subscribeToNotificationChanges,
+} from "./notification-center";
+
+describe("notification cursors", () => {
+	it("round-trips the position of the last notification on a page", () => {
+		const cursor = {
+			visibleAt: "2026-03-10 12:45:00.123456+00",
+			id: "5b8f0f8e-3c1a-4d7e-9f2b-1a2b3c4d5e6f",
+		};
+		expect(decodeNotificationCursor(encodeNotificationCursor(cursor))).toEqual(
+			cursor,
+		);
+	});
+
+	it("rejects cursors it didn't issue", () => {
+		expect(decodeNotificationCursor("not-a-cursor")).toBeNull();
+		expect(
+			decodeNotificationCursor(
+				Buffer.from("yesterday|some-id").toString("base64url"),
+			),
+		).toBeNull();
+		expect(
+			decodeNotificationCursor(
+				Buffer.from("2026-03-10T12:00:00Z|a|b").toString("base64url"),
+			),
+		).toBeNull();
+	});
+});
+
+describe("getVisibleAt", () => {
+	it("is when the notification was due, or when its snooze ended", () => {
+		expect(
+			getVisibleAt({
+				scheduledFor: "2026-03-10T12:00:00Z",
+				snoozedUntil: null,
+			}),
+		).toBe("2026-03-10T12:00:00Z");
+		expect(
+			getVisibleAt({
+				scheduledFor: "2026-03-10T12:00:00Z",
+				snoozedUntil: "2026-03-10T13:00:00Z",
+			}),
+		).toBe("2026-03-10T13:00:00Z");
+	});
+});
+
+describe("notification change events", () => {
+	it("notifies subscribers for the user until they unsubscribe", () => {
+		const listener = vi.fn();
+		const other = vi.fn();
+		const unsubscribe = subscribeToNotificationChanges("user-1", listener);
+		const unsubscribeOther = subscribeToNotificationChanges("user-2", other);
+
+		publishNotificationChange("user-1");
+		unsubscribe();
+		publishNotificationChange("user-1");
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(other).not.toHaveBeenCalled();
+		unsubscribeOther();
+	});
+});
+
+describe("createUnreadCountStream", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("keeps re-checking after a check fails", async () => {
+		vi.useFakeTimers();
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const where = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("connection reset"))
+			.mockResolvedValue([{ count: 2, next: null }]);
+		const db = {
+			select: () => ({ from: () => ({ where }) }),
+		} as unknown as Parameters<typeof createUnreadCountStream>[0];
+		const abort = new AbortController();
+		const reader = createUnreadCountStream(
+			db,
+			"user-1",
+			abort.signal,
+		).getReader();
+		const decoder = new TextDecoder();
+		const next = async () => decoder.decode((await reader.read()).value);
+
+		expect(await next()).toBe("retry: 5000\n\n");
+		await vi.advanceTimersByTimeAsync(60 * 1000);
+		expect(await next()).toBe('event: unread\ndata: {"count":2}\n\n');
+
+		abort.abort();
+	});
+});
@@ -0,0 +1,221 @@
+import { EventEmitter } from "node:events";
+import { and, count, eq, gt, isNull, lte, min, or, sql } from "drizzle-orm";
+import { notificationQueue } from "@/db/schema";
+
+type Database = typeof import("@/db/drizzle").db;
+
+/**
+ * A notification shows in the recipient's notification center once it is
+ * due, until it is dismissed; snoozing hides it until snoozedUntil. Rows
+ * withdrawn before delivery never show.
+ */
+export function visibleNotifications(userId: string, now: Date) {
+	const nowISO = now.toISOString();
+	return and(
+		eq(notificationQueue.userId, userId),
+		isNull(notificationQueue.dismissedAt),
+		isNull(notificationQueue.cancelledAt),
+		lte(notificationQueue.scheduledFor, nowISO),
+		or(
+			isNull(notificationQueue.snoozedUntil),
+			lte(notificationQueue.snoozedUntil, nowISO),
+		),
+	);
+}
+
+// When a notification became visible: due, or back from a snooze. greatest()
+// skips nulls, so unsnoozed rows use scheduledFor.
+const visibleSince = sql<string>`greatest(${notificationQueue.scheduledFor}, ${notificationQueue.snoozedUntil})`;
+
+// Newest first
+export const notificationOrder = [
+	sql`${visibleSince} desc`,
+	sql`${notificationQueue.id} desc`,
+];
+
+export interface NotificationCursor {
+	visibleAt: string;
+	id: string;
+}
+
+// Opaque keyset cursor: the position of the last notification on a page
+export const encodeNotificationCursor = (cursor: NotificationCursor) =>
+	Buffer.from(`${cursor.visibleAt}|${cursor.id}`).toString("base64url");
+
+export function decodeNotificationCursor(
+	value: string,
+): NotificationCursor | null {
+	const [visibleAt, id, ...rest] = Buffer.from(value, "base64url")
+		.toString()
+		.split("|");
+	if (!visibleAt || !id || rest.length > 0) return null;
+	if (Number.isNaN(Date.parse(visibleAt))) return null;
+	return { visibleAt, id };
+}
+
+// Rows after the cursor in notificationOrder
+export const afterNotificationCursor = (cursor: NotificationCursor) =>
+	sql`(${visibleSince}, ${notificationQueue.id}) < (${cursor.visibleAt}::timestamptz, ${cursor.id}::uuid)`;
+
+export const getVisibleAt = (row: {
+	scheduledFor: string;
+	snoozedUntil: string | null;
+}) =>
+	row.snoozedUntil && row.snoozedUntil > row.scheduledFor
+		? row.snoozedUntil
+		: row.scheduledFor;
+
+export async function getUnreadNotificationCount(
+	db: Database,
+	userId: string,
+	now: Date = new Date(),
+) {
+	const [row] = await db
+		.select({ count: count() })
+		.from(notificationQueue)
+		.where(
+			and(visibleNotifications(userId, now), isNull(notificationQueue.readAt)),
+		);
+	return row?.count ?? 0;
+}
+
+/**
+ * When the next of the user's notifications becomes visible, whether newly
+ * due or back from a snooze; null when nothing is pending
+ */
+export async function getNextNotificationAt(
+	db: Database,
+	userId: string,
+	now: Date = new Date(),
+): Promise<Date | null> {
+	const nowISO = now.toISOString();
+	const [row] = await db
+		.select({ next: min(visibleSince) })
+		.from(notificationQueue)
+		.where(
+			and(
+				eq(notificationQueue.userId, userId),
+				isNull(notificationQueue.dismissedAt),
+				isNull(notificationQueue.cancelledAt),
+				gt(visibleSince, nowISO),
+			),
+		);
+	return row?.next ? new Date(row.next) : null;
+}
+
+// Changes to a user's notifications, so open notification streams can push
+// the new unread count. Route handlers can be bundled separately in dev, so
+// share one emitter.
+const globalForEvents = globalThis as unknown as {
+	notificationEvents?: EventEmitter;
+};
+globalForEvents.notificationEvents ??= new EventEmitter().setMaxListeners(0);
+const events = globalForEvents.notificationEvents;
+
+export const publishNotificationChange = (userId: string) => {
+	events.emit(userId);
+};
+
+export function subscribeToNotificationChanges(
+	userId: string,
+	listener: () => void,
+) {
+	events.on(userId, listener);
+	return () => {
+		events.off(userId, listener);
+	};
+}
+
+// A wake-up at least this often re-checks the count, catching changes made by
+// other server instances, and keeps proxies from closing an idle stream
+const RESYNC_MS = 60 * 1000;
+
+/**
+ * Server-Sent Events stream of the user's unread count: sent on connect, then
+ * whenever it changes. Changes are picked up from published events, a timer
+ * set for the next notification to become due, and a periodic re-check.
+ */
+export function createUnreadCountStream(
+	db: Database,
+	userId: string,
+	signal: AbortSignal,
+) {
+	const encoder = new TextEncoder();
+	let lastCount: number | null = null;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let refreshing: Promise<void> | null = null;
+	let refreshAgain = false;
+	let unsubscribe = () => {};
+	let closed = false;
+
+	const stop = () => {
+		closed = true;
+		clearTimeout(timer);
+		unsubscribe();
+	};
+
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			const send = (chunk: string) => {
+				if (!closed) controller.enqueue(encoder.encode(chunk));
+			};
+
+			const check = async () => {
+				const now = new Date();
+				let wakeInMs = RESYNC_MS;
+				try {
+					const [count, nextAt] = await Promise.all([
+						getUnreadNotificationCount(db, userId, now),
+						getNextNotificationAt(db, userId, now),
+					]);
+					if (nextAt) wakeInMs = nextAt.getTime() - now.getTime();
+
+					if (count !== lastCount) {
+						lastCount = count;
+						send(`event: unread\ndata: ${JSON.stringify({ count })}\n\n`);
+					} else {
+						send(": keepalive\n\n");
+					}
+				} finally {
+					// A failed check is retried at the next resync
+					clearTimeout(timer);
+					if (!closed) {
+						timer = setTimeout(
+							refresh,
+							Math.min(Math.max(wakeInMs, 0), RESYNC_MS),
+						);
+					}
+				}
+			};
+
+			// One check at a time; changes arriving meanwhile get one more
+			const refresh = () => {
+				if (closed) return;
+				if (refreshing) {
+					refreshAgain = true;
+					return;
+				}
+				refreshing = check()
+					.catch((error) => console.error("Notification stream error:", error))
+					.finally(() => {
+						refreshing = null;
+						if (refreshAgain) {
+							refreshAgain = false;
+							refresh();
+						}
+					});
+			};
+
+			unsubscribe = subscribeToNotificationChanges(userId, refresh);
+			signal.addEventListener("abort", () => {
+				if (closed) return;
+				stop();
+				controller.close();
+			});
+
+			send("retry: 5000\n\n");
+			refresh();
+		},
+		cancel: stop,
+	});
+}
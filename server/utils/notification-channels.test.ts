@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	type ChannelContext,
+	channelAdapters,
+	getNotificationChannels,
+	getRetryDelayMs,
+} from "./notification-channels";
+
+const context = {
+	db: {} as ChannelContext["db"],
+	notification: {
+		id: "notification-1",
+		title: "Rimadyl due for Buddy",
+		body: "75mg at 8:00 AM",
+		data: { url: "/admin/record?animalId=buddy" },
+	},
+	user: {
+		id: "user-1",
+		email: "sam@example.com",
+		name: "Sam",
+		emailReminders: true,
+		pushNotifications: true,
+	},
+} as unknown as ChannelContext;
+
+describe("getNotificationChannels", () => {
+	it("follows the recipient's preferences, always including in-app", () => {
+		expect(
+			getNotificationChannels({
+				emailReminders: true,
+				pushNotifications: true,
+			}),
+		).toEqual(["in_app", "push", "email"]);
+		expect(
+			getNotificationChannels({
+				emailReminders: false,
+				pushNotifications: false,
+			}),
+		).toEqual(["in_app"]);
+		expect(
+			getNotificationChannels({
+				emailReminders: null,
+				pushNotifications: null,
+			}),
+		).toEqual(["in_app", "push", "email"]);
+	});
+});
+
+describe("getRetryDelayMs", () => {
+	it("doubles from a minute and caps at an hour", () => {
+		expect(getRetryDelayMs(1)).toBe(60_000);
+		expect(getRetryDelayMs(2)).toBe(120_000);
+		expect(getRetryDelayMs(4)).toBe(480_000);
+		expect(getRetryDelayMs(10)).toBe(3_600_000);
+	});
+});
+
+describe("email channel", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		vi.unstubAllGlobals();
+	});
+
+	it("is skipped without a webhook", async () => {
+		vi.stubEnv("EMAIL_WEBHOOK_URL", "");
+		const fetchMock = vi.fn();
+		vi.stubGlobal("fetch", fetchMock);
+
+		await channelAdapters.email(context);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("posts the message to the webhook and throws on failure", async () => {
+		vi.stubEnv("EMAIL_WEBHOOK_URL", "https://mail.example.com/send");
+		vi.stubEnv("NEXT_PUBLIC_APP_URL", "https://vetmed.example.com");
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(null, { status: 202 }))
+			.mockResolvedValueOnce(new Response(null, { status: 503 }));
+		vi.stubGlobal("fetch", fetchMock);
+
+		await channelAdapters.email(context);
+		expect(JSON.parse(fetchMock.mock.calls[0]?.[1].body)).toEqual({
+			to: "sam@example.com",
+			subject: "Rimadyl due for Buddy",
+			text: "75mg at 8:00 AM\n\nhttps://vetmed.example.com/admin/record?animalId=buddy",
+		});
+
+		await expect(channelAdapters.email(context)).rejects.toThrow(/503/);
+	});
+});
@@ -0,0 +1,113 @@
+import type { notificationQueue, users } from "@/db/schema";
+import { publishNotificationChange } from "./notification-center";
+import { isWebPushConfigured, sendPushToUser } from "./web-push";
+
+type Database = typeof import("@/db/drizzle").db;
+type QueuedNotification = typeof notificationQueue.$inferSelect;
+type NotificationUser = Pick<
+	typeof users.$inferSelect,
+	"id" | "email" | "name" | "emailReminders" | "pushNotifications"
+>;
+
+export type NotificationChannel = "in_app" | "push" | "email";
+
+export interface ChannelContext {
+	db: Database;
+	notification: QueuedNotification;
+	user: NotificationUser;
+}
+
+/**
+ * Delivers a notification on one channel. Throwing marks the delivery as
+ * failed so the dispatcher retries it; returning normally means delivered
+ * (or nothing to deliver, e.g. no subscribed devices).
+ */
+export type ChannelAdapter = (context: ChannelContext) => Promise<void>;
+
+// Where a notification goes, from the recipient's preferences. In-app always
+// applies: the queue row itself is what the notification center lists.
+export function getNotificationChannels(
+	user: Pick<NotificationUser, "emailReminders" | "pushNotifications">,
+): NotificationChannel[] {
+	const channels: NotificationChannel[] = ["in_app"];
+	if (user.pushNotifications ?? true) channels.push("push");
+	if (user.emailReminders ?? true) channels.push("email");
+	return channels;
+}
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+// Exponential backoff after the given attempt: 1, 2, 4 ... minutes, up to an hour
+export const getRetryDelayMs = (attempts: number) =>
+	Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+// Link opened from a push or email; reminders carry their own in `data`
+const getNotificationUrl = (notification: QueuedNotification) => {
+	const data = (notification.data ?? {}) as { url?: unknown };
+	return typeof data.url === "string" ? data.url : "/";
+};
+
+// Nothing to send: the row is visible to the notification center as soon as
+// it is due. Open notification streams are nudged to refresh the unread count.
+const deliverInApp: ChannelAdapter = async ({ notification }) => {
+	publishNotificationChange(notification.userId);
+};
+
+const deliverPush: ChannelAdapter = async ({ db, notification, user }) => {
+	if (!isWebPushConfigured()) return;
+
+	const data = (notification.data ?? {}) as {
+		animalId?: string;
+		regimenId?: string;
+	};
+	const result = await sendPushToUser(db, user.id, {
+		title: notification.title,
+		body: notification.body,
+		url: getNotificationUrl(notification),
+		tag: notification.id,
+		animalId: data.animalId,
+		regimenId: data.regimenId,
+	});
+
+	// Some devices received it; the rest will catch up in the notification center
+	if (result.sent === 0 && result.failed > 0) {
+		throw new Error(`Push delivery failed: ${result.errors.join("; ")}`);
+	}
+};
+
+/**
+ * Email goes through a provider-agnostic webhook (`EMAIL_WEBHOOK_URL`) that
+ * receives `{ to, subject, text }`; without one, email is skipped.
+ */
+const deliverEmail: ChannelAdapter = async ({ notification, user }) => {
+	const webhookUrl = process.env.EMAIL_WEBHOOK_URL;
+	if (!webhookUrl) return;
+
+	const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+	const response = await fetch(webhookUrl, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			...(process.env.EMAIL_WEBHOOK_TOKEN && {
+				Authorization: `Bearer ${process.env.EMAIL_WEBHOOK_TOKEN}`,
+			}),
+		},
+		body: JSON.stringify({
+			to: user.email,
+			subject: notification.title,
+			text: `${notification.body}\n\n${new URL(getNotificationUrl(notification), appUrl)}`,
+		}),
+		signal: AbortSignal.timeout(10_000),
+	});
+
+	if (!response.ok) {
+		throw new Error(`Email delivery failed with status ${response.status}`);
+	}
+};
+
+export const channelAdapters: Record<NotificationChannel, ChannelAdapter> = {
+	in_app: deliverInApp,
+	push: deliverPush,
+	email: deliverEmail,
+};
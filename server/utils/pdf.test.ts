@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { measureText, PdfDocument, toPdfText, wrapText } from "./pdf";
+
+describe("toPdfText", () => {
+	it("maps typographic punctuation and drops unsupported characters", () => {
+		expect(toPdfText("“Buddy’s” dose – 5 mg")).toBe('"Buddy\'s" dose - 5 mg');
+		expect(toPdfText("Crème brûlée 🐶")).toBe("Crème brûlée ?");
+		expect(toPdfText("line\nbreak")).toBe("line break");
+	});
+});
+
+describe("wrapText", () => {
+	it("keeps every line within the width", () => {
+		const lines = wrapText(
+			"Give with food, and watch for vomiting or diarrhea",
+			100,
+		);
+
+		expect(lines.length).toBeGreaterThan(1);
+		expect(lines.join(" ")).toBe(
+			"Give with food, and watch for vomiting or diarrhea",
+		);
+		for (const line of lines) {
+			expect(measureText(line)).toBeLessThanOrEqual(100);
+		}
+	});
+
+	it("splits words longer than a line", () => {
+		const lines = wrapText("a".repeat(40), 50);
+
+		expect(lines.length).toBeGreaterThan(1);
+		expect(lines.join("")).toBe("a".repeat(40));
+	});
+});
+
+describe("PdfDocument", () => {
+	it("escapes string delimiters in text", () => {
+		const doc = new PdfDocument({
+			title: "Test",
+			creationDate: new Date("2025-01-31T00:00:00Z"),
+		});
+		doc.text(10, 10, "Notes (see vet) \\ follow-up");
+
+		const pdf = doc.toBuffer().toString("latin1");
+		expect(pdf).toContain("(Notes \\(see vet\\) \\\\ follow-up) Tj");
+		expect(pdf).toContain("/CreationDate (D:20250131000000Z)");
+	});
+});
@@ -0,0 +1,230 @@
+/**
+ * Minimal PDF writer for server-generated reports. It draws text, lines and
+ * filled rectangles with the built-in Helvetica fonts, so nothing has to be
+ * embedded and no browser is needed.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+	font?: PdfFont;
+	size?: number;
+	// 0 = black, 1 = white
+	gray?: number;
+}
+
+// US Letter, in points
+export const PDF_PAGE_WIDTH = 612;
+export const PDF_PAGE_HEIGHT = 792;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+	regular: { name: "F1", baseFont: "Helvetica" },
+	bold: { name: "F2", baseFont: "Helvetica-Bold" },
+};
+
+// Glyph widths (1/1000 em) for characters 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+	584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+	278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+	500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+	500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+	584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+	278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+	556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+	500, 389, 280, 389, 584,
+];
+
+const DEFAULT_GLYPH_WIDTH = 556;
+
+const TYPOGRAPHIC_REPLACEMENTS: Record<string, string> = {
+	"‘": "'",
+	"’": "'",
+	"“": '"',
+	"”": '"',
+	"–": "-",
+	"—": "-",
+	"•": "·",
+	"…": "...",
+};
+
+// Reduce text to what the standard fonts can show (WinAnsi / Latin-1)
+export function toPdfText(text: string): string {
+	return Array.from(text.replace(/\s+/g, " "))
+		.map((char) => {
+			const replacement = TYPOGRAPHIC_REPLACEMENTS[char];
+			if (replacement) return replacement;
+			const code = char.charCodeAt(0);
+			return code >= 32 && code <= 255 && code !== 127 ? char : "?";
+		})
+		.join("");
+}
+
+export function measureText(
+	text: string,
+	font: PdfFont = "regular",
+	size = 10,
+): number {
+	const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+	let units = 0;
+	for (const char of toPdfText(text)) {
+		units += widths[char.charCodeAt(0) - 32] ?? DEFAULT_GLYPH_WIDTH;
+	}
+	return (units * size) / 1000;
+}
+
+// Break text into lines no wider than maxWidth, splitting overlong words
+export function wrapText(
+	text: string,
+	maxWidth: number,
+	font: PdfFont = "regular",
+	size = 10,
+): string[] {
+	const lines: string[] = [];
+	let line = "";
+
+	for (const word of toPdfText(text).split(" ").filter(Boolean)) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (measureText(candidate, font, size) <= maxWidth) {
+			line = candidate;
+			continue;
+		}
+		if (line) lines.push(line);
+
+		line = "";
+		for (const char of word) {
+			if (line && measureText(line + char, font, size) > maxWidth) {
+				lines.push(line);
+				line = "";
+			}
+			line += char;
+		}
+	}
+
+	if (line) lines.push(line);
+	return lines.length > 0 ? lines : [""];
+}
+
+const escapePdfString = (text: string) =>
+	toPdfText(text).replace(/[\\()]/g, (char) => `\\${char}`);
+
+const formatNumber = (value: number) =>
+	Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+// PDF date string, e.g. D:20250131143000Z
+const formatPdfDate = (date: Date) =>
+	`D:${date
+		.toISOString()
+		.replace(/[-:T]/g, "")
+		.replace(/\.\d{3}Z$/, "")}Z`;
+
+export class PdfDocument {
+	private pages: string[][] = [];
+	private current: string[] = [];
+
+	constructor(
+		private info: { title: string; creationDate: Date; author?: string },
+	) {
+		this.addPage();
+	}
+
+	get pageCount() {
+		return this.pages.length;
+	}
+
+	addPage() {
+		this.current = [];
+		this.pages.push(this.current);
+	}
+
+	// Draw on an earlier page, e.g. page numbers once the total is known
+	eachPage(draw: (index: number, count: number) => void) {
+		const previous = this.current;
+		this.pages.forEach((page, index) => {
+			this.current = page;
+			draw(index, this.pages.length);
+		});
+		this.current = previous;
+	}
+
+	// Coordinates are from the top-left corner; y is the text baseline
+	text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+		const { font = "regular", size = 10, gray = 0 } = options;
+		this.current.push(
+			`BT ${formatNumber(gray)} g /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ` +
+				`${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y)} Td ` +
+				`(${escapePdfString(text)}) Tj ET`,
+		);
+	}
+
+	line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+		this.current.push(
+			`${formatNumber(width)} w 0 G ${formatNumber(x1)} ${formatNumber(PDF_PAGE_HEIGHT - y1)} m ` +
+				`${formatNumber(x2)} ${formatNumber(PDF_PAGE_HEIGHT - y2)} l S`,
+		);
+	}
+
+	fillRect(x: number, y: number, width: number, height: number, gray = 0.93) {
+		this.current.push(
+			`${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(PDF_PAGE_HEIGHT - y - height)} ` +
+				`${formatNumber(width)} ${formatNumber(height)} re f`,
+		);
+	}
+
+	toBuffer(): Buffer {
+		// Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+		// page object and a content stream per page
+		const pageObjectIds = this.pages.map((_, index) => 6 + index * 2);
+		const objects: string[] = [
+			"<< /Type /Catalog /Pages 2 0 R >>",
+			`<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${this.pages.length} >>`,
+			...Object.values(FONT_RESOURCES).map(
+				({ baseFont }) =>
+					`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`,
+			),
+			`<< /Title (${escapePdfString(this.info.title)})${
+				this.info.author
+					? ` /Author (${escapePdfString(this.info.author)})`
+					: ""
+			} /Producer (VetMed Tracker) /CreationDate (${formatPdfDate(this.info.creationDate)}) >>`,
+		];
+
+		const fontRefs = Object.values(FONT_RESOURCES)
+			.map(({ name }, index) => `/${name} ${3 + index} 0 R`)
+			.join(" ");
+
+		for (const page of this.pages) {
+			const content = page.join("\n");
+			const contentId = objects.length + 2;
+			objects.push(
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+					`/Resources << /Font << ${fontRefs} >> >> /Contents ${contentId} 0 R >>`,
+				`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+			);
+		}
+
+		let output = "%PDF-1.4\n";
+		const offsets: number[] = [];
+		objects.forEach((body, index) => {
+			offsets.push(Buffer.byteLength(output, "latin1"));
+			output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+		});
+
+		const xrefOffset = Buffer.byteLength(output, "latin1");
+		output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+		for (const offset of offsets) {
+			output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+		}
+		output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+		return Buffer.from(output, "latin1");
+	}
+}
@@ -0,0 +1,49 @@
+import { createECDH, type ECDH, randomBytes, randomUUID } from "node:crypto";
+import type { WebPushSubscription } from "./web-push";
+
+/**
+ * In-memory stand-in for a browser push service, for exercising Web Push end
+ * to end in development: each stub device holds the private keys a browser
+ * would, so delivered messages can be decrypted and inspected.
+ */
+interface StubDevice {
+	userKeys: ECDH;
+	authSecret: Buffer;
+	messages: { receivedAt: string; payload: unknown }[];
+}
+
+// Route handlers can be bundled separately in dev, so share one map
+const globalForStub = globalThis as unknown as {
+	pushStubDevices?: Map<string, StubDevice>;
+};
+globalForStub.pushStubDevices ??= new Map();
+const devices = globalForStub.pushStubDevices;
+
+export const isPushStubEnabled = () => process.env.NODE_ENV !== "production";
+
+export function createStubDevice(origin: string): {
+	id: string;
+	subscription: WebPushSubscription;
+} {
+	const id = randomUUID();
+	const userKeys = createECDH("prime256v1");
+	userKeys.generateKeys();
+	const authSecret = randomBytes(16);
+	devices.set(id, { userKeys, authSecret, messages: [] });
+
+	return {
+		id,
+		subscription: {
+			endpoint: `${origin}/api/push/stub/${id}`,
+			keys: {
+				p256dh: userKeys.getPublicKey("base64url"),
+				auth: authSecret.toString("base64url"),
+			},
+		},
+	};
+}
+
+export const getStubDevice = (id: string): StubDevice | undefined =>
+	devices.get(id);
+
+export const deleteStubDevice = (id: string) => devices.delete(id);
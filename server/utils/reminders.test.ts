@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildDoseReminders,
+	DOSE_ESCALATION,
+	DOSE_REMINDER,
+	getFollowUpMinutes,
+	getLeadTimeMinutes,
+	type ReminderSlot,
+	reminderKey,
+	resolveEscalationPlan,
+} from "./reminders";
+
+const regimen = {
+	id: "regimen-1",
+	animalId: "animal-1",
+	animalName: "Buddy",
+	householdId: "household-1",
+	timezone: "America/New_York",
+	medicationName: "Carprofen",
+};
+
+const now = new Date("2026-03-10T12:00:00Z");
+const slot = (dueAt: string, dose: string | null = "75mg"): ReminderSlot => ({
+	dueAt: new Date(dueAt),
+	dayISO: "2026-03-10",
+	slotIndex: 0,
+	dose,
+});
+
+describe("getLeadTimeMinutes", () => {
+	it("parses the stored text preference", () => {
+		expect(getLeadTimeMinutes("30")).toBe(30);
+		expect(getLeadTimeMinutes("0")).toBe(0);
+	});
+
+	it("falls back to 15 minutes when unset or invalid", () => {
+		expect(getLeadTimeMinutes(null)).toBe(15);
+		expect(getLeadTimeMinutes("")).toBe(15);
+		expect(getLeadTimeMinutes("soon")).toBe(15);
+	});
+
+	it("clamps to between zero and a day", () => {
+		expect(getLeadTimeMinutes("-10")).toBe(0);
+		expect(getLeadTimeMinutes("5000")).toBe(24 * 60);
+	});
+});
+
+describe("buildDoseReminders", () => {
+	it("queues one reminder per recipient, each at their own lead time", () => {
+		const reminders = buildDoseReminders(
+			regimen,
+			[slot("2026-03-10T13:00:00Z")],
+			[
+				{ userId: "user-1", reminderLeadTimeMinutes: "15" },
+				{ userId: "user-2", reminderLeadTimeMinutes: "30" },
+			],
+			now,
+		);
+
+		expect(reminders).toHaveLength(2);
+		expect(reminders.map((reminder) => reminder.scheduledFor)).toEqual([
+			"2026-03-10T12:45:00.000Z",
+			"2026-03-10T12:30:00.000Z",
+		]);
+		expect(reminders[0]).toMatchObject({
+			userId: "user-1",
+			householdId: "household-1",
+			type: DOSE_REMINDER,
+			title: "Carprofen due for Buddy",
+			body: "75mg at 9:00 AM",
+			dedupeKey: "reminder:regimen-1:2026-03-10T13:00:00.000Z:user-1",
+			data: {
+				animalId: "animal-1",
+				regimenId: "regimen-1",
+				slotDueAt: "2026-03-10T13:00:00.000Z",
+				offsetMinutes: -15,
+				url: "/admin/record?animalId=animal-1&regimenId=regimen-1",
+			},
+		});
+	});
+
+	it("skips slots already due and sends late-planned reminders now", () => {
+		const reminders = buildDoseReminders(
+			regimen,
+			[slot("2026-03-10T11:00:00Z"), slot("2026-03-10T12:05:00Z", null)],
+			[{ userId: "user-1", reminderLeadTimeMinutes: "15" }],
+			now,
+		);
+
+		expect(reminders).toHaveLength(1);
+		expect(reminders[0]?.scheduledFor).toBe(now.toISOString());
+		expect(reminders[0]?.body).toBe("Due at 8:05 AM");
+	});
+});
+
+describe("buildDoseReminders with an escalation plan", () => {
+	const plan = {
+		attemptOffsets: [-15, 0, 30],
+		escalateAfterMinutes: 45,
+		escalateTo: ["owner-1"],
+	};
+
+	it("re-notifies caregivers at each offset and escalates once overdue", () => {
+		const reminders = buildDoseReminders(
+			regimen,
+			[slot("2026-03-10T13:00:00Z")],
+			[{ userId: "user-1", reminderLeadTimeMinutes: "15" }],
+			now,
+			plan,
+		);
+
+		expect(
+			reminders.map((reminder) => [
+				reminder.type,
+				reminder.userId,
+				reminder.scheduledFor,
+				reminder.body,
+			]),
+		).toEqual([
+			// The -15 attempt is the caregiver's own reminder, not repeated
+			[DOSE_REMINDER, "user-1", "2026-03-10T12:45:00.000Z", "75mg at 9:00 AM"],
+			[DOSE_REMINDER, "user-1", "2026-03-10T13:00:00.000Z", "75mg at 9:00 AM"],
+			[
+				DOSE_REMINDER,
+				"user-1",
+				"2026-03-10T13:30:00.000Z",
+				"75mg was due at 9:00 AM",
+			],
+			[
+				DOSE_ESCALATION,
+				"owner-1",
+				"2026-03-10T13:45:00.000Z",
+				"75mg was due at 9:00 AM and hasn't been recorded",
+			],
+		]);
+		expect(new Set(reminders.map((reminder) => reminder.dedupeKey)).size).toBe(
+			4,
+		);
+	});
+
+	it("only queues the steps still ahead for an overdue slot", () => {
+		const reminders = buildDoseReminders(
+			regimen,
+			[slot("2026-03-10T11:40:00Z")],
+			[{ userId: "user-1", reminderLeadTimeMinutes: "15" }],
+			now,
+			plan,
+		);
+
+		expect(
+			reminders.map((reminder) => [reminder.type, reminder.scheduledFor]),
+		).toEqual([
+			[DOSE_REMINDER, "2026-03-10T12:10:00.000Z"],
+			[DOSE_ESCALATION, "2026-03-10T12:25:00.000Z"],
+		]);
+	});
+});
+
+describe("resolveEscalationPlan", () => {
+	const members = [
+		{ userId: "owner-1", role: "OWNER" },
+		{ userId: "owner-2", role: "OWNER" },
+		{ userId: "caregiver-1", role: "CAREGIVER" },
+	];
+	const policy = {
+		attemptOffsets: [-15, 0, 15],
+		escalateAfterMinutes: 45,
+		escalationTarget: "OWNERS" as const,
+		leadUserId: null,
+	};
+
+	it("has no plan without a saved policy", () => {
+		expect(resolveEscalationPlan(undefined, members)).toBeNull();
+	});
+
+	it("escalates to every owner", () => {
+		expect(resolveEscalationPlan(policy, members)?.escalateTo).toEqual([
+			"owner-1",
+			"owner-2",
+		]);
+	});
+
+	it("escalates to the named lead, or the owners once they've left", () => {
+		const leadPolicy = {
+			...policy,
+			escalationTarget: "LEAD" as const,
+			leadUserId: "caregiver-1",
+		};
+		expect(resolveEscalationPlan(leadPolicy, members)?.escalateTo).toEqual([
+			"caregiver-1",
+		]);
+		expect(
+			resolveEscalationPlan(leadPolicy, members.slice(0, 2))?.escalateTo,
+		).toEqual(["owner-1", "owner-2"]);
+	});
+
+	it("keeps overdue slots in view until the last step", () => {
+		expect(getFollowUpMinutes(null)).toBe(0);
+		expect(
+			getFollowUpMinutes({
+				attemptOffsets: [-15, 0, 90],
+				escalateAfterMinutes: 45,
+				escalateTo: [],
+			}),
+		).toBe(90);
+	});
+});
+
+describe("reminderKey", () => {
+	it("is stable for a slot and recipient", () => {
+		const dueAt = new Date("2026-03-10T13:00:00Z");
+		expect(reminderKey("regimen-1", dueAt, "user-1")).toBe(
+			reminderKey("regimen-1", new Date(dueAt.getTime()), "user-1"),
+		);
+		expect(reminderKey("regimen-1", dueAt, "user-1")).not.toBe(
+			reminderKey("regimen-1", dueAt, "user-2"),
+		);
+	});
+});
@@ -0,0 +1,332 @@
+import { and, asc, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import { type EscalationPolicy, notificationQueue, users } from "@/db/schema";
+import type { ScheduledSlot } from "@/utils/schedule";
+import { formatTimeLocal } from "@/utils/tz";
+
+type Database = typeof import("@/db/drizzle").db;
+type NewNotification = typeof notificationQueue.$inferInsert;
+
+export const DOSE_REMINDER = "DOSE_REMINDER";
+export const DOSE_ESCALATION = "DOSE_ESCALATION";
+const DOSE_NOTIFICATION_TYPES = [DOSE_REMINDER, DOSE_ESCALATION];
+
+const DEFAULT_LEAD_TIME_MINUTES = 15;
+const MAX_LEAD_TIME_MINUTES = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export interface ReminderRegimen {
+	id: string;
+	animalId: string;
+	animalName: string;
+	householdId: string;
+	timezone: string;
+	medicationName: string;
+}
+
+// A slot with the dose due then, which tapers change from step to step
+export type ReminderSlot = ScheduledSlot & { dose: string | null };
+
+export interface ReminderRecipient {
+	userId: string;
+	// users.reminderLeadTimeMinutes, stored as text
+	reminderLeadTimeMinutes: string | null;
+}
+
+// A household's escalation policy, resolved to the people it notifies
+export interface EscalationPlan {
+	// Minutes relative to the slot at which caregivers are re-notified
+	attemptOffsets: number[];
+	escalateAfterMinutes: number;
+	// Owners, or the household's named lead
+	escalateTo: string[];
+}
+
+/**
+ * The plan for a household's policy and the members who can see the animal.
+ * A named lead who is no longer one of them is replaced by the owners.
+ */
+export function resolveEscalationPlan(
+	policy:
+		| Pick<
+				EscalationPolicy,
+				| "attemptOffsets"
+				| "escalateAfterMinutes"
+				| "escalationTarget"
+				| "leadUserId"
+		  >
+		| undefined,
+	members: { userId: string; role: string }[],
+): EscalationPlan | null {
+	if (!policy) return null;
+
+	const lead =
+		policy.escalationTarget === "LEAD"
+			? members.find((member) => member.userId === policy.leadUserId)
+			: undefined;
+
+	return {
+		attemptOffsets: policy.attemptOffsets,
+		escalateAfterMinutes: policy.escalateAfterMinutes,
+		escalateTo: lead
+			? [lead.userId]
+			: members
+					.filter((member) => member.role === "OWNER")
+					.map((member) => member.userId),
+	};
+}
+
+// How long after a slot the plan still has steps to send
+export const getFollowUpMinutes = (plan: EscalationPlan | null) =>
+	plan ? Math.max(0, plan.escalateAfterMinutes, ...plan.attemptOffsets) : 0;
+
+// Lead time from the user's preference, falling back to the default when unset
+// or unparseable
+export function getLeadTimeMinutes(value: string | null): number {
+	const minutes = Number(value);
+	if (value === null || value.trim() === "" || !Number.isFinite(minutes)) {
+		return DEFAULT_LEAD_TIME_MINUTES;
+	}
+	return Math.min(Math.max(Math.round(minutes), 0), MAX_LEAD_TIME_MINUTES);
+}
+
+// One live reminder per regimen slot and recipient, plus one per policy attempt
+export const reminderKey = (
+	regimenId: string,
+	dueAt: Date,
+	userId: string,
+	offsetMinutes?: number,
+) =>
+	`reminder:${regimenId}:${dueAt.toISOString()}:${userId}${
+		offsetMinutes === undefined ? "" : `:${offsetMinutes}`
+	}`;
+
+export const escalationKey = (regimenId: string, dueAt: Date, userId: string) =>
+	`escalation:${regimenId}:${dueAt.toISOString()}:${userId}`;
+
+const addMinutes = (date: Date, minutes: number) =>
+	new Date(date.getTime() + minutes * MINUTE_MS);
+
+interface SlotStep {
+	type: string;
+	title: string;
+	body: string;
+	scheduledFor: Date;
+	dedupeKey: string;
+	offsetMinutes: number;
+}
+
+function toNotification(
+	regimen: ReminderRegimen,
+	slot: ReminderSlot,
+	userId: string,
+	step: SlotStep,
+): NewNotification {
+	return {
+		userId,
+		householdId: regimen.householdId,
+		type: step.type,
+		title: step.title,
+		body: step.body,
+		scheduledFor: step.scheduledFor.toISOString(),
+		dedupeKey: step.dedupeKey,
+		data: {
+			animalId: regimen.animalId,
+			regimenId: regimen.id,
+			slotDueAt: slot.dueAt.toISOString(),
+			offsetMinutes: step.offsetMinutes,
+			url: `/admin/record?animalId=${regimen.animalId}&regimenId=${regimen.id}`,
+		},
+	};
+}
+
+function describeSlot(
+	regimen: ReminderRegimen,
+	slot: ReminderSlot,
+	offsetMinutes: number,
+) {
+	const time = formatTimeLocal(slot.dueAt, regimen.timezone);
+	if (offsetMinutes > 0) return `${slot.dose ?? "Dose"} was due at ${time}`;
+	return slot.dose ? `${slot.dose} at ${time}` : `Due at ${time}`;
+}
+
+// The recipient's own reminder and any policy attempts after it. A reminder
+// whose lead time has already started goes out straight away; attempts that
+// have passed are skipped.
+function caregiverSteps(
+	regimen: ReminderRegimen,
+	slot: ReminderSlot,
+	recipient: ReminderRecipient,
+	attemptOffsets: number[],
+	now: Date,
+): SlotStep[] {
+	const leadMinutes = getLeadTimeMinutes(recipient.reminderLeadTimeMinutes);
+	const title = `${regimen.medicationName} due for ${regimen.animalName}`;
+	const steps: SlotStep[] = [];
+
+	if (slot.dueAt > now) {
+		const remindAt = addMinutes(slot.dueAt, -leadMinutes);
+		steps.push({
+			type: DOSE_REMINDER,
+			title,
+			body: describeSlot(regimen, slot, -leadMinutes),
+			scheduledFor: remindAt > now ? remindAt : now,
+			dedupeKey: reminderKey(regimen.id, slot.dueAt, recipient.userId),
+			offsetMinutes: -leadMinutes,
+		});
+	}
+
+	for (const offset of attemptOffsets) {
+		const at = addMinutes(slot.dueAt, offset);
+		if (offset === -leadMinutes || at < now) continue;
+		steps.push({
+			type: DOSE_REMINDER,
+			title,
+			body: describeSlot(regimen, slot, offset),
+			scheduledFor: at,
+			dedupeKey: reminderKey(regimen.id, slot.dueAt, recipient.userId, offset),
+			offsetMinutes: offset,
+		});
+	}
+
+	return steps;
+}
+
+/**
+ * Queue rows reminding each recipient of the given slots, each scheduled the
+ * recipient's lead time before the slot. With an escalation plan, caregivers
+ * are re-notified at each attempt offset and the plan's escalation contacts
+ * are notified once the slot is escalateAfterMinutes overdue.
+ */
+export function buildDoseReminders(
+	regimen: ReminderRegimen,
+	slots: ReminderSlot[],
+	recipients: ReminderRecipient[],
+	now: Date,
+	escalation: EscalationPlan | null = null,
+): NewNotification[] {
+	const reminders: NewNotification[] = [];
+
+	for (const slot of slots) {
+		for (const recipient of recipients) {
+			for (const step of caregiverSteps(
+				regimen,
+				slot,
+				recipient,
+				escalation?.attemptOffsets ?? [],
+				now,
+			)) {
+				reminders.push(toNotification(regimen, slot, recipient.userId, step));
+			}
+		}
+
+		if (!escalation) continue;
+		const escalateAt = addMinutes(slot.dueAt, escalation.escalateAfterMinutes);
+		if (escalateAt < now) continue;
+
+		for (const userId of escalation.escalateTo) {
+			reminders.push(
+				toNotification(regimen, slot, userId, {
+					type: DOSE_ESCALATION,
+					title: `${regimen.medicationName} not recorded for ${regimen.animalName}`,
+					body: `${describeSlot(regimen, slot, escalation.escalateAfterMinutes)} and hasn't been recorded`,
+					scheduledFor: escalateAt,
+					dedupeKey: escalationKey(regimen.id, slot.dueAt, userId),
+					offsetMinutes: escalation.escalateAfterMinutes,
+				}),
+			);
+		}
+	}
+
+	return reminders;
+}
+
+export interface CancelRemindersFilter {
+	regimenId?: string;
+	animalId?: string;
+	householdId?: string;
+	// Only reminders for slots due at or before this; every slot when omitted
+	slotDueBy?: Date;
+}
+
+/**
+ * Withdraw dose reminders and escalations that haven't gone out yet, e.g.
+ * when the dose is recorded or the regimen is paused or deleted. Returns how
+ * many were cancelled; the planner can queue the slots again once the
+ * regimen resumes.
+ */
+export async function cancelDoseReminders(
+	db: Database,
+	{ regimenId, animalId, householdId, slotDueBy }: CancelRemindersFilter,
+	now: Date = new Date(),
+) {
+	if (!regimenId && !animalId && !householdId) return 0;
+
+	const conditions = [
+		inArray(notificationQueue.type, DOSE_NOTIFICATION_TYPES),
+		isNull(notificationQueue.sentAt),
+		isNull(notificationQueue.cancelledAt),
+	];
+	if (regimenId) {
+		conditions.push(
+			sql`${notificationQueue.data}->>'regimenId' = ${regimenId}`,
+		);
+	}
+	if (animalId) {
+		conditions.push(sql`${notificationQueue.data}->>'animalId' = ${animalId}`);
+	}
+	if (householdId) {
+		conditions.push(eq(notificationQueue.householdId, householdId));
+	}
+	if (slotDueBy) {
+		conditions.push(
+			lte(
+				sql`(${notificationQueue.data}->>'slotDueAt')::timestamptz`,
+				slotDueBy.toISOString(),
+			),
+		);
+	}
+
+	const cancelled = await db
+		.update(notificationQueue)
+		.set({ cancelledAt: now.toISOString() })
+		.where(and(...conditions))
+		.returning({ id: notificationQueue.id });
+
+	return cancelled.length;
+}
+
+// Reminders and escalations queued for one dose, for its history
+export async function getDoseNotificationSteps(
+	db: Database,
+	{ regimenId, slotDueAt }: { regimenId: string; slotDueAt: Date },
+) {
+	const rows = await db
+		.select({
+			id: notificationQueue.id,
+			type: notificationQueue.type,
+			recipientName: users.name,
+			recipientEmail: users.email,
+			scheduledFor: notificationQueue.scheduledFor,
+			sentAt: notificationQueue.sentAt,
+			failedAt: notificationQueue.failedAt,
+			cancelledAt: notificationQueue.cancelledAt,
+			deliveredVia: notificationQueue.deliveredVia,
+			data: notificationQueue.data,
+		})
+		.from(notificationQueue)
+		.innerJoin(users, eq(notificationQueue.userId, users.id))
+		.where(
+			and(
+				inArray(notificationQueue.type, DOSE_NOTIFICATION_TYPES),
+				sql`${notificationQueue.data}->>'regimenId' = ${regimenId}`,
+				sql`(${notificationQueue.data}->>'slotDueAt')::timestamptz = ${slotDueAt.toISOString()}`,
+			),
+		)
+		.orderBy(asc(notificationQueue.scheduledFor));
+
+	return rows.map(({ data, recipientName, recipientEmail, ...row }) => ({
+		...row,
+		recipient: recipientName || recipientEmail,
+		offsetMinutes: (data as { offsetMinutes?: number } | null)?.offsetMinutes,
+	}));
+}
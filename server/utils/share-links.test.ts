@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createShareToken,
+	getShareLinkStatus,
+	getShareLinkUrl,
+	verifyShareToken,
+} from "./share-links";
+
+const link = {
+	id: "5b1f8c7e-2d4a-4f1b-9c3e-8a7d6e5f4c3b",
+	expiresAt: "2025-03-15T12:00:00.000Z",
+};
+const expiresAt = Date.parse(link.expiresAt) / 1000;
+
+describe("share tokens", () => {
+	beforeEach(() => {
+		vi.stubEnv("SHARE_LINK_SECRET", "test-secret");
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	it("round-trips the link id and expiry", () => {
+		const token = createShareToken(link);
+
+		expect(token.startsWith(`${link.id}.${expiresAt}.`)).toBe(true);
+		expect(verifyShareToken(token)).toEqual({ linkId: link.id, expiresAt });
+		expect(getShareLinkUrl(token)).toBe(`http://localhost:3000/share/${token}`);
+		expect(getShareLinkUrl(token, "EMERGENCY")).toBe(
+			`http://localhost:3000/emergency/${token}`,
+		);
+	});
+
+	it("rejects tokens with an extended expiry or another link id", () => {
+		const [, , signature] = createShareToken(link).split(".");
+
+		expect(
+			verifyShareToken(`${link.id}.${expiresAt + 86400}.${signature}`),
+		).toBeNull();
+		expect(
+			verifyShareToken(
+				`6c2f8c7e-2d4a-4f1b-9c3e-8a7d6e5f4c3b.${expiresAt}.${signature}`,
+			),
+		).toBeNull();
+	});
+
+	it("rejects tokens signed with a different secret", () => {
+		const token = createShareToken(link);
+		vi.stubEnv("SHARE_LINK_SECRET", "rotated-secret");
+
+		expect(verifyShareToken(token)).toBeNull();
+	});
+
+	it("rejects malformed tokens", () => {
+		expect(verifyShareToken("")).toBeNull();
+		expect(verifyShareToken("not-a-token")).toBeNull();
+		expect(verifyShareToken(`${link.id}.soon.abc`)).toBeNull();
+		expect(verifyShareToken(`${createShareToken(link)}.extra`)).toBeNull();
+	});
+
+	it("refuses to sign without a configured secret", () => {
+		vi.stubEnv("SHARE_LINK_SECRET", "");
+
+		expect(() => createShareToken(link)).toThrow(
+			"SHARE_LINK_SECRET is not configured",
+		);
+	});
+});
+
+describe("getShareLinkStatus", () => {
+	const now = new Date("2025-03-10T12:00:00.000Z");
+
+	it("is active until it expires or is revoked", () => {
+		expect(getShareLinkStatus({ ...link, revokedAt: null }, now)).toBe(
+			"ACTIVE",
+		);
+		expect(
+			getShareLinkStatus(
+				{ ...link, revokedAt: null },
+				new Date("2025-03-15T12:00:00.000Z"),
+			),
+		).toBe("EXPIRED");
+		expect(
+			getShareLinkStatus(
+				{ ...link, revokedAt: "2025-03-09T08:00:00.000Z" },
+				now,
+			),
+		).toBe("REVOKED");
+	});
+});
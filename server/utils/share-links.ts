@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { eq, sql } from "drizzle-orm";
+import { shareLinks } from "@/db/schema";
+import { type AuditRequestMetadata, appendAuditEntry } from "./audit-log";
+
+export const SHARE_LINK_DEFAULT_DAYS = 14;
+export const SHARE_LINK_MAX_DAYS = 90;
+// Emergency links are printed on a wallet card, so they live much longer
+export const EMERGENCY_LINK_DEFAULT_DAYS = 365;
+export const EMERGENCY_LINK_MAX_DAYS = 730;
+
+export type ShareLinkStatus = "ACTIVE" | "REVOKED" | "EXPIRED";
+
+type Database = typeof import("@/db/drizzle").db;
+type ShareLink = typeof shareLinks.$inferSelect;
+export type ShareLinkPurpose = ShareLink["purpose"];
+
+export type ShareLinkResult =
+	| { ok: true; link: ShareLink }
+	| { ok: false; reason: "INVALID" | Exclude<ShareLinkStatus, "ACTIVE"> };
+
+const UUID_PATTERN =
+	/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getShareLinkSecret() {
+	const secret = process.env.SHARE_LINK_SECRET;
+	if (!secret) {
+		throw new Error("SHARE_LINK_SECRET is not configured");
+	}
+	return secret;
+}
+
+const signPayload = (payload: string) =>
+	createHmac("sha256", getShareLinkSecret())
+		.update(payload)
+		.digest("base64url");
+
+const toEpochSeconds = (date: string | Date) =>
+	Math.floor(new Date(date).getTime() / 1000);
+
+export const getShareLinkExpiry = (
+	days: number = SHARE_LINK_DEFAULT_DAYS,
+	from: Date = new Date(),
+) => new Date(from.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+// Token is `<link id>.<expiry in unix seconds>.<HMAC of both>`, so it can be
+// rebuilt for the owner at any time but never forged or extended
+export function createShareToken(link: Pick<ShareLink, "id" | "expiresAt">) {
+	const payload = `${link.id}.${toEpochSeconds(link.expiresAt)}`;
+	return `${payload}.${signPayload(payload)}`;
+}
+
+// Check a token's signature; revocation and expiry are checked against the row
+export function verifyShareToken(
+	token: string,
+): { linkId: string; expiresAt: number } | null {
+	const parts = token.split(".");
+	const [linkId, expiry, signature] = parts;
+	if (parts.length !== 3 || !linkId || !expiry || !signature) return null;
+	if (!UUID_PATTERN.test(linkId) || !/^\d+$/.test(expiry)) return null;
+
+	const expected = Buffer.from(signPayload(`${linkId}.${expiry}`));
+	const actual = Buffer.from(signature);
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+		return null;
+	}
+
+	return { linkId, expiresAt: Number(expiry) };
+}
+
+const SHARE_LINK_PATHS: Record<ShareLinkPurpose, string> = {
+	VET_RECORD: "/share",
+	EMERGENCY: "/emergency",
+};
+
+export const getShareLinkUrl = (
+	token: string,
+	purpose: ShareLinkPurpose = "VET_RECORD",
+) =>
+	`${process.env.NEXT_PUBLIC_APP_URL ?? ""}${SHARE_LINK_PATHS[purpose]}/${token}`;
+
+export function getShareLinkStatus(
+	link: Pick<ShareLink, "revokedAt" | "expiresAt">,
+	now: Date = new Date(),
+): ShareLinkStatus {
+	if (link.revokedAt) return "REVOKED";
+	if (new Date(link.expiresAt) <= now) return "EXPIRED";
+	return "ACTIVE";
+}
+
+/**
+ * Resolve a share token for a public view. Every attempt on a genuine link is
+ * audited against the owner who created it, and successful views are counted.
+ * A link only opens the view it was created for. The audit entry is written
+ * in the same transaction as the view, so if it can't be recorded this throws
+ * rather than showing an unlogged record. Needs a client with transactions
+ * (`dbPooled`).
+ */
+export async function openShareLink(
+	db: Database,
+	token: string,
+	metadata?: AuditRequestMetadata,
+	purpose: ShareLinkPurpose = "VET_RECORD",
+): Promise<ShareLinkResult> {
+	const verified = verifyShareToken(token);
+	if (!verified) return { ok: false, reason: "INVALID" };
+
+	const [link] = await db
+		.select()
+		.from(shareLinks)
+		.where(eq(shareLinks.id, verified.linkId))
+		.limit(1);
+
+	if (
+		!link ||
+		link.purpose !== purpose ||
+		toEpochSeconds(link.expiresAt) !== verified.expiresAt
+	) {
+		return { ok: false, reason: "INVALID" };
+	}
+
+	const now = new Date();
+	const status = getShareLinkStatus(link, now);
+
+	if (status !== "ACTIVE") {
+		await db.transaction((tx) =>
+			appendAuditEntry(tx, {
+				userId: link.createdBy,
+				householdId: link.householdId,
+				action: "SHARE_LINK_DENIED",
+				resourceType: "share_link",
+				resourceId: link.id,
+				details: {
+					animalId: link.animalId,
+					purpose: link.purpose,
+					reason: status,
+				},
+				metadata,
+			}),
+		);
+		return { ok: false, reason: status };
+	}
+
+	const viewed = await db.transaction(async (tx) => {
+		const [updated] = await tx
+			.update(shareLinks)
+			.set({
+				viewCount: sql`${shareLinks.viewCount} + 1`,
+				lastViewedAt: now.toISOString(),
+			})
+			.where(eq(shareLinks.id, link.id))
+			.returning();
+
+		await appendAuditEntry(tx, {
+			userId: link.createdBy,
+			householdId: link.householdId,
+			action: "SHARE_LINK_VIEWED",
+			resourceType: "share_link",
+			resourceId: link.id,
+			details: { animalId: link.animalId, label: link.label },
+			metadata,
+		});
+
+		return updated;
+	});
+
+	return { ok: true, link: viewed ?? link };
+}
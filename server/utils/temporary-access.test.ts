@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+	canAccessAnimal,
+	getMembershipAccess,
+	getRequestedAnimalIds,
+	isTemporaryMembership,
+} from "./temporary-access";
+
+const window = {
+	validFrom: "2025-03-01T09:00:00.000Z",
+	validUntil: "2025-03-08T09:00:00.000Z",
+};
+
+describe("getMembershipAccess", () => {
+	it("treats permanent memberships as always active", () => {
+		const permanent = { validFrom: null, validUntil: null };
+
+		expect(isTemporaryMembership(permanent)).toBe(false);
+		expect(getMembershipAccess(permanent)).toBe("ACTIVE");
+	});
+
+	it("is active only inside the access window", () => {
+		expect(isTemporaryMembership(window)).toBe(true);
+		expect(
+			getMembershipAccess(window, new Date("2025-03-01T08:59:00.000Z")),
+		).toBe("NOT_STARTED");
+		expect(
+			getMembershipAccess(window, new Date("2025-03-04T12:00:00.000Z")),
+		).toBe("ACTIVE");
+		expect(
+			getMembershipAccess(window, new Date("2025-03-08T09:00:00.000Z")),
+		).toBe("EXPIRED");
+	});
+});
+
+describe("canAccessAnimal", () => {
+	it("allows every animal without a restriction", () => {
+		expect(canAccessAnimal({ animalIds: null }, "a")).toBe(true);
+		expect(canAccessAnimal({ animalIds: [] }, "a")).toBe(true);
+	});
+
+	it("allows only listed animals with a restriction", () => {
+		expect(canAccessAnimal({ animalIds: ["a", "b"] }, "a")).toBe(true);
+		expect(canAccessAnimal({ animalIds: ["a", "b"] }, "c")).toBe(false);
+	});
+});
+
+describe("getRequestedAnimalIds", () => {
+	it("collects animalId and animalIds from the input", () => {
+		expect(
+			getRequestedAnimalIds({ animalId: "a", animalIds: ["b", "c"] }),
+		).toEqual(["b", "c", "a"]);
+	});
+
+	it("ignores inputs without animal references", () => {
+		expect(getRequestedAnimalIds(undefined)).toEqual([]);
+		expect(getRequestedAnimalIds({ householdId: "h" })).toEqual([]);
+	});
+
+	it("does not modify the input", () => {
+		const input = { animalId: "a", animalIds: ["b"] };
+		getRequestedAnimalIds(input);
+
+		expect(input.animalIds).toEqual(["b"]);
+	});
+});
@@ -0,0 +1,89 @@
+import { and, eq, isNull, lte } from "drizzle-orm";
+import { memberships } from "@/db/schema";
+import { appendAuditEntry } from "./audit-log";
+
+type Membership = typeof memberships.$inferSelect;
+
+export type MembershipAccess = "ACTIVE" | "NOT_STARTED" | "EXPIRED";
+
+export const isTemporaryMembership = (
+	membership: Pick<Membership, "validFrom" | "validUntil">,
+) => membership.validFrom !== null || membership.validUntil !== null;
+
+export function getMembershipAccess(
+	membership: Pick<Membership, "validFrom" | "validUntil">,
+	now: Date = new Date(),
+): MembershipAccess {
+	if (membership.validFrom && new Date(membership.validFrom) > now) {
+		return "NOT_STARTED";
+	}
+	if (membership.validUntil && new Date(membership.validUntil) <= now) {
+		return "EXPIRED";
+	}
+	return "ACTIVE";
+}
+
+// Animal restriction check; an empty or null list grants every animal
+export const canAccessAnimal = (
+	membership: Pick<Membership, "animalIds">,
+	animalId: string,
+) => !membership.animalIds?.length || membership.animalIds.includes(animalId);
+
+// Animal ids referenced by a procedure's raw input
+export function getRequestedAnimalIds(input: unknown): string[] {
+	if (!input || typeof input !== "object") return [];
+
+	const { animalId, animalIds } = input as {
+		animalId?: unknown;
+		animalIds?: unknown;
+	};
+	const ids: unknown[] = Array.isArray(animalIds) ? [...animalIds] : [];
+	if (animalId) ids.push(animalId);
+
+	return ids.filter((id): id is string => typeof id === "string");
+}
+
+/**
+ * Mark a lapsed temporary membership as expired and audit it. The guarded
+ * update makes this safe to call from both requests and the cron job: only
+ * the first caller writes the audit entry. Both happen in one transaction, so
+ * if the audit entry can't be written the membership stays unexpired and the
+ * next run tries again.
+ */
+export async function recordMembershipExpiry(
+	db: typeof import("@/db/drizzle").db,
+	membership: Pick<Membership, "id">,
+	now: Date = new Date(),
+) {
+	return db.transaction(async (tx) => {
+		const [expired] = await tx
+			.update(memberships)
+			.set({ expiredAt: now.toISOString(), updatedAt: now.toISOString() })
+			.where(
+				and(
+					eq(memberships.id, membership.id),
+					isNull(memberships.expiredAt),
+					lte(memberships.validUntil, now.toISOString()),
+				),
+			)
+			.returning();
+
+		if (!expired) return false;
+
+		await appendAuditEntry(tx, {
+			userId: expired.userId,
+			householdId: expired.householdId,
+			action: "TEMPORARY_ACCESS_EXPIRED",
+			resourceType: "membership",
+			resourceId: expired.id,
+			oldValues: {
+				role: expired.role,
+				validFrom: expired.validFrom,
+				validUntil: expired.validUntil,
+				animalIds: expired.animalIds,
+			},
+		});
+
+		return true;
+	});
+}
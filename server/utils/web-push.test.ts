@@ -0,0 +1,213 @@
+import { createECDH } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createVapidAuthorization,
+	decryptPayload,
+	encryptPayload,
+	generateVapidKeys,
+	getPushEndpointError,
+	sendWebPush,
+	verifyVapidAuthorization,
+} from "./web-push";
+
+// Example from RFC 8291 Appendix A
+const rfcExample = {
+	plaintext: "When I grow up, I want to be a watermelon",
+	serverPrivateKey: "yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw",
+	userPrivateKey: "q1dXpw3UpT5VOmu_cf_v6ih07Aems3njxI-JWgLcM94",
+	userPublicKey:
+		"BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4",
+	authSecret: "BTBZMqHH6r4Tts7J_aSIgg",
+	salt: "DGv6ra1nlYgDCS1FRnbzlw",
+	body: "DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN",
+};
+
+const keyPair = (privateKey: string) => {
+	const keys = createECDH("prime256v1");
+	keys.setPrivateKey(Buffer.from(privateKey, "base64url"));
+	return keys;
+};
+
+describe("encryptPayload", () => {
+	it("matches the RFC 8291 example", () => {
+		const body = encryptPayload(
+			rfcExample.plaintext,
+			{ p256dh: rfcExample.userPublicKey, auth: rfcExample.authSecret },
+			{
+				salt: Buffer.from(rfcExample.salt, "base64url"),
+				serverKeys: keyPair(rfcExample.serverPrivateKey),
+			},
+		);
+
+		expect(body.toString("base64url")).toBe(rfcExample.body);
+	});
+
+	it("round-trips through decryptPayload with random keys", () => {
+		const userKeys = createECDH("prime256v1");
+		userKeys.generateKeys();
+		const authSecret = Buffer.from("0123456789abcdef");
+		const message = JSON.stringify({ title: "Rimadyl due", body: "75mg" });
+
+		const body = encryptPayload(message, {
+			p256dh: userKeys.getPublicKey("base64url"),
+			auth: authSecret.toString("base64url"),
+		});
+
+		expect(decryptPayload(body, { userKeys, authSecret })).toBe(message);
+	});
+
+	it("rejects payloads too large for a push service", () => {
+		expect(() =>
+			encryptPayload("x".repeat(4096), {
+				p256dh: rfcExample.userPublicKey,
+				auth: rfcExample.authSecret,
+			}),
+		).toThrow(/too large/);
+	});
+});
+
+describe("VAPID", () => {
+	const vapid = { ...generateVapidKeys(), subject: "mailto:ops@example.com" };
+	const now = new Date("2025-03-01T08:00:00Z");
+
+	it("signs a token the push service origin can verify", () => {
+		const authorization = createVapidAuthorization(
+			"https://push.example.com/send/abc",
+			vapid,
+			now,
+		);
+
+		expect(
+			verifyVapidAuthorization(authorization, "https://push.example.com", now),
+		).toEqual({ publicKey: vapid.publicKey });
+		expect(
+			verifyVapidAuthorization(authorization, "https://other.example.com", now),
+		).toBeNull();
+		expect(
+			verifyVapidAuthorization(
+				authorization,
+				"https://push.example.com",
+				new Date("2025-03-02T08:00:00Z"),
+			),
+		).toBeNull();
+	});
+});
+
+describe("sendWebPush", () => {
+	const vapid = { ...generateVapidKeys(), subject: "mailto:ops@example.com" };
+	const userKeys = createECDH("prime256v1");
+	userKeys.generateKeys();
+	const authSecret = Buffer.from("fedcba9876543210");
+	const subscription = {
+		endpoint: "https://push.example.com/send/device-1",
+		keys: {
+			p256dh: userKeys.getPublicKey("base64url"),
+			auth: authSecret.toString("base64url"),
+		},
+	};
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("posts an encrypted, VAPID-signed message", async () => {
+		const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+			const headers = init.headers as Record<string, string>;
+			expect(
+				verifyVapidAuthorization(
+					headers.Authorization ?? null,
+					"https://push.example.com",
+				),
+			).toEqual({ publicKey: vapid.publicKey });
+			expect(headers["Content-Encoding"]).toBe("aes128gcm");
+
+			const body = Buffer.from(init.body as Uint8Array);
+			expect(
+				JSON.parse(decryptPayload(body, { userKeys, authSecret })),
+			).toEqual({ title: "Rimadyl due", body: "Give 75mg with food" });
+			return new Response(null, { status: 201 });
+		});
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			sendWebPush(
+				subscription,
+				{ title: "Rimadyl due", body: "Give 75mg with food" },
+				{ vapid },
+			),
+		).resolves.toEqual({ ok: true, status: 201 });
+		expect(fetchMock).toHaveBeenCalledOnce();
+	});
+
+	it("flags gone subscriptions as expired", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("Subscription expired", { status: 410 })),
+		);
+
+		await expect(
+			sendWebPush(subscription, { title: "t", body: "b" }, { vapid }),
+		).resolves.toEqual({
+			ok: false,
+			status: 410,
+			expired: true,
+			error: "Push service responded with HTTP 410",
+		});
+	});
+
+	it("does not surface the push service's response body", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("internal secrets", { status: 500 })),
+		);
+
+		const result = await sendWebPush(
+			subscription,
+			{ title: "t", body: "b" },
+			{ vapid },
+		);
+		expect(result).toEqual({
+			ok: false,
+			status: 500,
+			expired: false,
+			error: "Push service responded with HTTP 500",
+		});
+	});
+});
+
+describe("getPushEndpointError", () => {
+	it("accepts public https push services", () => {
+		expect(
+			getPushEndpointError("https://fcm.googleapis.com/fcm/send/abc", {
+				allowLocal: false,
+			}),
+		).toBeNull();
+	});
+
+	it.each([
+		"http://push.example.com/send/1",
+		"https://127.0.0.1/send/1",
+		"https://2130706433/send/1",
+		"https://10.0.0.5/send/1",
+		"https://169.254.169.254/latest/meta-data",
+		"https://[::1]/send/1",
+		"https://[fe80::1]/send/1",
+		"https://localhost/send/1",
+		"https://api.localhost/send/1",
+		"https://printer.local/send/1",
+		"https://metadata.google.internal/send/1",
+		"https://intranet/send/1",
+	])("rejects %s", (endpoint) => {
+		expect(
+			getPushEndpointError(endpoint, { allowLocal: false }),
+		).not.toBeNull();
+	});
+
+	it("allows local endpoints while the dev push stub is enabled", () => {
+		expect(
+			getPushEndpointError("http://localhost:3000/api/push/stub/1", {
+				allowLocal: true,
+			}),
+		).toBeNull();
+	});
+});
@@ -0,0 +1,467 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createECDH,
+	createPrivateKey,
+	createPublicKey,
+	type ECDH,
+	hkdfSync,
+	randomBytes,
+	sign,
+	verify,
+} from "node:crypto";
+import { isIP } from "node:net";
+import { eq, inArray } from "drizzle-orm";
+import { type PushSubscriptionRow, pushSubscriptions } from "@/db/schema";
+import { isPushStubEnabled } from "./push-stub";
+
+type Database = typeof import("@/db/drizzle").db;
+
+export interface PushSubscriptionKeys {
+	// Base64url P-256 public key and auth secret from PushSubscription.toJSON()
+	p256dh: string;
+	auth: string;
+}
+
+export interface WebPushSubscription {
+	endpoint: string;
+	keys: PushSubscriptionKeys;
+}
+
+export interface VapidConfig {
+	publicKey: string;
+	privateKey: string;
+	// mailto: or https: contact for the push service operator
+	subject: string;
+}
+
+// Shape read by the `push` handler in public/sw.js
+export interface PushMessage {
+	title: string;
+	body: string;
+	url?: string;
+	tag?: string;
+	animalId?: string;
+	regimenId?: string;
+}
+
+export type WebPushResult =
+	| { ok: true; status: number }
+	| { ok: false; status: number; expired: boolean; error: string };
+
+// A single aes128gcm record holds the whole message
+const RECORD_SIZE = 4096;
+const TAG_LENGTH = 16;
+// Push services reject bodies larger than this, header included
+export const MAX_PUSH_BODY_BYTES = 4096;
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+const PUSH_TIMEOUT_MS = 10_000;
+// Reminders are useless once the dose window has passed
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+export function getVapidConfig(): VapidConfig {
+	const publicKey = process.env.VAPID_PUBLIC_KEY;
+	const privateKey = process.env.VAPID_PRIVATE_KEY;
+	const subject = process.env.VAPID_SUBJECT;
+	if (!publicKey || !privateKey || !subject) {
+		throw new Error(
+			"VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT must be configured",
+		);
+	}
+	return { publicKey, privateKey, subject };
+}
+
+export const isWebPushConfigured = () =>
+	!!(
+		process.env.VAPID_PUBLIC_KEY &&
+		process.env.VAPID_PRIVATE_KEY &&
+		process.env.VAPID_SUBJECT
+	);
+
+const createKeyPair = () => {
+	const keys = createECDH("prime256v1");
+	keys.generateKeys();
+	return keys;
+};
+
+// Raw P-256 keys as base64url, the format browsers and VAPID expect
+export function generateVapidKeys() {
+	const keys = createKeyPair();
+	// Leading zero bytes are dropped by getPrivateKey(); VAPID needs all 32
+	const privateKey = keys.getPrivateKey();
+	return {
+		publicKey: keys.getPublicKey("base64url"),
+		privateKey: Buffer.concat([
+			Buffer.alloc(32 - privateKey.length),
+			privateKey,
+		]).toString("base64url"),
+	};
+}
+
+// RFC 8291 section 3.4: combine the ECDH secret with the subscription's auth
+// secret, then derive the RFC 8188 content key and nonce from the salt
+function deriveContentKeys({
+	sharedSecret,
+	authSecret,
+	salt,
+	userPublicKey,
+	serverPublicKey,
+}: {
+	sharedSecret: Buffer;
+	authSecret: Buffer;
+	salt: Buffer;
+	userPublicKey: Buffer;
+	serverPublicKey: Buffer;
+}) {
+	const keyInfo = Buffer.concat([
+		Buffer.from("WebPush: info\0"),
+		userPublicKey,
+		serverPublicKey,
+	]);
+	const ikm = Buffer.from(
+		hkdfSync("sha256", sharedSecret, authSecret, keyInfo, 32),
+	);
+
+	return {
+		key: Buffer.from(
+			hkdfSync(
+				"sha256",
+				ikm,
+				salt,
+				Buffer.from("Content-Encoding: aes128gcm\0"),
+				16,
+			),
+		),
+		nonce: Buffer.from(
+			hkdfSync(
+				"sha256",
+				ikm,
+				salt,
+				Buffer.from("Content-Encoding: nonce\0"),
+				12,
+			),
+		),
+	};
+}
+
+/**
+ * Encrypt a push message body for one subscription (RFC 8291, aes128gcm).
+ * The salt and server key pair are random per message; tests can pass fixed
+ * ones to reproduce the RFC's example.
+ */
+export function encryptPayload(
+	payload: string | Buffer,
+	keys: PushSubscriptionKeys,
+	{
+		salt = randomBytes(16),
+		serverKeys = createKeyPair(),
+	}: { salt?: Buffer; serverKeys?: ECDH } = {},
+) {
+	const userPublicKey = Buffer.from(keys.p256dh, "base64url");
+	const serverPublicKey = serverKeys.getPublicKey();
+	const { key, nonce } = deriveContentKeys({
+		sharedSecret: serverKeys.computeSecret(userPublicKey),
+		authSecret: Buffer.from(keys.auth, "base64url"),
+		salt,
+		userPublicKey,
+		serverPublicKey,
+	});
+
+	// 0x02 marks the last (and only) record; no further padding
+	const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+	const cipher = createCipheriv("aes-128-gcm", key, nonce);
+	const ciphertext = Buffer.concat([
+		cipher.update(plaintext),
+		cipher.final(),
+		cipher.getAuthTag(),
+	]);
+
+	const header = Buffer.alloc(21);
+	salt.copy(header, 0);
+	header.writeUInt32BE(RECORD_SIZE, 16);
+	header.writeUInt8(serverPublicKey.length, 20);
+
+	const body = Buffer.concat([header, serverPublicKey, ciphertext]);
+	if (body.length > MAX_PUSH_BODY_BYTES) {
+		throw new Error(
+			`Push payload is too large (${body.length} of ${MAX_PUSH_BODY_BYTES} bytes)`,
+		);
+	}
+	return body;
+}
+
+/**
+ * Decrypt a push message body the way a browser would. Only used by the local
+ * stub push service and tests, which hold the subscription's private key.
+ */
+export function decryptPayload(
+	body: Buffer,
+	{ userKeys, authSecret }: { userKeys: ECDH; authSecret: Buffer },
+) {
+	const salt = body.subarray(0, 16);
+	const keyIdLength = body.readUInt8(20);
+	const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+	const record = body.subarray(21 + keyIdLength);
+
+	const { key, nonce } = deriveContentKeys({
+		sharedSecret: userKeys.computeSecret(serverPublicKey),
+		authSecret,
+		salt,
+		userPublicKey: userKeys.getPublicKey(),
+		serverPublicKey,
+	});
+
+	const decipher = createDecipheriv("aes-128-gcm", key, nonce);
+	decipher.setAuthTag(record.subarray(record.length - TAG_LENGTH));
+	const padded = Buffer.concat([
+		decipher.update(record.subarray(0, record.length - TAG_LENGTH)),
+		decipher.final(),
+	]);
+
+	// Strip zero padding back to the 0x02 last-record delimiter
+	let end = padded.length - 1;
+	while (end >= 0 && padded[end] === 0) end--;
+	if (padded[end] !== 2) {
+		throw new Error("Invalid push record padding");
+	}
+	return padded.subarray(0, end).toString("utf8");
+}
+
+// Names that only resolve on the local machine or network
+const LOCAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+/**
+ * Push services are public HTTPS origins. Anything else would let a
+ * subscriber aim the server's signed POSTs at loopback, link-local or
+ * private-network hosts, so IP literals and local names are refused. The dev
+ * push stub lives on the app's own (usually http://localhost) origin, so the
+ * check is skipped while it is enabled.
+ */
+export function getPushEndpointError(
+	endpoint: string,
+	{ allowLocal = isPushStubEnabled() }: { allowLocal?: boolean } = {},
+): string | null {
+	let url: URL;
+	try {
+		url = new URL(endpoint);
+	} catch {
+		return "Push endpoint must be a valid URL";
+	}
+	if (allowLocal) return null;
+
+	if (url.protocol !== "https:") {
+		return "Push endpoint must use https";
+	}
+	// WHATWG URL parsing normalizes IPv4 forms (0x7f.1, 2130706433) to dotted
+	// quads and keeps IPv6 literals in brackets
+	const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+	if (isIP(hostname) !== 0 || hostname.startsWith("[")) {
+		return "Push endpoint must not be an IP address";
+	}
+	if (
+		!hostname.includes(".") ||
+		LOCAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+	) {
+		return "Push endpoint must be a public host";
+	}
+	return null;
+}
+
+// Uncompressed P-256 point (0x04 || x || y) as JWK coordinates
+const toJwkPoint = (publicKey: string) => {
+	const point = Buffer.from(publicKey, "base64url");
+	return {
+		kty: "EC",
+		crv: "P-256",
+		x: point.subarray(1, 33).toString("base64url"),
+		y: point.subarray(33, 65).toString("base64url"),
+	};
+};
+
+/**
+ * VAPID (RFC 8292) Authorization header: an ES256 JWT scoped to the push
+ * service's origin, plus the public key browsers subscribed with.
+ */
+export function createVapidAuthorization(
+	endpoint: string,
+	vapid: VapidConfig,
+	now: Date = new Date(),
+) {
+	const header = Buffer.from(
+		JSON.stringify({ typ: "JWT", alg: "ES256" }),
+	).toString("base64url");
+	const claims = Buffer.from(
+		JSON.stringify({
+			aud: new URL(endpoint).origin,
+			exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+			sub: vapid.subject,
+		}),
+	).toString("base64url");
+	const unsigned = `${header}.${claims}`;
+
+	const key = createPrivateKey({
+		key: { ...toJwkPoint(vapid.publicKey), d: vapid.privateKey },
+		format: "jwk",
+	});
+	const signature = sign("sha256", Buffer.from(unsigned), {
+		key,
+		dsaEncoding: "ieee-p1363",
+	}).toString("base64url");
+
+	return `vapid t=${unsigned}.${signature}, k=${vapid.publicKey}`;
+}
+
+// Check a VAPID header as a push service would; returns the signing key
+export function verifyVapidAuthorization(
+	authorization: string | null,
+	audience: string,
+	now: Date = new Date(),
+): { publicKey: string } | null {
+	const match = /^vapid t=([^,\s]+),\s*k=([^,\s]+)$/.exec(authorization ?? "");
+	const [, token, publicKey] = match ?? [];
+	const [header, claims, signature] = token?.split(".") ?? [];
+	if (!publicKey || !header || !claims || !signature) return null;
+
+	try {
+		const key = createPublicKey({ key: toJwkPoint(publicKey), format: "jwk" });
+		const valid = verify(
+			"sha256",
+			Buffer.from(`${header}.${claims}`),
+			{ key, dsaEncoding: "ieee-p1363" },
+			Buffer.from(signature, "base64url"),
+		);
+		const { aud, exp } = JSON.parse(
+			Buffer.from(claims, "base64url").toString("utf8"),
+		);
+		const unexpired = exp > Math.floor(now.getTime() / 1000);
+		return valid && aud === audience && unexpired ? { publicKey } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Deliver one message to one subscription. 404 and 410 from the push service
+ * mean the subscription is gone for good and should be deleted, as should a
+ * stored endpoint that no longer passes getPushEndpointError. Failures carry
+ * only the HTTP status: the push service's response body is never surfaced.
+ */
+export async function sendWebPush(
+	subscription: WebPushSubscription,
+	message: PushMessage,
+	{
+		ttl = DEFAULT_TTL_SECONDS,
+		urgency = "high",
+		vapid = getVapidConfig(),
+	}: {
+		ttl?: number;
+		urgency?: "very-low" | "low" | "normal" | "high";
+		vapid?: VapidConfig;
+	} = {},
+): Promise<WebPushResult> {
+	const endpointError = getPushEndpointError(subscription.endpoint);
+	if (endpointError) {
+		return { ok: false, status: 0, expired: true, error: endpointError };
+	}
+
+	const body = encryptPayload(JSON.stringify(message), subscription.keys);
+	const response = await fetch(subscription.endpoint, {
+		method: "POST",
+		headers: {
+			Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+			"Content-Encoding": "aes128gcm",
+			"Content-Type": "application/octet-stream",
+			TTL: String(ttl),
+			Urgency: urgency,
+		},
+		body: new Uint8Array(body),
+		// A redirect could point the request somewhere the endpoint check never saw
+		redirect: "error",
+		signal: AbortSignal.timeout(PUSH_TIMEOUT_MS),
+	});
+
+	if (response.ok) {
+		return { ok: true, status: response.status };
+	}
+	return {
+		ok: false,
+		status: response.status,
+		expired: response.status === 404 || response.status === 410,
+		error: `Push service responded with HTTP ${response.status}`,
+	};
+}
+
+const toWebPushSubscription = (
+	row: PushSubscriptionRow,
+): WebPushSubscription => ({
+	endpoint: row.endpoint,
+	keys: { p256dh: row.p256dh, auth: row.auth },
+});
+
+/**
+ * Send a message to every device a user subscribed. Expired subscriptions
+ * are pruned; other failures are returned so callers can retry.
+ */
+export async function sendPushToUser(
+	db: Database,
+	userId: string,
+	message: PushMessage,
+) {
+	const vapid = getVapidConfig();
+	const subscriptions = await db
+		.select()
+		.from(pushSubscriptions)
+		.where(eq(pushSubscriptions.userId, userId));
+
+	const results = await Promise.all(
+		subscriptions.map(async (subscription) => {
+			try {
+				return {
+					subscription,
+					result: await sendWebPush(
+						toWebPushSubscription(subscription),
+						message,
+						{ vapid },
+					),
+				};
+			} catch (error) {
+				const result: WebPushResult = {
+					ok: false,
+					status: 0,
+					expired: false,
+					error: error instanceof Error ? error.message : String(error),
+				};
+				return { subscription, result };
+			}
+		}),
+	);
+
+	const sentIds = results
+		.filter(({ result }) => result.ok)
+		.map(({ subscription }) => subscription.id);
+	const expiredIds = results
+		.filter(({ result }) => !result.ok && result.expired)
+		.map(({ subscription }) => subscription.id);
+	const errors = results.flatMap(({ result }) =>
+		!result.ok && !result.expired ? [result.error] : [],
+	);
+
+	if (sentIds.length > 0) {
+		await db
+			.update(pushSubscriptions)
+			.set({ lastSentAt: new Date().toISOString() })
+			.where(inArray(pushSubscriptions.id, sentIds));
+	}
+	if (expiredIds.length > 0) {
+		await db
+			.delete(pushSubscriptions)
+			.where(inArray(pushSubscriptions.id, expiredIds));
+	}
+
+	return {
+		sent: sentIds.length,
+		pruned: expiredIds.length,
+		failed: errors.length,
+		errors,
+	};
+}
@@ -0,0 +1,96 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { animals, medicationCatalog, regimens, weightLogs } from "@/db/schema";
+import { checkDoseRange, type DoseRangeCheck } from "@/utils/dose";
+
+export interface DoseWarning extends DoseRangeCheck {
+	regimenId: string;
+	medicationName: string;
+	dose: string;
+}
+
+// Keep the profile weight in step with the most recent log entry. Without
+// any log left, the weight entered on the profile stays as it is
+export const syncAnimalWeight = async (
+	db: typeof import("@/db/drizzle").db,
+	animalId: string,
+) => {
+	const [latest] = await db
+		.select({ weightKg: weightLogs.weightKg })
+		.from(weightLogs)
+		.where(eq(weightLogs.animalId, animalId))
+		.orderBy(desc(weightLogs.measuredOn), desc(weightLogs.createdAt))
+		.limit(1);
+
+	if (!latest) {
+		const [animal] = await db
+			.select({ weightKg: animals.weightKg })
+			.from(animals)
+			.where(eq(animals.id, animalId))
+			.limit(1);
+		return animal?.weightKg ? Number(animal.weightKg) : null;
+	}
+
+	await db
+		.update(animals)
+		.set({
+			weightKg: latest.weightKg,
+			updatedAt: new Date().toISOString(),
+		})
+		.where(eq(animals.id, animalId));
+
+	return Number(latest.weightKg);
+};
+
+/**
+ * Active regimens whose dose falls outside the catalog's per-kg range at the
+ * given weight. Regimens without a parseable dose or range are skipped.
+ */
+export const getDoseWarnings = async (
+	db: typeof import("@/db/drizzle").db,
+	animal: { id: string; species: string },
+	weightKg: number | null,
+): Promise<DoseWarning[]> => {
+	if (!weightKg) return [];
+
+	const rows = await db
+		.select({
+			regimenId: regimens.id,
+			name: regimens.name,
+			dose: regimens.dose,
+			genericName: medicationCatalog.genericName,
+			commonDosing: medicationCatalog.commonDosing,
+			strength: medicationCatalog.strength,
+			form: medicationCatalog.form,
+		})
+		.from(regimens)
+		.innerJoin(
+			medicationCatalog,
+			eq(regimens.medicationId, medicationCatalog.id),
+		)
+		.where(
+			and(
+				eq(regimens.animalId, animal.id),
+				eq(regimens.active, true),
+				isNull(regimens.deletedAt),
+			),
+		);
+
+	return rows.flatMap((row) => {
+		const check = checkDoseRange(row.dose, {
+			commonDosing: row.commonDosing,
+			strength: row.strength,
+			form: row.form,
+			species: animal.species,
+			weightKg,
+		});
+		if (!row.dose || !check || check.status === "OK") return [];
+		return [
+			{
+				...check,
+				regimenId: row.regimenId,
+				medicationName: row.name || row.genericName,
+				dose: row.dose,
+			},
+		];
+	});
+};
@@ -76,6 +76,10 @@ export function createTestContext(): ClerkContext {
 			userId: "test-user-id",
 			householdId: "test-household-id",
 			role: "OWNER" as const,
+			validFrom: null,
+			validUntil: null,
+			animalIds: null,
+			expiredAt: null,
 			createdAt: new Date().toISOString(),
 			updatedAt: new Date().toISOString(),
 		},
@@ -91,6 +95,10 @@ export function createTestContext(): ClerkContext {
 					userId: "test-user-id",
 					householdId: "test-household-id",
 					role: "OWNER" as const,
+					validFrom: null,
+					validUntil: null,
+					animalIds: null,
+					expiredAt: null,
 					createdAt: new Date().toISOString(),
 					updatedAt: new Date().toISOString(),
 				},
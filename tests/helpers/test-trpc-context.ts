@@ -22,6 +22,10 @@ export function createTestTRPCContext(options: {
 		userId: user.id,
 		householdId: household.id,
 		role: membership?.role || "OWNER",
+		validFrom: membership?.validFrom ?? null,
+		validUntil: membership?.validUntil ?? null,
+		animalIds: membership?.animalIds ?? null,
+		expiredAt: membership?.expiredAt ?? null,
 		createdAt: membership?.createdAt || new Date().toISOString(),
 		updatedAt: membership?.updatedAt || new Date().toISOString(),
 	};
@@ -18,6 +18,9 @@ declare namespace NodeJS {
 		VERCEL_URL?: string;
 		NEXT_PUBLIC_APP_URL?: string;
 
+		// Background jobs
+		CRON_SECRET?: string;
+
 		// Feature Flags
 		NEXT_PUBLIC_ENABLE_PWA?: string;
 		NEXT_PUBLIC_ENABLE_ANALYTICS?: string;
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ContraindicationRule,
+	findContraindications,
+	getUnacknowledgedWarnings,
+	normalizeSpecies,
+} from "./contraindications";
+
+const rule = (
+	overrides: Partial<ContraindicationRule>,
+): ContraindicationRule => ({
+	id: "r1",
+	medicationName: null,
+	drugClass: null,
+	allergyTerm: null,
+	condition: null,
+	species: null,
+	severity: "CAUTION",
+	reason: "Reason",
+	...overrides,
+});
+
+const carprofen = {
+	genericName: "Carprofen",
+	brandName: "Rimadyl",
+	drugClass: "NSAID",
+};
+
+describe("normalizeSpecies", () => {
+	it("folds plurals and common synonyms", () => {
+		expect(normalizeSpecies("Cats")).toBe("cat");
+		expect(normalizeSpecies("Feline")).toBe("cat");
+		expect(normalizeSpecies("dog")).toBe("dog");
+	});
+});
+
+describe("findContraindications", () => {
+	it("matches class rules against the animal's conditions", () => {
+		const warnings = findContraindications(
+			carprofen,
+			{ species: "Dog", conditions: ["Chronic kidney disease"] },
+			[
+				rule({
+					id: "kidney",
+					drugClass: "nsaid",
+					condition: "kidney",
+					severity: "SEVERE",
+				}),
+				rule({ id: "liver", drugClass: "NSAID", condition: "liver" }),
+			],
+		);
+
+		expect(warnings).toEqual([
+			{
+				key: "rule:kidney",
+				severity: "SEVERE",
+				trigger: "CONDITION",
+				matched: "Chronic kidney disease",
+				reason: "Reason",
+			},
+		]);
+	});
+
+	it("requires every trigger a rule sets", () => {
+		const rules = [
+			rule({ drugClass: "NSAID", condition: "ulcer", species: "cat" }),
+		];
+		expect(
+			findContraindications(
+				carprofen,
+				{ species: "Dog", conditions: ["Ulcer"] },
+				rules,
+			),
+		).toEqual([]);
+		expect(
+			findContraindications(
+				carprofen,
+				{ species: "Cat", conditions: ["Ulcer"] },
+				rules,
+			),
+		).toHaveLength(1);
+	});
+
+	it("matches each ingredient of a combination product by name", () => {
+		const warnings = findContraindications(
+			{ genericName: "Tobramycin/Dexamethasone" },
+			{ species: "Dog", conditions: ["Diabetes mellitus"] },
+			[rule({ medicationName: "Dexamethasone", condition: "diabetes" })],
+		);
+		expect(warnings).toHaveLength(1);
+	});
+
+	it("flags a listed allergy to the drug, brand or class as severe first", () => {
+		const warnings = findContraindications(
+			carprofen,
+			{ species: "Dog", allergies: ["NSAIDs"], conditions: ["Liver disease"] },
+			[rule({ drugClass: "NSAID", condition: "liver" })],
+		);
+
+		expect(warnings.map((warning) => [warning.key, warning.severity])).toEqual([
+			["allergy:nsaids", "SEVERE"],
+			["rule:r1", "CAUTION"],
+		]);
+	});
+
+	it("ignores rules for other medications", () => {
+		expect(
+			findContraindications(
+				carprofen,
+				{ species: "Dog", conditions: ["MDR1"] },
+				[rule({ medicationName: "Ivermectin", condition: "mdr1" })],
+			),
+		).toEqual([]);
+	});
+});
+
+describe("getUnacknowledgedWarnings", () => {
+	it("returns severe warnings that have not been acknowledged", () => {
+		const warnings = findContraindications(
+			carprofen,
+			{ species: "Dog", allergies: ["Carprofen"], conditions: ["Kidney"] },
+			[rule({ drugClass: "NSAID", condition: "kidney" })],
+		);
+
+		expect(getUnacknowledgedWarnings(warnings).map((w) => w.key)).toEqual([
+			"allergy:carprofen",
+		]);
+		expect(getUnacknowledgedWarnings(warnings, ["allergy:carprofen"])).toEqual(
+			[],
+		);
+	});
+});
@@ -0,0 +1,175 @@
+export type ContraindicationSeverity = "CAUTION" | "SEVERE";
+
+export interface ContraindicationRule {
+	id: string;
+	medicationName: string | null;
+	drugClass: string | null;
+	allergyTerm: string | null;
+	condition: string | null;
+	species: string | null;
+	severity: ContraindicationSeverity;
+	reason: string;
+}
+
+export interface ContraindicationMedication {
+	genericName: string;
+	brandName?: string | null;
+	drugClass?: string | null;
+}
+
+export interface ContraindicationAnimal {
+	species: string;
+	allergies?: string[] | null;
+	conditions?: string[] | null;
+}
+
+export interface ContraindicationWarning {
+	// Stable identifier used to record an acknowledgement
+	key: string;
+	severity: ContraindicationSeverity;
+	trigger: "ALLERGY" | "CONDITION" | "SPECIES";
+	// The animal's allergy, condition or species that matched
+	matched: string;
+	reason: string;
+}
+
+const SPECIES_ALIASES: Record<string, string> = {
+	canine: "dog",
+	feline: "cat",
+	equine: "horse",
+	puppy: "dog",
+	kitten: "cat",
+};
+
+export const normalizeSpecies = (species: string) => {
+	const lower = species.trim().toLowerCase().replace(/s$/, "");
+	return SPECIES_ALIASES[lower] ?? lower;
+};
+
+// Ingredients of a combination product, e.g. "Gentamicin/Betamethasone"
+export const getGenericNames = (genericName: string) =>
+	genericName
+		.split("/")
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+
+const findTerm = (values: string[] | null | undefined, term: string) => {
+	const needle = term.toLowerCase();
+	return values?.find((value) => value.toLowerCase().includes(needle));
+};
+
+export function ruleTargetsMedication(
+	rule: Pick<ContraindicationRule, "medicationName" | "drugClass">,
+	medication: ContraindicationMedication,
+) {
+	if (
+		rule.medicationName &&
+		getGenericNames(medication.genericName).includes(
+			rule.medicationName.toLowerCase(),
+		)
+	) {
+		return true;
+	}
+	return (
+		!!rule.drugClass &&
+		rule.drugClass.toLowerCase() === medication.drugClass?.toLowerCase()
+	);
+}
+
+// What the animal matched for the rule's first trigger, or null unless every
+// trigger the rule sets is met
+function matchRule(rule: ContraindicationRule, animal: ContraindicationAnimal) {
+	const matches: Array<Pick<ContraindicationWarning, "trigger" | "matched">> =
+		[];
+
+	if (rule.allergyTerm) {
+		const allergy = findTerm(animal.allergies, rule.allergyTerm);
+		if (!allergy) return null;
+		matches.push({ trigger: "ALLERGY", matched: allergy });
+	}
+	if (rule.condition) {
+		const condition = findTerm(animal.conditions, rule.condition);
+		if (!condition) return null;
+		matches.push({ trigger: "CONDITION", matched: condition });
+	}
+	if (rule.species) {
+		if (normalizeSpecies(rule.species) !== normalizeSpecies(animal.species)) {
+			return null;
+		}
+		matches.push({ trigger: "SPECIES", matched: animal.species });
+	}
+
+	return matches[0] ?? null;
+}
+
+// A listed allergy to the drug itself, its brand or its class
+function getDirectAllergyWarnings(
+	medication: ContraindicationMedication,
+	animal: ContraindicationAnimal,
+): ContraindicationWarning[] {
+	const names = [
+		...getGenericNames(medication.genericName),
+		medication.brandName,
+		medication.drugClass,
+	].filter((name): name is string => !!name);
+
+	return (animal.allergies ?? []).flatMap((allergy) => {
+		const lower = allergy.trim().toLowerCase();
+		const name = names.find((candidate) =>
+			lower.includes(candidate.toLowerCase()),
+		);
+		if (!lower || !name) return [];
+		return [
+			{
+				key: `allergy:${lower}`,
+				severity: "SEVERE" as const,
+				trigger: "ALLERGY" as const,
+				matched: allergy,
+				reason: `Listed allergy to ${allergy} covers ${name}`,
+			},
+		];
+	});
+}
+
+/**
+ * Contraindications for giving a medication to an animal, severe first. Rules
+ * that don't target the medication are ignored, so callers can pass a broader
+ * candidate set.
+ */
+export function findContraindications(
+	medication: ContraindicationMedication,
+	animal: ContraindicationAnimal,
+	rules: ContraindicationRule[],
+): ContraindicationWarning[] {
+	const ruleWarnings = rules.flatMap((rule) => {
+		if (!ruleTargetsMedication(rule, medication)) return [];
+		const match = matchRule(rule, animal);
+		return match
+			? [
+					{
+						key: `rule:${rule.id}`,
+						severity: rule.severity,
+						...match,
+						reason: rule.reason,
+					},
+				]
+			: [];
+	});
+
+	return [
+		...getDirectAllergyWarnings(medication, animal),
+		...ruleWarnings,
+	].sort(
+		(a, b) => Number(b.severity === "SEVERE") - Number(a.severity === "SEVERE"),
+	);
+}
+
+// Severe warnings that still need an explicit acknowledgement
+export const getUnacknowledgedWarnings = (
+	warnings: ContraindicationWarning[],
+	acknowledged: string[] = [],
+) =>
+	warnings.filter(
+		(warning) =>
+			warning.severity === "SEVERE" && !acknowledged.includes(warning.key),
+	);
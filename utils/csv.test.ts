@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvValue, parseCsv, toCsv } from "./csv";
+
+describe("escapeCsvValue", () => {
+	it("quotes values containing commas, quotes or newlines", () => {
+		expect(escapeCsvValue("plain")).toBe("plain");
+		expect(escapeCsvValue("a,b")).toBe('"a,b"');
+		expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+		expect(escapeCsvValue("line\nbreak")).toBe('"line\nbreak"');
+	});
+
+	it("renders empty, numeric and date values", () => {
+		expect(escapeCsvValue(null)).toBe("");
+		expect(escapeCsvValue(undefined)).toBe("");
+		expect(escapeCsvValue(42)).toBe("42");
+		expect(escapeCsvValue(new Date("2025-03-01T08:00:00Z"))).toBe(
+			"2025-03-01T08:00:00.000Z",
+		);
+	});
+});
+
+describe("toCsv", () => {
+	it("writes a header row followed by one row per record", () => {
+		const csv = toCsv(
+			[
+				{ key: "name", header: "Name" },
+				{ key: "dose", header: "Dose" },
+			],
+			[
+				{ name: "Buddy", dose: "1 tablet" },
+				{ name: "Whiskers", dose: null },
+			],
+		);
+
+		expect(csv).toBe("Name,Dose\r\nBuddy,1 tablet\r\nWhiskers,");
+	});
+});
+
+describe("parseCsv", () => {
+	it("reads quoted fields containing commas, quotes and newlines", () => {
+		expect(
+			parseCsv('name,notes\r\n"Rimadyl, 75mg","say ""hi""\nagain"\r\n'),
+		).toEqual([
+			{ line: 1, fields: ["name", "notes"] },
+			{ line: 2, fields: ["Rimadyl, 75mg", 'say "hi"\nagain'] },
+		]);
+	});
+
+	it("skips blank lines and keeps source line numbers", () => {
+		expect(parseCsv("\uFEFFa,b\n\n1,2\n,\n3,4")).toEqual([
+			{ line: 1, fields: ["a", "b"] },
+			{ line: 3, fields: ["1", "2"] },
+			{ line: 4, fields: ["", ""] },
+			{ line: 5, fields: ["3", "4"] },
+		]);
+	});
+
+	it("round-trips toCsv output", () => {
+		const csv = toCsv(
+			[{ key: "value", header: "Value" }],
+			[{ value: 'a,"b"\nc' }],
+		);
+		expect(parseCsv(csv).map((row) => row.fields)).toEqual([
+			["Value"],
+			['a,"b"\nc'],
+		]);
+	});
+});
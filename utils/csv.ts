@@ -0,0 +1,54 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Quote fields containing delimiters, quotes or newlines (RFC 4180)
+export function escapeCsvValue(value: CsvValue): string {
+	if (value === null || value === undefined) return "";
+	const text = value instanceof Date ? value.toISOString() : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends Record<string, CsvValue>>(
+	columns: { key: keyof T; header: string }[],
+	rows: T[],
+): string {
+	const lines = [
+		columns.map((column) => escapeCsvValue(column.header)).join(","),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvValue(row[column.key])).join(","),
+		),
+	];
+	return lines.join("\r\n");
+}
+
+// A field, quoted or bare, followed by what ends it
+const CSV_FIELD = /(?:"((?:[^"]|"")*)"|([^",\r\n]*))(,|\r\n|\n|\r|$)/g;
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180): quoted fields may contain
+ * commas, newlines and doubled quotes. Blank lines are skipped; each row
+ * keeps the 1-based line it starts on for error reporting.
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+	const rows: { line: number; fields: string[] }[] = [];
+	let fields: string[] = [];
+	let line = 1;
+	let rowLine = 1;
+
+	// Strip a byte order mark left by spreadsheet exports
+	const input = text.replace(/^\uFEFF/, "");
+	for (const [, quoted, bare = "", delimiter] of input.matchAll(CSV_FIELD)) {
+		fields.push(quoted === undefined ? bare : quoted.replace(/""/g, '"'));
+		line += quoted?.match(/\r\n|\n|\r/g)?.length ?? 0;
+		if (delimiter === ",") continue;
+
+		if (fields.length > 1 || fields[0] !== "") {
+			rows.push({ line: rowLine, fields });
+		}
+		fields = [];
+		if (delimiter === "") break;
+		line++;
+		rowLine = line;
+	}
+
+	return rows;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+	checkDoseRange,
+	getInventoryUnitsUsed,
+	parseDoseAmount,
+	parseDoseUnits,
+	parseDosingRange,
+	parseStrength,
+	suggestDose,
+} from "./dose";
+
+describe("parseDoseUnits", () => {
+	it("reads whole, decimal and fractional counts", () => {
+		expect(parseDoseUnits("2 tablets", "tablets")).toBe(2);
+		expect(parseDoseUnits("1.5 tab", "tablet")).toBe(1.5);
+		expect(parseDoseUnits("1/2 tablet", "Tablets")).toBe(0.5);
+		expect(parseDoseUnits("0.5 mL", "ml")).toBe(0.5);
+	});
+
+	it("treats a bare number as item units", () => {
+		expect(parseDoseUnits("3", "capsules")).toBe(3);
+		expect(parseDoseUnits("3", null)).toBe(3);
+	});
+
+	it("returns null when the dose is in a different unit than the item", () => {
+		expect(parseDoseUnits("10mg", "tablets")).toBeNull();
+		expect(parseDoseUnits("1 tablet", null)).toBeNull();
+	});
+
+	it("returns null for unparseable doses", () => {
+		expect(parseDoseUnits("as directed", "tablets")).toBeNull();
+		expect(parseDoseUnits(null, "tablets")).toBeNull();
+		expect(parseDoseUnits("0 tablets", "tablets")).toBeNull();
+	});
+});
+
+describe("getInventoryUnitsUsed", () => {
+	it("uses up a whole tablet or capsule for a partial one", () => {
+		expect(getInventoryUnitsUsed("1/2 tablet", "tablets")).toBe(1);
+		expect(getInventoryUnitsUsed("1.5", "caps")).toBe(2);
+	});
+
+	it("deducts measured forms exactly", () => {
+		expect(getInventoryUnitsUsed("0.5 mL", "ml")).toBe(0.5);
+		expect(getInventoryUnitsUsed("2.25", "ml")).toBe(2.25);
+		expect(getInventoryUnitsUsed("1/3", "ml")).toBe(0.33);
+	});
+
+	it("returns null when the dose can't be converted", () => {
+		expect(getInventoryUnitsUsed("10mg", "tablets")).toBeNull();
+	});
+});
+
+describe("parseDosingRange", () => {
+	it("reads mg/kg ranges, single values and frequency", () => {
+		expect(parseDosingRange("10-20mg/kg BID")).toEqual({
+			min: 10,
+			max: 20,
+			unit: "mg",
+			frequency: "BID",
+		});
+		expect(parseDosingRange("20 mg/kg PO TID")).toMatchObject({
+			min: 20,
+			max: 20,
+		});
+		expect(parseDosingRange("0.25-0.5 U/kg SC BID")).toMatchObject({
+			unit: "unit",
+		});
+	});
+
+	it("uses the dosing for the animal's species", () => {
+		const dosing = "Dogs: 10-20 mg/kg PO BID-TID. Cats: 5-10 mg/kg PO BID-TID";
+
+		expect(parseDosingRange(dosing, "Cat")).toMatchObject({ min: 5, max: 10 });
+		expect(parseDosingRange(dosing, "dog")).toMatchObject({ min: 10, max: 20 });
+		expect(parseDosingRange("Dogs: 2-3 mg/kg PO BID", "Cat")).toBeNull();
+	});
+
+	it("returns null for dosing that isn't per kg", () => {
+		expect(parseDosingRange("Cats: 1-2 puffs BID via spacer")).toBeNull();
+		expect(parseDosingRange(null)).toBeNull();
+	});
+});
+
+describe("parseStrength", () => {
+	it("reads per-item and per-volume strengths", () => {
+		expect(parseStrength("100mg")).toEqual({
+			amount: 100,
+			unit: "mg",
+			perUnit: null,
+		});
+		expect(parseStrength("250mg/5mL")).toEqual({
+			amount: 50,
+			unit: "mg",
+			perUnit: "ml",
+		});
+		expect(parseStrength("100 units/mL")).toMatchObject({ unit: "unit" });
+	});
+});
+
+describe("suggestDose", () => {
+	it("rounds to quarter tablets at the middle of the range", () => {
+		const suggestion = suggestDose({
+			commonDosing: "10-20 mg/kg PO BID",
+			strength: "100mg",
+			form: "TABLET",
+			weightKg: 10,
+		});
+
+		expect(suggestion).toMatchObject({
+			minAmount: 100,
+			maxAmount: 200,
+			amount: 150,
+			dose: "1.5 tablets",
+			withinRange: true,
+		});
+	});
+
+	it("suggests a volume for liquids", () => {
+		expect(
+			suggestDose({
+				commonDosing: "2 mg/kg SID",
+				strength: "1.5mg/mL",
+				form: "LIQUID",
+				weightKg: 4,
+			})?.dose,
+		).toBe("5.3 mL");
+	});
+
+	it("needs a range and a weight", () => {
+		const context = {
+			commonDosing: "10 mg/kg",
+			strength: "100mg",
+			form: "TABLET",
+		};
+		expect(suggestDose({ ...context, weightKg: null })).toBeNull();
+		expect(
+			suggestDose({ ...context, commonDosing: "as directed", weightKg: 5 }),
+		).toBeNull();
+	});
+});
+
+describe("checkDoseRange", () => {
+	const context = {
+		commonDosing: "10-20 mg/kg PO BID",
+		strength: "100mg",
+		form: "TABLET",
+	};
+
+	it("converts item doses to mg before comparing", () => {
+		expect(parseDoseAmount("1.5 tablets", "100mg", "TABLET")).toEqual({
+			amount: 150,
+			unit: "mg",
+		});
+		expect(
+			checkDoseRange("1.5 tablets", { ...context, weightKg: 10 }),
+		).toMatchObject({ status: "OK" });
+	});
+
+	it("flags a dose the animal has outgrown in either direction", () => {
+		expect(checkDoseRange("150 mg", { ...context, weightKg: 20 })?.status).toBe(
+			"LOW",
+		);
+		expect(
+			checkDoseRange("2 tablets", { ...context, weightKg: 5 })?.status,
+		).toBe("HIGH");
+	});
+
+	it("returns null when the dose can't be compared", () => {
+		expect(
+			checkDoseRange("as directed", { ...context, weightKg: 10 }),
+		).toBeNull();
+		expect(
+			checkDoseRange("1 tablet", { ...context, weightKg: null }),
+		).toBeNull();
+	});
+});
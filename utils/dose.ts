@@ -0,0 +1,318 @@
+// Normalize unit labels so "Tablets", "tablet" and "tab" compare equal
+const UNIT_ALIASES: Record<string, string> = {
+	tab: "tablet",
+	tabs: "tablet",
+	tablets: "tablet",
+	cap: "capsule",
+	caps: "capsule",
+	capsules: "capsule",
+	milliliter: "ml",
+	milliliters: "ml",
+	drops: "drop",
+	units: "unit",
+	pumps: "pump",
+	doses: "dose",
+};
+
+export function normalizeUnit(unit: string) {
+	const lower = unit.trim().toLowerCase();
+	return UNIT_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Quantity of inventory units a dose string consumes, e.g. "2 tablets" -> 2,
+ * "1/2 tab" -> 0.5, "0.5 mL" -> 0.5 for an item counted in mL. Returns null
+ * when the dose is unparseable or expressed in a different unit than the item
+ * (such as "10mg" against tablets).
+ */
+export function parseDoseUnits(
+	dose: string | null | undefined,
+	unitType: string | null | undefined,
+): number | null {
+	if (!dose) return null;
+
+	const match = dose
+		.trim()
+		.match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?\s*([a-zA-Z]*)/);
+	if (!match?.[1]) return null;
+
+	const numerator = Number(match[1]);
+	const denominator = match[2] ? Number(match[2]) : 1;
+	if (!denominator) return null;
+	const amount = numerator / denominator;
+
+	// Units must line up with the item; a bare number is taken as item units
+	const doseUnit = match[3];
+	if (
+		doseUnit &&
+		(!unitType || normalizeUnit(doseUnit) !== normalizeUnit(unitType))
+	) {
+		return null;
+	}
+
+	return amount > 0 ? amount : null;
+}
+
+// Counted forms come out of stock whole; measured ones (mL, drops...) exactly
+const DISCRETE_UNITS = new Set(["tablet", "capsule"]);
+
+/**
+ * Units a dose takes out of an inventory item: a partial tablet or capsule
+ * uses up a whole one, while measured forms are deducted exactly (to the
+ * hundredth stored). Null when the dose can't be converted to item units.
+ */
+export function getInventoryUnitsUsed(
+	dose: string | null | undefined,
+	unitType: string | null | undefined,
+): number | null {
+	const units = parseDoseUnits(dose, unitType);
+	if (units === null) return null;
+	if (unitType && DISCRETE_UNITS.has(normalizeUnit(unitType))) {
+		return Math.ceil(units);
+	}
+	return Math.max(Math.round(units * 100) / 100, 0.01);
+}
+
+export type DoseAmountUnit = "mg" | "unit";
+
+// Per-kg dose range from a catalog `commonDosing` text, e.g. "10-20 mg/kg BID"
+export interface DosingRange {
+	min: number;
+	max: number;
+	unit: DoseAmountUnit;
+	frequency: string | null;
+}
+
+// Active ingredient per item or per mL, e.g. "250mg/5mL" -> 50 mg per ml
+export interface Strength {
+	amount: number;
+	unit: DoseAmountUnit;
+	perUnit: string | null;
+}
+
+export interface DoseSuggestion {
+	range: DosingRange;
+	// Total amount for the animal's weight, in range.unit
+	minAmount: number;
+	maxAmount: number;
+	amount: number;
+	// What to enter as the regimen dose, e.g. "1.5 tablets"
+	dose: string;
+	withinRange: boolean;
+}
+
+export interface DoseRangeCheck {
+	status: "LOW" | "OK" | "HIGH";
+	amount: number;
+	minAmount: number;
+	maxAmount: number;
+	unit: DoseAmountUnit;
+}
+
+export interface DoseContext {
+	commonDosing: string | null | undefined;
+	strength: string | null | undefined;
+	form?: string | null;
+	species?: string | null;
+	weightKg: number | null | undefined;
+}
+
+const AMOUNT_UNITS: Record<string, { unit: DoseAmountUnit; factor: number }> = {
+	g: { unit: "mg", factor: 1000 },
+	mg: { unit: "mg", factor: 1 },
+	mcg: { unit: "mg", factor: 0.001 },
+	ug: { unit: "mg", factor: 0.001 },
+	µg: { unit: "mg", factor: 0.001 },
+	u: { unit: "unit", factor: 1 },
+	iu: { unit: "unit", factor: 1 },
+	unit: { unit: "unit", factor: 1 },
+	units: { unit: "unit", factor: 1 },
+};
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const AMOUNT_UNIT = "(mg|mcg|µg|ug|g|iu|units?|u)";
+const PER_KG_PATTERN = new RegExp(
+	String.raw`${NUMBER}(?:\s*(?:-|–|to)\s*${NUMBER})?\s*${AMOUNT_UNIT}\s*/\s*kg`,
+	"i",
+);
+const AMOUNT_PATTERN = new RegExp(
+	String.raw`^${NUMBER}\s*${AMOUNT_UNIT}(?![a-z])(?:\s*/\s*(\d+(?:\.\d+)?)?\s*([a-z]+))?`,
+	"i",
+);
+const FREQUENCY_PATTERN = /\b(SID|BID|TID|QID|EOD|q\d+h)\b/i;
+
+// Splitting steps for each item unit; capsules can't be split
+const DOSE_STEPS: Record<string, number> = { tablet: 0.25, ml: 0.1 };
+
+const toAmountUnit = (label: string) => AMOUNT_UNITS[label.toLowerCase()];
+
+// Pick the sentence for this species ("Dogs: ... Cats: ..."), falling back to
+// unlabelled text. Never falls back to another species' dosing.
+function getDosingSegment(commonDosing: string, species?: string | null) {
+	const segments = commonDosing
+		.split(/[.;]\s+/)
+		.map((text) => {
+			const label = text.match(/^\s*([^:\d]+):/)?.[1]?.toLowerCase() ?? null;
+			return { text, label };
+		})
+		.filter((segment) => PER_KG_PATTERN.test(segment.text));
+
+	const animal = species?.trim().toLowerCase().replace(/s$/, "");
+	const matching = animal
+		? segments.find((segment) => segment.label?.includes(animal))
+		: undefined;
+	return (
+		matching ??
+		segments.find((segment) => !segment.label) ??
+		(animal ? undefined : segments[0])
+	)?.text;
+}
+
+export function parseDosingRange(
+	commonDosing: string | null | undefined,
+	species?: string | null,
+): DosingRange | null {
+	if (!commonDosing) return null;
+	const segment = getDosingSegment(commonDosing, species);
+	const match = segment?.match(PER_KG_PATTERN);
+	if (!segment || !match?.[1] || !match[3]) return null;
+
+	const amountUnit = toAmountUnit(match[3]);
+	if (!amountUnit) return null;
+	const min = Number(match[1]) * amountUnit.factor;
+	const max = Number(match[2] ?? match[1]) * amountUnit.factor;
+
+	return {
+		min: Math.min(min, max),
+		max: Math.max(min, max),
+		unit: amountUnit.unit,
+		frequency: segment.match(FREQUENCY_PATTERN)?.[1]?.toUpperCase() ?? null,
+	};
+}
+
+export function parseStrength(
+	strength: string | null | undefined,
+): Strength | null {
+	const match = strength?.trim().match(AMOUNT_PATTERN);
+	if (!match?.[1] || !match[2]) return null;
+
+	const amountUnit = toAmountUnit(match[2]);
+	const per = match[3] ? Number(match[3]) : 1;
+	if (!amountUnit || !per) return null;
+
+	return {
+		amount: (Number(match[1]) * amountUnit.factor) / per,
+		unit: amountUnit.unit,
+		perUnit: match[4] ? normalizeUnit(match[4]) : null,
+	};
+}
+
+// Unit a per-item strength is counted in, from the catalog form
+const getItemUnit = (strength: Strength, form?: string | null) => {
+	if (strength.perUnit) return strength.perUnit;
+	if (form === "TABLET") return "tablet";
+	if (form === "CAPSULE") return "capsule";
+	return null;
+};
+
+const roundTo = (value: number, step: number) =>
+	Math.round(Math.round(value / step) * step * 1000) / 1000;
+
+export function formatDoseAmount(amount: number, unit: DoseAmountUnit) {
+	const rounded = amount < 10 ? roundTo(amount, 0.01) : Math.round(amount);
+	return unit === "mg"
+		? `${rounded} mg`
+		: `${rounded} ${rounded === 1 ? "unit" : "units"}`;
+}
+
+function formatItemDose(count: number, itemUnit: string) {
+	if (itemUnit === "ml") return `${count} mL`;
+	return `${count} ${count === 1 ? itemUnit : `${itemUnit}s`}`;
+}
+
+/**
+ * Suggest a dose from the catalog dosing range and the animal's weight: the
+ * middle of the range, rounded to a practical amount (quarter tablets, 0.1 mL)
+ * when the strength says how much is in each unit.
+ */
+export function suggestDose(context: DoseContext): DoseSuggestion | null {
+	const range = parseDosingRange(context.commonDosing, context.species);
+	const weightKg = context.weightKg;
+	if (!range || !weightKg || weightKg <= 0) return null;
+
+	const minAmount = range.min * weightKg;
+	const maxAmount = range.max * weightKg;
+	let amount = (minAmount + maxAmount) / 2;
+	let dose = formatDoseAmount(amount, range.unit);
+
+	const strength = parseStrength(context.strength);
+	const itemUnit =
+		strength?.unit === range.unit ? getItemUnit(strength, context.form) : null;
+	if (strength && itemUnit) {
+		const step = DOSE_STEPS[itemUnit] ?? 1;
+		const count = Math.max(step, roundTo(amount / strength.amount, step));
+		amount = count * strength.amount;
+		dose = formatItemDose(count, itemUnit);
+	}
+
+	return {
+		range,
+		minAmount,
+		maxAmount,
+		amount,
+		dose,
+		withinRange: amount >= minAmount - 1e-9 && amount <= maxAmount + 1e-9,
+	};
+}
+
+// Amount of active ingredient in a dose string, e.g. "1.5 tablets" of 100mg
+export function parseDoseAmount(
+	dose: string | null | undefined,
+	strength: string | null | undefined,
+	form?: string | null,
+): { amount: number; unit: DoseAmountUnit } | null {
+	const direct = dose?.trim().match(AMOUNT_PATTERN);
+	if (direct?.[1] && direct[2] && !direct[4]) {
+		const amountUnit = toAmountUnit(direct[2]);
+		return amountUnit
+			? {
+					amount: Number(direct[1]) * amountUnit.factor,
+					unit: amountUnit.unit,
+				}
+			: null;
+	}
+
+	const parsedStrength = parseStrength(strength);
+	if (!parsedStrength) return null;
+	const count = parseDoseUnits(dose, getItemUnit(parsedStrength, form));
+	return count === null
+		? null
+		: { amount: count * parsedStrength.amount, unit: parsedStrength.unit };
+}
+
+// Compare a regimen dose with the catalog range for the animal's weight
+export function checkDoseRange(
+	dose: string | null | undefined,
+	context: DoseContext,
+): DoseRangeCheck | null {
+	const range = parseDosingRange(context.commonDosing, context.species);
+	const parsed = parseDoseAmount(dose, context.strength, context.form);
+	const weightKg = context.weightKg;
+	if (!range || !parsed || parsed.unit !== range.unit || !weightKg) {
+		return null;
+	}
+
+	const minAmount = range.min * weightKg;
+	const maxAmount = range.max * weightKg;
+	let status: DoseRangeCheck["status"] = "OK";
+	if (parsed.amount < minAmount - 1e-9) status = "LOW";
+	else if (parsed.amount > maxAmount + 1e-9) status = "HIGH";
+
+	return {
+		status,
+		amount: parsed.amount,
+		minAmount,
+		maxAmount,
+		unit: range.unit,
+	};
+}
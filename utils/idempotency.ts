@@ -8,3 +8,14 @@ export function adminKey(
 		? `${animalId}:${regimenId}:${localDayISO}:${slotIndex}`
 		: `${animalId}:${regimenId}:${localDayISO}:prn:${crypto.randomUUID()}`;
 }
+
+// Key for a MISSED record materialized by the scheduler; kept distinct from
+// adminKey so a late dose recorded for the same slot is not treated as a replay
+export function missedKey(
+	animalId: string,
+	regimenId: string,
+	localDayISO: string,
+	slotIndex: number,
+) {
+	return `${adminKey(animalId, regimenId, localDayISO, slotIndex)}:missed`;
+}
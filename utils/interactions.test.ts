@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+	findAllInteractions,
+	findInteractions,
+	type InteractionRule,
+} from "./interactions";
+
+const rule = (overrides: Partial<InteractionRule>): InteractionRule => ({
+	id: "r1",
+	medicationNameA: null,
+	drugClassA: null,
+	medicationNameB: null,
+	drugClassB: null,
+	severity: "MODERATE",
+	description: "Description",
+	...overrides,
+});
+
+const carprofen = {
+	regimenId: "reg-carprofen",
+	name: "Rimadyl",
+	genericName: "Carprofen",
+	drugClass: "NSAID",
+};
+const prednisone = {
+	regimenId: "reg-prednisone",
+	name: "Prednisone",
+	genericName: "Prednisone",
+	drugClass: "Corticosteroid",
+};
+const tramadol = {
+	regimenId: "reg-tramadol",
+	name: "Tramadol",
+	genericName: "Tramadol",
+	drugClass: "Opioid",
+};
+
+const nsaidSteroid = rule({
+	id: "nsaid-steroid",
+	drugClassA: "NSAID",
+	drugClassB: "Corticosteroid",
+	severity: "MAJOR",
+});
+
+describe("findInteractions", () => {
+	it("matches class rules in either order", () => {
+		const interactions = findInteractions(
+			prednisone,
+			[carprofen],
+			[nsaidSteroid],
+		);
+
+		expect(interactions).toEqual([
+			{
+				key: "nsaid-steroid:reg-prednisone:reg-carprofen",
+				severity: "MAJOR",
+				description: "Description",
+				medications: ["Prednisone", "Rimadyl"],
+				regimenIds: ["reg-prednisone", "reg-carprofen"],
+			},
+		]);
+	});
+
+	it("matches a name on one side and a class on the other", () => {
+		const interactions = findInteractions(
+			{ name: "Trazodone", genericName: "Trazodone" },
+			[carprofen, tramadol],
+			[rule({ medicationNameA: "tramadol", medicationNameB: "Trazodone" })],
+		);
+
+		expect(interactions.map((interaction) => interaction.medications)).toEqual([
+			["Trazodone", "Tramadol"],
+		]);
+	});
+
+	it("skips the regimen being resumed when it is in the active list", () => {
+		const duplicate = rule({ drugClassA: "NSAID", drugClassB: "NSAID" });
+		expect(findInteractions(carprofen, [carprofen], [duplicate])).toEqual([]);
+		expect(
+			findInteractions(
+				carprofen,
+				[{ ...carprofen, regimenId: "reg-meloxicam", name: "Metacam" }],
+				[duplicate],
+			),
+		).toHaveLength(1);
+	});
+});
+
+describe("findAllInteractions", () => {
+	it("checks every pair once, most severe first", () => {
+		const interactions = findAllInteractions(
+			[carprofen, prednisone, tramadol],
+			[
+				rule({
+					id: "opioid-steroid",
+					drugClassA: "Opioid",
+					drugClassB: "Corticosteroid",
+					severity: "MINOR",
+				}),
+				nsaidSteroid,
+			],
+		);
+
+		expect(interactions.map((interaction) => interaction.severity)).toEqual([
+			"MAJOR",
+			"MINOR",
+		]);
+	});
+});
@@ -0,0 +1,114 @@
+import {
+	type ContraindicationMedication,
+	ruleTargetsMedication,
+} from "./contraindications";
+
+export type InteractionSeverity = "MINOR" | "MODERATE" | "MAJOR";
+
+export interface InteractionRule {
+	id: string;
+	medicationNameA: string | null;
+	drugClassA: string | null;
+	medicationNameB: string | null;
+	drugClassB: string | null;
+	severity: InteractionSeverity;
+	description: string;
+}
+
+export interface InteractionMedication extends ContraindicationMedication {
+	regimenId?: string;
+	// Display name, e.g. the regimen name or brand
+	name: string;
+}
+
+export interface DrugInteraction {
+	key: string;
+	severity: InteractionSeverity;
+	description: string;
+	medications: [string, string];
+	regimenIds: string[];
+}
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = {
+	MAJOR: 3,
+	MODERATE: 2,
+	MINOR: 1,
+};
+
+export const compareInteractionSeverity = (
+	a: { severity: InteractionSeverity },
+	b: { severity: InteractionSeverity },
+) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity];
+
+// Whether the rule covers this pair, in either order
+function ruleMatchesPair(
+	rule: InteractionRule,
+	first: InteractionMedication,
+	second: InteractionMedication,
+) {
+	const sideA = {
+		medicationName: rule.medicationNameA,
+		drugClass: rule.drugClassA,
+	};
+	const sideB = {
+		medicationName: rule.medicationNameB,
+		drugClass: rule.drugClassB,
+	};
+	return (
+		(ruleTargetsMedication(sideA, first) &&
+			ruleTargetsMedication(sideB, second)) ||
+		(ruleTargetsMedication(sideA, second) &&
+			ruleTargetsMedication(sideB, first))
+	);
+}
+
+function getPairInteractions(
+	first: InteractionMedication,
+	second: InteractionMedication,
+	rules: InteractionRule[],
+): DrugInteraction[] {
+	const regimenIds = [first.regimenId, second.regimenId].filter(
+		(id): id is string => !!id,
+	);
+	return rules
+		.filter((rule) => ruleMatchesPair(rule, first, second))
+		.map((rule) => ({
+			key: [rule.id, ...regimenIds].join(":"),
+			severity: rule.severity,
+			description: rule.description,
+			medications: [first.name, second.name],
+			regimenIds,
+		}));
+}
+
+/**
+ * Interactions between a medication about to be started or resumed and the
+ * animal's other active medications, most severe first.
+ */
+export function findInteractions(
+	medication: InteractionMedication,
+	others: InteractionMedication[],
+	rules: InteractionRule[],
+): DrugInteraction[] {
+	return others
+		.filter(
+			(other) =>
+				!medication.regimenId || other.regimenId !== medication.regimenId,
+		)
+		.flatMap((other) => getPairInteractions(medication, other, rules))
+		.sort(compareInteractionSeverity);
+}
+
+// Interactions between every pair of an animal's active medications
+export function findAllInteractions(
+	medications: InteractionMedication[],
+	rules: InteractionRule[],
+): DrugInteraction[] {
+	return medications
+		.flatMap((medication, index) =>
+			medications
+				.slice(index + 1)
+				.flatMap((other) => getPairInteractions(medication, other, rules)),
+		)
+		.sort(compareInteractionSeverity);
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+	parseSearchQuery,
+	rankSearchResults,
+	trigramSimilarity,
+} from "./medication-search";
+
+const catalog = [
+	{
+		id: "carprofen-25",
+		genericName: "Carprofen",
+		brandName: "Rimadyl",
+		strength: "25mg",
+		drugClass: "NSAID",
+	},
+	{
+		id: "carprofen-75",
+		genericName: "Carprofen",
+		brandName: "Rimadyl",
+		strength: "75mg",
+		drugClass: "NSAID",
+	},
+	{
+		id: "amoxicillin",
+		genericName: "Amoxicillin",
+		brandName: "Amoxi-Tabs",
+		strength: "100mg",
+		drugClass: "Penicillin",
+	},
+	{
+		id: "prednisone",
+		genericName: "Prednisone",
+		brandName: null,
+		strength: "5mg",
+		drugClass: "Corticosteroid",
+	},
+	{
+		id: "potassium-bromide",
+		genericName: "Potassium Bromide",
+		brandName: null,
+		strength: "250mg/mL",
+		drugClass: "Anticonvulsant",
+	},
+];
+
+const search = (
+	query: string,
+	options?: Parameters<typeof rankSearchResults>[2],
+) => rankSearchResults(catalog, parseSearchQuery(query), options);
+
+describe("parseSearchQuery", () => {
+	it("separates a strength from the name", () => {
+		expect(parseSearchQuery("Rimadyl 75")).toEqual({
+			terms: ["rimadyl"],
+			strength: { value: 75, unit: null },
+		});
+		expect(parseSearchQuery("rimadyl 75 mg")).toEqual({
+			terms: ["rimadyl"],
+			strength: { value: 75, unit: "mg" },
+		});
+	});
+
+	it("drops joining words", () => {
+		expect(parseSearchQuery("carprofen vs Rimadyl").terms).toEqual([
+			"carprofen",
+			"rimadyl",
+		]);
+	});
+});
+
+describe("trigramSimilarity", () => {
+	it("scores a one-letter typo highly", () => {
+		expect(trigramSimilarity("amoxicilin", "amoxicillin")).toBeGreaterThan(0.7);
+		expect(trigramSimilarity("amoxicilin", "prednisone")).toBe(0);
+	});
+});
+
+describe("rankSearchResults", () => {
+	it("tolerates typos", () => {
+		const [first] = search("amoxicilin");
+		expect(first?.id).toBe("amoxicillin");
+		expect(first?.match.matches[0]).toMatchObject({
+			field: "genericName",
+			kind: "fuzzy",
+		});
+	});
+
+	it("prefers the entry with the requested strength", () => {
+		const results = search("rimadyl 75");
+		expect(results.map((result) => result.id)).toEqual([
+			"carprofen-75",
+			"carprofen-25",
+		]);
+		expect(results[0]?.match.matches).toContainEqual({
+			field: "strength",
+			kind: "strength",
+			term: "75mg",
+			start: 0,
+			end: 4,
+		});
+	});
+
+	it("ranks entries matching both generic and brand name first", () => {
+		const results = search("carprofen vs rimadyl");
+		expect(results.map((result) => result.id)).toEqual([
+			"carprofen-25",
+			"carprofen-75",
+		]);
+		expect(results[0]?.match.matches.map((match) => match.field)).toEqual([
+			"genericName",
+			"brandName",
+		]);
+	});
+
+	it("matches abbreviations through synonyms", () => {
+		const results = search("kbr", {
+			synonyms: [{ term: "kbr", genericName: "Potassium Bromide" }],
+		});
+		expect(results.map((result) => result.id)).toEqual(["potassium-bromide"]);
+		expect(results[0]?.match.matches[0]?.kind).toBe("synonym");
+	});
+
+	it("highlights prefix matches", () => {
+		const [first] = search("pred");
+		expect(first?.match.matches[0]).toEqual({
+			field: "genericName",
+			kind: "prefix",
+			term: "pred",
+			start: 0,
+			end: 4,
+		});
+	});
+
+	it("ranks household-frequent medications higher", () => {
+		const results = search("rimadyl", {
+			frequentIds: new Set(["carprofen-75"]),
+		});
+		expect(results[0]?.id).toBe("carprofen-75");
+		expect(results[0]?.match.frequent).toBe(true);
+	});
+});
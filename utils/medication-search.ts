@@ -0,0 +1,309 @@
+import { getGenericNames } from "./contraindications";
+
+export interface StrengthQuery {
+	value: number;
+	unit: string | null;
+}
+
+export interface ParsedSearchQuery {
+	// Name-like words, lowercased
+	terms: string[];
+	strength: StrengthQuery | null;
+}
+
+export interface SearchableMedication {
+	genericName: string;
+	brandName?: string | null;
+	strength?: string | null;
+	drugClass?: string | null;
+}
+
+export interface MedicationSynonym {
+	term: string;
+	genericName: string;
+}
+
+export type SearchMatchKind =
+	| "exact"
+	| "prefix"
+	| "contains"
+	| "fuzzy"
+	| "synonym"
+	| "class"
+	| "strength";
+
+/**
+ * Why a result matched, for highlighting. `start`/`end` index into the
+ * field's value when a span of it can be marked.
+ */
+export interface SearchMatch {
+	field: "genericName" | "brandName" | "strength" | "drugClass";
+	kind: SearchMatchKind;
+	term: string;
+	start?: number;
+	end?: number;
+}
+
+export interface SearchRanking {
+	score: number;
+	matches: SearchMatch[];
+	frequent: boolean;
+}
+
+// Words that join names in queries like "carprofen vs rimadyl"
+const STOP_WORDS = new Set(["vs", "or", "and", "with"]);
+
+const STRENGTH_TOKEN = /^(\d+(?:\.\d+)?)(mg|mcg|g|ml|%|iu|u)?$/;
+const STRENGTH_VALUES = /(\d+(?:\.\d+)?)\s*(mg|mcg|g|ml|%|iu|u)?/gi;
+const UNIT_TOKEN = /^(mg|mcg|g|ml|%|iu|u)$/;
+
+const SCORES: Record<Exclude<SearchMatchKind, "strength">, number> = {
+	exact: 100,
+	prefix: 85,
+	synonym: 80,
+	contains: 60,
+	// Scaled by similarity
+	fuzzy: 70,
+	class: 40,
+};
+const STRENGTH_MATCH = 30;
+const STRENGTH_MISMATCH = -15;
+const FREQUENT_BONUS = 10;
+
+// Matches pg_trgm's default similarity threshold closely enough for typos
+export const FUZZY_THRESHOLD = 0.4;
+
+/**
+ * Split a query into name terms and an optional strength, so "rimadyl 75" or
+ * "rimadyl 75mg" searches for Rimadyl and prefers its 75mg entry.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+	const tokens = query
+		.toLowerCase()
+		.split(/[\s,]+/)
+		.filter((token) => token.length > 0);
+
+	const terms: string[] = [];
+	let strength: StrengthQuery | null = null;
+
+	tokens.forEach((token, index) => {
+		const strengthMatch = STRENGTH_TOKEN.exec(token);
+		if (strengthMatch) {
+			// A separate unit word, as in "75 mg", belongs to the number
+			const nextToken = tokens[index + 1];
+			const unit =
+				strengthMatch[2] ??
+				(nextToken && UNIT_TOKEN.test(nextToken) ? nextToken : null);
+			strength = { value: Number(strengthMatch[1]), unit };
+			return;
+		}
+		if (UNIT_TOKEN.test(token) || STOP_WORDS.has(token)) return;
+		terms.push(token);
+	});
+
+	return { terms, strength };
+}
+
+function getTrigrams(text: string) {
+	const trigrams = new Set<string>();
+	for (const word of text.toLowerCase().split(/[^a-z0-9]+/)) {
+		if (!word) continue;
+		const padded = `  ${word} `;
+		for (let i = 0; i < padded.length - 2; i++) {
+			trigrams.add(padded.slice(i, i + 3));
+		}
+	}
+	return trigrams;
+}
+
+/**
+ * Trigram similarity between two strings, computed the way pg_trgm's
+ * similarity() does: shared trigrams over all distinct trigrams.
+ */
+export function trigramSimilarity(a: string, b: string) {
+	const left = getTrigrams(a);
+	const right = getTrigrams(b);
+	if (left.size === 0 || right.size === 0) return 0;
+
+	let shared = 0;
+	for (const trigram of left) {
+		if (right.has(trigram)) shared++;
+	}
+	return shared / (left.size + right.size - shared);
+}
+
+// Best way a single term matches a name field
+function matchName(
+	field: "genericName" | "brandName",
+	value: string | null | undefined,
+	term: string,
+): SearchMatch & { score: number } {
+	const none = { field, kind: "fuzzy" as const, term, score: 0 };
+	if (!value) return none;
+
+	const lower = value.toLowerCase();
+	const words = lower.split(/[^a-z0-9]+/).filter(Boolean);
+	const start = lower.indexOf(term);
+	const span = { start, end: start + term.length };
+
+	if (lower === term || words.includes(term)) {
+		return { field, kind: "exact", term, ...span, score: SCORES.exact };
+	}
+	if (words.some((word) => word.startsWith(term))) {
+		return { field, kind: "prefix", term, ...span, score: SCORES.prefix };
+	}
+	if (start >= 0) {
+		return { field, kind: "contains", term, ...span, score: SCORES.contains };
+	}
+
+	const similarity = Math.max(
+		0,
+		...words.map((word) => trigramSimilarity(term, word)),
+	);
+	return similarity >= FUZZY_THRESHOLD
+		? {
+				field,
+				kind: "fuzzy",
+				term,
+				score: Math.round(similarity * SCORES.fuzzy),
+			}
+		: none;
+}
+
+function matchTerm(
+	medication: SearchableMedication,
+	term: string,
+	synonyms: MedicationSynonym[],
+): (SearchMatch & { score: number }) | null {
+	const candidates = [
+		matchName("genericName", medication.genericName, term),
+		matchName("brandName", medication.brandName, term),
+	];
+
+	const genericNames = getGenericNames(medication.genericName);
+	if (
+		synonyms.some(
+			(synonym) =>
+				synonym.term === term &&
+				genericNames.includes(synonym.genericName.toLowerCase()),
+		)
+	) {
+		candidates.push({
+			field: "genericName",
+			kind: "synonym",
+			term,
+			score: SCORES.synonym,
+		});
+	}
+
+	if (medication.drugClass?.toLowerCase() === term) {
+		candidates.push({
+			field: "drugClass",
+			kind: "class",
+			term,
+			start: 0,
+			end: term.length,
+			score: SCORES.class,
+		});
+	}
+
+	const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+	return best.score > 0 ? best : null;
+}
+
+function matchStrength(
+	strength: string | null | undefined,
+	query: StrengthQuery,
+): SearchMatch | null {
+	if (!strength) return null;
+
+	for (const match of strength.matchAll(STRENGTH_VALUES)) {
+		const unit = match[2]?.toLowerCase() ?? null;
+		if (
+			Number(match[1]) === query.value &&
+			(!query.unit || !unit || unit === query.unit)
+		) {
+			return {
+				field: "strength",
+				kind: "strength",
+				term: match[0],
+				start: match.index,
+				end: match.index + match[0].length,
+			};
+		}
+	}
+	return null;
+}
+
+/**
+ * Score how well a catalog entry matches a parsed query, or null when no name
+ * term matches it. Each term counts by its best match, averaged over the
+ * terms so entries matching every word rank first; a matching strength and
+ * frequent use in the household add to the score.
+ */
+export function rankMedication(
+	medication: SearchableMedication,
+	query: ParsedSearchQuery,
+	{
+		synonyms = [],
+		frequent = false,
+	}: { synonyms?: MedicationSynonym[]; frequent?: boolean } = {},
+): SearchRanking | null {
+	const termMatches = query.terms
+		.map((term) => matchTerm(medication, term, synonyms))
+		.filter((match): match is SearchMatch & { score: number } => !!match);
+
+	if (query.terms.length > 0 && termMatches.length === 0) return null;
+
+	let score =
+		query.terms.length > 0
+			? termMatches.reduce((sum, match) => sum + match.score, 0) /
+				query.terms.length
+			: 0;
+	const matches: SearchMatch[] = termMatches.map(
+		({ score: _score, ...match }) => match,
+	);
+
+	if (query.strength) {
+		const strengthMatch = matchStrength(medication.strength, query.strength);
+		if (strengthMatch) {
+			score += STRENGTH_MATCH;
+			matches.push(strengthMatch);
+		} else if (query.terms.length > 0) {
+			score += STRENGTH_MISMATCH;
+		} else {
+			// A bare strength query only returns entries of that strength
+			return null;
+		}
+	}
+
+	if (frequent) score += FREQUENT_BONUS;
+
+	return { score: Math.round(score), matches, frequent };
+}
+
+/**
+ * Rank candidates from the database for a query, best first. Entries that no
+ * longer match after scoring (e.g. a loose trigram hit) are dropped.
+ */
+export function rankSearchResults<
+	T extends SearchableMedication & { id: string },
+>(
+	medications: T[],
+	query: ParsedSearchQuery,
+	options: { synonyms?: MedicationSynonym[]; frequentIds?: Set<string> } = {},
+) {
+	return medications
+		.map((medication) => ({
+			...medication,
+			match: rankMedication(medication, query, {
+				synonyms: options.synonyms,
+				frequent: options.frequentIds?.has(medication.id) ?? false,
+			}),
+		}))
+		.filter(
+			(medication): medication is T & { match: SearchRanking } =>
+				medication.match !== null,
+		)
+		.sort((a, b) => b.match.score - a.match.score);
+}
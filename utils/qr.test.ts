@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+	encodeQr,
+	getErrorCorrection,
+	getFormatBits,
+	getQrPath,
+	type QrMatrix,
+} from "./qr";
+
+// Reads the format information copy next to the top-left finder
+function readFormatBits(matrix: QrMatrix) {
+	const positions: Array<[number, number]> = [
+		[8, 0],
+		[8, 1],
+		[8, 2],
+		[8, 3],
+		[8, 4],
+		[8, 5],
+		[8, 7],
+		[8, 8],
+		[7, 8],
+		[5, 8],
+		[4, 8],
+		[3, 8],
+		[2, 8],
+		[1, 8],
+		[0, 8],
+	];
+	return positions.reduce(
+		(bits, [x, y], index) => (matrix[y]?.[x] ? bits | (1 << index) : bits),
+		0,
+	);
+}
+
+describe("getErrorCorrection", () => {
+	it("matches the reference codewords for a 1-M symbol", () => {
+		const data = [
+			32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17,
+		];
+		expect(getErrorCorrection(data, 10)).toEqual([
+			196, 35, 39, 119, 235, 215, 231, 226, 93, 23,
+		]);
+	});
+});
+
+describe("getFormatBits", () => {
+	it("produces the standard level M format strings", () => {
+		expect(getFormatBits(0).toString(2).padStart(15, "0")).toBe(
+			"101010000010010",
+		);
+		expect(getFormatBits(5).toString(2).padStart(15, "0")).toBe(
+			"100000011001110",
+		);
+	});
+});
+
+describe("encodeQr", () => {
+	it("uses the smallest version that fits", () => {
+		expect(encodeQr("hello")).toHaveLength(21);
+		// A share URL with a signed token needs version 8 (49 modules)
+		expect(
+			encodeQr(`https://example.com/emergency/${"a".repeat(100)}`),
+		).toHaveLength(49);
+	});
+
+	it("draws finder patterns in three corners", () => {
+		const matrix = encodeQr("https://example.com");
+		const size = matrix.length;
+		for (const [x, y] of [
+			[0, 0],
+			[size - 7, 0],
+			[0, size - 7],
+		] as const) {
+			const ring = [0, 1, 2, 3, 4, 5, 6].map((i) => matrix[y]?.[x + i]);
+			expect(ring).toEqual([true, true, true, true, true, true, true]);
+			expect(matrix[y + 1]?.[x + 1]).toBe(false);
+			expect(matrix[y + 3]?.[x + 3]).toBe(true);
+		}
+	});
+
+	it("records level M and a valid mask in the format information", () => {
+		const bits = readFormatBits(encodeQr("https://example.com")) ^ 0x5412;
+		expect(bits >>> 13).toBe(0);
+		expect(getFormatBits((bits >>> 10) & 7)).toBe(bits ^ 0x5412);
+	});
+
+	it("rejects text longer than the largest supported version", () => {
+		expect(() => encodeQr("x".repeat(500))).toThrow(/too long/);
+	});
+});
+
+describe("getQrPath", () => {
+	it("draws one square per dark module inside the quiet zone", () => {
+		expect(
+			getQrPath(
+				[
+					[true, false],
+					[false, true],
+				],
+				2,
+			),
+		).toBe("M2 2h1v1h-1zM3 3h1v1h-1z");
+	});
+});
@@ -0,0 +1,442 @@
+/**
+ * QR code encoder (ISO/IEC 18004) for short URLs: byte mode, error correction
+ * level M, versions 1-15. Returns the module grid; rendering is up to the
+ * caller. Level M survives ~15% damage, which suits a printed wallet card.
+ */
+
+export type QrMatrix = boolean[][];
+
+export const QR_MAX_VERSION = 15;
+
+// Error correction codewords per block and number of blocks for level M,
+// indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [
+	0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24,
+];
+const ECC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10];
+
+// Level M is 00 in the format information
+const ECC_LEVEL_BITS = 0;
+
+const getSize = (version: number) => version * 4 + 17;
+
+// Modules available for data and error correction once the function
+// patterns are placed
+function getRawDataModules(version: number) {
+	let modules = (16 * version + 128) * version + 64;
+	if (version >= 2) {
+		const alignments = Math.floor(version / 7) + 2;
+		modules -= (25 * alignments - 10) * alignments - 55;
+		if (version >= 7) modules -= 36;
+	}
+	return modules;
+}
+
+const getTotalCodewords = (version: number) =>
+	Math.floor(getRawDataModules(version) / 8);
+
+export const getDataCodewords = (version: number) =>
+	getTotalCodewords(version) -
+	(ECC_CODEWORDS_PER_BLOCK[version] ?? 0) * (ECC_BLOCKS[version] ?? 0);
+
+// Bits needed for a byte-mode segment of `length` bytes
+const getSegmentBits = (version: number, length: number) =>
+	4 + (version <= 9 ? 8 : 16) + length * 8;
+
+function getAlignmentPositions(version: number): number[] {
+	if (version === 1) return [];
+	const count = Math.floor(version / 7) + 2;
+	const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+	const positions = [6];
+	for (let pos = getSize(version) - 7; positions.length < count; pos -= step) {
+		positions.splice(1, 0, pos);
+	}
+	return positions;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+	let z = 0;
+	for (let i = 7; i >= 0; i--) {
+		z = (z << 1) ^ ((z >>> 7) * 0x11d);
+		z ^= ((y >>> i) & 1) * x;
+	}
+	return z;
+}
+
+function getGeneratorPolynomial(degree: number) {
+	const result = new Array<number>(degree).fill(0);
+	result[degree - 1] = 1;
+	let root = 1;
+	for (let i = 0; i < degree; i++) {
+		for (let j = 0; j < degree; j++) {
+			result[j] = gfMultiply(result[j] ?? 0, root) ^ (result[j + 1] ?? 0);
+		}
+		root = gfMultiply(root, 0x02);
+	}
+	return result;
+}
+
+// Reed-Solomon error correction codewords for one block of data
+export function getErrorCorrection(data: number[], degree: number): number[] {
+	const generator = getGeneratorPolynomial(degree);
+	const result = new Array<number>(degree).fill(0);
+	for (const byte of data) {
+		const factor = byte ^ (result.shift() ?? 0);
+		result.push(0);
+		generator.forEach((coefficient, index) => {
+			result[index] = (result[index] ?? 0) ^ gfMultiply(coefficient, factor);
+		});
+	}
+	return result;
+}
+
+// 15-bit BCH-coded format information, masked as the standard requires
+export function getFormatBits(mask: number) {
+	const data = (ECC_LEVEL_BITS << 3) | mask;
+	let remainder = data;
+	for (let i = 0; i < 10; i++) {
+		remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+	}
+	return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function getVersionBits(version: number) {
+	let remainder = version;
+	for (let i = 0; i < 12; i++) {
+		remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+	}
+	return (version << 12) | remainder;
+}
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+	const capacityBits = getDataCodewords(version) * 8;
+	const bits: number[] = [];
+	const append = (value: number, length: number) => {
+		for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+	};
+
+	append(0b0100, 4);
+	append(bytes.length, version <= 9 ? 8 : 16);
+	for (const byte of bytes) append(byte, 8);
+
+	// Terminator, then pad to a whole byte and fill with the pad codewords
+	append(0, Math.min(4, capacityBits - bits.length));
+	append(0, (8 - (bits.length % 8)) % 8);
+	for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+		append(pad, 8);
+	}
+
+	const codewords: number[] = [];
+	for (let i = 0; i < bits.length; i += 8) {
+		codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => byte * 2 + bit));
+	}
+	return codewords;
+}
+
+// Split data into blocks, add error correction and interleave the codewords
+function addErrorCorrection(data: number[], version: number): number[] {
+	const blockCount = ECC_BLOCKS[version] ?? 1;
+	const eccLength = ECC_CODEWORDS_PER_BLOCK[version] ?? 0;
+	const total = getTotalCodewords(version);
+	const shortBlocks = blockCount - (total % blockCount);
+	const shortDataLength = Math.floor(total / blockCount) - eccLength;
+
+	const dataBlocks: number[][] = [];
+	const eccBlocks: number[][] = [];
+	let offset = 0;
+	for (let i = 0; i < blockCount; i++) {
+		const length = shortDataLength + (i < shortBlocks ? 0 : 1);
+		const block = data.slice(offset, offset + length);
+		offset += length;
+		dataBlocks.push(block);
+		eccBlocks.push(getErrorCorrection(block, eccLength));
+	}
+
+	const result: number[] = [];
+	for (let i = 0; i <= shortDataLength; i++) {
+		for (const block of dataBlocks) {
+			const codeword = block[i];
+			if (codeword !== undefined) result.push(codeword);
+		}
+	}
+	for (let i = 0; i < eccLength; i++) {
+		for (const block of eccBlocks) result.push(block[i] ?? 0);
+	}
+	return result;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+	(x, y) => (x + y) % 2 === 0,
+	(_, y) => y % 2 === 0,
+	(x) => x % 3 === 0,
+	(x, y) => (x + y) % 3 === 0,
+	(x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+	(x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+	(x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+	(x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrGrid {
+	readonly size: number;
+	readonly modules: QrMatrix;
+	// Finder, timing, alignment and format modules are never masked
+	private readonly reserved: boolean[][];
+
+	constructor(readonly version: number) {
+		this.size = getSize(version);
+		this.modules = Array.from({ length: this.size }, () =>
+			new Array<boolean>(this.size).fill(false),
+		);
+		this.reserved = Array.from({ length: this.size }, () =>
+			new Array<boolean>(this.size).fill(false),
+		);
+		this.drawFunctionPatterns();
+	}
+
+	private setFunction(x: number, y: number, dark: boolean) {
+		const row = this.modules[y];
+		const reservedRow = this.reserved[y];
+		if (!row || !reservedRow) return;
+		row[x] = dark;
+		reservedRow[x] = true;
+	}
+
+	private drawFinder(cx: number, cy: number) {
+		for (let dy = -4; dy <= 4; dy++) {
+			for (let dx = -4; dx <= 4; dx++) {
+				const x = cx + dx;
+				const y = cy + dy;
+				if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+				const distance = Math.max(Math.abs(dx), Math.abs(dy));
+				this.setFunction(x, y, distance !== 2 && distance !== 4);
+			}
+		}
+	}
+
+	private drawAlignment(cx: number, cy: number) {
+		for (let dy = -2; dy <= 2; dy++) {
+			for (let dx = -2; dx <= 2; dx++) {
+				this.setFunction(
+					cx + dx,
+					cy + dy,
+					Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+				);
+			}
+		}
+	}
+
+	private drawFunctionPatterns() {
+		const { size, version } = this;
+		for (let i = 0; i < size; i++) {
+			this.setFunction(6, i, i % 2 === 0);
+			this.setFunction(i, 6, i % 2 === 0);
+		}
+
+		this.drawFinder(3, 3);
+		this.drawFinder(size - 4, 3);
+		this.drawFinder(3, size - 4);
+
+		const positions = getAlignmentPositions(version);
+		const last = positions.length - 1;
+		positions.forEach((x, i) => {
+			positions.forEach((y, j) => {
+				// Skip the three corners occupied by finder patterns
+				const overlapsFinder =
+					(i === 0 && j === 0) ||
+					(i === 0 && j === last) ||
+					(i === last && j === 0);
+				if (!overlapsFinder) this.drawAlignment(x, y);
+			});
+		});
+
+		// Reserve the format areas now; the real bits depend on the mask
+		this.drawFormatBits(0);
+
+		if (version >= 7) {
+			const bits = getVersionBits(version);
+			for (let i = 0; i < 18; i++) {
+				const a = size - 11 + (i % 3);
+				const b = Math.floor(i / 3);
+				this.setFunction(a, b, getBit(bits, i));
+				this.setFunction(b, a, getBit(bits, i));
+			}
+		}
+	}
+
+	drawFormatBits(mask: number) {
+		const bits = getFormatBits(mask);
+		const { size } = this;
+
+		// Copy around the top-left finder
+		for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+		this.setFunction(8, 7, getBit(bits, 6));
+		this.setFunction(8, 8, getBit(bits, 7));
+		this.setFunction(7, 8, getBit(bits, 8));
+		for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+		// Copy split between the other two finders
+		for (let i = 0; i < 8; i++) {
+			this.setFunction(size - 1 - i, 8, getBit(bits, i));
+		}
+		for (let i = 8; i < 15; i++) {
+			this.setFunction(8, size - 15 + i, getBit(bits, i));
+		}
+		// Always-dark module
+		this.setFunction(8, size - 8, true);
+	}
+
+	// Place codewords in the two-column zigzag from the bottom-right corner
+	drawCodewords(codewords: number[]) {
+		let bitIndex = 0;
+		for (const [x, y] of getZigzagOrder(this.size)) {
+			const row = this.modules[y];
+			const codeword = codewords[bitIndex >>> 3];
+			if (!row || this.reserved[y]?.[x] || codeword === undefined) continue;
+			row[x] = getBit(codeword, 7 - (bitIndex & 7));
+			bitIndex++;
+		}
+	}
+
+	// XOR-ing twice undoes a mask, so this also removes one
+	applyMask(mask: number) {
+		const pattern = MASKS[mask];
+		if (!pattern) return;
+		this.modules.forEach((row, y) => {
+			row.forEach((dark, x) => {
+				if (!this.reserved[y]?.[x] && pattern(x, y)) row[x] = !dark;
+			});
+		});
+	}
+}
+
+// Module coordinates in data placement order, skipping the timing column
+function* getZigzagOrder(size: number): Generator<[number, number]> {
+	for (let right = size - 1; right >= 1; right -= 2) {
+		if (right === 6) right = 5;
+		const upward = ((right + 1) & 2) === 0;
+		for (let step = 0; step < size; step++) {
+			const y = upward ? size - 1 - step : step;
+			yield [right, y];
+			yield [right - 1, y];
+		}
+	}
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+// Runs of five or more modules of the same color
+function getRunPenalty(line: boolean[]) {
+	let penalty = 0;
+	let run = 1;
+	for (let i = 1; i <= line.length; i++) {
+		if (i < line.length && line[i] === line[i - 1]) {
+			run++;
+			continue;
+		}
+		if (run >= 5) penalty += run - 2;
+		run = 1;
+	}
+	return penalty;
+}
+
+// 1:1:3:1:1 patterns with four light modules on either side
+function getFinderLikePenalty(line: boolean[]) {
+	const isLight = (i: number) => i < 0 || i >= line.length || !line[i];
+	let penalty = 0;
+	for (let start = 0; start + FINDER_LIKE.length <= line.length; start++) {
+		if (!FINDER_LIKE.every((dark, i) => line[start + i] === dark)) continue;
+		const end = start + FINDER_LIKE.length;
+		if ([1, 2, 3, 4].every((i) => isLight(start - i))) penalty += 40;
+		if ([0, 1, 2, 3].every((i) => isLight(end + i))) penalty += 40;
+	}
+	return penalty;
+}
+
+// 2x2 blocks of the same color
+function getBlockPenalty(modules: QrMatrix) {
+	let penalty = 0;
+	for (let y = 0; y + 1 < modules.length; y++) {
+		for (let x = 0; x + 1 < modules.length; x++) {
+			const color = modules[y]?.[x];
+			if (
+				modules[y]?.[x + 1] === color &&
+				modules[y + 1]?.[x] === color &&
+				modules[y + 1]?.[x + 1] === color
+			) {
+				penalty += 3;
+			}
+		}
+	}
+	return penalty;
+}
+
+// Standard penalty rules; the mask with the lowest score is used
+function getPenalty(modules: QrMatrix): number {
+	const columns = modules.map((_, x) => modules.map((row) => row[x] ?? false));
+	let penalty = getBlockPenalty(modules);
+	for (const line of [...modules, ...columns]) {
+		penalty += getRunPenalty(line) + getFinderLikePenalty(line);
+	}
+
+	// Dark modules far from half of the symbol
+	const total = modules.length ** 2;
+	const dark = modules.flat().filter(Boolean).length;
+	penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+	return penalty;
+}
+
+/**
+ * Encode text as a QR code using the smallest version that fits. Throws if the
+ * text is too long for the supported versions.
+ */
+export function encodeQr(text: string): QrMatrix {
+	const bytes = new TextEncoder().encode(text);
+
+	let version = 1;
+	while (
+		getSegmentBits(version, bytes.length) >
+		getDataCodewords(version) * 8
+	) {
+		version++;
+		if (version > QR_MAX_VERSION) {
+			throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+		}
+	}
+
+	const grid = new QrGrid(version);
+	grid.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+	let bestMask = 0;
+	let bestPenalty = Number.POSITIVE_INFINITY;
+	for (let mask = 0; mask < MASKS.length; mask++) {
+		grid.applyMask(mask);
+		grid.drawFormatBits(mask);
+		const penalty = getPenalty(grid.modules);
+		if (penalty < bestPenalty) {
+			bestMask = mask;
+			bestPenalty = penalty;
+		}
+		grid.applyMask(mask);
+	}
+
+	grid.applyMask(bestMask);
+	grid.drawFormatBits(bestMask);
+	return grid.modules;
+}
+
+/**
+ * SVG path data drawing each dark module as a 1x1 square, offset by a quiet
+ * zone of `margin` modules. Use with a viewBox of `size + margin * 2`.
+ */
+export function getQrPath(matrix: QrMatrix, margin = 4): string {
+	const parts: string[] = [];
+	matrix.forEach((row, y) => {
+		row.forEach((dark, x) => {
+			if (dark) parts.push(`M${x + margin} ${y + margin}h1v1h-1z`);
+		});
+	});
+	return parts.join("");
+}
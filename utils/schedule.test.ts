@@ -0,0 +1,304 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeIntervalDueTime,
+	expandScheduleSlots,
+	findUncoveredSlots,
+	getActiveTaperStep,
+	getIntervalAnchor,
+	getTaperEndDate,
+	resolveDailySchedule,
+	type TaperStep,
+} from "./schedule";
+
+const prednisoneTaper: TaperStep[] = [
+	{ dose: "10mg", timesLocal: ["08:00", "20:00"], durationDays: 7 },
+	{ dose: "5mg", timesLocal: ["08:00", "20:00"], durationDays: 7 },
+	{ dose: "5mg", timesLocal: ["08:00"], durationDays: 5 },
+];
+
+describe("getActiveTaperStep", () => {
+	it("returns the first step on the start date", () => {
+		const active = getActiveTaperStep(
+			prednisoneTaper,
+			"2025-03-01",
+			"2025-03-01",
+		);
+
+		expect(active?.index).toBe(0);
+		expect(active?.dayOfStep).toBe(1);
+		expect(active?.startDay).toBe("2025-03-01");
+		expect(active?.endDay).toBe("2025-03-07");
+	});
+
+	it("moves to the next step once a step's duration has elapsed", () => {
+		const active = getActiveTaperStep(
+			prednisoneTaper,
+			"2025-03-01",
+			"2025-03-08",
+		);
+
+		expect(active?.index).toBe(1);
+		expect(active?.dayOfStep).toBe(1);
+		expect(active?.step.dose).toBe("5mg");
+	});
+
+	it("handles the last day of the last step", () => {
+		const active = getActiveTaperStep(
+			prednisoneTaper,
+			"2025-03-01",
+			"2025-03-19",
+		);
+
+		expect(active?.index).toBe(2);
+		expect(active?.dayOfStep).toBe(5);
+	});
+
+	it("returns null before the start and after the taper ends", () => {
+		expect(
+			getActiveTaperStep(prednisoneTaper, "2025-03-01", "2025-02-28"),
+		).toBeNull();
+		expect(
+			getActiveTaperStep(prednisoneTaper, "2025-03-01", "2025-03-20"),
+		).toBeNull();
+	});
+
+	it("counts calendar days across a DST change", () => {
+		const active = getActiveTaperStep(
+			prednisoneTaper,
+			"2025-10-20",
+			"2025-10-27",
+		);
+
+		expect(active?.index).toBe(1);
+		expect(active?.dayOfStep).toBe(1);
+	});
+});
+
+describe("getTaperEndDate", () => {
+	it("returns the last local day covered by the taper", () => {
+		expect(getTaperEndDate(prednisoneTaper, "2025-03-01")).toBe("2025-03-19");
+	});
+});
+
+describe("resolveDailySchedule", () => {
+	it("uses the regimen times for FIXED schedules", () => {
+		const schedule = resolveDailySchedule(
+			{ scheduleType: "FIXED", timesLocal: ["09:00"], dose: "1 tablet" },
+			"2025-03-01",
+		);
+
+		expect(schedule).toEqual({
+			timesLocal: ["09:00"],
+			dose: "1 tablet",
+			taperStep: null,
+		});
+	});
+
+	it("uses the active step's times and dose for TAPER schedules", () => {
+		const schedule = resolveDailySchedule(
+			{
+				scheduleType: "TAPER",
+				timesLocal: null,
+				taperSteps: prednisoneTaper,
+				startDate: "2025-03-01",
+				dose: null,
+			},
+			"2025-03-16",
+		);
+
+		expect(schedule?.timesLocal).toEqual(["08:00"]);
+		expect(schedule?.dose).toBe("5mg");
+		expect(schedule?.taperStep?.index).toBe(2);
+	});
+
+	it("returns null for PRN regimens", () => {
+		expect(
+			resolveDailySchedule(
+				{ scheduleType: "PRN", timesLocal: null, dose: null },
+				"2025-03-01",
+			),
+		).toBeNull();
+	});
+});
+
+describe("computeIntervalDueTime", () => {
+	const anchor = new Date("2025-03-01T08:00:00Z");
+	const base = { intervalHours: 8, anchor, cutoffMinutes: 240 };
+
+	it("is due at the anchor before any dose is recorded", () => {
+		for (const mode of ["ROLLING", "SCHEDULE"] as const) {
+			expect(
+				computeIntervalDueTime({
+					...base,
+					mode,
+					lastDoseAt: null,
+					now: new Date("2025-03-01T06:00:00Z"),
+				}),
+			).toEqual(anchor);
+		}
+	});
+
+	it("rolls forward from the last dose in ROLLING mode", () => {
+		expect(
+			computeIntervalDueTime({
+				...base,
+				mode: "ROLLING",
+				lastDoseAt: new Date("2025-03-01T09:30:00Z"),
+				now: new Date("2025-03-01T12:00:00Z"),
+			}),
+		).toEqual(new Date("2025-03-01T17:30:00Z"));
+	});
+
+	it("keeps fixed slots in SCHEDULE mode when a dose is late", () => {
+		expect(
+			computeIntervalDueTime({
+				...base,
+				mode: "SCHEDULE",
+				lastDoseAt: new Date("2025-03-01T09:30:00Z"),
+				now: new Date("2025-03-01T12:00:00Z"),
+			}),
+		).toEqual(new Date("2025-03-01T16:00:00Z"));
+	});
+
+	it("reports the current slot as due until its cutoff passes", () => {
+		const lastDoseAt = new Date("2025-03-01T08:05:00Z");
+
+		expect(
+			computeIntervalDueTime({
+				...base,
+				mode: "SCHEDULE",
+				lastDoseAt,
+				now: new Date("2025-03-01T17:00:00Z"),
+			}),
+		).toEqual(new Date("2025-03-01T16:00:00Z"));
+		expect(
+			computeIntervalDueTime({
+				...base,
+				mode: "SCHEDULE",
+				lastDoseAt,
+				now: new Date("2025-03-01T20:30:00Z"),
+			}),
+		).toEqual(new Date("2025-03-02T00:00:00Z"));
+	});
+});
+
+describe("getIntervalAnchor", () => {
+	it("anchors on the first configured time in the animal's timezone", () => {
+		expect(
+			getIntervalAnchor(
+				{ startDate: "2025-03-01", timesLocal: ["07:00"] },
+				"America/New_York",
+			),
+		).toEqual(new Date("2025-03-01T12:00:00Z"));
+	});
+
+	it("falls back to local midnight on the start date", () => {
+		expect(
+			getIntervalAnchor(
+				{ startDate: "2025-07-01", timesLocal: null },
+				"Europe/Amsterdam",
+			),
+		).toEqual(new Date("2025-06-30T22:00:00Z"));
+	});
+});
+
+describe("expandScheduleSlots", () => {
+	const fixed = {
+		scheduleType: "FIXED",
+		timesLocal: ["08:00", "20:00"],
+		intervalHours: null,
+		intervalMode: "ROLLING" as const,
+		startDate: "2025-03-01",
+		endDate: "2025-03-02",
+		dose: "1 tablet",
+	};
+
+	it("expands fixed times per local day within the regimen dates", () => {
+		const slots = expandScheduleSlots(
+			fixed,
+			"America/New_York",
+			new Date("2025-02-28T00:00:00Z"),
+			new Date("2025-03-04T00:00:00Z"),
+		);
+
+		expect(slots.map((slot) => [slot.dayISO, slot.slotIndex])).toEqual([
+			["2025-03-01", 0],
+			["2025-03-01", 1],
+			["2025-03-02", 0],
+			["2025-03-02", 1],
+		]);
+		expect(slots[0]?.dueAt).toEqual(new Date("2025-03-01T13:00:00Z"));
+	});
+
+	it("steps INTERVAL SCHEDULE slots from the anchor", () => {
+		const slots = expandScheduleSlots(
+			{
+				...fixed,
+				scheduleType: "INTERVAL",
+				timesLocal: ["06:00"],
+				intervalHours: 8,
+				intervalMode: "SCHEDULE",
+				endDate: null,
+			},
+			"UTC",
+			new Date("2025-03-01T07:00:00Z"),
+			new Date("2025-03-02T06:00:00Z"),
+		);
+
+		expect(slots.map((slot) => slot.dueAt.toISOString())).toEqual([
+			"2025-03-01T14:00:00.000Z",
+			"2025-03-01T22:00:00.000Z",
+			"2025-03-02T06:00:00.000Z",
+		]);
+		expect(slots.map((slot) => slot.slotIndex)).toEqual([1, 2, 0]);
+	});
+
+	it("restarts ROLLING slots from the last dose", () => {
+		const slots = expandScheduleSlots(
+			{
+				...fixed,
+				scheduleType: "INTERVAL",
+				timesLocal: null,
+				intervalHours: 12,
+				endDate: null,
+			},
+			"UTC",
+			new Date("2025-03-01T00:00:00Z"),
+			new Date("2025-03-02T12:00:00Z"),
+			new Date("2025-03-01T09:30:00Z"),
+		);
+
+		expect(slots.map((slot) => slot.dueAt.toISOString())).toEqual([
+			"2025-03-01T21:30:00.000Z",
+			"2025-03-02T09:30:00.000Z",
+		]);
+	});
+});
+
+describe("findUncoveredSlots", () => {
+	const slot = (iso: string, slotIndex: number) => ({
+		dueAt: new Date(iso),
+		dayISO: iso.slice(0, 10),
+		slotIndex,
+	});
+	const slots = [
+		slot("2025-03-01T08:00:00Z", 0),
+		slot("2025-03-01T20:00:00Z", 1),
+		slot("2025-03-02T08:00:00Z", 0),
+	];
+
+	it("lets each administration cover only its nearest slot", () => {
+		const uncovered = findUncoveredSlots(slots, [
+			new Date("2025-03-01T09:10:00Z"),
+			new Date("2025-03-01T10:00:00Z"),
+		]);
+
+		expect(uncovered).toEqual([slots[1], slots[2]]);
+	});
+
+	it("treats a late dose as covering its own slot", () => {
+		expect(
+			findUncoveredSlots(slots, [new Date("2025-03-01T13:30:00Z")]),
+		).toEqual([slots[1], slots[2]]);
+	});
+});
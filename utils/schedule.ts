@@ -0,0 +1,379 @@
+import { DateTime } from "luxon";
+import { expandFixedTimes, localDayISO, toAnimalLocal } from "./tz";
+
+export interface TaperStep {
+	dose: string;
+	timesLocal: string[];
+	durationDays: number;
+}
+
+export interface ActiveTaperStep {
+	step: TaperStep;
+	index: number;
+	dayOfStep: number; // 1-based
+	startDay: string; // YYYY-MM-DD, first local day of the step
+	endDay: string; // YYYY-MM-DD, last local day of the step (inclusive)
+}
+
+const daysBetween = (fromISO: string, toISO: string) =>
+	Math.round(
+		DateTime.fromISO(toISO, { zone: "UTC" })
+			.diff(DateTime.fromISO(fromISO, { zone: "UTC" }), "days")
+			.as("days"),
+	);
+
+const addDays = (dayISO: string, days: number) =>
+	DateTime.fromISO(dayISO, { zone: "UTC" }).plus({ days }).toISODate() ??
+	dayISO;
+
+// Resolve which step of a taper applies on a given local day
+export function getActiveTaperStep(
+	steps: TaperStep[] | null | undefined,
+	startDate: string,
+	dayISO: string,
+): ActiveTaperStep | null {
+	if (!steps || steps.length === 0) return null;
+
+	const offset = daysBetween(startDate, dayISO);
+	if (offset < 0) return null;
+
+	let stepStart = 0;
+	for (const [index, step] of steps.entries()) {
+		const stepEnd = stepStart + step.durationDays;
+		if (offset < stepEnd) {
+			return {
+				step,
+				index,
+				dayOfStep: offset - stepStart + 1,
+				startDay: addDays(startDate, stepStart),
+				endDay: addDays(startDate, stepEnd - 1),
+			};
+		}
+		stepStart = stepEnd;
+	}
+
+	return null;
+}
+
+// Last local day covered by the taper (inclusive)
+export function getTaperEndDate(steps: TaperStep[], startDate: string) {
+	const totalDays = steps.reduce((sum, step) => sum + step.durationDays, 0);
+	return addDays(startDate, Math.max(totalDays - 1, 0));
+}
+
+export function formatTaperStep(step: TaperStep) {
+	const perDay = step.timesLocal.length;
+	const frequency = perDay === 1 ? "once daily" : `${perDay}x daily`;
+	const days = step.durationDays === 1 ? "1 day" : `${step.durationDays} days`;
+	return `${step.dose} ${frequency} for ${days}`;
+}
+
+export interface DailySchedule {
+	timesLocal: string[];
+	dose: string | null;
+	taperStep: ActiveTaperStep | null;
+}
+
+// Times and dose that apply to a FIXED or TAPER regimen on a given local day
+export function resolveDailySchedule(
+	regimen: {
+		scheduleType: string;
+		timesLocal: string[] | null;
+		taperSteps?: TaperStep[] | null;
+		startDate?: string;
+		dose: string | null;
+	},
+	dayISO: string,
+): DailySchedule | null {
+	if (regimen.scheduleType === "FIXED") {
+		return regimen.timesLocal && regimen.timesLocal.length > 0
+			? { timesLocal: regimen.timesLocal, dose: regimen.dose, taperStep: null }
+			: null;
+	}
+
+	if (regimen.scheduleType === "TAPER" && regimen.startDate) {
+		const active = getActiveTaperStep(
+			regimen.taperSteps,
+			regimen.startDate,
+			dayISO,
+		);
+		return active
+			? {
+					timesLocal: active.step.timesLocal,
+					dose: active.step.dose,
+					taperStep: active,
+				}
+			: null;
+	}
+
+	return null;
+}
+
+export type IntervalMode = "ROLLING" | "SCHEDULE";
+
+// First INTERVAL slot: start date at the first configured time (or midnight) local
+export function getIntervalAnchor(
+	regimen: { startDate: string; timesLocal: string[] | null },
+	tz: string,
+): Date {
+	const firstTime = regimen.timesLocal?.[0] ?? "00:00";
+	return (
+		expandFixedTimes([firstTime], regimen.startDate, tz)[0] ??
+		new Date(`${regimen.startDate}T00:00:00Z`)
+	);
+}
+
+/**
+ * Next due time for an INTERVAL regimen.
+ *
+ * ROLLING: intervalHours after the last non-missed dose.
+ * SCHEDULE: fixed slots every intervalHours from the anchor; a slot counts as
+ * covered when the closest slot to the last dose is at or after it, and an
+ * uncovered slot is skipped once its cutoff has passed.
+ */
+export function computeIntervalDueTime({
+	intervalHours,
+	mode,
+	anchor,
+	lastDoseAt,
+	now,
+	cutoffMinutes,
+}: {
+	intervalHours: number;
+	mode: IntervalMode;
+	anchor: Date;
+	lastDoseAt: Date | null;
+	now: Date;
+	cutoffMinutes: number;
+}): Date {
+	const intervalMs = intervalHours * 60 * 60 * 1000;
+
+	if (mode === "ROLLING") {
+		return lastDoseAt
+			? new Date(lastDoseAt.getTime() + intervalMs)
+			: new Date(anchor);
+	}
+
+	if (now.getTime() < anchor.getTime()) {
+		return new Date(anchor);
+	}
+
+	const currentIndex = Math.floor(
+		(now.getTime() - anchor.getTime()) / intervalMs,
+	);
+	const coveredIndex = lastDoseAt
+		? Math.round((lastDoseAt.getTime() - anchor.getTime()) / intervalMs)
+		: -1;
+	const currentSlot = anchor.getTime() + currentIndex * intervalMs;
+
+	if (
+		coveredIndex >= currentIndex ||
+		now.getTime() - currentSlot > cutoffMinutes * 60 * 1000
+	) {
+		return new Date(
+			anchor.getTime() +
+				Math.max(currentIndex, coveredIndex) * intervalMs +
+				intervalMs,
+		);
+	}
+
+	return new Date(currentSlot);
+}
+
+export interface ScheduledSlot {
+	dueAt: Date;
+	dayISO: string; // local day the slot falls on
+	slotIndex: number; // stable position within the local day
+}
+
+export interface SlotRegimen {
+	scheduleType: string;
+	timesLocal: string[] | null;
+	intervalHours: number | null;
+	intervalMode: IntervalMode;
+	taperSteps?: TaperStep[] | null;
+	startDate: string;
+	endDate: string | null;
+	dose: string | null;
+}
+
+const withinRegimenDates = (regimen: SlotRegimen, dayISO: string) =>
+	dayISO >= regimen.startDate &&
+	(!regimen.endDate || dayISO <= regimen.endDate);
+
+function expandDailySlots(
+	regimen: SlotRegimen,
+	tz: string,
+	from: Date,
+	to: Date,
+): ScheduledSlot[] {
+	const slots: ScheduledSlot[] = [];
+	const lastDay = localDayISO(to, tz);
+
+	for (let day = localDayISO(from, tz); day <= lastDay; day = addDays(day, 1)) {
+		if (!withinRegimenDates(regimen, day)) continue;
+
+		const schedule = resolveDailySchedule(regimen, day);
+		if (!schedule) continue;
+
+		for (const [slotIndex, dueAt] of expandFixedTimes(
+			schedule.timesLocal,
+			day,
+			tz,
+		).entries()) {
+			if (dueAt >= from && dueAt <= to) {
+				slots.push({ dueAt, dayISO: day, slotIndex });
+			}
+		}
+	}
+
+	return slots;
+}
+
+function expandIntervalSlots(
+	regimen: SlotRegimen,
+	tz: string,
+	from: Date,
+	to: Date,
+	lastDoseAt: Date | null,
+): ScheduledSlot[] {
+	if (!regimen.intervalHours || regimen.intervalHours <= 0) return [];
+
+	const intervalMs = regimen.intervalHours * 60 * 60 * 1000;
+	// ROLLING cadence restarts from the last dose; without one it follows the anchor
+	const base =
+		regimen.intervalMode === "ROLLING" && lastDoseAt
+			? lastDoseAt.getTime() + intervalMs
+			: getIntervalAnchor(regimen, tz).getTime();
+
+	const slots: ScheduledSlot[] = [];
+	const firstStep = Math.max(
+		0,
+		Math.ceil((from.getTime() - base) / intervalMs),
+	);
+
+	for (
+		let time = base + firstStep * intervalMs;
+		time <= to.getTime();
+		time += intervalMs
+	) {
+		const slot = toIntervalSlot(regimen, tz, new Date(time));
+		if (slot) slots.push(slot);
+	}
+
+	return slots;
+}
+
+// The slot an interval dose falls in, or null outside the regimen's dates
+function toIntervalSlot(
+	regimen: SlotRegimen,
+	tz: string,
+	dueAt: Date,
+): ScheduledSlot | null {
+	const dayISO = localDayISO(dueAt, tz);
+	if (!regimen.intervalHours || !withinRegimenDates(regimen, dayISO)) {
+		return null;
+	}
+
+	const local = toAnimalLocal(dueAt, tz);
+	const minuteOfDay = local.hour * 60 + local.minute;
+	return {
+		dueAt,
+		dayISO,
+		slotIndex: Math.floor(minuteOfDay / (regimen.intervalHours * 60)),
+	};
+}
+
+/**
+ * Slots a ROLLING interval regimen missed between two instants. Its cadence
+ * restarts at every dose, so each gap between consecutive doses (or since the
+ * last one) that runs past the interval plus `graceMs` holds one missed slot
+ * per interval elapsed. Without a dose before `from` the cadence starts there.
+ */
+export function findMissedRollingSlots(
+	regimen: SlotRegimen,
+	tz: string,
+	from: Date,
+	to: Date,
+	recordedAt: Date[],
+	graceMs: number,
+	previousDoseAt: Date | null = null,
+): ScheduledSlot[] {
+	if (!regimen.intervalHours || regimen.intervalHours <= 0) return [];
+
+	const intervalMs = regimen.intervalHours * 60 * 60 * 1000;
+	const doses = recordedAt
+		.map((time) => time.getTime())
+		.filter((time) => time <= to.getTime())
+		.sort((a, b) => a - b);
+
+	const earlier = doses.filter((time) => time < from.getTime());
+	if (previousDoseAt) earlier.push(previousDoseAt.getTime());
+	let reference = earlier.length > 0 ? Math.max(...earlier) : from.getTime();
+
+	const missed: ScheduledSlot[] = [];
+	// Each gap ends at the next dose; the last one runs until `to`
+	for (const end of [
+		...doses.filter((time) => time >= from.getTime()),
+		to.getTime(),
+	]) {
+		// Skip ahead to the first slot inside the window
+		const first = reference + intervalMs;
+		const skipped = Math.max(
+			0,
+			Math.ceil((from.getTime() - first) / intervalMs),
+		);
+		for (
+			let due = first + skipped * intervalMs;
+			due + graceMs < end;
+			due += intervalMs
+		) {
+			const slot = toIntervalSlot(regimen, tz, new Date(due));
+			if (slot) missed.push(slot);
+		}
+		reference = end;
+	}
+
+	return missed;
+}
+
+// Every scheduled slot of a FIXED, TAPER or INTERVAL regimen between two instants
+export function expandScheduleSlots(
+	regimen: SlotRegimen,
+	tz: string,
+	from: Date,
+	to: Date,
+	lastDoseAt: Date | null = null,
+): ScheduledSlot[] {
+	if (regimen.scheduleType === "INTERVAL") {
+		return expandIntervalSlots(regimen, tz, from, to, lastDoseAt);
+	}
+	return expandDailySlots(regimen, tz, from, to);
+}
+
+/**
+ * Slots with no administration assigned to them. Each recorded administration
+ * covers the slot closest to it, matching how admin.create picks scheduledFor.
+ */
+export function findUncoveredSlots(
+	slots: ScheduledSlot[],
+	recordedAt: Date[],
+): ScheduledSlot[] {
+	if (slots.length === 0) return [];
+
+	const covered = new Set<number>();
+	for (const recorded of recordedAt) {
+		let closest = 0;
+		let minDiff = Number.POSITIVE_INFINITY;
+		for (const [index, slot] of slots.entries()) {
+			const diff = Math.abs(slot.dueAt.getTime() - recorded.getTime());
+			if (diff < minDiff) {
+				minDiff = diff;
+				closest = index;
+			}
+		}
+		covered.add(closest);
+	}
+
+	return slots.filter((_, index) => !covered.has(index));
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { getSpeciesSafety, rankBySpeciesSafety } from "./species-safety";
+
+const permethrin = {
+	genericName: "Permethrin",
+	speciesSafety: {
+		dog: { level: "ALLOWED" as const },
+		cat: {
+			level: "CONTRAINDICATED" as const,
+			note: "Highly toxic to cats",
+		},
+	},
+};
+const meloxicam = {
+	genericName: "Meloxicam",
+	speciesSafety: {
+		dog: { level: "ALLOWED" as const },
+		cat: { level: "CAUTION" as const },
+	},
+};
+const cetirizine = { genericName: "Cetirizine", speciesSafety: null };
+
+describe("getSpeciesSafety", () => {
+	it("normalizes the animal's species before looking it up", () => {
+		expect(getSpeciesSafety(permethrin.speciesSafety, "Feline")).toEqual({
+			level: "CONTRAINDICATED",
+			note: "Highly toxic to cats",
+		});
+		expect(getSpeciesSafety(permethrin.speciesSafety, "Rabbit")).toBeNull();
+		expect(getSpeciesSafety(null, "Cat")).toBeNull();
+	});
+});
+
+describe("rankBySpeciesSafety", () => {
+	it("puts contraindicated medications last for the species", () => {
+		const ranked = rankBySpeciesSafety(
+			[meloxicam, permethrin, cetirizine],
+			"Cat",
+		);
+
+		expect(ranked.map((med) => med.genericName)).toEqual([
+			"Cetirizine",
+			"Meloxicam",
+			"Permethrin",
+		]);
+		expect(ranked.map((med) => med.safetyForSpecies?.level)).toEqual([
+			undefined,
+			"CAUTION",
+			"CONTRAINDICATED",
+		]);
+	});
+
+	it("keeps the incoming order among equally safe medications", () => {
+		const ranked = rankBySpeciesSafety([meloxicam, permethrin], "Dog");
+		expect(ranked.map((med) => med.genericName)).toEqual([
+			"Meloxicam",
+			"Permethrin",
+		]);
+	});
+});
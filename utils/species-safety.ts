@@ -0,0 +1,50 @@
+import { normalizeSpecies } from "./contraindications";
+
+export type SpeciesSafetyLevel = "ALLOWED" | "CAUTION" | "CONTRAINDICATED";
+
+export interface SpeciesSafetyEntry {
+	level: SpeciesSafetyLevel;
+	note?: string;
+}
+
+// Catalog metadata keyed by normalized species, e.g. { cat: { level: ... } }
+export type SpeciesSafety = Record<string, SpeciesSafetyEntry>;
+
+// Search ordering: known-safe first, then unlisted, then flagged
+const RANK: Record<SpeciesSafetyLevel | "UNLISTED", number> = {
+	ALLOWED: 0,
+	UNLISTED: 1,
+	CAUTION: 2,
+	CONTRAINDICATED: 3,
+};
+
+/**
+ * What the catalog says about giving a medication to a species, or null when
+ * it has no entry for that species.
+ */
+export function getSpeciesSafety(
+	speciesSafety: SpeciesSafety | null | undefined,
+	species: string,
+): SpeciesSafetyEntry | null {
+	return speciesSafety?.[normalizeSpecies(species)] ?? null;
+}
+
+/**
+ * Label medications with their safety for a species and order them so that
+ * ones contraindicated for it sink to the bottom. The sort is stable, so the
+ * incoming (alphabetical) order is kept within each level.
+ */
+export function rankBySpeciesSafety<
+	T extends { speciesSafety?: SpeciesSafety | null },
+>(medications: T[], species: string) {
+	return medications
+		.map((medication) => ({
+			...medication,
+			safetyForSpecies: getSpeciesSafety(medication.speciesSafety, species),
+		}))
+		.sort(
+			(a, b) =>
+				RANK[a.safetyForSpecies?.level ?? "UNLISTED"] -
+				RANK[b.safetyForSpecies?.level ?? "UNLISTED"],
+		);
+}